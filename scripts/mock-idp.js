@@ -0,0 +1,247 @@
+/**
+ * Mock OAuth2 / OIDC Identity Provider
+ *
+ * A local issuer for testing LedgerView's authentication flows without a
+ * real IdP:
+ * - OpenID discovery at /.well-known/openid-configuration
+ * - Authorization code flow with PKCE (S256), via a one-field login page
+ * - Client credentials and refresh token grants
+ * - HS256-signed tokens with short lifetimes, to exercise refreshing
+ *
+ * Tokens are accepted by a participant configured with the same secret:
+ *
+ *   canton.participants.<name>.ledger-api.auth-services = [{
+ *     type = unsafe-jwt-hmac-256
+ *     secret = "<MOCK_IDP_SECRET>"
+ *   }]
+ *
+ * Usage: npm run mock-idp
+ *
+ * Environment:
+ *   MOCK_IDP_PORT            listen port (8089)
+ *   MOCK_IDP_SECRET          HMAC signing secret ("secret")
+ *   MOCK_IDP_TOKEN_TTL       access token lifetime in seconds (300)
+ *   MOCK_IDP_USER            default user ID on the login page ("participant_admin")
+ *   MOCK_IDP_CLIENT_SECRET   secret for client credentials ("ledgerview-secret")
+ *   MOCK_IDP_AUDIENCE        default audience claim (none)
+ *   MOCK_IDP_ACT_AS          comma-separated parties; issues custom Daml tokens
+ *   MOCK_IDP_READ_AS         comma-separated parties for custom Daml tokens
+ */
+
+import { createHash, createHmac, randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.MOCK_IDP_PORT || 8089);
+const ISSUER = `http://localhost:${PORT}`;
+const SECRET = process.env.MOCK_IDP_SECRET || 'secret';
+const TOKEN_TTL = Number(process.env.MOCK_IDP_TOKEN_TTL || 300);
+const DEFAULT_USER = process.env.MOCK_IDP_USER || 'participant_admin';
+const CLIENT_SECRET = process.env.MOCK_IDP_CLIENT_SECRET || 'ledgerview-secret';
+const AUDIENCE = process.env.MOCK_IDP_AUDIENCE;
+const parties = (value) => (value ? value.split(',').map((p) => p.trim()).filter(Boolean) : []);
+const ACT_AS = parties(process.env.MOCK_IDP_ACT_AS);
+const READ_AS = parties(process.env.MOCK_IDP_READ_AS);
+
+/** Issued codes and refresh tokens; codes are single-use */
+const codes = new Map();
+const refreshTokens = new Map();
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+const base64Url = (value) => Buffer.from(value).toString('base64url');
+
+function signJwt(claims) {
+    const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64Url(JSON.stringify(claims));
+    const signature = createHmac('sha256', SECRET).update(`${header}.${payload}`).digest('base64url');
+    return `${header}.${payload}.${signature}`;
+}
+
+function issueTokens({ userId, clientId, audience, scope, withRefresh }) {
+    const now = Math.floor(Date.now() / 1000);
+    const claims = {
+        iss: ISSUER,
+        sub: userId,
+        aud: audience || AUDIENCE,
+        scope: scope || 'daml_ledger_api',
+        iat: now,
+        exp: now + TOKEN_TTL,
+    };
+    if (ACT_AS.length > 0 || READ_AS.length > 0) {
+        claims['https://daml.com/ledger-api'] = { applicationId: userId, actAs: ACT_AS, readAs: READ_AS };
+    }
+
+    const response = {
+        access_token: signJwt(claims),
+        token_type: 'Bearer',
+        expires_in: TOKEN_TTL,
+        scope: claims.scope,
+    };
+    if (withRefresh) {
+        const refreshToken = randomBytes(24).toString('base64url');
+        refreshTokens.set(refreshToken, { userId, clientId, audience, scope });
+        response.refresh_token = refreshToken;
+        response.id_token = signJwt({ iss: ISSUER, sub: userId, aud: clientId, iat: now, exp: now + TOKEN_TTL });
+    }
+    return response;
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+function send(res, status, body, headers = {}) {
+    res.writeHead(status, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Content-Type': typeof body === 'string' ? 'text/html; charset=utf-8' : 'application/json',
+        ...headers,
+    });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+const oauthError = (res, error, description, status = 400) =>
+    send(res, status, { error, error_description: description });
+
+async function readForm(req) {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    return Object.fromEntries(new URLSearchParams(body));
+}
+
+const escapeHtml = (value) =>
+    String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+function loginPage(params) {
+    const hidden = Object.entries(params)
+        .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+        .join('');
+    return `<!doctype html>
+<html><head><title>Mock IdP</title>
+<style>body{font-family:system-ui;display:flex;justify-content:center;padding-top:15vh}
+form{display:flex;flex-direction:column;gap:12px;width:320px}input,button{padding:8px;font-size:14px}</style>
+</head><body><form method="post" action="/authorize">
+<h2>Mock IdP sign-in</h2>
+<label>User ID <input name="user_id" value="${escapeHtml(DEFAULT_USER)}" autofocus></label>
+${hidden}<button type="submit">Sign in</button>
+<small>Client ${escapeHtml(params.client_id || '')}</small>
+</form></body></html>`;
+}
+
+async function handleAuthorize(req, res, url) {
+    const params = req.method === 'POST' ? await readForm(req) : Object.fromEntries(url.searchParams);
+    if (params.response_type !== 'code' || !params.redirect_uri || !params.client_id) {
+        return oauthError(res, 'invalid_request', 'response_type=code, client_id and redirect_uri are required');
+    }
+    if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+        return oauthError(res, 'invalid_request', 'PKCE with code_challenge_method=S256 is required');
+    }
+    if (req.method !== 'POST') {
+        return send(res, 200, loginPage(params));
+    }
+
+    const code = randomBytes(16).toString('base64url');
+    codes.set(code, {
+        userId: params.user_id || DEFAULT_USER,
+        clientId: params.client_id,
+        redirectUri: params.redirect_uri,
+        challenge: params.code_challenge,
+        audience: params.audience,
+        scope: params.scope,
+        expiresAt: Date.now() + 60_000,
+    });
+
+    const redirect = new URL(params.redirect_uri);
+    redirect.searchParams.set('code', code);
+    if (params.state) redirect.searchParams.set('state', params.state);
+    send(res, 302, '', { Location: redirect.toString() });
+}
+
+async function handleToken(req, res) {
+    const form = await readForm(req);
+
+    switch (form.grant_type) {
+        case 'authorization_code': {
+            const grant = codes.get(form.code);
+            codes.delete(form.code);
+            if (!grant || grant.expiresAt < Date.now()) {
+                return oauthError(res, 'invalid_grant', 'Unknown or expired authorization code');
+            }
+            if (grant.redirectUri !== form.redirect_uri || grant.clientId !== form.client_id) {
+                return oauthError(res, 'invalid_grant', 'redirect_uri or client_id does not match the authorization request');
+            }
+            const challenge = createHash('sha256').update(form.code_verifier || '').digest('base64url');
+            if (challenge !== grant.challenge) {
+                return oauthError(res, 'invalid_grant', 'PKCE verification failed');
+            }
+            return send(res, 200, issueTokens({ ...grant, withRefresh: true }));
+        }
+
+        case 'refresh_token': {
+            const grant = refreshTokens.get(form.refresh_token);
+            if (!grant) {
+                return oauthError(res, 'invalid_grant', 'Unknown refresh token');
+            }
+            // Refresh tokens rotate
+            refreshTokens.delete(form.refresh_token);
+            return send(res, 200, issueTokens({ ...grant, withRefresh: true }));
+        }
+
+        case 'client_credentials': {
+            if (form.client_secret !== CLIENT_SECRET) {
+                return oauthError(res, 'invalid_client', 'Bad client credentials', 401);
+            }
+            return send(res, 200, issueTokens({
+                userId: form.client_id,
+                clientId: form.client_id,
+                audience: form.audience,
+                scope: form.scope,
+                withRefresh: false,
+            }));
+        }
+
+        default:
+            return oauthError(res, 'unsupported_grant_type', `Unsupported grant_type ${form.grant_type}`);
+    }
+}
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url, ISSUER);
+    console.log(`${req.method} ${url.pathname}`);
+
+    try {
+        if (req.method === 'OPTIONS') {
+            return send(res, 204, '');
+        }
+        if (url.pathname === '/.well-known/openid-configuration') {
+            return send(res, 200, {
+                issuer: ISSUER,
+                authorization_endpoint: `${ISSUER}/authorize`,
+                token_endpoint: `${ISSUER}/token`,
+                grant_types_supported: ['authorization_code', 'client_credentials', 'refresh_token'],
+                response_types_supported: ['code'],
+                code_challenge_methods_supported: ['S256'],
+                id_token_signing_alg_values_supported: ['HS256'],
+            });
+        }
+        if (url.pathname === '/authorize') {
+            return await handleAuthorize(req, res, url);
+        }
+        if (url.pathname === '/token' && req.method === 'POST') {
+            return await handleToken(req, res);
+        }
+        send(res, 404, { error: 'not_found' });
+    } catch (error) {
+        oauthError(res, 'server_error', error instanceof Error ? error.message : String(error), 500);
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Mock IdP listening on ${ISSUER} (tokens live ${TOKEN_TTL}s)`);
+    console.log(`  client credentials: any client_id, client_secret=${CLIENT_SECRET}`);
+    if (ACT_AS.length > 0 || READ_AS.length > 0) {
+        console.log(`  custom Daml tokens: actAs=${ACT_AS.join(',')} readAs=${READ_AS.join(',')}`);
+    }
+});
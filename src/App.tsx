@@ -11,10 +11,22 @@ import Layout from './components/Layout';
 import ConnectionForm from './components/ConnectionForm';
 import Dashboard from './pages/Dashboard';
 import ContractsBrowser from './pages/ContractsBrowser';
+import ContractDetail from './pages/ContractDetail';
+import KeyLookup from './pages/KeyLookup';
 import Transactions from './pages/Transactions';
+import TransactionDetail from './pages/TransactionDetail';
+import Completions from './pages/Completions';
+import Workflows from './pages/Workflows';
 import Templates from './pages/Templates';
+import Packages from './pages/Packages';
+import UpgradeCheck from './pages/UpgradeCheck';
+import PrivacyComparison from './pages/PrivacyComparison';
+import Parties from './pages/Parties';
+import Users from './pages/Users';
 import NodeHealth from './pages/NodeHealth';
 import ScanExplorer from './pages/ScanExplorer';
+import Settings from './pages/Settings';
+import AuthCallback from './pages/AuthCallback';
 import './index.css';
 
 /**
@@ -57,6 +69,9 @@ export function App() {
                     }
                 />
 
+                {/* OAuth2 login return (public) */}
+                <Route path="/auth/callback" element={<AuthCallback />} />
+
                 {/* Explorer (public) */}
                 <Route path="/explorer" element={<Layout />}>
                     <Route index element={<ScanExplorer />} />
@@ -73,12 +88,20 @@ export function App() {
                 >
                     <Route index element={<Dashboard />} />
                     <Route path="contracts" element={<ContractsBrowser />} />
-                    <Route path="contracts/:contractId" element={<div>Contract Detail (TODO)</div>} />
+                    <Route path="contracts/:contractId" element={<ContractDetail />} />
+                    <Route path="keys" element={<KeyLookup />} />
                     <Route path="transactions" element={<Transactions />} />
-                    <Route path="transactions/:updateId" element={<div>Transaction Detail (TODO)</div>} />
+                    <Route path="transactions/:updateId" element={<TransactionDetail />} />
+                    <Route path="completions" element={<Completions />} />
+                    <Route path="workflows" element={<Workflows />} />
                     <Route path="templates" element={<Templates />} />
+                    <Route path="packages" element={<Packages />} />
+                    <Route path="upgrades" element={<UpgradeCheck />} />
+                    <Route path="compare" element={<PrivacyComparison />} />
+                    <Route path="parties" element={<Parties />} />
+                    <Route path="users" element={<Users />} />
                     <Route path="health" element={<NodeHealth />} />
-                    <Route path="settings" element={<div>Settings (TODO)</div>} />
+                    <Route path="settings" element={<Settings />} />
                 </Route>
 
                 {/* Fallback */}
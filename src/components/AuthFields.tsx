@@ -0,0 +1,174 @@
+/**
+ * AuthFields Component
+ *
+ * Authentication part of a connection, shared by the connection form and
+ * connection profiles:
+ * - Pasted bearer token, with its decoded rights
+ * - OAuth2 login (authorization code with PKCE)
+ * - OAuth2 client credentials for service accounts
+ */
+
+import type { ConnectionConfig, OAuthConfig, OAuthFlow } from '../types/canton';
+import TokenDetails from './TokenDetails';
+
+export type AuthSettings = Pick<ConnectionConfig, 'authToken' | 'oauth'>;
+
+type AuthMode = 'token' | OAuthFlow;
+
+interface AuthFieldsProps {
+    /** Prefix for input IDs, so several forms can share a page */
+    idPrefix: string;
+    value: AuthSettings;
+    onChange: (value: AuthSettings) => void;
+}
+
+const AUTH_MODES: { mode: AuthMode; label: string }[] = [
+    { mode: 'token', label: 'Bearer token' },
+    { mode: 'authorization-code', label: 'OAuth2 login' },
+    { mode: 'client-credentials', label: 'Client credentials' },
+];
+
+export function AuthFields({ idPrefix, value, onChange }: AuthFieldsProps) {
+    const mode: AuthMode = value.oauth?.flow ?? 'token';
+    const oauth = value.oauth;
+
+    const setMode = (next: AuthMode) => {
+        if (next === 'token') {
+            onChange({ authToken: value.oauth ? undefined : value.authToken });
+        } else {
+            onChange({
+                oauth: { issuer: '', clientId: '', ...value.oauth, flow: next },
+            });
+        }
+    };
+
+    const updateOAuth = (changes: Partial<OAuthConfig>) => {
+        if (!oauth) return;
+        onChange({ oauth: { ...oauth, ...changes } });
+    };
+
+    const field = (
+        name: keyof OAuthConfig,
+        label: string,
+        options: { type?: string; placeholder?: string; required?: boolean } = {}
+    ) => (
+        <div className="input-group">
+            <label htmlFor={`${idPrefix}-${name}`} className="input-label">{label}</label>
+            <input
+                id={`${idPrefix}-${name}`}
+                type={options.type ?? 'text'}
+                className="input"
+                value={(oauth?.[name] as string | undefined) ?? ''}
+                onChange={(e) => updateOAuth({ [name]: e.target.value || undefined })}
+                placeholder={options.placeholder}
+                required={options.required}
+            />
+        </div>
+    );
+
+    return (
+        <div className="auth-fields">
+            <div className="auth-modes" role="radiogroup" aria-label="Authentication">
+                {AUTH_MODES.map((option) => (
+                    <button
+                        key={option.mode}
+                        type="button"
+                        role="radio"
+                        aria-checked={mode === option.mode}
+                        className={`auth-mode ${mode === option.mode ? 'active' : ''}`}
+                        onClick={() => setMode(option.mode)}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            {mode === 'token' ? (
+                <>
+                    <div className="input-group">
+                        <label htmlFor={`${idPrefix}-token`} className="input-label">Auth Token (Optional)</label>
+                        <input
+                            id={`${idPrefix}-token`}
+                            type="password"
+                            className="input"
+                            value={value.authToken ?? ''}
+                            onChange={(e) => onChange({ authToken: e.target.value || undefined })}
+                            placeholder="Bearer token (if required)"
+                        />
+                    </div>
+                    {value.authToken && <TokenDetails token={value.authToken} />}
+                </>
+            ) : (
+                <>
+                    {field('issuer', 'Issuer URL', { type: 'url', placeholder: 'http://localhost:8089', required: true })}
+                    {field('clientId', 'Client ID', { placeholder: 'ledgerview', required: true })}
+                    {mode === 'client-credentials' &&
+                        field('clientSecret', 'Client Secret', { type: 'password', required: true })}
+                    {field('audience', 'Audience (Optional)', { placeholder: 'https://daml.com/jwt/aud/participant/…' })}
+                    {field('scope', 'Scope (Optional)', {
+                        placeholder: mode === 'client-credentials' ? 'daml_ledger_api' : 'openid offline_access daml_ledger_api',
+                    })}
+                    <details className="auth-advanced">
+                        <summary>Endpoints (for issuers without OpenID discovery)</summary>
+                        {mode === 'authorization-code' &&
+                            field('authorizationEndpoint', 'Authorization Endpoint', { type: 'url' })}
+                        {field('tokenEndpoint', 'Token Endpoint', { type: 'url' })}
+                    </details>
+                </>
+            )}
+
+            <style>{`
+        .auth-fields {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-4);
+        }
+
+        .auth-modes {
+          display: flex;
+          gap: var(--space-1);
+          padding: var(--space-1);
+          background: var(--bg-tertiary);
+          border-radius: var(--radius-lg);
+        }
+
+        .auth-mode {
+          flex: 1;
+          padding: var(--space-2);
+          font-size: var(--text-xs);
+          font-weight: var(--font-medium);
+          color: var(--text-secondary);
+          background: none;
+          border: none;
+          border-radius: var(--radius-md);
+          cursor: pointer;
+        }
+
+        .auth-mode.active {
+          background: var(--bg-secondary);
+          color: var(--text-primary);
+          box-shadow: var(--shadow-sm);
+        }
+
+        .auth-advanced {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-4);
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .auth-advanced summary {
+          cursor: pointer;
+          margin-bottom: var(--space-2);
+        }
+
+        .auth-advanced .input-group + .input-group {
+          margin-top: var(--space-4);
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default AuthFields;
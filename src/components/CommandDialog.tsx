@@ -0,0 +1,541 @@
+/**
+ * CommandDialog Component
+ *
+ * Modal for submitting commands to the ledger:
+ * - Create (optionally followed by a choice: create-and-exercise)
+ * - Exercise by contract ID or by contract key
+ * - Arguments as generated forms when the DamlType is known, JSON otherwise
+ * - Command ID, actAs / readAs, workflow ID and deduplication
+ */
+
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { X, Send, Loader2, CheckCircle, AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { useCommands, usePartyLens } from '../services/store';
+import { generateCommandId } from '../services/cantonClient';
+import { initialArgumentState, resolveArgument, type ArgumentState } from '../services/damlValue';
+import { ArgumentEditor, type DamlFormContext } from './DamlValueForm';
+import type { Command, Contract, TemplateId, Transaction } from '../types/canton';
+
+export type CommandDialogMode = 'create' | 'exercise';
+
+interface CommandDialogProps {
+    mode: CommandDialogMode;
+    templateId: TemplateId;
+    /** Target contract when exercising */
+    contract?: Contract;
+    onClose: () => void;
+}
+
+type ExerciseTarget = 'contractId' | 'contractKey';
+
+function parsePartyList(text: string): string[] {
+    return text
+        .split(/[\s,]+/)
+        .map((p) => p.trim())
+        .filter(Boolean);
+}
+
+export function CommandDialog({ mode, templateId, contract, onClose }: CommandDialogProps) {
+    const { activeParty, availableParties, contracts, templates, submitCommands } = useCommands();
+    const { getPartyAccess } = usePartyLens();
+    const template = templates.get(templateId);
+
+    // Command payload state
+    const [createArguments, setCreateArguments] = useState<ArgumentState>(
+        () => initialArgumentState(template?.argType, '{\n  \n}')
+    );
+    const [andExercise, setAndExercise] = useState(false);
+    const [target, setTarget] = useState<ExerciseTarget>('contractId');
+    const [choice, setChoice] = useState('');
+    const [choiceArguments, setChoiceArguments] = useState<Record<string, ArgumentState>>({});
+
+    // Submission options
+    const [showOptions, setShowOptions] = useState(false);
+    const [commandId, setCommandId] = useState(generateCommandId);
+    const [actAs, setActAs] = useState(activeParty?.partyId || '');
+    const [readAs, setReadAs] = useState('');
+    const [workflowId, setWorkflowId] = useState('');
+    const [deduplicationSeconds, setDeduplicationSeconds] = useState('');
+
+    // Submission state
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<Transaction | null>(null);
+    const [attempted, setAttempted] = useState(false);
+
+    const knownChoices = useMemo(() => template?.choices.map((c) => c.name) ?? [], [template]);
+    const choiceType = template?.choices.find((c) => c.name === choice.trim())?.argType;
+    // Each choice keeps its own argument so switching back and forth loses nothing
+    const choiceArgument = choiceArguments[choice.trim()] ?? initialArgumentState(choiceType);
+    const setChoiceArgument = (state: ArgumentState) =>
+        setChoiceArguments((prev) => ({ ...prev, [choice.trim()]: state }));
+
+    const formContext = useMemo<DamlFormContext>(
+        () => ({
+            parties: availableParties.map((p) => p.partyId),
+            contracts: Array.from(contracts.values()),
+        }),
+        [availableParties, contracts]
+    );
+
+    const hasKey = contract?.contractKey !== undefined && contract?.contractKey !== null;
+    const needsChoice = mode === 'exercise' || andExercise;
+
+    const buildCommand = (): Command => {
+        if (needsChoice && !choice.trim()) {
+            throw new Error('Choice name is required');
+        }
+
+        if (mode === 'create') {
+            const args = resolveArgument('Create arguments', createArguments, template?.argType) as Record<string, unknown>;
+            if (!andExercise) {
+                return { CreateCommand: { templateId, createArguments: args } };
+            }
+            return {
+                CreateAndExerciseCommand: {
+                    templateId,
+                    createArguments: args,
+                    choice: choice.trim(),
+                    choiceArgument: resolveArgument('Choice argument', choiceArgument, choiceType),
+                },
+            };
+        }
+
+        if (!contract) {
+            throw new Error('No contract selected');
+        }
+        const argument = resolveArgument('Choice argument', choiceArgument, choiceType);
+        if (target === 'contractKey') {
+            return {
+                ExerciseByKeyCommand: {
+                    templateId,
+                    contractKey: contract.contractKey,
+                    choice: choice.trim(),
+                    choiceArgument: argument,
+                },
+            };
+        }
+        return {
+            ExerciseCommand: {
+                templateId,
+                contractId: contract.contractId,
+                choice: choice.trim(),
+                choiceArgument: argument,
+            },
+        };
+    };
+
+    // Submitting as a party the credentials cannot act as would be rejected
+    const unauthorizedActAs = parsePartyList(actAs).filter((party) => getPartyAccess(party) !== 'act');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setResult(null);
+        setAttempted(true);
+
+        let command: Command;
+        try {
+            command = buildCommand();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Invalid command');
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const transaction = await submitCommands([command], {
+                commandId: commandId.trim() || undefined,
+                actAs: parsePartyList(actAs),
+                readAs: parsePartyList(readAs),
+                workflowId: workflowId.trim() || undefined,
+                deduplicationSeconds: deduplicationSeconds ? Number(deduplicationSeconds) : undefined,
+            });
+            setResult(transaction);
+            // A resubmission must not be deduplicated against this one
+            setCommandId(generateCommandId());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Submission failed');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const createdContracts = result?.events.filter((e) => e.type === 'created') ?? [];
+
+    return (
+        <div className="command-dialog-backdrop" onMouseDown={onClose}>
+            <form
+                className="command-dialog"
+                onSubmit={handleSubmit}
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className="command-dialog-header">
+                    <div>
+                        <h2 className="command-dialog-title">
+                            {mode === 'create' ? 'New Contract' : 'Exercise Choice'}
+                        </h2>
+                        <code className="command-dialog-template">{templateId}</code>
+                    </div>
+                    <button type="button" className="btn btn-icon btn-ghost" onClick={onClose} aria-label="Close">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="command-dialog-body">
+                    {mode === 'exercise' && contract && (
+                        <div className="input-group">
+                            <span className="input-label">Target</span>
+                            <div className="target-toggle">
+                                <label>
+                                    <input
+                                        type="radio"
+                                        checked={target === 'contractId'}
+                                        onChange={() => setTarget('contractId')}
+                                    />
+                                    Contract ID <code>{contract.contractId.substring(0, 16)}...</code>
+                                </label>
+                                <label className={hasKey ? '' : 'disabled'}>
+                                    <input
+                                        type="radio"
+                                        checked={target === 'contractKey'}
+                                        onChange={() => setTarget('contractKey')}
+                                        disabled={!hasKey}
+                                    />
+                                    Contract key {hasKey ? '' : '(template has no key)'}
+                                </label>
+                            </div>
+                        </div>
+                    )}
+
+                    {mode === 'create' && (
+                        <div className="input-group">
+                            <ArgumentEditor
+                                id="create-arguments"
+                                label="Create Arguments"
+                                type={template?.argType}
+                                state={createArguments}
+                                onChange={setCreateArguments}
+                                context={formContext}
+                                showErrors={attempted}
+                                rows={8}
+                            />
+                            <label className="checkbox-label">
+                                <input
+                                    type="checkbox"
+                                    checked={andExercise}
+                                    onChange={(e) => setAndExercise(e.target.checked)}
+                                />
+                                Exercise a choice on the new contract in the same transaction
+                            </label>
+                        </div>
+                    )}
+
+                    {needsChoice && (
+                        <>
+                            <div className="input-group">
+                                <label htmlFor="choice-name" className="input-label">
+                                    Choice
+                                </label>
+                                <input
+                                    id="choice-name"
+                                    className="input"
+                                    value={choice}
+                                    onChange={(e) => setChoice(e.target.value)}
+                                    placeholder="e.g. Transfer"
+                                    list="known-choices"
+                                    required
+                                />
+                                <datalist id="known-choices">
+                                    {knownChoices.map((name) => (
+                                        <option key={name} value={name} />
+                                    ))}
+                                </datalist>
+                            </div>
+                            <ArgumentEditor
+                                id="choice-argument"
+                                label="Choice Argument"
+                                type={choiceType}
+                                state={choiceArgument}
+                                onChange={setChoiceArgument}
+                                context={formContext}
+                                showErrors={attempted}
+                            />
+                        </>
+                    )}
+
+                    {/* Submission Options */}
+                    <button
+                        type="button"
+                        className="options-toggle"
+                        onClick={() => setShowOptions(!showOptions)}
+                    >
+                        {showOptions ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                        Submission options
+                    </button>
+
+                    {showOptions && (
+                        <div className="options-grid">
+                            <div className="input-group">
+                                <label htmlFor="command-id" className="input-label">Command ID</label>
+                                <input
+                                    id="command-id"
+                                    className="input mono"
+                                    value={commandId}
+                                    onChange={(e) => setCommandId(e.target.value)}
+                                />
+                            </div>
+                            <div className="input-group">
+                                <label htmlFor="workflow-id" className="input-label">Workflow ID</label>
+                                <input
+                                    id="workflow-id"
+                                    className="input"
+                                    value={workflowId}
+                                    onChange={(e) => setWorkflowId(e.target.value)}
+                                    placeholder="Optional"
+                                />
+                            </div>
+                            <div className="input-group">
+                                <label htmlFor="act-as" className="input-label">Act As</label>
+                                <input
+                                    id="act-as"
+                                    className="input mono"
+                                    value={actAs}
+                                    onChange={(e) => setActAs(e.target.value)}
+                                    placeholder="Comma-separated party IDs"
+                                />
+                            </div>
+                            <div className="input-group">
+                                <label htmlFor="read-as" className="input-label">Read As</label>
+                                <input
+                                    id="read-as"
+                                    className="input mono"
+                                    value={readAs}
+                                    onChange={(e) => setReadAs(e.target.value)}
+                                    placeholder="Comma-separated party IDs"
+                                />
+                            </div>
+                            <div className="input-group">
+                                <label htmlFor="dedup" className="input-label">Deduplication (seconds)</label>
+                                <input
+                                    id="dedup"
+                                    type="number"
+                                    min={1}
+                                    className="input"
+                                    value={deduplicationSeconds}
+                                    onChange={(e) => setDeduplicationSeconds(e.target.value)}
+                                    placeholder="Participant default"
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {unauthorizedActAs.length > 0 && (
+                        <div className="error-banner">
+                            <AlertCircle size={18} />
+                            <span>
+                                Your credentials cannot act as {unauthorizedActAs.map((p) => p.split('::')[0]).join(', ')}
+                                {' '}({unauthorizedActAs.some((p) => getPartyAccess(p) === 'read') ? 'read-only access' : 'no access'}).
+                                Pick a party you can act as under Submission options.
+                            </span>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="error-banner">
+                            <AlertCircle size={18} />
+                            <span>{error}</span>
+                        </div>
+                    )}
+
+                    {result && (
+                        <div className="success-banner">
+                            <CheckCircle size={18} />
+                            <div className="result-content">
+                                <span>
+                                    Committed at offset {result.offset.toLocaleString()} —{' '}
+                                    <Link to={`/transactions/${encodeURIComponent(result.updateId)}`} onClick={onClose}>
+                                        view transaction
+                                    </Link>
+                                </span>
+                                {createdContracts.map((event) => (
+                                    <Link
+                                        key={event.eventId}
+                                        to={`/contracts/${encodeURIComponent(event.contractId)}`}
+                                        onClick={onClose}
+                                        className="mono text-xs"
+                                    >
+                                        + {event.templateId.split(':').pop()} {event.contractId.substring(0, 16)}...
+                                    </Link>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="command-dialog-footer">
+                    <button type="button" className="btn btn-secondary" onClick={onClose}>
+                        {result ? 'Close' : 'Cancel'}
+                    </button>
+                    <button
+                        type="submit"
+                        className="btn btn-primary"
+                        disabled={isSubmitting || unauthorizedActAs.length > 0}
+                    >
+                        {isSubmitting ? <Loader2 size={16} className="spinner" /> : <Send size={16} />}
+                        Submit
+                    </button>
+                </div>
+            </form>
+
+            <style>{`
+        .command-dialog-backdrop {
+          position: fixed;
+          inset: 0;
+          background: rgb(0 0 0 / 0.4);
+          display: flex;
+          align-items: flex-start;
+          justify-content: center;
+          padding: var(--space-12) var(--space-4);
+          z-index: var(--z-modal);
+          overflow-y: auto;
+        }
+
+        .command-dialog {
+          width: 100%;
+          max-width: 640px;
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-xl);
+          box-shadow: var(--shadow-xl);
+        }
+
+        .command-dialog-header {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+          padding: var(--space-5) var(--space-6);
+          border-bottom: 1px solid var(--border-primary);
+        }
+
+        .command-dialog-title {
+          font-size: var(--text-xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+        }
+
+        .command-dialog-template {
+          font-family: var(--font-mono);
+          font-size: var(--text-xs);
+          color: var(--text-tertiary);
+          word-break: break-all;
+        }
+
+        .command-dialog-body {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-4);
+          padding: var(--space-6);
+        }
+
+        .json-input {
+          font-family: var(--font-mono);
+          font-size: var(--text-xs);
+          resize: vertical;
+        }
+
+        .target-toggle {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+          font-size: var(--text-sm);
+        }
+
+        .target-toggle label,
+        .checkbox-label {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .target-toggle label.disabled {
+          color: var(--text-tertiary);
+        }
+
+        .checkbox-label {
+          margin-top: var(--space-2);
+        }
+
+        .options-toggle {
+          display: flex;
+          align-items: center;
+          gap: var(--space-1);
+          background: none;
+          border: none;
+          padding: 0;
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+          cursor: pointer;
+        }
+
+        .options-grid {
+          display: grid;
+          grid-template-columns: repeat(2, minmax(0, 1fr));
+          gap: var(--space-4);
+        }
+
+        .options-grid .input-group:first-child {
+          grid-column: 1 / -1;
+        }
+
+        .command-dialog .error-banner,
+        .command-dialog .success-banner {
+          display: flex;
+          align-items: flex-start;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          border-radius: var(--radius-lg);
+          font-size: var(--text-sm);
+          word-break: break-word;
+        }
+
+        .command-dialog .error-banner {
+          background: rgba(239, 68, 68, 0.05);
+          border: 1px solid var(--color-error-500);
+          color: var(--color-error-600);
+        }
+
+        .command-dialog .success-banner {
+          background: rgba(34, 197, 94, 0.05);
+          border: 1px solid var(--color-success-500);
+          color: var(--color-success-600);
+        }
+
+        .result-content {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+        }
+
+        .result-content a {
+          color: inherit;
+          text-decoration: underline;
+        }
+
+        .command-dialog-footer {
+          display: flex;
+          justify-content: flex-end;
+          gap: var(--space-2);
+          padding: var(--space-4) var(--space-6);
+          border-top: 1px solid var(--border-primary);
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default CommandDialog;
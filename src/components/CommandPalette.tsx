@@ -0,0 +1,431 @@
+/**
+ * CommandPalette Component
+ *
+ * ⌘K / Ctrl+K palette over the cached ledger:
+ * - Searches contract IDs, update IDs, parties, templates and payload values
+ * - Jumps straight to the matching detail page
+ * - Actions: navigate, switch party, toggle live updates, observer view, theme
+ * - Keyboard driven: ↑/↓ to move, Enter to run, Esc to close
+ */
+
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    Search,
+    FileText,
+    KeyRound,
+    Activity,
+    ListChecks,
+    GitMerge,
+    User,
+    Package,
+    Boxes,
+    GitBranch,
+    GitCompareArrows,
+    Users,
+    UserCog,
+    LayoutDashboard,
+    HeartPulse,
+    Globe,
+    Settings,
+    Radio,
+    Eye,
+    Moon,
+    LogOut,
+    CornerDownLeft,
+    type LucideIcon,
+} from 'lucide-react';
+import {
+    useConnection,
+    useContracts,
+    useLiveStream,
+    usePartyLens,
+    useTemplateCatalog,
+    useTransactions,
+    useUI,
+} from '../services/store';
+import { resultPath, searchLedger } from '../services/search';
+import { CONTRACT_ROLES, CONTRACT_ROLE_LABELS } from '../services/partyLens';
+import type { SearchResult } from '../types/canton';
+
+interface CommandPaletteProps {
+    onClose: () => void;
+}
+
+interface PaletteItem {
+    id: string;
+    group: string;
+    label: string;
+    description?: string;
+    icon: LucideIcon;
+    /** Extra words the item is found by */
+    keywords?: string;
+    run: () => void;
+}
+
+const RESULT_ICONS: Record<SearchResult['type'], LucideIcon> = {
+    contract: FileText,
+    transaction: Activity,
+    party: User,
+    template: Package,
+};
+
+const RESULT_GROUPS: Record<SearchResult['type'], string> = {
+    contract: 'Contracts',
+    transaction: 'Transactions',
+    party: 'Parties',
+    template: 'Templates',
+};
+
+/**
+ * Mounted only while open, so the cache is not searched in the background.
+ */
+export function CommandPalette({ onClose }: CommandPaletteProps) {
+    const navigate = useNavigate();
+    const { searchQuery, setSearchQuery, darkMode, toggleDarkMode } = useUI();
+    const { status, disconnect } = useConnection();
+    const { contractMap, archivedContracts } = useContracts();
+    const { transactions } = useTransactions();
+    const { templates } = useTemplateCatalog();
+    const { activeParty, availableParties, readableParties, visibleRoles, setActiveParty, toggleRole } =
+        usePartyLens();
+    const { streamStatus, startStreaming, stopStreaming } = useLiveStream();
+
+    const [activeIndex, setActiveIndex] = useState(0);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+    // Searching large caches must not block typing
+    const deferredQuery = useDeferredValue(searchQuery);
+
+    // Reopening keeps the last query, selected for overtyping
+    useEffect(() => {
+        inputRef.current?.select();
+    }, []);
+
+    const actions = useMemo<PaletteItem[]>(() => {
+        const go = (path: string) => () => navigate(path);
+        const pages: PaletteItem[] = status.connected
+            ? [
+                { id: 'go:dashboard', group: 'Go to', label: 'Dashboard', icon: LayoutDashboard, run: go('/') },
+                { id: 'go:contracts', group: 'Go to', label: 'Contracts', icon: FileText, run: go('/contracts') },
+                { id: 'go:keys', group: 'Go to', label: 'Key Lookup', icon: KeyRound, keywords: 'contract key history lookup', run: go('/keys') },
+                { id: 'go:transactions', group: 'Go to', label: 'Transactions', icon: Activity, run: go('/transactions') },
+                { id: 'go:completions', group: 'Go to', label: 'Command Completions', icon: ListChecks, keywords: 'rejected failed command status error submission', run: go('/completions') },
+                { id: 'go:workflows', group: 'Go to', label: 'Workflows', icon: GitMerge, keywords: 'workflow command correlation timeline dvp process', run: go('/workflows') },
+                { id: 'go:templates', group: 'Go to', label: 'Templates', icon: Package, run: go('/templates') },
+                { id: 'go:upgrades', group: 'Go to', label: 'Upgrade Check', icon: GitBranch, keywords: 'scu smart contract upgrade compatibility version', run: go('/upgrades') },
+                { id: 'go:packages', group: 'Go to', label: 'Packages', icon: Boxes, keywords: 'dar upload vetting dependencies', run: go('/packages') },
+                { id: 'go:parties', group: 'Go to', label: 'Parties', icon: Users, keywords: 'allocate party admin namespace', run: go('/parties') },
+                { id: 'go:users', group: 'Go to', label: 'Users & Rights', icon: UserCog, keywords: 'user rights actAs readAs admin grant revoke', run: go('/users') },
+                { id: 'go:compare', group: 'Go to', label: 'Privacy Comparison', icon: GitCompareArrows, keywords: 'privacy party diff', run: go('/compare') },
+                { id: 'go:health', group: 'Go to', label: 'Node Health', icon: HeartPulse, keywords: 'status health', run: go('/health') },
+                { id: 'go:settings', group: 'Go to', label: 'Settings', icon: Settings, keywords: 'cache', run: go('/settings') },
+            ]
+            : [];
+        pages.push({ id: 'go:explorer', group: 'Go to', label: 'Scan Explorer', icon: Globe, run: go('/explorer') });
+
+        const commands: PaletteItem[] = [];
+        if (activeParty) {
+            const isLive = streamStatus === 'live' || streamStatus === 'connecting' || streamStatus === 'reconnecting';
+            commands.push({
+                id: 'cmd:live',
+                group: 'Actions',
+                label: isLive ? 'Pause live updates' : 'Resume live updates',
+                icon: Radio,
+                keywords: 'stream websocket',
+                run: () => (isLive ? stopStreaming() : startStreaming()),
+            });
+            commands.push(...CONTRACT_ROLES.map((role): PaletteItem => ({
+                id: `cmd:role:${role}`,
+                group: 'Actions',
+                label: `${visibleRoles.includes(role) ? 'Hide' : 'Show'} ${CONTRACT_ROLE_LABELS[role].toLowerCase()} contracts`,
+                icon: Eye,
+                keywords: 'role filter observer signatory witness divulged',
+                run: () => toggleRole(role),
+            })));
+        }
+        commands.push({
+            id: 'cmd:theme',
+            group: 'Actions',
+            label: darkMode ? 'Switch to light mode' : 'Switch to dark mode',
+            icon: Moon,
+            keywords: 'theme',
+            run: toggleDarkMode,
+        });
+        if (status.connected) {
+            commands.push({ id: 'cmd:disconnect', group: 'Actions', label: 'Disconnect', icon: LogOut, run: disconnect });
+        }
+
+        const parties: PaletteItem[] = readableParties
+            .filter((p) => p.partyId !== activeParty?.partyId)
+            .map((party) => ({
+                id: `party:${party.partyId}`,
+                group: 'Switch party',
+                label: `Switch to ${party.displayName || party.partyId.split('::')[0]}`,
+                description: party.partyId,
+                icon: User,
+                keywords: `party lens ${party.partyId}`,
+                run: () => setActiveParty(party),
+            }));
+
+        return [...pages, ...commands, ...parties];
+    }, [
+        navigate, status.connected, activeParty, readableParties, streamStatus, visibleRoles, darkMode,
+        startStreaming, stopStreaming, toggleRole, toggleDarkMode, disconnect, setActiveParty,
+    ]);
+
+    const items = useMemo<PaletteItem[]>(() => {
+        const query = deferredQuery.trim().toLowerCase();
+        const matchingActions = actions.filter((item) =>
+            !query || `${item.label} ${item.keywords ?? ''}`.toLowerCase().includes(query)
+        );
+
+        const results = searchLedger(
+            {
+                contracts: contractMap.values(),
+                archivedContracts: archivedContracts.values(),
+                transactions,
+                parties: availableParties,
+                templates: templates.values(),
+            },
+            // Parties are offered as "switch party" actions instead
+            { text: deferredQuery, types: ['contract', 'transaction', 'template'] }
+        ).map<PaletteItem>((result) => ({
+            id: `${result.type}:${result.id}`,
+            group: RESULT_GROUPS[result.type],
+            label: result.label,
+            description: result.description,
+            icon: RESULT_ICONS[result.type],
+            run: () => {
+                const path = resultPath(result);
+                if (path) navigate(path);
+            },
+        }));
+
+        // Ledger matches first once the user types; actions first otherwise
+        return query ? [...results, ...matchingActions] : matchingActions;
+    }, [deferredQuery, actions, contractMap, archivedContracts, transactions, availableParties, templates, navigate]);
+
+    // Keep the highlighted item in view
+    useEffect(() => {
+        listRef.current
+            ?.querySelector(`[data-index="${activeIndex}"]`)
+            ?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    const runItem = (item: PaletteItem | undefined) => {
+        if (!item) return;
+        onClose();
+        setSearchQuery('');
+        item.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        switch (e.key) {
+            case 'ArrowDown':
+                e.preventDefault();
+                setActiveIndex((i) => Math.min(items.length - 1, i + 1));
+                break;
+            case 'ArrowUp':
+                e.preventDefault();
+                setActiveIndex((i) => Math.max(0, i - 1));
+                break;
+            case 'Enter':
+                e.preventDefault();
+                runItem(items[activeIndex]);
+                break;
+            case 'Escape':
+                e.preventDefault();
+                onClose();
+                break;
+        }
+    };
+
+    return (
+        <div className="palette-overlay" onMouseDown={onClose}>
+            <div
+                className="palette"
+                role="dialog"
+                aria-label="Command palette"
+                onMouseDown={(e) => e.stopPropagation()}
+                onKeyDown={handleKeyDown}
+            >
+                <div className="palette-search">
+                    <Search size={18} className="palette-search-icon" />
+                    <input
+                        ref={inputRef}
+                        autoFocus
+                        value={searchQuery}
+                        onChange={(e) => {
+                            setSearchQuery(e.target.value);
+                            setActiveIndex(0);
+                        }}
+                        placeholder="Search contract IDs, update IDs, templates, payloads… or type a command"
+                        className="palette-input"
+                    />
+                    <kbd className="palette-kbd">Esc</kbd>
+                </div>
+
+                <div className="palette-results" ref={listRef}>
+                    {items.length === 0 ? (
+                        <div className="palette-empty">
+                            No matches in the cached ledger. Paste a full contract or update ID to open it directly.
+                        </div>
+                    ) : (
+                        items.map((item, index) => {
+                            const Icon = item.icon;
+                            const showGroup = index === 0 || items[index - 1].group !== item.group;
+                            return (
+                                <div key={item.id}>
+                                    {showGroup && <div className="palette-group">{item.group}</div>}
+                                    <button
+                                        data-index={index}
+                                        className={`palette-item ${index === activeIndex ? 'active' : ''}`}
+                                        onMouseMove={() => setActiveIndex(index)}
+                                        onClick={() => runItem(item)}
+                                    >
+                                        <Icon size={16} className="palette-item-icon" />
+                                        <span className="palette-item-text">
+                                            <span className="palette-item-label">{item.label}</span>
+                                            {item.description && (
+                                                <span className="palette-item-description">{item.description}</span>
+                                            )}
+                                        </span>
+                                        {index === activeIndex && <CornerDownLeft size={14} className="palette-item-enter" />}
+                                    </button>
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+
+                <style>{`
+          .palette-overlay {
+            position: fixed;
+            inset: 0;
+            background: rgba(0, 0, 0, 0.4);
+            display: flex;
+            justify-content: center;
+            align-items: flex-start;
+            padding-top: 12vh;
+            z-index: var(--z-modal);
+          }
+
+          .palette {
+            width: min(640px, 92vw);
+            background: var(--bg-secondary);
+            border: 1px solid var(--border-primary);
+            border-radius: var(--radius-xl);
+            box-shadow: var(--shadow-xl);
+            overflow: hidden;
+          }
+
+          .palette-search {
+            display: flex;
+            align-items: center;
+            gap: var(--space-3);
+            padding: var(--space-3) var(--space-4);
+            border-bottom: 1px solid var(--border-primary);
+          }
+
+          .palette-search-icon {
+            color: var(--text-tertiary);
+            flex-shrink: 0;
+          }
+
+          .palette-input {
+            flex: 1;
+            border: none;
+            outline: none;
+            background: transparent;
+            font-size: var(--text-base);
+            color: var(--text-primary);
+          }
+
+          .palette-kbd {
+            padding: var(--space-1) var(--space-2);
+            font-size: var(--text-xs);
+            color: var(--text-tertiary);
+            border: 1px solid var(--border-primary);
+            border-radius: var(--radius-md);
+          }
+
+          .palette-results {
+            max-height: 420px;
+            overflow-y: auto;
+            padding: var(--space-2);
+          }
+
+          .palette-group {
+            padding: var(--space-2) var(--space-3) var(--space-1);
+            font-size: var(--text-xs);
+            font-weight: var(--font-semibold);
+            text-transform: uppercase;
+            letter-spacing: 0.05em;
+            color: var(--text-tertiary);
+          }
+
+          .palette-item {
+            width: 100%;
+            display: flex;
+            align-items: center;
+            gap: var(--space-3);
+            padding: var(--space-2) var(--space-3);
+            background: none;
+            border: none;
+            border-radius: var(--radius-md);
+            color: var(--text-primary);
+            text-align: left;
+            cursor: pointer;
+          }
+
+          .palette-item.active {
+            background: var(--bg-tertiary);
+          }
+
+          .palette-item-icon {
+            color: var(--text-tertiary);
+            flex-shrink: 0;
+          }
+
+          .palette-item-text {
+            flex: 1;
+            min-width: 0;
+            display: flex;
+            flex-direction: column;
+          }
+
+          .palette-item-label,
+          .palette-item-description {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+          }
+
+          .palette-item-label {
+            font-size: var(--text-sm);
+          }
+
+          .palette-item-description {
+            font-size: var(--text-xs);
+            color: var(--text-tertiary);
+            font-family: var(--font-mono);
+          }
+
+          .palette-item-enter {
+            color: var(--text-tertiary);
+          }
+
+          .palette-empty {
+            padding: var(--space-6);
+            text-align: center;
+            font-size: var(--text-sm);
+            color: var(--text-tertiary);
+          }
+        `}</style>
+            </div>
+        </div>
+    );
+}
+
+export default CommandPalette;
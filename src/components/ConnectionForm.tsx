@@ -3,14 +3,18 @@
  * 
  * Allows users to connect to a Canton participant node by providing:
  * - Participant endpoint (JSON Ledger API URL)
- * - Optional auth token
+ * - Authentication: bearer token, OAuth2 login or client credentials
+ * - Saved connection profiles, connected to in one click
  * - Connection status indicator
  */
 
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Server, Key, AlertCircle, CheckCircle, Loader2, Globe } from 'lucide-react';
-import { useConnection, useScanStore } from '../services/store';
+import { Server, AlertCircle, CheckCircle, Loader2, Globe, ChevronRight } from 'lucide-react';
+import { useAuth, useConnection, useProfiles, useScanStore } from '../services/store';
+import { beginAuthorization } from '../services/auth';
+import AuthFields, { type AuthSettings } from './AuthFields';
+import type { ConnectionProfile } from '../types/canton';
 
 interface ConnectionFormProps {
     onConnected?: () => void;
@@ -20,8 +24,10 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
     const navigate = useNavigate();
     const { status, connect } = useConnection();
     const { scanConfig, setScanConfig } = useScanStore();
+    const { profiles, switchProfile } = useProfiles();
+    const { authError } = useAuth();
     const [endpoint, setEndpoint] = useState('http://localhost:7575');
-    const [authToken, setAuthToken] = useState('');
+    const [auth, setAuth] = useState<AuthSettings>({});
     const [scanUrl, setScanUrl] = useState(scanConfig.url);
     const [memberId, setMemberId] = useState(scanConfig.memberId);
     const [isConnecting, setIsConnecting] = useState(false);
@@ -36,10 +42,11 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
             if (scanUrl.trim()) {
                 setScanConfig(scanUrl.trim(), memberId.trim());
             }
-            const success = await connect({
-                endpoint,
-                authToken: authToken || undefined,
-            });
+            // The login continues on the issuer's page and returns to the callback route
+            if (auth.oauth?.flow === 'authorization-code') {
+                await beginAuthorization({ endpoint, oauth: auth.oauth });
+            }
+            const success = await connect({ endpoint, ...auth });
 
             if (success) {
                 onConnected?.();
@@ -53,6 +60,21 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
         }
     };
 
+    const handleProfileConnect = async (profile: ConnectionProfile) => {
+        setError(null);
+        setIsConnecting(true);
+
+        try {
+            if (await switchProfile(profile.id)) {
+                onConnected?.();
+            } else {
+                setError(`Failed to connect with profile "${profile.name}"`);
+            }
+        } finally {
+            setIsConnecting(false);
+        }
+    };
+
     const handleScanOnly = () => {
         setError(null);
         if (scanUrl.trim()) {
@@ -76,6 +98,27 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
                     </p>
                 </div>
 
+                {profiles.length > 0 && (
+                    <div className="saved-profiles">
+                        <span className="input-label">Saved Profiles</span>
+                        {profiles.map((profile) => (
+                            <button
+                                key={profile.id}
+                                type="button"
+                                className="saved-profile"
+                                onClick={() => handleProfileConnect(profile)}
+                                disabled={isConnecting}
+                            >
+                                <span className="saved-profile-text">
+                                    <span className="saved-profile-name">{profile.name}</span>
+                                    <span className="saved-profile-endpoint">{profile.connection.endpoint}</span>
+                                </span>
+                                <ChevronRight size={16} />
+                            </button>
+                        ))}
+                    </div>
+                )}
+
                 <div className="form-fields">
                     <div className="input-group">
                         <label htmlFor="endpoint" className="input-label">
@@ -98,22 +141,7 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
                         </p>
                     </div>
 
-                    <div className="input-group">
-                        <label htmlFor="auth-token" className="input-label">
-                            Auth Token (Optional)
-                        </label>
-                        <div className="input-with-icon">
-                            <Key className="input-icon" size={18} />
-                            <input
-                                id="auth-token"
-                                type="password"
-                                value={authToken}
-                                onChange={(e) => setAuthToken(e.target.value)}
-                                placeholder="Bearer token (if required)"
-                                className="input"
-                            />
-                        </div>
-                    </div>
+                    <AuthFields idPrefix="connect-auth" value={auth} onChange={setAuth} />
 
                     <div className="input-group">
                         <label htmlFor="scan-url" className="input-label">
@@ -153,10 +181,10 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
                     </div>
                 </div>
 
-                {error && (
+                {(error || authError) && (
                     <div className="error-banner">
                         <AlertCircle size={18} />
-                        <span>{error}</span>
+                        <span>{error || authError}</span>
                     </div>
                 )}
 
@@ -179,6 +207,8 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
                         </>
                     ) : status.connected ? (
                         'Reconnect'
+                    ) : auth.oauth?.flow === 'authorization-code' ? (
+                        'Sign in and Connect'
                     ) : (
                         'Connect'
                     )}
@@ -241,6 +271,54 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
           color: var(--text-tertiary);
         }
 
+        .saved-profiles {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+          margin-bottom: var(--space-6);
+          padding-bottom: var(--space-6);
+          border-bottom: 1px solid var(--border-primary);
+        }
+
+        .saved-profile {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: var(--space-3);
+          padding: var(--space-3) var(--space-4);
+          background: var(--bg-tertiary);
+          border: 1px solid transparent;
+          border-radius: var(--radius-lg);
+          color: var(--text-tertiary);
+          text-align: left;
+          cursor: pointer;
+          transition: border-color var(--transition-fast);
+        }
+
+        .saved-profile:hover:not(:disabled) {
+          border-color: var(--accent-primary);
+        }
+
+        .saved-profile-text {
+          display: flex;
+          flex-direction: column;
+          min-width: 0;
+        }
+
+        .saved-profile-name {
+          font-size: var(--text-sm);
+          font-weight: var(--font-semibold);
+          color: var(--text-primary);
+        }
+
+        .saved-profile-endpoint {
+          font-size: var(--text-xs);
+          font-family: var(--font-mono);
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
         .form-fields {
           display: flex;
           flex-direction: column;
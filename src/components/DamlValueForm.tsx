@@ -0,0 +1,608 @@
+/**
+ * DamlValueForm Component
+ *
+ * Renders validated inputs for a DamlType:
+ * - Party pickers fed by the available parties
+ * - Contract ID pickers fed by the loaded contracts
+ * - Date / time pickers, checkboxes and enum selects
+ * - Nested record, variant, list, optional and map editors
+ * - Raw JSON for types a form cannot express
+ *
+ * ArgumentEditor wraps the form with a raw JSON fallback.
+ */
+
+import { useId, useMemo } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+    defaultDraft,
+    describeType,
+    fromLedgerValue,
+    toLedgerValue,
+    validateDraft,
+    type ArgumentState,
+    type DamlDraft,
+} from '../services/damlValue';
+import type { Contract, DamlType, PartyId } from '../types/canton';
+
+/** Ledger data offered as suggestions by party and contract ID inputs */
+export interface DamlFormContext {
+    parties: PartyId[];
+    contracts: Contract[];
+}
+
+interface DamlValueInputProps {
+    type: DamlType;
+    value: DamlDraft;
+    onChange: (value: DamlDraft) => void;
+    path: string;
+    context: DamlFormContext;
+    errors: Map<string, string>;
+}
+
+type DraftObject = { [field: string]: DamlDraft };
+
+const asObject = (value: DamlDraft): DraftObject =>
+    value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+const asList = (value: DamlDraft): DamlDraft[] => (Array.isArray(value) ? value : []);
+
+const childPath = (path: string, segment: string | number) =>
+    path ? `${path}.${segment}` : String(segment);
+
+/** Matches `ContractId T` against contracts, ignoring the package ID when absent */
+function matchesTemplate(contract: Contract, templateId: string): boolean {
+    if (!templateId) return true;
+    if (contract.templateId === templateId) return true;
+    const [, moduleName, entityName] = templateId.split(':');
+    return !!entityName && contract.templateId.endsWith(`:${moduleName}:${entityName}`);
+}
+
+function FieldError({ path, errors }: { path: string; errors: Map<string, string> }) {
+    const message = errors.get(path);
+    return message ? <span className="daml-field-error">{message}</span> : null;
+}
+
+export function DamlValueInput({ type, value, onChange, path, context, errors }: DamlValueInputProps) {
+    const listId = useId();
+    const invalid = errors.has(path) ? 'invalid' : '';
+
+    switch (type.tag) {
+        case 'unit':
+            return <span className="text-xs text-tertiary">No value</span>;
+
+        case 'bool':
+            return (
+                <label className="daml-checkbox">
+                    <input type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} />
+                    {value === true ? 'True' : 'False'}
+                </label>
+            );
+
+        case 'text':
+            return (
+                <input className="input" value={String(value ?? '')} onChange={(e) => onChange(e.target.value)} />
+            );
+
+        case 'int64':
+        case 'decimal':
+        case 'numeric':
+            return (
+                <>
+                    <input
+                        className={`input mono ${invalid}`}
+                        inputMode={type.tag === 'int64' ? 'numeric' : 'decimal'}
+                        value={String(value ?? '')}
+                        onChange={(e) => onChange(e.target.value)}
+                        placeholder={type.tag === 'int64' ? '0' : '0.0'}
+                    />
+                    <FieldError path={path} errors={errors} />
+                </>
+            );
+
+        case 'party':
+            return (
+                <>
+                    <input
+                        className={`input mono ${invalid}`}
+                        value={String(value ?? '')}
+                        onChange={(e) => onChange(e.target.value)}
+                        list={listId}
+                        placeholder="Party ID"
+                    />
+                    <datalist id={listId}>
+                        {context.parties.map((party) => (
+                            <option key={party} value={party}>
+                                {party.split('::')[0]}
+                            </option>
+                        ))}
+                    </datalist>
+                    <FieldError path={path} errors={errors} />
+                </>
+            );
+
+        case 'contractId': {
+            const candidates = context.contracts.filter((c) => matchesTemplate(c, type.templateId));
+            return (
+                <>
+                    <input
+                        className={`input mono ${invalid}`}
+                        value={String(value ?? '')}
+                        onChange={(e) => onChange(e.target.value)}
+                        list={listId}
+                        placeholder={`Contract ID (${candidates.length} loaded)`}
+                    />
+                    <datalist id={listId}>
+                        {candidates.map((contract) => (
+                            <option key={contract.contractId} value={contract.contractId}>
+                                {contract.templateId.split(':').pop()} @ {contract.offset}
+                            </option>
+                        ))}
+                    </datalist>
+                    <FieldError path={path} errors={errors} />
+                </>
+            );
+        }
+
+        case 'date':
+            return (
+                <>
+                    <input
+                        type="date"
+                        className={`input ${invalid}`}
+                        value={String(value ?? '')}
+                        onChange={(e) => onChange(e.target.value)}
+                    />
+                    <FieldError path={path} errors={errors} />
+                </>
+            );
+
+        case 'timestamp':
+            return (
+                <>
+                    <input
+                        type="datetime-local"
+                        step={1}
+                        className={`input ${invalid}`}
+                        value={String(value ?? '')}
+                        onChange={(e) => onChange(e.target.value)}
+                    />
+                    <FieldError path={path} errors={errors} />
+                </>
+            );
+
+        case 'unknown':
+            return (
+                <>
+                    <textarea
+                        className={`input json-input ${invalid}`}
+                        value={String(value ?? '')}
+                        onChange={(e) => onChange(e.target.value)}
+                        rows={3}
+                        spellCheck={false}
+                        placeholder="JSON value"
+                    />
+                    <FieldError path={path} errors={errors} />
+                </>
+            );
+
+        case 'enum':
+            return (
+                <select className="input" value={String(value ?? '')} onChange={(e) => onChange(e.target.value)}>
+                    {type.constructors.map((name) => (
+                        <option key={name} value={name}>{name}</option>
+                    ))}
+                </select>
+            );
+
+        case 'optional': {
+            const isSome = value !== null;
+            const inner = asObject(value).some ?? null;
+            return (
+                <div className="daml-nested">
+                    <label className="daml-checkbox">
+                        <input
+                            type="checkbox"
+                            checked={isSome}
+                            onChange={(e) => onChange(e.target.checked ? { some: defaultDraft(type.elementType) } : null)}
+                        />
+                        {isSome ? 'Some' : 'None'}
+                    </label>
+                    {isSome && (
+                        <DamlValueInput
+                            type={type.elementType}
+                            value={inner}
+                            onChange={(next) => onChange({ some: next })}
+                            path={path}
+                            context={context}
+                            errors={errors}
+                        />
+                    )}
+                </div>
+            );
+        }
+
+        case 'list': {
+            const items = asList(value);
+            return (
+                <div className="daml-nested">
+                    {items.map((item, i) => (
+                        <div key={i} className="daml-list-item">
+                            <span className="daml-index mono">{i}</span>
+                            <div className="daml-list-value">
+                                <DamlValueInput
+                                    type={type.elementType}
+                                    value={item}
+                                    onChange={(next) => onChange(items.map((it, j) => (j === i ? next : it)))}
+                                    path={childPath(path, i)}
+                                    context={context}
+                                    errors={errors}
+                                />
+                            </div>
+                            <button
+                                type="button"
+                                className="btn btn-icon btn-ghost btn-sm"
+                                onClick={() => onChange(items.filter((_, j) => j !== i))}
+                                aria-label="Remove item"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        type="button"
+                        className="btn btn-ghost btn-sm daml-add"
+                        onClick={() => onChange([...items, defaultDraft(type.elementType)])}
+                    >
+                        <Plus size={14} />
+                        Add item
+                    </button>
+                </div>
+            );
+        }
+
+        case 'map':
+        case 'textMap': {
+            const keyType: DamlType = type.tag === 'map' ? type.keyType : { tag: 'text' };
+            const entries = asList(value).map((entry) => asList(entry));
+            const setEntry = (i: number, slot: 0 | 1, next: DamlDraft) =>
+                onChange(entries.map((entry, j) => {
+                    if (j !== i) return entry;
+                    const updated = [...entry];
+                    updated[slot] = next;
+                    return updated;
+                }));
+            return (
+                <div className="daml-nested">
+                    {entries.map(([key, item], i) => (
+                        <div key={i} className="daml-map-entry">
+                            <DamlValueInput
+                                type={keyType}
+                                value={key ?? null}
+                                onChange={(next) => setEntry(i, 0, next)}
+                                path={childPath(childPath(path, i), 'key')}
+                                context={context}
+                                errors={errors}
+                            />
+                            <span className="text-tertiary">→</span>
+                            <DamlValueInput
+                                type={type.valueType}
+                                value={item ?? null}
+                                onChange={(next) => setEntry(i, 1, next)}
+                                path={childPath(childPath(path, i), 'value')}
+                                context={context}
+                                errors={errors}
+                            />
+                            <button
+                                type="button"
+                                className="btn btn-icon btn-ghost btn-sm"
+                                onClick={() => onChange(entries.filter((_, j) => j !== i))}
+                                aria-label="Remove entry"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        type="button"
+                        className="btn btn-ghost btn-sm daml-add"
+                        onClick={() => onChange([...entries, [defaultDraft(keyType), defaultDraft(type.valueType)]])}
+                    >
+                        <Plus size={14} />
+                        Add entry
+                    </button>
+                </div>
+            );
+        }
+
+        case 'record': {
+            const record = asObject(value);
+            return (
+                <div className="daml-record">
+                    {type.fields.map((field) => (
+                        <div key={field.name} className="daml-field">
+                            <div className="daml-field-label">
+                                <span>{field.name}</span>
+                                <span className="daml-type-hint">{describeType(field.type)}</span>
+                            </div>
+                            <DamlValueInput
+                                type={field.type}
+                                value={record[field.name] ?? null}
+                                onChange={(next) => onChange({ ...record, [field.name]: next })}
+                                path={childPath(path, field.name)}
+                                context={context}
+                                errors={errors}
+                            />
+                        </div>
+                    ))}
+                    {type.fields.length === 0 && <span className="text-xs text-tertiary">No fields</span>}
+                </div>
+            );
+        }
+
+        case 'variant': {
+            const variant = asObject(value);
+            const constructor = type.constructors.find((c) => c.name === variant.tag);
+            return (
+                <div className="daml-nested">
+                    <select
+                        className={`input ${invalid}`}
+                        value={constructor?.name ?? ''}
+                        onChange={(e) => {
+                            const next = type.constructors.find((c) => c.name === e.target.value);
+                            if (next) onChange({ tag: next.name, value: defaultDraft(next.type) });
+                        }}
+                    >
+                        {!constructor && <option value="">Select constructor…</option>}
+                        {type.constructors.map((c) => (
+                            <option key={c.name} value={c.name}>{c.name}</option>
+                        ))}
+                    </select>
+                    <FieldError path={path} errors={errors} />
+                    {constructor && constructor.type.tag !== 'unit' && (
+                        <DamlValueInput
+                            type={constructor.type}
+                            value={variant.value ?? null}
+                            onChange={(next) => onChange({ tag: constructor.name, value: next })}
+                            path={childPath(path, constructor.name)}
+                            context={context}
+                            errors={errors}
+                        />
+                    )}
+                </div>
+            );
+        }
+    }
+}
+
+interface DamlValueFormProps {
+    type: DamlType;
+    value: DamlDraft;
+    onChange: (value: DamlDraft) => void;
+    context: DamlFormContext;
+    /** Show validation messages (typically after a submit attempt) */
+    showErrors?: boolean;
+}
+
+export function DamlValueForm({ type, value, onChange, context, showErrors = false }: DamlValueFormProps) {
+    const errors = useMemo(
+        () => new Map(
+            showErrors ? validateDraft(type, value).map((e) => [e.path, e.message] as const) : []
+        ),
+        [type, value, showErrors]
+    );
+
+    return (
+        <div className="daml-value-form">
+            <DamlValueInput type={type} value={value} onChange={onChange} path="" context={context} errors={errors} />
+
+            <style>{`
+        .daml-value-form {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-3);
+        }
+
+        .daml-record {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-3);
+        }
+
+        .daml-record .daml-record,
+        .daml-nested {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+        }
+
+        .daml-field .daml-record,
+        .daml-list-value .daml-record {
+          padding-left: var(--space-3);
+          border-left: 2px solid var(--border-primary);
+        }
+
+        .daml-field {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+        }
+
+        .daml-field-label {
+          display: flex;
+          align-items: baseline;
+          gap: var(--space-2);
+          font-size: var(--text-sm);
+          font-weight: var(--font-medium);
+          color: var(--text-secondary);
+        }
+
+        .daml-type-hint {
+          font-family: var(--font-mono);
+          font-size: var(--text-xs);
+          font-weight: normal;
+          color: var(--text-tertiary);
+        }
+
+        .daml-checkbox {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .daml-list-item,
+        .daml-map-entry {
+          display: flex;
+          align-items: flex-start;
+          gap: var(--space-2);
+        }
+
+        .daml-map-entry > .input {
+          flex: 1;
+        }
+
+        .daml-list-value {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .daml-index {
+          min-width: 1.5rem;
+          padding-top: var(--space-2);
+          font-size: var(--text-xs);
+          color: var(--text-tertiary);
+        }
+
+        .daml-add {
+          align-self: flex-start;
+        }
+
+        .daml-value-form .input.invalid {
+          border-color: var(--color-error-500);
+        }
+
+        .daml-field-error {
+          font-size: var(--text-xs);
+          color: var(--color-error-600);
+        }
+      `}</style>
+        </div>
+    );
+}
+
+interface ArgumentEditorProps {
+    id: string;
+    label: string;
+    /** Schema of the argument; without it only raw JSON is available */
+    type?: DamlType;
+    state: ArgumentState;
+    onChange: (state: ArgumentState) => void;
+    context: DamlFormContext;
+    showErrors?: boolean;
+    rows?: number;
+}
+
+export function ArgumentEditor({ id, label, type, state, onChange, context, showErrors, rows = 6 }: ArgumentEditorProps) {
+    const switchMode = (mode: ArgumentState['mode']) => {
+        if (!type || mode === state.mode) return;
+        if (mode === 'json') {
+            // Carry the form contents over when they are complete
+            let json = state.json;
+            try {
+                json = JSON.stringify(toLedgerValue(type, state.draft), null, 2);
+            } catch {
+                // Keep the previous JSON text
+            }
+            onChange({ ...state, mode, json });
+        } else {
+            let draft = state.draft;
+            try {
+                draft = fromLedgerValue(type, JSON.parse(state.json));
+            } catch {
+                // Keep the previous form contents
+            }
+            onChange({ ...state, mode, draft });
+        }
+    };
+
+    return (
+        <div className="input-group">
+            <div className="argument-editor-header">
+                <label htmlFor={id} className="input-label">
+                    {label}{state.mode === 'json' ? ' (JSON)' : ''}
+                </label>
+                {type && (
+                    <div className="argument-mode-toggle">
+                        <button
+                            type="button"
+                            className={state.mode === 'form' ? 'active' : ''}
+                            onClick={() => switchMode('form')}
+                        >
+                            Form
+                        </button>
+                        <button
+                            type="button"
+                            className={state.mode === 'json' ? 'active' : ''}
+                            onClick={() => switchMode('json')}
+                        >
+                            JSON
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {state.mode === 'form' && type ? (
+                <DamlValueForm
+                    type={type}
+                    value={state.draft}
+                    onChange={(draft) => onChange({ ...state, draft })}
+                    context={context}
+                    showErrors={showErrors}
+                />
+            ) : (
+                <textarea
+                    id={id}
+                    className="input json-input"
+                    value={state.json}
+                    onChange={(e) => onChange({ ...state, json: e.target.value })}
+                    rows={rows}
+                    spellCheck={false}
+                />
+            )}
+
+            <style>{`
+        .argument-editor-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: var(--space-2);
+        }
+
+        .argument-mode-toggle {
+          display: flex;
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-md);
+          overflow: hidden;
+        }
+
+        .argument-mode-toggle button {
+          padding: var(--space-1) var(--space-3);
+          background: none;
+          border: none;
+          font-size: var(--text-xs);
+          color: var(--text-secondary);
+          cursor: pointer;
+        }
+
+        .argument-mode-toggle button.active {
+          background: var(--bg-tertiary);
+          color: var(--text-primary);
+          font-weight: var(--font-medium);
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default DamlValueForm;
@@ -3,22 +3,40 @@
  * 
  * Main application layout with:
  * - Sidebar navigation
- * - Page header with search
+ * - Page header with search (⌘K command palette)
  * - Content area
  * - Party banner
  */
 
+import { useEffect, useState } from 'react';
 import { Outlet } from 'react-router-dom';
 import { Search, Moon, Sun, Bell, Menu } from 'lucide-react';
 import { useUI, usePartyLens, useConnection } from '../services/store';
 import Sidebar from './Sidebar';
 import PartySelector from './PartySelector';
+import CommandPalette from './CommandPalette';
 
 export function Layout() {
-  const { sidebarOpen, darkMode, searchQuery, setSearchQuery, toggleDarkMode, toggleSidebar } = useUI();
-  const { activeParty } = usePartyLens();
+  const { sidebarOpen, darkMode, searchQuery, toggleDarkMode, toggleSidebar } = useUI();
+  const { activeParty, lensParties } = usePartyLens();
+  const [paletteOpen, setPaletteOpen] = useState(false);
   useConnection(); // Ensure connection is maintained
 
+  // ⌘K / Ctrl+K toggles the command palette from anywhere
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setPaletteOpen((open) => !open);
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
   // Apply dark mode
   if (typeof document !== 'undefined') {
     document.documentElement.setAttribute('data-theme', darkMode ? 'dark' : 'light');
@@ -39,18 +57,14 @@ export function Layout() {
             <Menu size={20} />
           </button>
 
-          {/* Search Bar */}
-          <div className="header-search">
+          {/* Search Bar: opens the command palette */}
+          <button className="header-search" onClick={() => setPaletteOpen(true)}>
             <Search size={18} className="search-icon" />
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search contracts, transactions, parties..."
-              className="search-input"
-            />
-            <kbd className="search-shortcut">⌘K</kbd>
-          </div>
+            <span className={`search-input ${searchQuery ? '' : 'placeholder'}`}>
+              {searchQuery || 'Search contracts, transactions, parties...'}
+            </span>
+            <kbd className="search-shortcut">{isMac ? '⌘K' : 'Ctrl K'}</kbd>
+          </button>
 
           {/* Header Actions */}
           <div className="header-actions">
@@ -76,8 +90,15 @@ export function Layout() {
             <span className="party-banner-warning">⚠️</span>
             <span className="party-banner-text">
               You are viewing the ledger as{' '}
-              <strong>{activeParty.displayName || activeParty.partyId.split('::')[0]}</strong>.
-              This is not a global network view.
+              {lensParties.length > 1 ? (
+                <>
+                  the union of{' '}
+                  <strong>{lensParties.map((p) => p.displayName || p.partyId.split('::')[0]).join(', ')}</strong>.
+                </>
+              ) : (
+                <><strong>{activeParty.displayName || activeParty.partyId.split('::')[0]}</strong>.</>
+              )}
+              {' '}This is not a global network view.
             </span>
           </div>
         )}
@@ -88,6 +109,8 @@ export function Layout() {
         </div>
       </main>
 
+      {paletteOpen && <CommandPalette onClose={() => setPaletteOpen(false)} />}
+
       <style>{`
         .app-layout {
           display: flex;
@@ -131,6 +154,11 @@ export function Layout() {
           position: relative;
           display: flex;
           align-items: center;
+          padding: 0;
+          background: none;
+          border: none;
+          cursor: text;
+          text-align: left;
         }
 
         .search-icon {
@@ -145,6 +173,9 @@ export function Layout() {
           padding: var(--space-2) var(--space-4);
           padding-left: var(--space-10);
           padding-right: var(--space-12);
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
           font-size: var(--text-sm);
           color: var(--text-primary);
           background: var(--bg-tertiary);
@@ -154,13 +185,13 @@ export function Layout() {
           transition: all var(--transition-fast);
         }
 
-        .search-input:focus {
+        .header-search:focus-visible .search-input {
           background: var(--bg-secondary);
           border-color: var(--accent-primary);
           box-shadow: 0 0 0 3px var(--accent-primary-light);
         }
 
-        .search-input::placeholder {
+        .search-input.placeholder {
           color: var(--text-tertiary);
         }
 
@@ -0,0 +1,79 @@
+/**
+ * LiveIndicator Component
+ *
+ * Shows the state of the live ledger stream and toggles it:
+ * - Live / connecting / reconnecting / paused
+ * - The last stream error as a tooltip
+ */
+
+import { Radio, Pause } from 'lucide-react';
+import { useLiveStream } from '../services/store';
+import type { StreamStatus } from '../types/canton';
+
+const STATUS_LABELS: Record<StreamStatus, string> = {
+    idle: 'Paused',
+    connecting: 'Connecting…',
+    live: 'Live',
+    reconnecting: 'Reconnecting…',
+    closed: 'Paused',
+};
+
+export function LiveIndicator() {
+    const { streamStatus, streamError, startStreaming, stopStreaming } = useLiveStream();
+    const isRunning = streamStatus === 'live' || streamStatus === 'connecting' || streamStatus === 'reconnecting';
+
+    return (
+        <button
+            className={`live-indicator ${streamStatus}`}
+            onClick={() => (isRunning ? stopStreaming() : startStreaming())}
+            title={streamError ?? (isRunning ? 'Pause live updates' : 'Resume live updates')}
+        >
+            {isRunning ? <span className="live-dot" /> : <Pause size={12} />}
+            {STATUS_LABELS[streamStatus]}
+            {streamStatus === 'live' && <Radio size={14} />}
+
+            <style>{`
+        .live-indicator {
+          display: inline-flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-2) var(--space-3);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-full);
+          font-size: var(--text-xs);
+          font-weight: var(--font-medium);
+          color: var(--text-secondary);
+          cursor: pointer;
+        }
+
+        .live-indicator.live {
+          border-color: var(--color-success-500);
+          color: var(--color-success-600);
+        }
+
+        .live-indicator.reconnecting {
+          border-color: var(--color-warning-500);
+          color: var(--color-warning-600);
+        }
+
+        .live-dot {
+          width: 8px;
+          height: 8px;
+          border-radius: var(--radius-full);
+          background: currentColor;
+        }
+
+        .live-indicator.live .live-dot {
+          animation: live-pulse 2s ease-in-out infinite;
+        }
+
+        @keyframes live-pulse {
+          50% { opacity: 0.3; }
+        }
+      `}</style>
+        </button>
+    );
+}
+
+export default LiveIndicator;
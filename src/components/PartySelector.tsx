@@ -2,13 +2,18 @@
  * PartySelector Component
  * 
  * Dropdown selector for choosing the active party lens.
- * Shows available parties and allows switching between them.
+ * Shows available parties and allows switching between them, or, in
+ * multi-party mode, viewing the ledger as the union of several parties.
+ * Parties are marked by what the credentials allow: act as, read only, or
+ * no access (greyed out and not selectable).
+ * The footer filters contracts by the lens' role on them, with counts.
  */
 
 import { useState, useRef, useEffect } from 'react';
-import { User, ChevronDown, Check, Eye, EyeOff } from 'lucide-react';
-import { usePartyLens } from '../services/store';
-import type { Party } from '../types/canton';
+import { User, Users, ChevronDown, Check, Eye, EyeOff, Lock } from 'lucide-react';
+import { useContracts, usePartyLens } from '../services/store';
+import { CONTRACT_ROLES, CONTRACT_ROLE_LABELS } from '../services/partyLens';
+import type { Party, PartyAccess, PartyRights } from '../types/canton';
 
 interface PartySelectorProps {
     compact?: boolean;
@@ -17,13 +22,19 @@ interface PartySelectorProps {
 export function PartySelector({ compact = false }: PartySelectorProps) {
     const {
         activeParty,
+        lensParties,
         availableParties,
-        viewAsObserver,
+        visibleRoles,
+        partyRights,
+        getPartyAccess,
         setActiveParty,
-        toggleObserverView,
+        toggleLensParty,
+        toggleRole,
     } = usePartyLens();
+    const { roleCounts } = useContracts();
 
     const [isOpen, setIsOpen] = useState(false);
+    const [multiSelect, setMultiSelect] = useState(lensParties.length > 1);
     const dropdownRef = useRef<HTMLDivElement>(null);
 
     // Close dropdown when clicking outside
@@ -39,10 +50,24 @@ export function PartySelector({ compact = false }: PartySelectorProps) {
     }, []);
 
     const handleSelectParty = (party: Party) => {
+        if (multiSelect) {
+            // The lens keeps at least one party
+            const isOnlyParty = lensParties.length === 1 && lensParties[0].partyId === party.partyId;
+            if (!isOnlyParty) toggleLensParty(party);
+            return;
+        }
         setActiveParty(party);
         setIsOpen(false);
     };
 
+    const handleToggleMultiSelect = () => {
+        // Leaving multi-party mode narrows the lens to the primary party
+        if (multiSelect && activeParty && lensParties.length > 1) {
+            setActiveParty(activeParty);
+        }
+        setMultiSelect(!multiSelect);
+    };
+
     const formatPartyId = (partyId: string): string => {
         // Format: DisplayName::fingerprint -> show DisplayName + truncated fingerprint
         const parts = partyId.split('::');
@@ -60,6 +85,64 @@ export function PartySelector({ compact = false }: PartySelectorProps) {
         return parts[0] || party.partyId;
     };
 
+    const renderOption = (party: Party, idClassName: string) => {
+        const access = getPartyAccess(party.partyId);
+        const isActive = lensParties.some((p) => p.partyId === party.partyId);
+        const isPrimary = multiSelect && lensParties.length > 1 && activeParty?.partyId === party.partyId;
+        return (
+            <button
+                key={party.partyId}
+                className={`party-option ${isActive ? 'active' : ''} ${access === 'none' ? 'no-access' : ''}`}
+                onClick={() => handleSelectParty(party)}
+                disabled={access === 'none'}
+                title={accessExplanation(access, partyRights)}
+            >
+                <div className="party-option-info">
+                    <span className="party-option-name">
+                        {getDisplayName(party)}
+                        {partyRights && partyRights.source !== 'unrestricted' && (
+                            <span className={`party-access ${access}`}>{ACCESS_LABELS[access]}</span>
+                        )}
+                        {isPrimary && (
+                            <span className="party-primary" title="Default party for submitting commands">
+                                Primary
+                            </span>
+                        )}
+                    </span>
+                    <span className={idClassName}>{formatPartyId(party.partyId)}</span>
+                </div>
+                {access === 'none' ? (
+                    <Lock size={14} className="party-option-lock" />
+                ) : isActive && (
+                    <Check size={16} className="party-option-check" />
+                )}
+            </button>
+        );
+    };
+
+    const multiSelectToggle = (
+        <button
+            className={`party-multi-toggle ${multiSelect ? 'active' : ''}`}
+            onClick={(e) => {
+                e.stopPropagation();
+                handleToggleMultiSelect();
+            }}
+            title="View the ledger as the union of several parties"
+            aria-pressed={multiSelect}
+        >
+            <Users size={12} />
+            Multiple
+        </button>
+    );
+
+    const rightsNote = partyRights && partyRights.source !== 'unrestricted' && (
+        <div className="party-rights-note">
+            {partyRights.source === 'token'
+                ? 'Rights from the auth token claims'
+                : `Rights of user ${partyRights.userId}`}
+        </div>
+    );
+
     if (compact) {
         return (
             <div className="party-selector-compact" ref={dropdownRef}>
@@ -74,30 +157,21 @@ export function PartySelector({ compact = false }: PartySelectorProps) {
                             {getDisplayName(activeParty).charAt(0).toUpperCase()}
                         </span>
                     )}
+                    {lensParties.length > 1 && (
+                        <span className="party-lens-count">+{lensParties.length - 1}</span>
+                    )}
                 </button>
 
                 {isOpen && (
                     <div className="party-dropdown">
                         <div className="party-dropdown-header">
-                            <span>Select Party</span>
+                            <span>{multiSelect ? 'Select Parties' : 'Select Party'}</span>
+                            {multiSelectToggle}
                         </div>
                         <div className="party-dropdown-list">
-                            {availableParties.map((party) => (
-                                <button
-                                    key={party.partyId}
-                                    className={`party-option ${activeParty?.partyId === party.partyId ? 'active' : ''}`}
-                                    onClick={() => handleSelectParty(party)}
-                                >
-                                    <div className="party-option-info">
-                                        <span className="party-option-name">{getDisplayName(party)}</span>
-                                        <span className="party-option-id">{formatPartyId(party.partyId)}</span>
-                                    </div>
-                                    {activeParty?.partyId === party.partyId && (
-                                        <Check size={16} className="party-option-check" />
-                                    )}
-                                </button>
-                            ))}
+                            {availableParties.map((party) => renderOption(party, 'party-option-id'))}
                         </div>
+                        {rightsNote}
                     </div>
                 )}
 
@@ -119,6 +193,9 @@ export function PartySelector({ compact = false }: PartySelectorProps) {
                         <span className="party-label">Viewing as</span>
                         <span className="party-name">
                             {activeParty ? getDisplayName(activeParty) : 'Select Party'}
+                            {lensParties.length > 1 && (
+                                <span className="party-lens-count">+{lensParties.length - 1}</span>
+                            )}
                         </span>
                     </div>
                 </div>
@@ -132,51 +209,42 @@ export function PartySelector({ compact = false }: PartySelectorProps) {
                 <div className="party-dropdown">
                     <div className="party-dropdown-header">
                         <span>Available Parties</span>
-                        <span className="party-count">{availableParties.length}</span>
+                        <div className="party-dropdown-header-actions">
+                            {multiSelectToggle}
+                            <span className="party-count">{availableParties.length}</span>
+                        </div>
                     </div>
 
                     <div className="party-dropdown-list">
                         {availableParties.length === 0 ? (
                             <div className="party-empty">No parties available</div>
                         ) : (
-                            availableParties.map((party) => (
-                                <button
-                                    key={party.partyId}
-                                    className={`party-option ${activeParty?.partyId === party.partyId ? 'active' : ''}`}
-                                    onClick={() => handleSelectParty(party)}
-                                >
-                                    <div className="party-option-info">
-                                        <span className="party-option-name">{getDisplayName(party)}</span>
-                                        <span className="party-option-id font-mono">{formatPartyId(party.partyId)}</span>
-                                    </div>
-                                    {activeParty?.partyId === party.partyId && (
-                                        <Check size={16} className="party-option-check" />
-                                    )}
-                                </button>
-                            ))
+                            availableParties.map((party) => renderOption(party, 'party-option-id font-mono'))
                         )}
                     </div>
+                    {rightsNote}
 
                     <div className="party-dropdown-footer">
-                        <button
-                            className="observer-toggle"
-                            onClick={(e) => {
-                                e.stopPropagation();
-                                toggleObserverView();
-                            }}
-                        >
-                            {viewAsObserver ? (
-                                <>
-                                    <Eye size={16} />
-                                    <span>Including observer contracts</span>
-                                </>
-                            ) : (
-                                <>
-                                    <EyeOff size={16} />
-                                    <span>Stakeholder contracts only</span>
-                                </>
-                            )}
-                        </button>
+                        <div className="role-filter-label">Contracts by role</div>
+                        {CONTRACT_ROLES.map((role) => {
+                            const isVisible = visibleRoles.includes(role);
+                            return (
+                                <button
+                                    key={role}
+                                    className={`observer-toggle ${isVisible ? '' : 'hidden-role'}`}
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        toggleRole(role);
+                                    }}
+                                    title={isVisible ? 'Hide these contracts' : 'Show these contracts'}
+                                    aria-pressed={isVisible}
+                                >
+                                    {isVisible ? <Eye size={16} /> : <EyeOff size={16} />}
+                                    <span>{CONTRACT_ROLE_LABELS[role]}</span>
+                                    <span className="role-count">{roleCounts[role]}</span>
+                                </button>
+                            );
+                        })}
                     </div>
                 </div>
             )}
@@ -186,6 +254,25 @@ export function PartySelector({ compact = false }: PartySelectorProps) {
     );
 }
 
+const ACCESS_LABELS: Record<PartyAccess, string> = {
+    act: 'Act as',
+    read: 'Read only',
+    none: 'No access',
+};
+
+function accessExplanation(access: PartyAccess, rights: PartyRights | null): string | undefined {
+    if (!rights || rights.source === 'unrestricted') return undefined;
+    const holder = rights.source === 'token' ? 'The auth token' : `User ${rights.userId}`;
+    switch (access) {
+        case 'act':
+            return `${holder} can read and submit commands as this party`;
+        case 'read':
+            return `${holder} can read as this party but not submit commands`;
+        case 'none':
+            return `${holder} has no actAs or readAs right for this party; the participant would reject queries with 403`;
+    }
+}
+
 const baseStyles = `
   .party-dropdown {
     position: absolute;
@@ -214,6 +301,56 @@ const baseStyles = `
     color: var(--text-secondary);
   }
 
+  .party-dropdown-header-actions {
+    display: flex;
+    align-items: center;
+    gap: var(--space-2);
+  }
+
+  .party-multi-toggle {
+    display: flex;
+    align-items: center;
+    gap: var(--space-1);
+    padding: var(--space-1) var(--space-2);
+    border: 1px solid var(--border-primary);
+    border-radius: var(--radius-full);
+    background: transparent;
+    cursor: pointer;
+    font-size: var(--text-xs);
+    font-weight: var(--font-medium);
+    text-transform: none;
+    letter-spacing: normal;
+    color: var(--text-secondary);
+    transition: all var(--transition-fast);
+  }
+
+  .party-multi-toggle:hover,
+  .party-multi-toggle.active {
+    border-color: var(--accent-primary);
+    color: var(--accent-primary);
+  }
+
+  .party-multi-toggle.active {
+    background: var(--accent-primary-light);
+  }
+
+  .party-primary {
+    margin-left: var(--space-2);
+    padding: 0 var(--space-2);
+    border-radius: var(--radius-full);
+    background: var(--accent-primary-light);
+    color: var(--accent-primary);
+    font-size: var(--text-xs);
+    font-weight: var(--font-medium);
+  }
+
+  .party-lens-count {
+    margin-left: var(--space-1);
+    font-size: var(--text-xs);
+    font-weight: var(--font-semibold);
+    color: var(--accent-primary);
+  }
+
   .party-count {
     background: var(--bg-tertiary);
     padding: var(--space-1) var(--space-2);
@@ -239,10 +376,49 @@ const baseStyles = `
     transition: background var(--transition-fast);
   }
 
-  .party-option:hover {
+  .party-option:hover:not(:disabled) {
     background: var(--bg-tertiary);
   }
 
+  .party-option.no-access {
+    cursor: not-allowed;
+    opacity: 0.5;
+  }
+
+  .party-option-lock {
+    color: var(--text-tertiary);
+  }
+
+  .party-access {
+    margin-left: var(--space-2);
+    padding: 0 var(--space-2);
+    border-radius: var(--radius-full);
+    font-size: var(--text-xs);
+    font-weight: var(--font-medium);
+  }
+
+  .party-access.act {
+    background: rgba(34, 197, 94, 0.1);
+    color: var(--color-success-600);
+  }
+
+  .party-access.read {
+    background: rgba(245, 158, 11, 0.1);
+    color: var(--color-warning-600);
+  }
+
+  .party-access.none {
+    background: var(--bg-tertiary);
+    color: var(--text-tertiary);
+  }
+
+  .party-rights-note {
+    padding: var(--space-2) var(--space-4);
+    border-top: 1px solid var(--border-primary);
+    font-size: var(--text-xs);
+    color: var(--text-tertiary);
+  }
+
   .party-option.active {
     background: var(--accent-primary-light);
   }
@@ -300,6 +476,32 @@ const baseStyles = `
     background: var(--bg-tertiary);
     color: var(--text-primary);
   }
+
+  .observer-toggle.hidden-role {
+    color: var(--text-tertiary);
+  }
+
+  .observer-toggle.hidden-role span {
+    text-decoration: line-through;
+  }
+
+  .role-filter-label {
+    padding: var(--space-1) var(--space-3);
+    font-size: var(--text-xs);
+    font-weight: var(--font-semibold);
+    text-transform: uppercase;
+    letter-spacing: 0.05em;
+    color: var(--text-tertiary);
+  }
+
+  .role-count {
+    margin-left: auto;
+    font-family: var(--font-mono);
+  }
+
+  .observer-toggle.hidden-role .role-count {
+    text-decoration: none;
+  }
 `;
 
 const fullStyles = `
@@ -12,8 +12,16 @@ import { NavLink } from 'react-router-dom';
 import {
   LayoutDashboard,
   FileText,
+  KeyRound,
   Activity,
+  ListChecks,
+  GitMerge,
   Package,
+  Boxes,
+  GitBranch,
+  GitCompareArrows,
+  Users,
+  UserCog,
   Globe,
   HeartPulse,
   Settings,
@@ -27,8 +35,16 @@ import PartySelector from './PartySelector';
 const navItems = [
   { path: '/', label: 'Dashboard', icon: LayoutDashboard, requiresConnection: true },
   { path: '/contracts', label: 'Contracts', icon: FileText, requiresConnection: true },
+  { path: '/keys', label: 'Key Lookup', icon: KeyRound, requiresConnection: true },
   { path: '/transactions', label: 'Transactions', icon: Activity, requiresConnection: true },
+  { path: '/completions', label: 'Completions', icon: ListChecks, requiresConnection: true },
+  { path: '/workflows', label: 'Workflows', icon: GitMerge, requiresConnection: true },
   { path: '/templates', label: 'Templates', icon: Package, requiresConnection: true },
+  { path: '/packages', label: 'Packages', icon: Boxes, requiresConnection: true },
+  { path: '/upgrades', label: 'Upgrade Check', icon: GitBranch, requiresConnection: true },
+  { path: '/parties', label: 'Parties', icon: Users, requiresConnection: true },
+  { path: '/users', label: 'Users & Rights', icon: UserCog, requiresConnection: true },
+  { path: '/compare', label: 'Privacy Compare', icon: GitCompareArrows, requiresConnection: true },
   { path: '/explorer', label: 'Scan Explorer', icon: Globe, requiresConnection: false },
   { path: '/health', label: 'Node Health', icon: HeartPulse, requiresConnection: true },
 ];
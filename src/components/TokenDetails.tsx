@@ -0,0 +1,179 @@
+/**
+ * TokenDetails Component
+ *
+ * Shows what an access token grants on the ledger:
+ * - User ID (or application ID of custom Daml tokens)
+ * - actAs / readAs parties and admin rights
+ * - Issuer, participant and expiry, with a live countdown
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Clock, ShieldCheck, User } from 'lucide-react';
+import { decodeLedgerToken } from '../services/auth';
+
+interface TokenDetailsProps {
+    token: string;
+}
+
+function formatRemaining(ms: number): string {
+    if (ms <= 0) return 'expired';
+    const minutes = Math.floor(ms / 60_000);
+    if (minutes < 1) return `${Math.floor(ms / 1000)}s left`;
+    if (minutes < 60) return `${minutes}m left`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 48) return `${hours}h ${minutes % 60}m left`;
+    return `${Math.floor(hours / 24)}d left`;
+}
+
+const shortParty = (partyId: string) => partyId.split('::')[0];
+
+export function TokenDetails({ token }: TokenDetailsProps) {
+    const info = useMemo(() => decodeLedgerToken(token), [token]);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Tick the countdown while the token has an expiry
+    useEffect(() => {
+        if (!info?.expiresAt) return;
+        const timer = setInterval(() => setNow(Date.now()), 15_000);
+        return () => clearInterval(timer);
+    }, [info?.expiresAt]);
+
+    const remaining = info?.expiresAt !== undefined ? info.expiresAt - now : null;
+    const expiryBadge = remaining === null ? '' : remaining <= 0 ? 'badge-error' : remaining < 300_000 ? 'badge-warning' : 'badge-success';
+
+    return (
+        <div className={`token-details ${info ? '' : 'token-opaque'}`}>
+            {!info ? (
+                <>
+                    <AlertTriangle size={14} />
+                    Not a JWT; its ledger rights cannot be shown.
+                </>
+            ) : (
+                <>
+                    <div className="token-row">
+                        <User size={14} />
+                        <span className="token-label">{info.format === 'custom-daml' ? 'Application' : 'User'}</span>
+                        <span className="token-value">{info.userId ?? '—'}</span>
+                    </div>
+
+                    {info.format === 'custom-daml' ? (
+                        <>
+                            <div className="token-row">
+                                <ShieldCheck size={14} />
+                                <span className="token-label">actAs</span>
+                                <span className="token-parties">
+                                    {info.actAs.length === 0 ? '—' : info.actAs.map((p) => (
+                                        <span key={p} className="badge badge-info" title={p}>{shortParty(p)}</span>
+                                    ))}
+                                </span>
+                            </div>
+                            <div className="token-row">
+                                <ShieldCheck size={14} />
+                                <span className="token-label">readAs</span>
+                                <span className="token-parties">
+                                    {info.readAs.length === 0 ? '—' : info.readAs.map((p) => (
+                                        <span key={p} className="badge badge-neutral" title={p}>{shortParty(p)}</span>
+                                    ))}
+                                </span>
+                            </div>
+                            {info.admin && (
+                                <div className="token-row">
+                                    <ShieldCheck size={14} />
+                                    <span className="token-label">Admin</span>
+                                    <span className="badge badge-warning">Participant admin</span>
+                                </div>
+                            )}
+                        </>
+                    ) : (
+                        <div className="token-row">
+                            <ShieldCheck size={14} />
+                            <span className="token-label">Rights</span>
+                            <span className="token-value muted">Granted to the user on the participant</span>
+                        </div>
+                    )}
+
+                    <div className="token-row">
+                        <Clock size={14} />
+                        <span className="token-label">Expires</span>
+                        <span className="token-value">
+                            {info.expiresAt !== undefined && remaining !== null ? (
+                                <>
+                                    {new Date(info.expiresAt).toLocaleString()}{' '}
+                                    <span className={`badge ${expiryBadge}`}>{formatRemaining(remaining)}</span>
+                                </>
+                            ) : 'Never'}
+                        </span>
+                    </div>
+
+                    {(info.issuer || info.participantId) && (
+                        <div className="token-meta">
+                            {info.issuer && <span>Issuer {info.issuer}</span>}
+                            {info.participantId && <span>Participant {info.participantId}</span>}
+                        </div>
+                    )}
+                </>
+            )}
+
+            <style>{`
+        .token-details {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+          padding: var(--space-3);
+          background: var(--bg-tertiary);
+          border-radius: var(--radius-lg);
+          font-size: var(--text-sm);
+        }
+
+        .token-opaque {
+          flex-direction: row;
+          align-items: center;
+          color: var(--text-tertiary);
+        }
+
+        .token-row {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          color: var(--text-tertiary);
+        }
+
+        .token-label {
+          width: 80px;
+          flex-shrink: 0;
+          font-size: var(--text-xs);
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+        }
+
+        .token-value {
+          color: var(--text-primary);
+          font-family: var(--font-mono);
+          overflow-wrap: anywhere;
+        }
+
+        .token-value.muted {
+          color: var(--text-tertiary);
+          font-family: var(--font-sans);
+        }
+
+        .token-parties {
+          display: flex;
+          flex-wrap: wrap;
+          gap: var(--space-1);
+        }
+
+        .token-meta {
+          display: flex;
+          flex-direction: column;
+          font-size: var(--text-xs);
+          font-family: var(--font-mono);
+          color: var(--text-tertiary);
+          overflow-wrap: anywhere;
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default TokenDetails;
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { usePagedQuery, type PageFetcher } from './usePagedQuery';
+import type { Page } from '../types/canton';
+
+/** Three pages of two items, read at offset 42 */
+const PAGES: Record<string, Page<number>> = {
+    first: { items: [0, 1], nextPageToken: 't1', offset: 42 },
+    t1: { items: [2, 3], nextPageToken: 't2', offset: 42 },
+    t2: { items: [4, 5], offset: 42 },
+};
+
+const fetcher = () => vi.fn<PageFetcher<number>>(async (pageToken) => PAGES[pageToken ?? 'first']);
+
+async function loaded<T>(result: { current: { isLoading: boolean; items: T[] } }) {
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    return result.current.items;
+}
+
+describe('usePagedQuery', () => {
+    it('loads the first page and appends the next ones', async () => {
+        const fetchPage = fetcher();
+        const { result } = renderHook(() => usePagedQuery(fetchPage));
+
+        expect(await loaded(result)).toEqual([0, 1]);
+        expect(result.current.offset).toBe(42);
+        expect(result.current.hasMore).toBe(true);
+
+        act(() => result.current.loadMore());
+        expect(await loaded(result)).toEqual([0, 1, 2, 3]);
+        expect(fetchPage).toHaveBeenLastCalledWith('t1', undefined);
+
+        act(() => result.current.loadMore());
+        expect(await loaded(result)).toEqual([0, 1, 2, 3, 4, 5]);
+        expect(result.current.hasMore).toBe(false);
+    });
+
+    it('releases pages beyond the window and reads them again at the same offset', async () => {
+        const fetchPage = fetcher();
+        const { result } = renderHook(() => usePagedQuery(fetchPage, 2));
+        await loaded(result);
+
+        act(() => result.current.loadMore());
+        await loaded(result);
+        act(() => result.current.loadMore());
+        expect(await loaded(result)).toEqual([2, 3, 4, 5]);
+        expect(result.current.itemsBefore).toBe(2);
+        expect(result.current.hasPrevious).toBe(true);
+        expect(result.current.hasMore).toBe(false);
+
+        act(() => result.current.loadPrevious());
+        expect(await loaded(result)).toEqual([0, 1, 2, 3]);
+        expect(fetchPage).toHaveBeenLastCalledWith(undefined, 42);
+        expect(result.current.itemsBefore).toBe(0);
+        expect(result.current.hasPrevious).toBe(false);
+        // The released last page is reachable again
+        expect(result.current.hasMore).toBe(true);
+
+        act(() => result.current.loadMore());
+        expect(await loaded(result)).toEqual([2, 3, 4, 5]);
+        expect(fetchPage).toHaveBeenLastCalledWith('t2', undefined);
+    });
+
+    it('ignores responses of a superseded query', async () => {
+        let resolveStale: (page: Page<number>) => void = () => {};
+        const stale: PageFetcher<number> = () => new Promise((resolve) => (resolveStale = resolve));
+        const fresh = fetcher();
+
+        const { result, rerender } = renderHook(({ fetchPage }) => usePagedQuery(fetchPage), {
+            initialProps: { fetchPage: stale },
+        });
+        rerender({ fetchPage: fresh });
+        expect(await loaded(result)).toEqual([0, 1]);
+
+        await act(async () => resolveStale({ items: [99], offset: 1 }));
+        expect(result.current.items).toEqual([0, 1]);
+    });
+
+    it('reports errors and stops paging until reloaded', async () => {
+        const fetchPage = vi.fn<PageFetcher<number>>(async (pageToken) => {
+            if (pageToken === 't1') throw new Error('Participant unavailable');
+            return PAGES.first;
+        });
+        const { result } = renderHook(() => usePagedQuery(fetchPage));
+        await loaded(result);
+
+        act(() => result.current.loadMore());
+        await loaded(result);
+        expect(result.current.error).toBe('Participant unavailable');
+        expect(result.current.items).toEqual([0, 1]);
+
+        act(() => result.current.loadMore());
+        expect(fetchPage).toHaveBeenCalledTimes(2);
+
+        act(() => result.current.reload());
+        expect(await loaded(result)).toEqual([0, 1]);
+        expect(result.current.error).toBeNull();
+    });
+
+    it('stays empty without a fetcher', () => {
+        const { result } = renderHook(() => usePagedQuery<number>(null));
+        expect(result.current.items).toEqual([]);
+        expect(result.current.hasMore).toBe(false);
+    });
+});
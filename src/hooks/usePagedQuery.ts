@@ -0,0 +1,173 @@
+/**
+ * usePagedQuery Hook
+ *
+ * Lazily pages through a bounded server query:
+ * - Loads the first page whenever the query changes
+ * - Appends the next page on demand, following the continuation token
+ * - Keeps a window of at most `maxPages` pages: pages far from the viewport
+ *   are released and read again (at the same offset) when scrolled back to
+ * - Ignores responses from superseded queries
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { LedgerOffset, Page, PageToken } from '../types/canton';
+
+/**
+ * Fetch one page. `offset` is the offset the first page was read at, passed
+ * when the first page is read again so it matches the pages after it.
+ */
+export type PageFetcher<T> = (pageToken?: PageToken, offset?: LedgerOffset) => Promise<Page<T>>;
+
+interface PagedQueryState<T> {
+    /** Loaded pages, starting at page `firstPage` */
+    pages: T[][];
+    firstPage: number;
+    /** Token of every page reached so far; `tokens[i]` reads page i */
+    tokens: Array<PageToken | undefined>;
+    /** Item count of every page read so far, released ones included */
+    pageSizes: number[];
+    /** Token of the page after the last one read; absent at the end */
+    nextPageToken?: PageToken;
+    /** Offset the first page was read at; later pages share it */
+    offset: LedgerOffset | null;
+    truncated: boolean;
+    isLoading: boolean;
+    error: string | null;
+}
+
+const initialState = {
+    pages: [],
+    firstPage: 0,
+    tokens: [undefined],
+    pageSizes: [],
+    offset: null,
+    truncated: false,
+    isLoading: false,
+    error: null,
+};
+
+/** Pages held in memory at once */
+const DEFAULT_MAX_PAGES = 5;
+
+/**
+ * Page through `fetchPage`. Pass a memoized fetcher (useCallback): a new
+ * fetcher starts the query over.
+ */
+export function usePagedQuery<T>(fetchPage: PageFetcher<T> | null, maxPages = DEFAULT_MAX_PAGES) {
+    const [state, setState] = useState<PagedQueryState<T>>(initialState);
+    const generation = useRef(0);
+    const inFlight = useRef(false);
+
+    const load = useCallback(
+        async (direction: 'first' | 'next' | 'previous', current: PagedQueryState<T> = initialState) => {
+            if (!fetchPage) return;
+            const request = generation.current;
+            const index = direction === 'first'
+                ? 0
+                : direction === 'next'
+                    ? current.firstPage + current.pages.length
+                    : current.firstPage - 1;
+            inFlight.current = true;
+            setState((s) => ({ ...s, isLoading: true, error: null }));
+
+            try {
+                const page = await fetchPage(current.tokens[index], index === 0 ? current.offset ?? undefined : undefined);
+                if (request !== generation.current) return;
+                setState((s) => {
+                    const pageSizes = [...s.pageSizes];
+                    pageSizes[index] = page.items.length;
+
+                    if (direction === 'previous') {
+                        // Release the last page to make room at the start
+                        const pages = [page.items, ...s.pages];
+                        const released = pages.length > maxPages ? pages.pop() : undefined;
+                        return {
+                            ...s,
+                            pages,
+                            firstPage: index,
+                            pageSizes,
+                            nextPageToken: released ? s.tokens[index + pages.length] : s.nextPageToken,
+                            isLoading: false,
+                        };
+                    }
+
+                    // Release the first page to make room at the end
+                    const pages = direction === 'first' ? [page.items] : [...s.pages, page.items];
+                    const releaseFirst = pages.length > maxPages;
+                    const tokens = [...s.tokens];
+                    tokens[index + 1] = page.nextPageToken;
+                    return {
+                        pages: releaseFirst ? pages.slice(1) : pages,
+                        firstPage: releaseFirst ? s.firstPage + 1 : s.firstPage,
+                        tokens,
+                        pageSizes,
+                        nextPageToken: page.nextPageToken,
+                        offset: s.offset ?? page.offset,
+                        truncated: page.truncated ?? false,
+                        isLoading: false,
+                        error: null,
+                    };
+                });
+            } catch (error) {
+                if (request !== generation.current) return;
+                setState((s) => ({
+                    ...s,
+                    isLoading: false,
+                    error: error instanceof Error ? error.message : 'Failed to load page',
+                }));
+            } finally {
+                if (request === generation.current) inFlight.current = false;
+            }
+        },
+        [fetchPage, maxPages]
+    );
+
+    // Start over whenever the query changes
+    useEffect(() => {
+        generation.current++;
+        inFlight.current = false;
+        setState(initialState);
+        load('first');
+    }, [load]);
+
+    const loadMore = useCallback(() => {
+        if (inFlight.current || !state.nextPageToken || state.error) return;
+        load('next', state);
+    }, [load, state]);
+
+    const loadPrevious = useCallback(() => {
+        if (inFlight.current || state.firstPage === 0 || state.error) return;
+        load('previous', state);
+    }, [load, state]);
+
+    const reload = useCallback(() => {
+        generation.current++;
+        inFlight.current = false;
+        setState(initialState);
+        load('first');
+    }, [load]);
+
+    const items = useMemo(() => state.pages.flat(), [state.pages]);
+    const itemsBefore = useMemo(
+        () => state.pageSizes.slice(0, state.firstPage).reduce((sum, size) => sum + size, 0),
+        [state.pageSizes, state.firstPage]
+    );
+
+    return {
+        /** Items of the loaded pages */
+        items,
+        /** Items in released pages before the loaded ones */
+        itemsBefore,
+        offset: state.offset,
+        truncated: state.truncated,
+        isLoading: state.isLoading,
+        error: state.error,
+        hasMore: state.nextPageToken !== undefined,
+        hasPrevious: state.firstPage > 0,
+        loadMore,
+        loadPrevious,
+        reload,
+    };
+}
+
+export default usePagedQuery;
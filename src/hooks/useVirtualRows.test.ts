@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useVirtualRows } from './useVirtualRows';
+
+const ROW_HEIGHT = 20;
+const getKey = (index: number) => `row-${index}`;
+
+/** A scroll container 100px high, scrolled to `scrollTop` */
+function container(scrollTop: number) {
+    const element = document.createElement('div');
+    Object.defineProperty(element, 'clientHeight', { value: 100 });
+    element.scrollTop = scrollTop;
+    return element;
+}
+
+function render(options: Partial<Parameters<typeof useVirtualRows>[0]> = {}, scrollTop = 0) {
+    const hook = renderHook(() =>
+        useVirtualRows({ count: 100, getKey, estimateHeight: ROW_HEIGHT, overscan: 2, ...options })
+    );
+    act(() => hook.result.current.containerRef(container(scrollTop)));
+    return hook;
+}
+
+describe('useVirtualRows', () => {
+    beforeEach(() => {
+        vi.stubGlobal(
+            'ResizeObserver',
+            class {
+                observe() {}
+                unobserve() {}
+                disconnect() {}
+            }
+        );
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('renders the rows in the viewport and the overscan around them', () => {
+        const { result } = render({}, 500);
+
+        expect(result.current.start).toBe(23);
+        expect(result.current.end).toBe(33);
+        expect(result.current.paddingTop).toBe(23 * ROW_HEIGHT);
+        expect(result.current.paddingBottom).toBe((100 - 33) * ROW_HEIGHT);
+    });
+
+    it('follows the scroll position', () => {
+        const { result } = render();
+        expect(result.current.start).toBe(0);
+
+        const element = container(0);
+        act(() => result.current.containerRef(element));
+        element.scrollTop = 1200;
+        act(() => {
+            element.dispatchEvent(new Event('scroll'));
+        });
+
+        expect(result.current.start).toBe(58);
+    });
+
+    it('offsets the rows by the leading space', () => {
+        const { result } = render({ leadingSpace: 400 }, 500);
+
+        expect(result.current.start).toBe(3);
+        expect(result.current.paddingTop).toBe(400 + 3 * ROW_HEIGHT);
+    });
+
+    it('reports the end of the rows', () => {
+        const onEndReached = vi.fn();
+        render({ onEndReached }, 0);
+        expect(onEndReached).not.toHaveBeenCalled();
+
+        render({ onEndReached }, 100 * ROW_HEIGHT - 100);
+        expect(onEndReached).toHaveBeenCalled();
+    });
+
+    it('reports the start only while space is reserved above the rows', () => {
+        const onStartReached = vi.fn();
+        render({ onStartReached }, 0);
+        expect(onStartReached).not.toHaveBeenCalled();
+
+        render({ onStartReached, leadingSpace: 400 }, 410);
+        expect(onStartReached).toHaveBeenCalled();
+    });
+});
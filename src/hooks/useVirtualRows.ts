@@ -0,0 +1,140 @@
+/**
+ * useVirtualRows Hook
+ *
+ * Windowed rendering for long lists and tables:
+ * - Renders only the rows in (and just around) the scroll viewport
+ * - Measures rendered rows, so variable and changing heights are supported
+ * - Reports when the end is near, to load the next page lazily, and when the
+ *   start is near, to read back pages released from before the rows
+ *
+ * The container must scroll itself (fixed or max height, overflow auto).
+ * Rendered rows attach `measureRow` as their ref and set `data-virtual-key`.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualRowsOptions {
+    count: number;
+    /** Stable key of the row at an index (memoize it) */
+    getKey: (index: number) => string;
+    /** Height assumed for rows not measured yet */
+    estimateHeight: number;
+    /** Rows rendered beyond each edge of the viewport */
+    overscan?: number;
+    /** Called when the last rendered row comes within `overscan` of the end */
+    onEndReached?: () => void;
+    /** Space reserved above the rows, e.g. for rows released from memory */
+    leadingSpace?: number;
+    /** Called when the first row is rendered while space is reserved above it */
+    onStartReached?: () => void;
+}
+
+export function useVirtualRows({
+    count,
+    getKey,
+    estimateHeight,
+    overscan = 8,
+    onEndReached,
+    leadingSpace = 0,
+    onStartReached,
+}: VirtualRowsOptions) {
+    const [container, setContainer] = useState<HTMLElement | null>(null);
+    const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+    const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+    const observer = useRef<ResizeObserver | null>(null);
+
+    // Follow scroll position and viewport size
+    useEffect(() => {
+        if (!container) return;
+        const update = () => setViewport({ scrollTop: container.scrollTop, height: container.clientHeight });
+        update();
+        container.addEventListener('scroll', update, { passive: true });
+        const resize = new ResizeObserver(update);
+        resize.observe(container);
+        return () => {
+            container.removeEventListener('scroll', update);
+            resize.disconnect();
+        };
+    }, [container]);
+
+    // One observer measures every rendered row
+    useEffect(() => {
+        const rowObserver = new ResizeObserver((entries) => {
+            setHeights((prev) => {
+                let next: Map<string, number> | null = null;
+                for (const entry of entries) {
+                    const key = (entry.target as HTMLElement).dataset.virtualKey;
+                    const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.target.getBoundingClientRect().height;
+                    if (key && height > 0 && prev.get(key) !== height) {
+                        next ??= new Map(prev);
+                        next.set(key, height);
+                    }
+                }
+                return next ?? prev;
+            });
+        });
+        observer.current = rowObserver;
+        return () => {
+            rowObserver.disconnect();
+            observer.current = null;
+        };
+    }, []);
+
+    const measureRow = useCallback((element: HTMLElement | null) => {
+        if (!element) return;
+        observer.current?.observe(element);
+        return () => observer.current?.unobserve(element);
+    }, []);
+
+    // Row start positions; offsets[count] is the total height
+    const offsets = useMemo(() => {
+        const result = new Array<number>(count + 1);
+        result[0] = 0;
+        for (let i = 0; i < count; i++) {
+            result[i + 1] = result[i] + (heights.get(getKey(i)) ?? estimateHeight);
+        }
+        return result;
+    }, [count, getKey, heights, estimateHeight]);
+
+    // First row whose bottom edge is below `position`
+    const rowAt = (position: number) => {
+        let low = 0;
+        let high = count;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (offsets[mid + 1] <= position) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    };
+
+    const scrollTop = viewport.scrollTop - leadingSpace;
+    const start = Math.max(0, rowAt(scrollTop) - overscan);
+    const end = Math.min(count, rowAt(scrollTop + viewport.height) + 1 + overscan);
+
+    useEffect(() => {
+        if (onEndReached && count > 0 && end >= count) {
+            onEndReached();
+        }
+    }, [onEndReached, count, end]);
+
+    useEffect(() => {
+        if (onStartReached && leadingSpace > 0 && start === 0) {
+            onStartReached();
+        }
+    }, [onStartReached, leadingSpace, start]);
+
+    return {
+        /** Ref for the scrolling container */
+        containerRef: setContainer,
+        measureRow,
+        /** Indexes of the rows to render: [start, end) */
+        start,
+        end,
+        /** Space to reserve above and below the rendered rows */
+        paddingTop: leadingSpace + offsets[start],
+        paddingBottom: offsets[count] - offsets[end],
+    };
+}
+
+export default useVirtualRows;
@@ -0,0 +1,106 @@
+/**
+ * AuthCallback Page
+ *
+ * Landing page of the OAuth2 authorization code flow:
+ * - Exchanges the code returned by the issuer for tokens
+ * - Connects to the participant the login was started for
+ * - Reports login errors with a way back to the connection page
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { useAuth, useConnection } from '../services/store';
+
+export function AuthCallback() {
+    const navigate = useNavigate();
+    const { search } = useLocation();
+    const { completeLogin, authError } = useAuth();
+    const { status } = useConnection();
+    const [isDone, setIsDone] = useState(false);
+    // Authorization codes are single-use; StrictMode must not redeem twice
+    const started = useRef(false);
+
+    useEffect(() => {
+        if (started.current) return;
+        started.current = true;
+
+        completeLogin(search).then((connected) => {
+            if (connected) {
+                navigate('/', { replace: true });
+            } else {
+                setIsDone(true);
+            }
+        });
+    }, [completeLogin, search, navigate]);
+
+    return (
+        <div className="auth-callback">
+            <div className="auth-callback-card">
+                {!isDone ? (
+                    <>
+                        <Loader2 size={24} className="spin" />
+                        <p>Completing sign-in…</p>
+                    </>
+                ) : (
+                    <>
+                        <AlertCircle size={24} className="auth-callback-error-icon" />
+                        <p className="auth-callback-error">
+                            {authError || status.error || 'Could not connect to the participant'}
+                        </p>
+                        <Link to="/connect" className="btn btn-primary">
+                            Back to connection
+                        </Link>
+                    </>
+                )}
+            </div>
+
+            <style>{`
+        .auth-callback {
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          min-height: 100vh;
+          padding: var(--space-4);
+          background: var(--bg-primary);
+        }
+
+        .auth-callback-card {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: var(--space-4);
+          width: 100%;
+          max-width: 440px;
+          padding: var(--space-8);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-xl);
+          box-shadow: var(--shadow-xl);
+          text-align: center;
+          color: var(--text-secondary);
+        }
+
+        .auth-callback-error-icon {
+          color: var(--color-error-500);
+        }
+
+        .auth-callback-error {
+          color: var(--color-error-600);
+          font-size: var(--text-sm);
+        }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          from { transform: rotate(0deg); }
+          to { transform: rotate(360deg); }
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default AuthCallback;
@@ -0,0 +1,722 @@
+/**
+ * Completions Page
+ *
+ * Outcomes of submitted commands from the command completion stream:
+ * - Command ID, submitting user and acting parties, status and resulting
+ *   update for every command, including rejected ones
+ * - Canton error IDs, categories and correlation IDs of rejections
+ * - Filters by outcome, rejection reason and text
+ */
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, CheckCircle, ChevronDown, ChevronRight, ListChecks, RefreshCw, Search, XCircle } from 'lucide-react';
+import { useLedgerClient, usePartyLens } from '../services/store';
+import {
+    ERROR_CATEGORIES,
+    completionOutcome,
+    countRejections,
+    parseCantonError,
+    statusName,
+    type CompletionOutcome,
+} from '../services/completions';
+import type { CommandCompletion, LedgerOffset } from '../types/canton';
+
+type OutcomeFilter = CompletionOutcome | 'all';
+
+/** Completions requested at a time */
+const CHUNK_SIZE = 500;
+/** Completions kept; older ones in the window are dropped */
+const MAX_COMPLETIONS = 2000;
+
+const WINDOWS: Array<{ value: number; label: string }> = [
+    { value: 1_000, label: 'Last 1,000 offsets' },
+    { value: 10_000, label: 'Last 10,000 offsets' },
+    { value: 100_000, label: 'Last 100,000 offsets' },
+    { value: 0, label: 'From ledger begin' },
+];
+
+interface CompletionWindow {
+    completions: CommandCompletion[];
+    begin: LedgerOffset;
+    end: LedgerOffset;
+    /** Older completions in the window were dropped */
+    truncated: boolean;
+}
+
+const completionKey = (c: CommandCompletion) => `${c.offset}:${c.commandId}:${c.submissionId ?? ''}`;
+
+const rejectionReason = (c: CommandCompletion) =>
+    parseCantonError(c.status.message).errorId ?? statusName(c.status.code);
+
+export function Completions() {
+    const client = useLedgerClient();
+    const { lensPartyIds, partyRights } = usePartyLens();
+
+    // The user ID applies on submit, not per keystroke
+    const [userInput, setUserInput] = useState(partyRights?.userId ?? '');
+    const [userId, setUserId] = useState(userInput);
+    const [windowSize, setWindowSize] = useState(WINDOWS[1].value);
+    const [outcomeFilter, setOutcomeFilter] = useState<OutcomeFilter>('all');
+    const [reasonFilter, setReasonFilter] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+    const [result, setResult] = useState<CompletionWindow | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadCompletions = useCallback(async () => {
+        if (!client || lensPartyIds.length === 0) return;
+
+        setIsLoading(true);
+        setError(null);
+        try {
+            const { offset: end } = await client.ping();
+            const begin = windowSize > 0 ? Math.max(0, end - windowSize) : 0;
+
+            // The stream is oldest first; keep reading so the newest are shown
+            let completions: CommandCompletion[] = [];
+            let truncated = false;
+            let after = begin;
+            for (;;) {
+                const chunk = await client.getCompletions(lensPartyIds, {
+                    userId: userId || undefined,
+                    beginOffset: after,
+                    limit: CHUNK_SIZE,
+                });
+                completions = [...completions, ...chunk.filter((c) => c.offset <= end)];
+                if (completions.length > MAX_COMPLETIONS) {
+                    completions = completions.slice(-MAX_COMPLETIONS);
+                    truncated = true;
+                }
+                const last = chunk[chunk.length - 1]?.offset;
+                if (chunk.length < CHUNK_SIZE || last === undefined || last >= end) break;
+                after = last;
+            }
+
+            setResult({ completions: completions.reverse(), begin, end, truncated });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load completions');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [client, lensPartyIds, userId, windowSize]);
+
+    useEffect(() => {
+        loadCompletions();
+    }, [loadCompletions]);
+
+    const completions = useMemo(() => result?.completions ?? [], [result]);
+    const rejections = useMemo(() => countRejections(completions), [completions]);
+    const counts = useMemo(() => {
+        const rejected = completions.filter((c) => completionOutcome(c) === 'rejected').length;
+        return { all: completions.length, succeeded: completions.length - rejected, rejected };
+    }, [completions]);
+
+    const filteredCompletions = useMemo(() => {
+        const query = searchQuery.trim().toLowerCase();
+        return completions.filter((c) => {
+            if (outcomeFilter !== 'all' && completionOutcome(c) !== outcomeFilter) return false;
+            if (reasonFilter && (completionOutcome(c) !== 'rejected' || rejectionReason(c) !== reasonFilter)) return false;
+            if (!query) return true;
+            return [c.commandId, c.submissionId, c.updateId, c.userId, c.status.message, ...c.actAs].some((text) =>
+                text?.toLowerCase().includes(query)
+            );
+        });
+    }, [completions, outcomeFilter, reasonFilter, searchQuery]);
+
+    const toggleExpanded = (key: string) =>
+        setExpanded((prev) => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+
+    const selectReason = (reason: string) => {
+        setReasonFilter(reasonFilter === reason ? null : reason);
+        setOutcomeFilter('all');
+    };
+
+    if (lensPartyIds.length === 0) {
+        return (
+            <div className="empty-state">
+                <ListChecks className="empty-state-icon" />
+                <h3 className="empty-state-title">No Party Selected</h3>
+                <p className="empty-state-description">
+                    Select a party to see the completions of commands it submitted.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="completions-page">
+            {/* Header */}
+            <div className="page-header-content">
+                <div>
+                    <h1 className="page-title">Command Completions</h1>
+                    <p className="page-subtitle">
+                        Outcomes of commands submitted by the lens parties, including those rejected before they
+                        produced a transaction
+                    </p>
+                </div>
+                <div className="header-actions">
+                    <button className="btn btn-secondary" onClick={loadCompletions} disabled={isLoading}>
+                        <RefreshCw size={16} className={isLoading ? 'spin' : ''} />
+                        Refresh
+                    </button>
+                </div>
+            </div>
+
+            {/* Query */}
+            <form
+                className="completions-query"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    if (userInput.trim() === userId) {
+                        loadCompletions();
+                    } else {
+                        setUserId(userInput.trim());
+                    }
+                }}
+            >
+                <input
+                    value={userInput}
+                    onChange={(e) => setUserInput(e.target.value)}
+                    placeholder="Submitting user ID (defaults to the token's user)"
+                    className="completions-input"
+                />
+                <select
+                    value={windowSize}
+                    onChange={(e) => setWindowSize(Number(e.target.value))}
+                    className="completions-select"
+                >
+                    {WINDOWS.map((w) => (
+                        <option key={w.value} value={w.value}>
+                            {w.label}
+                        </option>
+                    ))}
+                </select>
+                <button type="submit" className="btn btn-secondary btn-sm" disabled={isLoading}>
+                    Apply
+                </button>
+            </form>
+
+            {error && (
+                <div className="error-banner">
+                    <AlertCircle size={18} />
+                    <span>{error}</span>
+                </div>
+            )}
+
+            {result?.truncated && (
+                <div className="notice-banner">
+                    <AlertCircle size={16} />
+                    <span>
+                        Showing the newest {MAX_COMPLETIONS.toLocaleString()} completions; narrow the offset window to
+                        see older ones.
+                    </span>
+                </div>
+            )}
+
+            {/* Outcome Summary */}
+            <div className="completions-summary">
+                {(['all', 'succeeded', 'rejected'] as OutcomeFilter[]).map((outcome) => (
+                    <button
+                        key={outcome}
+                        className={`card completions-summary-card outcome-${outcome} ${
+                            outcomeFilter === outcome && !reasonFilter ? 'active' : ''}`}
+                        onClick={() => {
+                            setOutcomeFilter(outcome);
+                            setReasonFilter(null);
+                        }}
+                    >
+                        <span className="completions-summary-count">{counts[outcome].toLocaleString()}</span>
+                        <span className="completions-summary-label">
+                            {outcome === 'all' ? 'Commands' : outcome === 'succeeded' ? 'Succeeded' : 'Rejected'}
+                        </span>
+                    </button>
+                ))}
+            </div>
+
+            {rejections.length > 0 && (
+                <div className="completions-reasons">
+                    <span className="completions-reasons-label">Rejections by reason</span>
+                    {rejections.map(({ reason, count }) => (
+                        <button
+                            key={reason}
+                            className={`reason-chip ${reasonFilter === reason ? 'active' : ''}`}
+                            onClick={() => selectReason(reason)}
+                        >
+                            <span className="mono">{reason}</span>
+                            <span className="reason-count">{count}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Completions */}
+            <div className="card">
+                <div className="card-header">
+                    <div className="search-bar">
+                        <Search size={16} className="search-icon" />
+                        <input
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            placeholder="Search by command, submission or update ID, party, or error…"
+                            className="search-input"
+                        />
+                    </div>
+                    {result && (
+                        <span className="completions-note">
+                            Offsets {result.begin.toLocaleString()}–{result.end.toLocaleString()}
+                        </span>
+                    )}
+                </div>
+                <div className="table-container">
+                    <table className="table">
+                        <thead>
+                            <tr>
+                                <th />
+                                <th>Offset</th>
+                                <th>Record Time</th>
+                                <th>Command ID</th>
+                                <th>Submitter</th>
+                                <th>Status</th>
+                                <th>Error</th>
+                                <th>Update</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {filteredCompletions.length === 0 ? (
+                                <tr>
+                                    <td colSpan={8} className="empty-cell">
+                                        {isLoading
+                                            ? 'Loading completions…'
+                                            : completions.length === 0
+                                                ? 'No commands completed in this offset window'
+                                                : 'No completions match the filters'}
+                                    </td>
+                                </tr>
+                            ) : (
+                                filteredCompletions.map((completion) => {
+                                    const key = completionKey(completion);
+                                    const rejected = completionOutcome(completion) === 'rejected';
+                                    const details = parseCantonError(completion.status.message);
+                                    const category = details.category !== undefined
+                                        ? ERROR_CATEGORIES[details.category]
+                                        : undefined;
+                                    const isExpanded = expanded.has(key);
+                                    return (
+                                        <Fragment key={key}>
+                                            <tr
+                                                className={`completion-row ${rejected ? 'rejected' : ''}`}
+                                                onClick={() => toggleExpanded(key)}
+                                            >
+                                                <td className="expand-cell">
+                                                    {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                                </td>
+                                                <td className="mono">{completion.offset.toLocaleString()}</td>
+                                                <td className="text-sm">
+                                                    {completion.recordTime
+                                                        ? new Date(completion.recordTime).toLocaleString()
+                                                        : '—'}
+                                                </td>
+                                                <td className="mono completion-id" title={completion.commandId}>
+                                                    {completion.commandId}
+                                                </td>
+                                                <td className="text-sm">
+                                                    <div>{completion.userId}</div>
+                                                    <div className="completions-note" title={completion.actAs.join(', ')}>
+                                                        {completion.actAs.map((p) => p.split('::')[0]).join(', ')}
+                                                    </div>
+                                                </td>
+                                                <td>
+                                                    {rejected ? (
+                                                        <span className="badge badge-error" title={`gRPC status ${completion.status.code}`}>
+                                                            <XCircle size={12} />
+                                                            {statusName(completion.status.code)}
+                                                        </span>
+                                                    ) : (
+                                                        <span className="badge badge-success">
+                                                            <CheckCircle size={12} />
+                                                            OK
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td className="completion-error">
+                                                    {rejected ? (
+                                                        <>
+                                                            {details.errorId && (
+                                                                <span className="mono completion-error-id">{details.errorId}</span>
+                                                            )}
+                                                            <span className="text-sm">{details.description}</span>
+                                                        </>
+                                                    ) : (
+                                                        '—'
+                                                    )}
+                                                </td>
+                                                <td>
+                                                    {completion.updateId ? (
+                                                        <Link
+                                                            to={`/transactions/${encodeURIComponent(completion.updateId)}`}
+                                                            className="mono"
+                                                            title={completion.updateId}
+                                                            onClick={(e) => e.stopPropagation()}
+                                                        >
+                                                            {completion.updateId.slice(0, 12)}…
+                                                        </Link>
+                                                    ) : (
+                                                        '—'
+                                                    )}
+                                                </td>
+                                            </tr>
+                                            {isExpanded && (
+                                                <tr className="completion-details">
+                                                    <td />
+                                                    <td colSpan={7}>
+                                                        <dl className="details-grid">
+                                                            <dt>Command ID</dt>
+                                                            <dd className="mono">{completion.commandId}</dd>
+                                                            <dt>Submission ID</dt>
+                                                            <dd className="mono">{completion.submissionId ?? '—'}</dd>
+                                                            <dt>Acting parties</dt>
+                                                            <dd className="mono">{completion.actAs.join(', ') || '—'}</dd>
+                                                            <dt>Synchronizer</dt>
+                                                            <dd className="mono">{completion.synchronizerId ?? '—'}</dd>
+                                                            {completion.paidTrafficCost !== undefined && (
+                                                                <>
+                                                                    <dt>Traffic cost</dt>
+                                                                    <dd>{completion.paidTrafficCost.toLocaleString()} bytes</dd>
+                                                                </>
+                                                            )}
+                                                            {rejected && (
+                                                                <>
+                                                                    <dt>Status</dt>
+                                                                    <dd>
+                                                                        {completion.status.code} ({statusName(completion.status.code)})
+                                                                    </dd>
+                                                                    {category && (
+                                                                        <>
+                                                                            <dt>Category</dt>
+                                                                            <dd>
+                                                                                {category.label}
+                                                                                {category.retryable && (
+                                                                                    <span className="badge badge-info retry-badge">Retryable</span>
+                                                                                )}
+                                                                            </dd>
+                                                                        </>
+                                                                    )}
+                                                                    {details.correlationId && (
+                                                                        <>
+                                                                            <dt>Correlation ID</dt>
+                                                                            <dd className="mono">{details.correlationId}</dd>
+                                                                        </>
+                                                                    )}
+                                                                    <dt>Message</dt>
+                                                                    <dd>
+                                                                        <pre className="completion-message">{completion.status.message}</pre>
+                                                                    </dd>
+                                                                </>
+                                                            )}
+                                                        </dl>
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </Fragment>
+                                    );
+                                })
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <style>{`
+        .completions-page {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+        }
+
+        .page-header-content {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+        }
+
+        .page-title {
+          font-size: var(--text-3xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+          margin-bottom: var(--space-1);
+        }
+
+        .page-subtitle {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .header-actions {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .completions-query {
+          display: flex;
+          align-items: center;
+          gap: var(--space-3);
+        }
+
+        .completions-input,
+        .completions-select {
+          padding: var(--space-2) var(--space-4);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+          font-size: var(--text-sm);
+          color: var(--text-primary);
+        }
+
+        .completions-input {
+          flex: 1;
+          max-width: 420px;
+        }
+
+        .completions-summary {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: var(--space-4);
+        }
+
+        .completions-summary-card {
+          display: flex;
+          flex-direction: column;
+          align-items: flex-start;
+          gap: var(--space-1);
+          padding: var(--space-4);
+          cursor: pointer;
+          text-align: left;
+          border-left: 4px solid var(--border-primary);
+          transition: all var(--transition-fast);
+        }
+
+        .completions-summary-card.outcome-succeeded { border-left-color: var(--color-success-500); }
+        .completions-summary-card.outcome-rejected { border-left-color: var(--color-error-500); }
+
+        .completions-summary-card.active {
+          background: var(--accent-primary-light);
+        }
+
+        .completions-summary-count {
+          font-size: var(--text-2xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+        }
+
+        .completions-summary-label {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .completions-reasons {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: var(--space-2);
+        }
+
+        .completions-reasons-label {
+          font-size: var(--text-xs);
+          font-weight: var(--font-semibold);
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          color: var(--text-tertiary);
+          margin-right: var(--space-2);
+        }
+
+        .reason-chip {
+          display: inline-flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-1) var(--space-3);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-full);
+          font-size: var(--text-xs);
+          color: var(--text-secondary);
+          cursor: pointer;
+        }
+
+        .reason-chip.active {
+          border-color: var(--color-error-500);
+          color: var(--color-error-600);
+        }
+
+        .reason-count {
+          font-weight: var(--font-semibold);
+        }
+
+        .completions-note {
+          font-size: var(--text-xs);
+          color: var(--text-tertiary);
+        }
+
+        .search-bar {
+          position: relative;
+          flex: 1;
+          max-width: 480px;
+        }
+
+        .search-bar .search-icon {
+          position: absolute;
+          left: var(--space-3);
+          top: 50%;
+          transform: translateY(-50%);
+          color: var(--text-tertiary);
+        }
+
+        .search-bar .search-input {
+          width: 100%;
+          padding: var(--space-2) var(--space-3) var(--space-2) var(--space-8);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+          font-size: var(--text-sm);
+          color: var(--text-primary);
+        }
+
+        .table-container {
+          overflow: auto;
+          max-height: 640px;
+        }
+
+        .table-container thead th {
+          position: sticky;
+          top: 0;
+          z-index: 1;
+          background: var(--bg-tertiary);
+        }
+
+        .completion-row {
+          cursor: pointer;
+        }
+
+        .completion-row.rejected td {
+          background: rgba(239, 68, 68, 0.04);
+        }
+
+        .expand-cell {
+          width: 24px;
+          color: var(--text-tertiary);
+        }
+
+        .completion-id {
+          max-width: 220px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .completion-error {
+          max-width: 360px;
+        }
+
+        .completion-error .text-sm {
+          display: -webkit-box;
+          -webkit-line-clamp: 2;
+          -webkit-box-orient: vertical;
+          overflow: hidden;
+        }
+
+        .completion-error-id {
+          display: block;
+          font-size: var(--text-xs);
+          color: var(--color-error-600);
+        }
+
+        .badge svg {
+          margin-right: var(--space-1);
+        }
+
+        .completion-details td {
+          background: var(--bg-tertiary);
+        }
+
+        .details-grid {
+          display: grid;
+          grid-template-columns: max-content 1fr;
+          gap: var(--space-2) var(--space-4);
+          font-size: var(--text-sm);
+        }
+
+        .details-grid dt {
+          color: var(--text-tertiary);
+        }
+
+        .details-grid dd {
+          margin: 0;
+          word-break: break-all;
+        }
+
+        .completion-message {
+          margin: 0;
+          white-space: pre-wrap;
+          word-break: break-word;
+          font-family: var(--font-mono);
+          font-size: var(--text-xs);
+        }
+
+        .retry-badge {
+          margin-left: var(--space-2);
+        }
+
+        .empty-cell {
+          text-align: center;
+          padding: var(--space-8) !important;
+          color: var(--text-tertiary);
+        }
+
+        .notice-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: var(--bg-tertiary);
+          border-radius: var(--radius-lg);
+          color: var(--text-secondary);
+          font-size: var(--text-sm);
+        }
+
+        .error-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: rgba(239, 68, 68, 0.08);
+          border: 1px solid var(--color-error-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-error-600);
+          font-size: var(--text-sm);
+        }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          from { transform: rotate(0deg); }
+          to { transform: rotate(360deg); }
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default Completions;
@@ -0,0 +1,923 @@
+/**
+ * Contract Detail Page
+ *
+ * Single-contract audit view with:
+ * - Status, template and offsets
+ * - Signatory / observer breakdown
+ * - Contract key, linking to the key's history, and created-event blob
+ * - Lifecycle timeline (create → exercises → archive)
+ * - Graph of the contracts it references and is referenced by
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+    ArrowLeft,
+    Archive,
+    Copy,
+    FileText,
+    History,
+    Key,
+    Network,
+    Play,
+    RefreshCw,
+    Shield,
+    Eye,
+} from 'lucide-react';
+import { useContracts, useLedgerClient, usePartyLens, useTemplateCatalog } from '../services/store';
+import { buildReferenceGraph, type ReferenceGraph as ReferenceGraphData } from '../services/contractGraph';
+import type { Contract, ContractId, ContractLifecycle, LedgerOffset, PartyId } from '../types/canton';
+
+interface TimelineEntryProps {
+    kind: 'created' | 'exercised' | 'archived';
+    title: string;
+    offset: LedgerOffset;
+    lifecycle: ContractLifecycle;
+    children?: React.ReactNode;
+}
+
+function TimelineEntry({ kind, title, offset, lifecycle, children }: TimelineEntryProps) {
+    const icons = {
+        created: <FileText size={16} />,
+        exercised: <Play size={16} />,
+        archived: <Archive size={16} />,
+    };
+    const update = lifecycle.updates[offset];
+
+    return (
+        <div className={`timeline-entry ${kind}`}>
+            <div className="timeline-marker">{icons[kind]}</div>
+            <div className="timeline-content">
+                <div className="timeline-header">
+                    <span className="timeline-title">{title}</span>
+                    <span className="timeline-meta">
+                        Offset {offset.toLocaleString()}
+                        {update && ` · ${new Date(update.effectiveAt).toLocaleString()}`}
+                    </span>
+                </div>
+                {update && (
+                    <div className="timeline-update">
+                        <span className="field-label">Update</span>
+                        <Link
+                            to={`/transactions/${encodeURIComponent(update.updateId)}`}
+                            className="mono text-xs timeline-update-link"
+                        >
+                            {update.updateId}
+                        </Link>
+                        {update.commandId && (
+                            <span className="text-xs text-tertiary">Command: {update.commandId}</span>
+                        )}
+                    </div>
+                )}
+                {children}
+            </div>
+        </div>
+    );
+}
+
+function PartyList({ parties, lensPartyIds }: { parties: PartyId[]; lensPartyIds: PartyId[] }) {
+    if (parties.length === 0) {
+        return <span className="text-sm text-tertiary">—</span>;
+    }
+    return (
+        <div className="party-list">
+            {parties.map((party) => (
+                <div key={party} className="party-row" title={party}>
+                    <span className={`badge ${lensPartyIds.includes(party) ? 'badge-info' : 'badge-neutral'}`}>
+                        {party.split('::')[0]}
+                    </span>
+                    <code className="mono text-xs text-tertiary truncate">{party}</code>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 40;
+const COLUMN_GAP = 90;
+const ROW_GAP = 12;
+
+interface ReferenceGraphProps {
+    graph: ReferenceGraphData;
+    rootId: ContractId;
+    onSelect: (contractId: ContractId) => void;
+}
+
+/**
+ * Node-link diagram of a reference graph: referencing contracts on the left,
+ * referenced ones on the right.
+ */
+function ReferenceGraph({ graph, rootId, onSelect }: ReferenceGraphProps) {
+    const { positions, width, height } = useMemo(() => {
+        const first = Math.min(...graph.nodes.map((node) => node.column));
+        const rows = new Map<number, number>();
+        const positions = new Map(
+            graph.nodes.map((node) => {
+                const row = rows.get(node.column) ?? 0;
+                rows.set(node.column, row + 1);
+                return [
+                    node.contractId,
+                    { x: (node.column - first) * (NODE_WIDTH + COLUMN_GAP), y: row * (NODE_HEIGHT + ROW_GAP) },
+                ] as const;
+            })
+        );
+        const columns = Math.max(...graph.nodes.map((node) => node.column)) - first + 1;
+        return {
+            positions,
+            width: columns * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP,
+            height: Math.max(...rows.values()) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP,
+        };
+    }, [graph]);
+
+    return (
+        <svg width={width + 2} height={height + 2} className="reference-graph">
+            <defs>
+                <marker id="reference-arrow" viewBox="0 0 8 8" refX={8} refY={4} markerWidth={8} markerHeight={8} orient="auto">
+                    <path d="M 0 0 L 8 4 L 0 8 z" className="reference-arrow" />
+                </marker>
+            </defs>
+            <g transform="translate(1, 1)">
+                {graph.edges.map((edge) => {
+                    const a = positions.get(edge.from)!;
+                    const b = positions.get(edge.to)!;
+                    const x1 = a.x + NODE_WIDTH;
+                    const y1 = a.y + NODE_HEIGHT / 2;
+                    const x2 = b.x;
+                    const y2 = b.y + NODE_HEIGHT / 2;
+                    const mid = (x1 + x2) / 2;
+                    return (
+                        <path
+                            key={`${edge.from}-${edge.to}-${edge.path}`}
+                            className={`reference-edge ${edge.typed ? '' : 'untyped'}`}
+                            d={`M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`}
+                            markerEnd="url(#reference-arrow)"
+                        >
+                            <title>{`${edge.path}${edge.typed ? '' : ' (looks like a contract ID)'}`}</title>
+                        </path>
+                    );
+                })}
+                {graph.nodes.map((node) => {
+                    const { x, y } = positions.get(node.contractId)!;
+                    return (
+                        <g
+                            key={node.contractId}
+                            className={`reference-node status-${node.status} ${node.contractId === rootId ? 'root' : ''}`}
+                            transform={`translate(${x}, ${y})`}
+                            onClick={() => onSelect(node.contractId)}
+                        >
+                            <title>{`${node.contractId}\n${node.templateId ?? 'Template unknown'} · ${node.status}`}</title>
+                            <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={6} />
+                            <text x={10} y={17}>
+                                {(node.templateId?.split(':').pop() ?? 'Unknown template').slice(0, 26)}
+                            </text>
+                            <text x={10} y={31} className="node-id">
+                                {node.contractId.slice(0, 16)}… · {node.status === 'unknown' ? 'not cached' : node.status}
+                            </text>
+                        </g>
+                    );
+                })}
+            </g>
+        </svg>
+    );
+}
+
+export function ContractDetail() {
+    const { contractId = '' } = useParams();
+    const client = useLedgerClient();
+    const { activeParty, lensPartyIds } = usePartyLens();
+    const { getContract, contractMap, archivedContracts } = useContracts();
+    const { templates } = useTemplateCatalog();
+    const navigate = useNavigate();
+
+    const [lifecycle, setLifecycle] = useState<ContractLifecycle | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [showBlob, setShowBlob] = useState(false);
+    const [graphDepth, setGraphDepth] = useState(2);
+    const [shownContractId, setShownContractId] = useState(contractId);
+    /** Bumped per load so responses for a previous contract are dropped */
+    const lifecycleRequest = useRef(0);
+
+    // Links (e.g. graph nodes) open another contract on the same page; drop
+    // the previous contract's lifecycle instead of showing it meanwhile
+    if (shownContractId !== contractId) {
+        setShownContractId(contractId);
+        setLifecycle(null);
+        setError(null);
+    }
+
+    const loadLifecycle = useCallback(async () => {
+        if (!client || lensPartyIds.length === 0) return;
+
+        const request = ++lifecycleRequest.current;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const loaded = await client.getContractLifecycle(contractId, lensPartyIds);
+            if (request === lifecycleRequest.current) setLifecycle(loaded);
+        } catch (err) {
+            if (request === lifecycleRequest.current) {
+                setError(err instanceof Error ? err.message : 'Failed to load contract');
+            }
+        } finally {
+            if (request === lifecycleRequest.current) setIsLoading(false);
+        }
+    }, [client, lensPartyIds, contractId]);
+
+    useEffect(() => {
+        loadLifecycle();
+    }, [loadLifecycle]);
+
+    // The lifecycle's created event stands in for contracts the cache lacks
+    const referenceGraph = useMemo(() => {
+        const created = lifecycle?.createdEvent;
+        const contract: Contract | undefined = created && {
+            contractId,
+            templateId: created.templateId,
+            payload: created.createArguments,
+            stakeholders: [...created.signatories, ...created.observers],
+            signatories: created.signatories,
+            observers: created.observers,
+            createdAt: '',
+            offset: created.offset,
+        };
+        return buildReferenceGraph(contractId, { contracts: contractMap, archivedContracts, templates }, {
+            depth: graphDepth,
+            root: contract && { contract, status: lifecycle?.archivedEvent ? 'archived' : 'active' },
+        });
+    }, [contractId, lifecycle, contractMap, archivedContracts, templates, graphDepth]);
+
+    const copyToClipboard = (value: string) => {
+        navigator.clipboard.writeText(value);
+    };
+
+    if (!activeParty) {
+        return (
+            <div className="empty-state">
+                <h2 className="empty-state-title">No Party Selected</h2>
+                <p className="empty-state-description">
+                    Select a party to view contract details.
+                </p>
+            </div>
+        );
+    }
+
+    // Fall back to the cached ACS entry while the lifecycle loads
+    const cached = getContract(contractId);
+    const created = lifecycle?.createdEvent;
+    const templateId = created?.templateId || cached?.templateId || '';
+    const signatories = created?.signatories || cached?.signatories || [];
+    const observers = created?.observers || cached?.observers || [];
+    const payload = created?.createArguments || cached?.payload;
+    const contractKey = created ? created.contractKey : cached?.contractKey;
+    const createdEventBlob = created?.createdEventBlob || cached?.createdEventBlob;
+    const hasKey = contractKey !== undefined && contractKey !== null;
+    const isArchived = Boolean(lifecycle?.archivedEvent);
+
+    return (
+        <div className="contract-detail">
+            {/* Header */}
+            <div className="page-header-content">
+                <div className="detail-title-block">
+                    <Link to="/contracts" className="back-link">
+                        <ArrowLeft size={14} />
+                        Contracts
+                    </Link>
+                    <h1 className="page-title">
+                        {templateId ? templateId.split(':').pop() : 'Contract'}
+                    </h1>
+                    <div className="detail-id">
+                        <code className="mono">{contractId}</code>
+                        <button
+                            className="copy-btn"
+                            onClick={() => copyToClipboard(contractId)}
+                            title="Copy contract ID"
+                        >
+                            <Copy size={14} />
+                        </button>
+                        {(lifecycle || cached) && (
+                            <span className={`badge ${isArchived ? 'badge-error' : 'badge-success'}`}>
+                                {isArchived ? 'Archived' : 'Active'}
+                            </span>
+                        )}
+                    </div>
+                </div>
+                <div className="header-actions">
+                    <button
+                        className="btn btn-secondary"
+                        onClick={loadLifecycle}
+                        disabled={isLoading}
+                    >
+                        <RefreshCw size={16} className={isLoading ? 'spin' : ''} />
+                        Refresh
+                    </button>
+                </div>
+            </div>
+
+            {/* Error State */}
+            {error && (
+                <div className="error-banner">
+                    <span>{error}</span>
+                    <button onClick={loadLifecycle}>Retry</button>
+                </div>
+            )}
+
+            {!isLoading && !error && !lifecycle && !cached ? (
+                <div className="empty-state">
+                    <h3 className="empty-state-title">Contract Not Found</h3>
+                    <p className="empty-state-description">
+                        This contract is unknown or not visible to the active party.
+                    </p>
+                </div>
+            ) : (
+                <div className="detail-grid">
+                    <div className="detail-column">
+                        {/* Overview */}
+                        <div className="card">
+                            <div className="card-header">
+                                <h3 className="card-title">Overview</h3>
+                            </div>
+                            <div className="card-body">
+                                <div className="info-grid">
+                                    <div className="info-item">
+                                        <span className="field-label">Template ID</span>
+                                        <code className="mono text-xs">{templateId || '—'}</code>
+                                    </div>
+                                    <div className="info-item">
+                                        <span className="field-label">Created at offset</span>
+                                        <span className="mono">
+                                            {(created?.offset ?? cached?.offset)?.toLocaleString() ?? '—'}
+                                        </span>
+                                    </div>
+                                    <div className="info-item">
+                                        <span className="field-label">Archived at offset</span>
+                                        <span className="mono">
+                                            {lifecycle?.archivedEvent?.offset.toLocaleString() ?? '—'}
+                                        </span>
+                                    </div>
+                                    <div className="info-item">
+                                        <span className="field-label">Exercises</span>
+                                        <span className="mono">{lifecycle?.exercises.length ?? '—'}</span>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Parties */}
+                        <div className="card">
+                            <div className="card-header">
+                                <h3 className="card-title">Stakeholders</h3>
+                                <span className="badge badge-neutral">
+                                    {new Set([...signatories, ...observers]).size} parties
+                                </span>
+                            </div>
+                            <div className="card-body">
+                                <div className="role-section">
+                                    <div className="role-header">
+                                        <Shield size={14} />
+                                        <span className="field-label">Signatories</span>
+                                    </div>
+                                    <PartyList parties={signatories} lensPartyIds={lensPartyIds} />
+                                </div>
+                                <div className="role-section">
+                                    <div className="role-header">
+                                        <Eye size={14} />
+                                        <span className="field-label">Observers</span>
+                                    </div>
+                                    <PartyList parties={observers} lensPartyIds={lensPartyIds} />
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Contract Key */}
+                        <div className="card">
+                            <div className="card-header">
+                                <h3 className="card-title">
+                                    <Key size={16} /> Contract Key
+                                </h3>
+                                {hasKey && (
+                                    <div className="card-actions">
+                                        <Link
+                                            to={`/keys?${new URLSearchParams({ template: templateId, key: JSON.stringify(contractKey) })}`}
+                                            className="btn btn-ghost btn-sm"
+                                        >
+                                            <History size={14} />
+                                            Key history
+                                        </Link>
+                                    </div>
+                                )}
+                            </div>
+                            <div className="card-body">
+                                {!hasKey ? (
+                                    <span className="text-sm text-tertiary">This template has no key</span>
+                                ) : (
+                                    <pre className="json-block">{JSON.stringify(contractKey, null, 2)}</pre>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Created Event Blob */}
+                        <div className="card">
+                            <div className="card-header">
+                                <h3 className="card-title">Created Event Blob</h3>
+                                {createdEventBlob && (
+                                    <div className="card-actions">
+                                        <button
+                                            className="btn btn-ghost btn-sm"
+                                            onClick={() => copyToClipboard(createdEventBlob)}
+                                        >
+                                            <Copy size={14} />
+                                            Copy
+                                        </button>
+                                        <button
+                                            className="btn btn-ghost btn-sm"
+                                            onClick={() => setShowBlob(!showBlob)}
+                                        >
+                                            {showBlob ? 'Hide' : 'Show'}
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                            <div className="card-body">
+                                {!createdEventBlob ? (
+                                    <span className="text-sm text-tertiary">No blob was returned for this contract</span>
+                                ) : showBlob ? (
+                                    <pre className="json-block blob">{createdEventBlob}</pre>
+                                ) : (
+                                    <span className="text-sm text-secondary">
+                                        {createdEventBlob.length.toLocaleString()} characters (base64) — used for explicit disclosure
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="detail-column">
+                        {/* Payload */}
+                        <div className="card">
+                            <div className="card-header">
+                                <h3 className="card-title">Create Arguments</h3>
+                            </div>
+                            <div className="card-body">
+                                {payload ? (
+                                    <pre className="json-block">{JSON.stringify(payload, null, 2)}</pre>
+                                ) : (
+                                    <div className="skeleton" style={{ width: '100%', height: '120px' }} />
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Lifecycle */}
+                        <div className="card">
+                            <div className="card-header">
+                                <h3 className="card-title">Lifecycle</h3>
+                            </div>
+                            <div className="card-body">
+                                {isLoading && !lifecycle ? (
+                                    <div className="skeleton" style={{ width: '100%', height: '160px' }} />
+                                ) : !lifecycle ? (
+                                    <span className="text-sm text-tertiary">
+                                        Lifecycle events are not available for this contract.
+                                    </span>
+                                ) : (
+                                    <div className="timeline">
+                                        <TimelineEntry
+                                            kind="created"
+                                            title="Created"
+                                            offset={lifecycle.createdEvent.offset}
+                                            lifecycle={lifecycle}
+                                        />
+                                        {lifecycle.exercises.map((exercise) => (
+                                            <TimelineEntry
+                                                key={exercise.eventId}
+                                                kind="exercised"
+                                                title={`${exercise.choice}${exercise.consuming ? ' (consuming)' : ''}`}
+                                                offset={exercise.offset}
+                                                lifecycle={lifecycle}
+                                            >
+                                                <div className="timeline-field">
+                                                    <span className="field-label">Acting parties</span>
+                                                    <span className="text-sm">
+                                                        {exercise.actingParties.map((p) => p.split('::')[0]).join(', ')}
+                                                    </span>
+                                                </div>
+                                                <div className="timeline-field">
+                                                    <span className="field-label">Choice argument</span>
+                                                    <pre className="json-block">
+                                                        {JSON.stringify(exercise.choiceArgument, null, 2)}
+                                                    </pre>
+                                                </div>
+                                                {exercise.exerciseResult !== undefined && (
+                                                    <div className="timeline-field">
+                                                        <span className="field-label">Result</span>
+                                                        <pre className="json-block">
+                                                            {JSON.stringify(exercise.exerciseResult, null, 2)}
+                                                        </pre>
+                                                    </div>
+                                                )}
+                                            </TimelineEntry>
+                                        ))}
+                                        {lifecycle.scannedTo !== undefined && (
+                                            <p className="text-sm text-tertiary">
+                                                Exercises after offset {lifecycle.scannedTo.toLocaleString()} were
+                                                not scanned: the template has too many updates in this lifecycle.
+                                            </p>
+                                        )}
+                                        {lifecycle.archivedEvent && (
+                                            <TimelineEntry
+                                                kind="archived"
+                                                title="Archived"
+                                                offset={lifecycle.archivedEvent.offset}
+                                                lifecycle={lifecycle}
+                                            />
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* References */}
+            {(lifecycle || cached) && (
+                <div className="card">
+                    <div className="card-header">
+                        <h3 className="card-title">
+                            <Network size={16} /> References
+                        </h3>
+                        <div className="card-actions">
+                            <select
+                                value={graphDepth}
+                                onChange={(e) => setGraphDepth(Number(e.target.value))}
+                                className="depth-select"
+                                aria-label="Reference depth"
+                            >
+                                {[1, 2, 3].map((depth) => (
+                                    <option key={depth} value={depth}>
+                                        {depth} hop{depth !== 1 ? 's' : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="card-body">
+                        {referenceGraph.nodes.length <= 1 ? (
+                            <span className="text-sm text-tertiary">
+                                The payload holds no contract IDs, and no cached contract refers to this one.
+                            </span>
+                        ) : (
+                            <>
+                                <div className="reference-graph-container">
+                                    <ReferenceGraph
+                                        graph={referenceGraph}
+                                        rootId={contractId}
+                                        onSelect={(id) => id !== contractId && navigate(`/contracts/${encodeURIComponent(id)}`)}
+                                    />
+                                </div>
+                                <p className="reference-legend">
+                                    Contracts referring to this one are on the left, contracts it refers to on the
+                                    right. Dashed links were recognised by their shape, not the payload type.
+                                    {referenceGraph.truncated && ' Some contracts were left out to keep the graph readable.'}
+                                </p>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <style>{`
+        .contract-detail {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+        }
+
+        .page-header-content {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+        }
+
+        .page-title {
+          font-size: var(--text-3xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+          margin-bottom: var(--space-1);
+        }
+
+        .header-actions {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .detail-title-block {
+          min-width: 0;
+        }
+
+        .back-link {
+          display: inline-flex;
+          align-items: center;
+          gap: var(--space-1);
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+          margin-bottom: var(--space-2);
+        }
+
+        .back-link:hover {
+          color: var(--accent-primary);
+        }
+
+        .detail-id {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          font-size: var(--text-xs);
+          color: var(--text-secondary);
+          word-break: break-all;
+        }
+
+        .copy-btn {
+          background: none;
+          border: none;
+          color: var(--text-tertiary);
+          cursor: pointer;
+          padding: var(--space-1);
+        }
+
+        .copy-btn:hover {
+          color: var(--accent-primary);
+        }
+
+        .depth-select {
+          padding: var(--space-1) var(--space-2);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-md);
+          font-size: var(--text-xs);
+          color: var(--text-primary);
+        }
+
+        .reference-graph-container {
+          overflow: auto;
+          max-height: 520px;
+        }
+
+        .reference-node {
+          cursor: pointer;
+        }
+
+        .reference-node rect {
+          fill: var(--bg-secondary);
+          stroke: var(--border-primary);
+          stroke-width: 1;
+        }
+
+        .reference-node text {
+          fill: var(--text-primary);
+          font-size: 12px;
+        }
+
+        .reference-node .node-id {
+          fill: var(--text-tertiary);
+          font-size: 10px;
+          font-family: var(--font-mono);
+        }
+
+        .reference-node.status-active rect {
+          stroke: var(--color-success-500);
+        }
+
+        .reference-node.status-archived rect {
+          stroke: var(--color-error-500);
+          stroke-dasharray: 4 2;
+        }
+
+        .reference-node.status-unknown {
+          opacity: 0.6;
+        }
+
+        .reference-node.root {
+          cursor: default;
+        }
+
+        .reference-node.root rect {
+          stroke: var(--accent-primary);
+          stroke-width: 2;
+          fill: var(--accent-primary-light);
+        }
+
+        .reference-edge {
+          fill: none;
+          stroke: var(--text-tertiary);
+          stroke-width: 1.5;
+        }
+
+        .reference-edge.untyped {
+          stroke-dasharray: 5 3;
+        }
+
+        .reference-arrow {
+          fill: var(--text-tertiary);
+        }
+
+        .reference-legend {
+          margin-top: var(--space-3);
+          font-size: var(--text-xs);
+          color: var(--text-tertiary);
+        }
+
+        .detail-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(420px, 1fr));
+          gap: var(--space-6);
+          align-items: start;
+        }
+
+        .detail-column {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+          min-width: 0;
+        }
+
+        .card-title {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+        }
+
+        .card-actions {
+          display: flex;
+          gap: var(--space-1);
+        }
+
+        .info-grid {
+          display: grid;
+          grid-template-columns: repeat(2, minmax(0, 1fr));
+          gap: var(--space-4);
+        }
+
+        .info-item {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          min-width: 0;
+          word-break: break-all;
+        }
+
+        .field-label {
+          font-size: var(--text-xs);
+          font-weight: var(--font-medium);
+          color: var(--text-tertiary);
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+        }
+
+        .role-section + .role-section {
+          margin-top: var(--space-4);
+        }
+
+        .role-header {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          color: var(--text-tertiary);
+          margin-bottom: var(--space-2);
+        }
+
+        .party-list {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+        }
+
+        .party-row {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          min-width: 0;
+        }
+
+        .json-block {
+          font-family: var(--font-mono);
+          font-size: var(--text-xs);
+          background: var(--bg-tertiary);
+          padding: var(--space-3);
+          border-radius: var(--radius-md);
+          overflow: auto;
+          max-height: 320px;
+        }
+
+        .json-block.blob {
+          white-space: pre-wrap;
+          word-break: break-all;
+        }
+
+        .timeline {
+          display: flex;
+          flex-direction: column;
+        }
+
+        .timeline-entry {
+          display: flex;
+          gap: var(--space-3);
+          position: relative;
+          padding-bottom: var(--space-4);
+        }
+
+        .timeline-entry:not(:last-child)::before {
+          content: '';
+          position: absolute;
+          left: 15px;
+          top: 32px;
+          bottom: 0;
+          width: 2px;
+          background: var(--border-primary);
+        }
+
+        .timeline-marker {
+          width: 32px;
+          height: 32px;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          border-radius: var(--radius-full);
+          flex-shrink: 0;
+        }
+
+        .timeline-entry.created .timeline-marker {
+          background: rgba(34, 197, 94, 0.15);
+          color: var(--color-success-500);
+        }
+
+        .timeline-entry.exercised .timeline-marker {
+          background: rgba(59, 130, 246, 0.15);
+          color: var(--color-info-500);
+        }
+
+        .timeline-entry.archived .timeline-marker {
+          background: rgba(239, 68, 68, 0.15);
+          color: var(--color-error-500);
+        }
+
+        .timeline-content {
+          flex: 1;
+          min-width: 0;
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+          padding-top: var(--space-1);
+        }
+
+        .timeline-header {
+          display: flex;
+          align-items: baseline;
+          justify-content: space-between;
+          gap: var(--space-2);
+          flex-wrap: wrap;
+        }
+
+        .timeline-title {
+          font-weight: var(--font-semibold);
+          color: var(--text-primary);
+        }
+
+        .timeline-meta {
+          font-size: var(--text-xs);
+          color: var(--text-tertiary);
+        }
+
+        .timeline-update,
+        .timeline-field {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          word-break: break-all;
+        }
+
+        .timeline-update-link {
+          color: var(--accent-primary);
+        }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          to { transform: rotate(360deg); }
+        }
+
+        @media (max-width: 640px) {
+          .detail-grid {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default ContractDetail;
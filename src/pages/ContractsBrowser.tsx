@@ -2,15 +2,18 @@
  * Contracts Browser Page
  * 
  * Active Contracts Service (ACS) browser with:
- * - Template filter
- * - Field search
+ * - Template filter (server-side)
+ * - Interface filter (server-side) across all implementing templates, with
+ *   the interface view shown as columns
+ * - Field search over the loaded contracts
  * - Date range
- * - Status filter (active/archived)
- * - Paginated data grid
+ * - Status filter (active/archived/all) backed by the sync engine's archive index
+ * - Lazily paged, virtualized data grid: ACS pages are fetched at a fixed
+ *   offset as the table scrolls; contracts created since come from the sync state
  * - CSV export
  */
 
-import { useEffect, useState, useMemo } from 'react';
+import { useCallback, useEffect, useState, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import {
     Search,
@@ -21,27 +24,120 @@ import {
     ExternalLink,
     RefreshCw,
     X,
+    Play,
 } from 'lucide-react';
-import { useContracts, usePartyLens } from '../services/store';
+import {
+    useContracts,
+    useLedgerClient,
+    usePartyLens,
+    useTemplateCatalog,
+    useTransactions,
+} from '../services/store';
+import { selectContracts, type ContractStatus } from '../services/syncEngine';
+import {
+    CONTRACT_ROLE_LABELS,
+    contractRole,
+    contractVisibility,
+    describeRoleFilter,
+} from '../services/partyLens';
+import { usePagedQuery } from '../hooks/usePagedQuery';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import CommandDialog from '../components/CommandDialog';
+import type { Contract, InterfaceView, LedgerOffset, PageToken } from '../types/canton';
 
 type SortField = 'templateId' | 'contractId' | 'createdAt' | 'offset';
 type SortDirection = 'asc' | 'desc';
 
+const PAGE_SIZE = 200;
+const ROW_HEIGHT = 57;
+/** Longest rendering of a view value before it is cut */
+const VIEW_VALUE_LENGTH = 40;
+
+/**
+ * Short rendering of a view field: party IDs without their namespace,
+ * nested values as JSON.
+ */
+function formatViewValue(value: unknown): string {
+    if (value === null || value === undefined) return '—';
+    if (typeof value === 'string') return value.includes('::') ? value.split('::')[0] : value;
+    if (typeof value !== 'object') return String(value);
+    const json = JSON.stringify(value);
+    return json.length > VIEW_VALUE_LENGTH ? `${json.slice(0, VIEW_VALUE_LENGTH)}…` : json;
+}
+
 export function ContractsBrowser() {
-    const { contracts, isLoading, error, loadContracts } = useContracts();
-    const { activeParty } = usePartyLens();
+    const { contractMap, archivedContracts, loadContracts } = useContracts();
+    const { loadTransactions } = useTransactions();
+    const { templates: catalogTemplates, interfaces: catalogInterfaces } = useTemplateCatalog();
+    const { activeParty, lensPartyIds, visibleRoles, matchesRole } = usePartyLens();
+    const roleFilter = describeRoleFilter(visibleRoles);
+    // With several lens parties, rows show which of them see each contract
+    const multiParty = lensPartyIds.length > 1;
+    const client = useLedgerClient();
 
     // Filter state
     const [searchQuery, setSearchQuery] = useState('');
     const [templateFilter, setTemplateFilter] = useState<string>('');
+    const [interfaceFilter, setInterfaceFilter] = useState<string>('');
+    const [statusFilter, setStatusFilter] = useState<ContractStatus>('active');
+
+    // Active contracts are paged from the server, never held all at once
+    const pagesActive = statusFilter !== 'archived';
+    const fetchPage = useMemo(
+        () =>
+            client && lensPartyIds.length > 0 && pagesActive
+                ? (pageToken?: PageToken, offset?: LedgerOffset) =>
+                    client.getActiveContractsPage(lensPartyIds, {
+                        templateIds: templateFilter ? [templateFilter] : undefined,
+                        interfaceIds: interfaceFilter ? [interfaceFilter] : undefined,
+                        offset,
+                        pageSize: PAGE_SIZE,
+                        pageToken,
+                    })
+                : null,
+        [client, lensPartyIds, pagesActive, templateFilter, interfaceFilter]
+    );
+    const {
+        items: pagedContracts,
+        itemsBefore,
+        offset: pageOffset,
+        hasMore,
+        truncated,
+        isLoading,
+        error,
+        loadMore,
+        loadPrevious,
+        reload,
+    } = usePagedQuery(fetchPage);
+
+    const contracts = useMemo(() => {
+        const active: Contract[] = [];
+        if (pagesActive && pageOffset !== null) {
+            // Created after the paged snapshot: known from the sync state, and
+            // shown with the first page
+            if (itemsBefore === 0) {
+                for (const contract of contractMap.values()) {
+                    if (contract.offset > pageOffset) active.push(contract);
+                }
+            }
+            // Archived since the snapshot: dropped
+            for (const contract of pagedContracts) {
+                if (!archivedContracts.has(contract.contractId)) active.push(contract);
+            }
+        }
+        const archived = statusFilter === 'active'
+            ? []
+            : selectContracts({ contracts: new Map(), archivedContracts }, 'archived');
+        // The lens role filter applies to every status
+        return [...active, ...archived].filter(matchesRole);
+    }, [pagesActive, pageOffset, itemsBefore, pagedContracts, contractMap, archivedContracts, statusFilter, matchesRole]);
 
     // Sorting state
     const [sortField, setSortField] = useState<SortField>('offset');
     const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
 
-    // Pagination state
-    const [page, setPage] = useState(1);
-    const pageSize = 25;
+    // Command dialog state
+    const [exerciseTarget, setExerciseTarget] = useState<Contract | null>(null);
 
     // Load contracts on mount
     useEffect(() => {
@@ -50,11 +146,39 @@ export function ContractsBrowser() {
         }
     }, [activeParty, loadContracts]);
 
-    // Get unique templates for filter dropdown
+    // Archives before the sync point are only known from the update history
+    useEffect(() => {
+        if (activeParty && statusFilter !== 'active') {
+            loadTransactions();
+        }
+    }, [activeParty, statusFilter, loadTransactions]);
+
+    // Templates for the filter dropdown: the catalog plus any seen in the data
     const templates = useMemo(() => {
-        const templateSet = new Set(contracts.map((c) => c.templateId));
+        const templateSet = new Set(catalogTemplates.keys());
+        contracts.forEach((c) => templateSet.add(c.templateId));
         return Array.from(templateSet).sort();
-    }, [contracts]);
+    }, [catalogTemplates, contracts]);
+
+    // Contracts from the sync state carry no views; match them by template
+    const implementers = useMemo(
+        () =>
+            interfaceFilter
+                ? new Set(
+                    Array.from(catalogTemplates.values())
+                        .filter((t) => t.implements?.includes(interfaceFilter))
+                        .map((t) => t.templateId)
+                )
+                : null,
+        [catalogTemplates, interfaceFilter]
+    );
+
+    const viewOf = useCallback(
+        (contract: Contract): InterfaceView | undefined =>
+            contract.interfaceViews?.find((view) => view.interfaceId === interfaceFilter) ??
+            contract.interfaceViews?.[0],
+        [interfaceFilter]
+    );
 
     // Filter and sort contracts
     const filteredContracts = useMemo(() => {
@@ -67,7 +191,8 @@ export function ContractsBrowser() {
                 (c) =>
                     c.contractId.toLowerCase().includes(query) ||
                     c.templateId.toLowerCase().includes(query) ||
-                    JSON.stringify(c.payload).toLowerCase().includes(query)
+                    JSON.stringify(c.payload).toLowerCase().includes(query) ||
+                    (c.contractKey !== undefined && JSON.stringify(c.contractKey).toLowerCase().includes(query))
             );
         }
 
@@ -76,6 +201,11 @@ export function ContractsBrowser() {
             result = result.filter((c) => c.templateId === templateFilter);
         }
 
+        // Apply interface filter
+        if (implementers) {
+            result = result.filter((c) => implementers.has(c.templateId) || viewOf(c) !== undefined);
+        }
+
         // Apply sorting
         result.sort((a, b) => {
             let comparison = 0;
@@ -97,15 +227,45 @@ export function ContractsBrowser() {
         });
 
         return result;
-    }, [contracts, searchQuery, templateFilter, sortField, sortDirection]);
-
-    // Paginate
-    const paginatedContracts = useMemo(() => {
-        const start = (page - 1) * pageSize;
-        return filteredContracts.slice(start, start + pageSize);
-    }, [filteredContracts, page]);
-
-    const totalPages = Math.ceil(filteredContracts.length / pageSize);
+    }, [contracts, searchQuery, templateFilter, implementers, viewOf, sortField, sortDirection]);
+
+    // View columns: the view type's fields, else those of the first view seen
+    const viewColumns = useMemo(() => {
+        if (!interfaceFilter) return [];
+        const viewType = catalogInterfaces.get(interfaceFilter)?.viewType;
+        if (viewType?.tag === 'record') {
+            return viewType.fields.map((field) => field.name);
+        }
+        const sample = filteredContracts.map(viewOf).find((view) => view?.viewValue);
+        return Object.keys(sample?.viewValue ?? {});
+    }, [interfaceFilter, catalogInterfaces, filteredContracts, viewOf]);
+    const columnCount = 7 + viewColumns.length + (multiParty ? 1 : 0);
+
+    // Virtualize; scrolling to the end loads the next page, and back to pages
+    // released from memory reads them again. Not while searching: a search
+    // matching little would otherwise load every page.
+    const getRowKey = useCallback((index: number) => filteredContracts[index].contractId, [filteredContracts]);
+    const {
+        containerRef,
+        measureRow,
+        start,
+        end,
+        paddingTop,
+        paddingBottom,
+    } = useVirtualRows({
+        count: filteredContracts.length,
+        getKey: getRowKey,
+        estimateHeight: ROW_HEIGHT,
+        onEndReached: searchQuery ? undefined : loadMore,
+        leadingSpace: searchQuery ? 0 : itemsBefore * ROW_HEIGHT,
+        onStartReached: searchQuery ? undefined : loadPrevious,
+    });
+    const visibleContracts = filteredContracts.slice(start, end);
+
+    const refresh = () => {
+        reload();
+        loadContracts();
+    };
 
     // Sort handler
     const handleSort = (field: SortField) => {
@@ -125,22 +285,27 @@ export function ContractsBrowser() {
 
     // Export to CSV
     const exportCSV = () => {
-        const headers = ['Contract ID', 'Template', 'Created At', 'Offset', 'Stakeholders'];
+        const headers = ['Contract ID', 'Template', 'Created At', 'Offset', 'Stakeholders', ...viewColumns];
         const rows = filteredContracts.map((c) => [
             c.contractId,
             c.templateId,
             c.createdAt,
             c.offset.toString(),
             c.stakeholders.join('; '),
+            ...viewColumns.map((column) => {
+                const value = viewOf(c)?.viewValue?.[column];
+                return value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+            }),
         ]);
 
         const csv = [
             `# Canton LedgerView - Contracts Export`,
-            `# Party: ${activeParty?.partyId || 'Unknown'}`,
+            `# Party: ${lensPartyIds.join('; ') || 'Unknown'}`,
+            ...(interfaceFilter ? [`# Interface: ${interfaceFilter}`] : []),
             `# Generated: ${new Date().toISOString()}`,
             '',
             headers.join(','),
-            ...rows.map((r) => r.map((v) => `"${v}"`).join(',')),
+            ...rows.map((r) => r.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(',')),
         ].join('\n');
 
         const blob = new Blob([csv], { type: 'text/csv' });
@@ -156,17 +321,18 @@ export function ContractsBrowser() {
     const clearFilters = () => {
         setSearchQuery('');
         setTemplateFilter('');
-        setPage(1);
+        setInterfaceFilter('');
+        setStatusFilter('active');
     };
 
-    const hasFilters = searchQuery || templateFilter;
+    const hasFilters = searchQuery || templateFilter || interfaceFilter || statusFilter !== 'active';
 
     if (!activeParty) {
         return (
             <div className="empty-state">
                 <h2 className="empty-state-title">No Party Selected</h2>
                 <p className="empty-state-description">
-                    Select a party to view active contracts.
+                    Select a party to view contracts.
                 </p>
             </div>
         );
@@ -177,17 +343,21 @@ export function ContractsBrowser() {
             {/* Header */}
             <div className="page-header-content">
                 <div>
-                    <h1 className="page-title">Active Contracts</h1>
+                    <h1 className="page-title">Contracts</h1>
                     <p className="page-subtitle">
                         {filteredContracts.length} contracts
-                        {hasFilters && ` (filtered from ${contracts.length})`}
+                        {searchQuery && ` (filtered from ${contracts.length} loaded)`}
+                        {hasMore && ' · more on scroll'}
+                        {pageOffset !== null && ` · snapshot at offset ${pageOffset.toLocaleString()}`}
+                        {roleFilter && ` · ${roleFilter}`}
                     </p>
                 </div>
                 <div className="header-actions">
                     <button
                         className="btn btn-secondary"
-                        onClick={() => loadContracts()}
+                        onClick={refresh}
                         disabled={isLoading}
+                        title="Re-read the active contracts at the ledger end"
                     >
                         <RefreshCw size={16} className={isLoading ? 'spin' : ''} />
                         Refresh
@@ -210,11 +380,8 @@ export function ContractsBrowser() {
                     <input
                         type="text"
                         value={searchQuery}
-                        onChange={(e) => {
-                            setSearchQuery(e.target.value);
-                            setPage(1);
-                        }}
-                        placeholder="Search by contract ID, template, or payload..."
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        placeholder="Search by contract ID, template, payload, or key..."
                         className="search-input"
                     />
                     {searchQuery && (
@@ -228,11 +395,21 @@ export function ContractsBrowser() {
                 </div>
 
                 <div className="filter-controls">
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value as ContractStatus)}
+                        className="status-select"
+                    >
+                        <option value="active">Active</option>
+                        <option value="archived">Archived</option>
+                        <option value="all">All</option>
+                    </select>
+
                     <select
                         value={templateFilter}
                         onChange={(e) => {
                             setTemplateFilter(e.target.value);
-                            setPage(1);
+                            setInterfaceFilter('');
                         }}
                         className="template-select"
                     >
@@ -244,6 +421,27 @@ export function ContractsBrowser() {
                         ))}
                     </select>
 
+                    {catalogInterfaces.size > 0 && (
+                        <select
+                            value={interfaceFilter}
+                            onChange={(e) => {
+                                setInterfaceFilter(e.target.value);
+                                setTemplateFilter('');
+                            }}
+                            className="template-select"
+                            title="Contracts of every template implementing the interface"
+                        >
+                            <option value="">All Interfaces</option>
+                            {Array.from(catalogInterfaces.values())
+                                .sort((a, b) => a.entityName.localeCompare(b.entityName))
+                                .map((iface) => (
+                                    <option key={iface.interfaceId} value={iface.interfaceId}>
+                                        {iface.moduleName}:{iface.entityName}
+                                    </option>
+                                ))}
+                        </select>
+                    )}
+
                     {hasFilters && (
                         <button className="btn btn-ghost btn-sm" onClick={clearFilters}>
                             Clear Filters
@@ -256,13 +454,20 @@ export function ContractsBrowser() {
             {error && (
                 <div className="error-banner">
                     <span>{error}</span>
-                    <button onClick={() => loadContracts()}>Retry</button>
+                    <button onClick={reload}>Retry</button>
+                </div>
+            )}
+
+            {truncated && (
+                <div className="notice-banner">
+                    This participant cannot page the active contract set; showing the first {PAGE_SIZE} contracts.
+                    Narrow the view with the template filter.
                 </div>
             )}
 
             {/* Contracts Table */}
             <div className="card">
-                <div className="table-container">
+                <div className="table-container" ref={containerRef}>
                     <table className="data-table">
                         <thead>
                             <tr>
@@ -284,7 +489,15 @@ export function ContractsBrowser() {
                                         sortDirection === 'asc' ? <ChevronUp size={14} /> : <ChevronDown size={14} />
                                     )}
                                 </th>
+                                {viewColumns.map((column) => (
+                                    <th key={column} className="view-column" title="Interface view field">
+                                        {column}
+                                    </th>
+                                ))}
+                                <th>Status</th>
+                                <th>Role</th>
                                 <th>Stakeholders</th>
+                                {multiParty && <th>Visible To</th>}
                                 <th
                                     className="sortable"
                                     onClick={() => handleSort('offset')}
@@ -298,106 +511,180 @@ export function ContractsBrowser() {
                             </tr>
                         </thead>
                         <tbody>
-                            {isLoading && paginatedContracts.length === 0 ? (
+                            {isLoading && filteredContracts.length === 0 ? (
                                 Array.from({ length: 5 }).map((_, i) => (
                                     <tr key={i}>
                                         <td><div className="skeleton" style={{ width: '120px', height: '20px' }} /></td>
                                         <td><div className="skeleton" style={{ width: '150px', height: '20px' }} /></td>
+                                        {viewColumns.map((column) => (
+                                            <td key={column}><div className="skeleton" style={{ width: '80px', height: '20px' }} /></td>
+                                        ))}
+                                        <td><div className="skeleton" style={{ width: '60px', height: '20px' }} /></td>
+                                        <td><div className="skeleton" style={{ width: '60px', height: '20px' }} /></td>
                                         <td><div className="skeleton" style={{ width: '100px', height: '20px' }} /></td>
+                                        {multiParty && <td><div className="skeleton" style={{ width: '100px', height: '20px' }} /></td>}
                                         <td><div className="skeleton" style={{ width: '60px', height: '20px' }} /></td>
                                         <td><div className="skeleton" style={{ width: '80px', height: '20px' }} /></td>
                                     </tr>
                                 ))
-                            ) : paginatedContracts.length === 0 ? (
+                            ) : filteredContracts.length === 0 ? (
                                 <tr>
-                                    <td colSpan={5} className="empty-cell">
+                                    <td colSpan={columnCount} className="empty-cell">
                                         {hasFilters ? 'No contracts match your filters' : 'No active contracts found'}
                                     </td>
                                 </tr>
                             ) : (
-                                paginatedContracts.map((contract) => (
-                                    <tr key={contract.contractId}>
-                                        <td>
-                                            <div className="contract-id-cell">
-                                                <code className="mono truncate">
-                                                    {contract.contractId.substring(0, 16)}...
-                                                </code>
-                                                <button
-                                                    className="copy-btn"
-                                                    onClick={() => copyContractId(contract.contractId)}
-                                                    title="Copy full contract ID"
-                                                >
-                                                    <Copy size={14} />
-                                                </button>
-                                            </div>
-                                        </td>
-                                        <td>
-                                            <div className="template-cell">
-                                                <span className="template-name">
-                                                    {contract.templateId.split(':').pop()}
-                                                </span>
-                                                <span className="template-package mono text-xs text-tertiary">
-                                                    {contract.templateId.split(':').slice(0, -1).join(':')}
-                                                </span>
-                                            </div>
-                                        </td>
-                                        <td>
-                                            <div className="stakeholders-cell">
-                                                {contract.stakeholders.slice(0, 2).map((s, i) => (
-                                                    <span key={i} className="badge badge-neutral">
-                                                        {s.split('::')[0]}
+                                <>
+                                {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+                                {visibleContracts.map((contract) => {
+                                    const archived = archivedContracts.get(contract.contractId);
+                                    const view = interfaceFilter ? viewOf(contract) : undefined;
+                                    return (
+                                        <tr
+                                            key={contract.contractId}
+                                            ref={measureRow}
+                                            data-virtual-key={contract.contractId}
+                                            className={archived ? 'archived-row' : ''}
+                                        >
+                                            <td>
+                                                <div className="contract-id-cell">
+                                                    <code className="mono truncate">
+                                                        {contract.contractId.substring(0, 16)}...
+                                                    </code>
+                                                    <button
+                                                        className="copy-btn"
+                                                        onClick={() => copyContractId(contract.contractId)}
+                                                        title="Copy full contract ID"
+                                                    >
+                                                        <Copy size={14} />
+                                                    </button>
+                                                </div>
+                                            </td>
+                                            <td>
+                                                <div className="template-cell">
+                                                    <span className="template-name">
+                                                        {contract.templateId.split(':').pop()}
                                                     </span>
-                                                ))}
-                                                {contract.stakeholders.length > 2 && (
-                                                    <span className="badge badge-neutral">
-                                                        +{contract.stakeholders.length - 2}
+                                                    <span className="template-package mono text-xs text-tertiary">
+                                                        {contract.templateId.split(':').slice(0, -1).join(':')}
+                                                    </span>
+                                                </div>
+                                            </td>
+                                            {viewColumns.map((column) => (
+                                                <td
+                                                    key={column}
+                                                    className="view-cell"
+                                                    title={view?.error ?? (view ? undefined : 'Loaded without the interface view; refresh to compute it')}
+                                                >
+                                                    {view?.error ? (
+                                                        <span className="badge badge-error">View failed</span>
+                                                    ) : (
+                                                        formatViewValue(view?.viewValue?.[column])
+                                                    )}
+                                                </td>
+                                            ))}
+                                            <td>
+                                                {archived ? (
+                                                    <span
+                                                        className="badge badge-neutral"
+                                                        title={archived.archivedAt ? `Archived ${new Date(archived.archivedAt).toLocaleString()}` : undefined}
+                                                    >
+                                                        Archived @ {archived.offset.toLocaleString()}
                                                     </span>
+                                                ) : (
+                                                    <span className="badge badge-success">Active</span>
                                                 )}
-                                            </div>
-                                        </td>
-                                        <td>
-                                            <span className="mono">{contract.offset.toLocaleString()}</span>
-                                        </td>
-                                        <td>
-                                            <Link
-                                                to={`/contracts/${encodeURIComponent(contract.contractId)}`}
-                                                className="btn btn-ghost btn-sm"
-                                            >
-                                                <ExternalLink size={14} />
-                                                View
-                                            </Link>
-                                        </td>
-                                    </tr>
-                                ))
+                                            </td>
+                                            <td>
+                                                <span className="text-sm text-secondary">
+                                                    {CONTRACT_ROLE_LABELS[contractRole(contract, lensPartyIds)]}
+                                                </span>
+                                            </td>
+                                            <td>
+                                                <div className="stakeholders-cell">
+                                                    {contract.stakeholders.slice(0, 2).map((s, i) => (
+                                                        <span key={i} className="badge badge-neutral">
+                                                            {s.split('::')[0]}
+                                                        </span>
+                                                    ))}
+                                                    {contract.stakeholders.length > 2 && (
+                                                        <span className="badge badge-neutral">
+                                                            +{contract.stakeholders.length - 2}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            </td>
+                                            {multiParty && (
+                                                <td>
+                                                    <div className="stakeholders-cell">
+                                                        {contractVisibility(contract, lensPartyIds).map((party) => (
+                                                            <span key={party} className="badge badge-info" title={party}>
+                                                                {party.split('::')[0]}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                </td>
+                                            )}
+                                            <td>
+                                                <span className="mono">{contract.offset.toLocaleString()}</span>
+                                            </td>
+                                            <td>
+                                                <div className="row-actions">
+                                                    <Link
+                                                        to={`/contracts/${encodeURIComponent(contract.contractId)}`}
+                                                        className="btn btn-ghost btn-sm"
+                                                    >
+                                                        <ExternalLink size={14} />
+                                                        View
+                                                    </Link>
+                                                    {!archived && (
+                                                        <button
+                                                            className="btn btn-ghost btn-sm"
+                                                            onClick={() => setExerciseTarget(contract)}
+                                                            title="Exercise a choice on this contract"
+                                                        >
+                                                            <Play size={14} />
+                                                            Exercise
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                                {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
+                                </>
                             )}
                         </tbody>
                     </table>
                 </div>
 
-                {/* Pagination */}
-                {totalPages > 1 && (
+                {/* Lazy paging status */}
+                {(hasMore || (isLoading && filteredContracts.length > 0)) && (
                     <div className="pagination">
-                        <button
-                            className="btn btn-ghost btn-sm"
-                            onClick={() => setPage((p) => Math.max(1, p - 1))}
-                            disabled={page === 1}
-                        >
-                            Previous
-                        </button>
                         <span className="pagination-info">
-                            Page {page} of {totalPages}
+                            {pagedContracts.length.toLocaleString()} loaded
                         </span>
                         <button
                             className="btn btn-ghost btn-sm"
-                            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
-                            disabled={page === totalPages}
+                            onClick={loadMore}
+                            disabled={isLoading}
                         >
-                            Next
+                            {isLoading ? 'Loading…' : 'Load more'}
                         </button>
                     </div>
                 )}
             </div>
 
+            {exerciseTarget && (
+                <CommandDialog
+                    mode="exercise"
+                    templateId={exerciseTarget.templateId}
+                    contract={exerciseTarget}
+                    onClose={() => setExerciseTarget(null)}
+                />
+            )}
+
             <style>{`
         .contracts-browser {
           display: flex;
@@ -479,7 +766,8 @@ export function ContractsBrowser() {
           align-items: center;
         }
 
-        .template-select {
+        .template-select,
+        .status-select {
           padding: var(--space-2) var(--space-4);
           background: var(--bg-secondary);
           border: 1px solid var(--border-primary);
@@ -490,7 +778,25 @@ export function ContractsBrowser() {
         }
 
         .table-container {
-          overflow-x: auto;
+          overflow: auto;
+          max-height: calc(100vh - 340px);
+          min-height: 240px;
+        }
+
+        .table-container thead th {
+          position: sticky;
+          top: 0;
+          z-index: 1;
+          background: var(--bg-tertiary);
+        }
+
+        .notice-banner {
+          padding: var(--space-3) var(--space-4);
+          background: rgba(245, 158, 11, 0.08);
+          border: 1px solid var(--color-warning-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-warning-600);
+          font-size: var(--text-sm);
         }
 
         .data-table th.sortable {
@@ -543,6 +849,27 @@ export function ContractsBrowser() {
           white-space: nowrap;
         }
 
+        .view-column {
+          color: var(--accent-primary);
+        }
+
+        .view-cell {
+          max-width: 240px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+          font-size: var(--text-sm);
+        }
+
+        .archived-row td {
+          color: var(--text-tertiary);
+        }
+
+        .row-actions {
+          display: flex;
+          gap: var(--space-1);
+        }
+
         .stakeholders-cell {
           display: flex;
           flex-wrap: wrap;
@@ -4,7 +4,7 @@
  * Home dashboard showing:
  * - Connection status & metrics
  * - Top templates by activity
- * - Recent activity feed
+ * - Recent activity feed, updated live from the ledger stream
  * - Quick stats
  */
 
@@ -21,6 +21,8 @@ import {
   RefreshCw,
 } from 'lucide-react';
 import { useConnection, useContracts, useTransactions, usePartyLens } from '../services/store';
+import { describeRoleFilter } from '../services/partyLens';
+import LiveIndicator from '../components/LiveIndicator';
 
 interface StatCardProps {
   title: string;
@@ -97,7 +99,8 @@ function ActivityItem({ type, template, contractId, timestamp }: ActivityItemPro
 export function Dashboard() {
   const { status } = useConnection();
   const { activeParty } = usePartyLens();
-  const { contracts, isLoading: contractsLoading, loadContracts } = useContracts();
+  const { contracts, visibleRoles, isLoading: contractsLoading, loadContracts } = useContracts();
+  const roleFilter = describeRoleFilter(visibleRoles);
   const { transactions, isLoading: txLoading, loadTransactions } = useTransactions();
   const [isRefreshing, setIsRefreshing] = useState(false);
 
@@ -126,13 +129,20 @@ export function Dashboard() {
     .sort(([, a], [, b]) => b - a)
     .slice(0, 5);
 
-  // Mock recent activity from contracts (in real app, this would come from transactions)
-  const recentActivity = contracts.slice(0, 5).map((c) => ({
-    type: 'create' as const,
-    template: c.templateId,
-    contractId: c.contractId,
-    timestamp: c.createdAt,
-  }));
+  // Latest events first; the stream appends new transactions as they commit
+  const activityTypes = { created: 'create', exercised: 'exercise', archived: 'archive' } as const;
+  const recentActivity = transactions
+    .slice(-5)
+    .reverse()
+    .flatMap((tx) =>
+      [...tx.events].reverse().map((event) => ({
+        type: activityTypes[event.type],
+        template: event.templateId,
+        contractId: event.contractId,
+        timestamp: tx.effectiveAt,
+      }))
+    )
+    .slice(0, 5);
 
   if (!activeParty) {
     return (
@@ -154,16 +164,20 @@ export function Dashboard() {
           <h1 className="dashboard-title">Dashboard</h1>
           <p className="dashboard-subtitle">
             Overview for {activeParty.displayName || activeParty.partyId.split('::')[0]}
+            {roleFilter && ` · ${roleFilter}`}
           </p>
         </div>
-        <button
-          className="btn btn-secondary"
-          onClick={handleRefresh}
-          disabled={isRefreshing}
-        >
-          <RefreshCw size={16} className={isRefreshing ? 'spin' : ''} />
-          Refresh
-        </button>
+        <div className="dashboard-actions">
+          <LiveIndicator />
+          <button
+            className="btn btn-secondary"
+            onClick={handleRefresh}
+            disabled={isRefreshing}
+          >
+            <RefreshCw size={16} className={isRefreshing ? 'spin' : ''} />
+            Refresh
+          </button>
+        </div>
       </div>
 
       {/* Stats Grid */}
@@ -264,6 +278,12 @@ export function Dashboard() {
           gap: var(--space-4);
         }
 
+        .dashboard-actions {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+        }
+
         .dashboard-title {
           font-size: var(--text-3xl);
           font-weight: var(--font-bold);
@@ -0,0 +1,516 @@
+/**
+ * KeyLookup Page
+ *
+ * Finds contracts by contract key:
+ * - Any template with a key type, with a form for the key value
+ * - The active contract currently holding the key, queried from the ledger
+ * - Every cached contract that held the key over time, across package
+ *   versions of the template
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AlertCircle, History, Key, RefreshCw, Search } from 'lucide-react';
+import { useContracts, useLedgerClient, usePartyLens, useTemplateCatalog, useTransactions } from '../services/store';
+import { ArgumentEditor, type DamlFormContext } from '../components/DamlValueForm';
+import { fromLedgerValue, initialArgumentState, resolveArgument, type ArgumentState } from '../services/damlValue';
+import { canonicalKey, formatKey, holdsKey, keyHistory, keyTemplateIds } from '../services/contractKeys';
+import type { Contract, LedgerOffset, Template, TemplateId } from '../types/canton';
+
+/** A key resolved against the ledger */
+interface KeyResult {
+    templateId: TemplateId;
+    key: unknown;
+    /** Active holders at `offset`; more than one means the key is not unique for these parties */
+    active: Contract[];
+    offset: LedgerOffset;
+}
+
+const templateLabel = (template: Template) =>
+    `${template.moduleName}:${template.entityName}${template.packageVersion ? ` (v${template.packageVersion})` : ''}`;
+
+/** Editor state holding an existing key value, e.g. from a link */
+function keyArgumentState(type: Template['keyType'], json: string | null): ArgumentState {
+    if (!json) return initialArgumentState(type);
+    if (!type) return initialArgumentState(undefined, json);
+    try {
+        return { mode: 'form', draft: fromLedgerValue(type, JSON.parse(json)), json };
+    } catch {
+        return { mode: 'json', draft: null, json };
+    }
+}
+
+export function KeyLookup() {
+    const client = useLedgerClient();
+    const { lensPartyIds, availableParties } = usePartyLens();
+    const { templates } = useTemplateCatalog();
+    const { contractMap, archivedContracts } = useContracts();
+    const { transactions } = useTransactions();
+    const [searchParams, setSearchParams] = useSearchParams();
+
+    const keyedTemplates = useMemo(
+        () =>
+            Array.from(templates.values())
+                .filter((t) => t.keyType)
+                .sort((a, b) => templateLabel(a).localeCompare(templateLabel(b))),
+        [templates]
+    );
+
+    const [templateId, setTemplateId] = useState<TemplateId>(() => searchParams.get('template') ?? '');
+    const template = templates.get(templateId);
+    const [keyState, setKeyState] = useState<ArgumentState>(() =>
+        keyArgumentState(template?.keyType, searchParams.get('key'))
+    );
+    const [attempted, setAttempted] = useState(false);
+
+    const [result, setResult] = useState<KeyResult | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const formContext = useMemo<DamlFormContext>(
+        () => ({
+            parties: availableParties.map((p) => p.partyId),
+            contracts: Array.from(contractMap.values()),
+        }),
+        [availableParties, contractMap]
+    );
+
+    const templateIds = useMemo(
+        () => (template ? keyTemplateIds(template, templates.values()) : new Set<TemplateId>()),
+        [template, templates]
+    );
+
+    const lookup = useCallback(
+        async (key: unknown) => {
+            if (!client || !template) return;
+
+            setIsLoading(true);
+            setError(null);
+            try {
+                const { offset } = await client.ping();
+                const contracts = await client.getActiveContracts(lensPartyIds, {
+                    templateIds: Array.from(templateIds),
+                    offset,
+                });
+                const canonical = canonicalKey(key, template.keyType);
+                setResult({
+                    templateId: template.templateId,
+                    key,
+                    active: contracts.filter((c) => holdsKey(c, templateIds, canonical, template.keyType)),
+                    offset,
+                });
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Failed to look up the key');
+            } finally {
+                setIsLoading(false);
+            }
+        },
+        [client, template, templateIds, lensPartyIds]
+    );
+
+    // Links from a contract carry the key; resolve it once the catalog has the template
+    const linkedKey = useRef(searchParams.get('key'));
+    useEffect(() => {
+        if (!linkedKey.current || !template) return;
+        const json = linkedKey.current;
+        linkedKey.current = null;
+        try {
+            lookup(JSON.parse(json));
+        } catch {
+            setError('The key in the link is not valid JSON');
+        }
+    }, [template, lookup]);
+
+    const selectTemplate = (id: TemplateId) => {
+        setTemplateId(id);
+        setKeyState(initialArgumentState(templates.get(id)?.keyType));
+        setAttempted(false);
+        setResult(null);
+        setError(null);
+        setSearchParams({}, { replace: true });
+    };
+
+    const submit = () => {
+        setAttempted(true);
+        if (!template) return;
+        let key: unknown;
+        try {
+            key = resolveArgument('Key', keyState, template.keyType);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Invalid key');
+            return;
+        }
+        setSearchParams({ template: template.templateId, key: JSON.stringify(key) }, { replace: true });
+        lookup(key);
+    };
+
+    const history = useMemo(
+        () =>
+            result && template
+                ? keyHistory(
+                    { contracts: contractMap.values(), archivedContracts: archivedContracts.values(), transactions },
+                    templateIds,
+                    result.key,
+                    template.keyType,
+                    result.active
+                )
+                : [],
+        [result, template, templateIds, contractMap, archivedContracts, transactions]
+    );
+
+    const activeIds = new Set(result?.active.map((c) => c.contractId));
+
+    return (
+        <div className="key-lookup">
+            {/* Header */}
+            <div className="page-header-content">
+                <div>
+                    <h1 className="page-title">Key Lookup</h1>
+                    <p className="page-subtitle">
+                        Resolve a contract key to the contract holding it, and the contracts that held it before
+                    </p>
+                </div>
+                {result && (
+                    <div className="header-actions">
+                        <button className="btn btn-secondary" onClick={() => lookup(result.key)} disabled={isLoading}>
+                            <RefreshCw size={16} className={isLoading ? 'spin' : ''} />
+                            Refresh
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {error && (
+                <div className="error-banner">
+                    <AlertCircle size={18} />
+                    <span>{error}</span>
+                </div>
+            )}
+
+            {/* Key Form */}
+            <div className="card">
+                <div className="card-body key-form">
+                    <label className="key-field">
+                        <span className="key-field-label">Template</span>
+                        <select value={templateId} onChange={(e) => selectTemplate(e.target.value)} className="key-select">
+                            <option value="">Select a template with a key…</option>
+                            {keyedTemplates.map((t) => (
+                                <option key={t.templateId} value={t.templateId}>
+                                    {templateLabel(t)}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+
+                    {template && (
+                        <>
+                            <ArgumentEditor
+                                id="contract-key"
+                                label="Key"
+                                type={template.keyType}
+                                state={keyState}
+                                onChange={setKeyState}
+                                context={formContext}
+                                showErrors={attempted}
+                                rows={4}
+                            />
+                            {templateIds.size > 1 && (
+                                <span className="key-note">
+                                    Also matches the key in {templateIds.size - 1} other version
+                                    {templateIds.size > 2 ? 's' : ''} of {template.packageName}
+                                </span>
+                            )}
+                            <div>
+                                <button className="btn btn-primary" onClick={submit} disabled={isLoading || !client}>
+                                    <Search size={16} />
+                                    Look up
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {keyedTemplates.length === 0 && (
+                <div className="empty-state">
+                    <Key className="empty-state-icon" />
+                    <h3 className="empty-state-title">No keyed templates</h3>
+                    <p className="empty-state-description">
+                        None of the uploaded templates define a contract key.
+                    </p>
+                </div>
+            )}
+
+            {result && (
+                <>
+                    {/* Current Holder */}
+                    <div className="card">
+                        <div className="card-header">
+                            <h2 className="card-title">
+                                <Key size={16} /> Current Contract
+                            </h2>
+                            <span className="key-note">At offset {result.offset.toLocaleString()}</span>
+                        </div>
+                        <div className="card-body">
+                            {result.active.length === 0 ? (
+                                <span className="text-sm text-tertiary">
+                                    No active contract visible to the current party lens holds {formatKey(result.key)}
+                                </span>
+                            ) : (
+                                <>
+                                    {result.active.length > 1 && (
+                                        <div className="notice-banner">
+                                            <AlertCircle size={16} />
+                                            <span>
+                                                {result.active.length} active contracts hold this key. Keys are only
+                                                unique among contracts with the same maintainers.
+                                            </span>
+                                        </div>
+                                    )}
+                                    {result.active.map((contract) => (
+                                        <div key={contract.contractId} className="key-holder">
+                                            <Link to={`/contracts/${encodeURIComponent(contract.contractId)}`} className="mono">
+                                                {contract.contractId}
+                                            </Link>
+                                            <span className="text-sm text-secondary">
+                                                {contract.templateId.split(':').slice(1).join(':')} · created{' '}
+                                                {new Date(contract.createdAt).toLocaleString()} · offset{' '}
+                                                {contract.offset.toLocaleString()}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* History */}
+                    <div className="card">
+                        <div className="card-header">
+                            <h2 className="card-title">
+                                <History size={16} /> Key History
+                            </h2>
+                            <span className="key-note">From the cached ledger history</span>
+                        </div>
+                        <div className="table-container">
+                            <table className="table">
+                                <thead>
+                                    <tr>
+                                        <th>Contract</th>
+                                        <th>Status</th>
+                                        <th>Version</th>
+                                        <th>Created</th>
+                                        <th>Archived</th>
+                                        <th>Archived By</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {history.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={6} className="empty-cell">
+                                                No cached contract held this key
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        [...history].reverse().map(({ contract, archived, archivedBy }) => (
+                                            <tr key={contract.contractId}>
+                                                <td>
+                                                    <Link
+                                                        to={`/contracts/${encodeURIComponent(contract.contractId)}`}
+                                                        className="mono"
+                                                        title={contract.contractId}
+                                                    >
+                                                        {contract.contractId.slice(0, 16)}…
+                                                    </Link>
+                                                </td>
+                                                <td>
+                                                    {archived ? (
+                                                        <span className="badge badge-neutral">Archived</span>
+                                                    ) : activeIds.has(contract.contractId) ? (
+                                                        <span className="badge badge-success">Active</span>
+                                                    ) : (
+                                                        <span
+                                                            className="badge badge-warning"
+                                                            title="Cached as active but not returned by the ledger"
+                                                        >
+                                                            Stale
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td>{templates.get(contract.templateId)?.packageVersion ?? '—'}</td>
+                                                <td>
+                                                    {contract.createdAt ? new Date(contract.createdAt).toLocaleString() : '—'}
+                                                    <span className="key-offset">@ {contract.offset.toLocaleString()}</span>
+                                                </td>
+                                                <td>
+                                                    {archived ? (
+                                                        <>
+                                                            {new Date(archived.archivedAt).toLocaleString()}
+                                                            <span className="key-offset">@ {archived.offset.toLocaleString()}</span>
+                                                        </>
+                                                    ) : (
+                                                        '—'
+                                                    )}
+                                                </td>
+                                                <td>
+                                                    {archivedBy ? (
+                                                        <Link
+                                                            to={`/transactions/${encodeURIComponent(archivedBy)}`}
+                                                            className="mono"
+                                                            title={archivedBy}
+                                                        >
+                                                            {archivedBy.slice(0, 16)}…
+                                                        </Link>
+                                                    ) : (
+                                                        '—'
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </>
+            )}
+
+            <style>{`
+        .key-lookup {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+        }
+
+        .page-header-content {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+        }
+
+        .page-title {
+          font-size: var(--text-3xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+          margin-bottom: var(--space-1);
+        }
+
+        .page-subtitle {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .header-actions {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .key-form {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-4);
+        }
+
+        .key-field {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+        }
+
+        .key-field-label {
+          font-size: var(--text-xs);
+          font-weight: var(--font-semibold);
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          color: var(--text-tertiary);
+        }
+
+        .key-select {
+          padding: var(--space-2) var(--space-4);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+          font-size: var(--text-sm);
+          color: var(--text-primary);
+        }
+
+        .key-note {
+          font-size: var(--text-sm);
+          color: var(--text-tertiary);
+        }
+
+        .key-holder {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          padding: var(--space-2) 0;
+        }
+
+        .key-holder + .key-holder {
+          border-top: 1px solid var(--border-primary);
+        }
+
+        .key-offset {
+          margin-left: var(--space-2);
+          font-family: var(--font-mono);
+          font-size: var(--text-xs);
+          color: var(--text-tertiary);
+        }
+
+        .table-container {
+          overflow: auto;
+          max-height: 520px;
+        }
+
+        .table-container thead th {
+          position: sticky;
+          top: 0;
+          z-index: 1;
+          background: var(--bg-tertiary);
+        }
+
+        .empty-cell {
+          text-align: center;
+          padding: var(--space-8) !important;
+          color: var(--text-tertiary);
+        }
+
+        .notice-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          margin-bottom: var(--space-3);
+          background: var(--bg-tertiary);
+          border-radius: var(--radius-lg);
+          color: var(--text-secondary);
+          font-size: var(--text-sm);
+        }
+
+        .error-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: rgba(239, 68, 68, 0.08);
+          border: 1px solid var(--color-error-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-error-600);
+          font-size: var(--text-sm);
+        }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          from { transform: rotate(0deg); }
+          to { transform: rotate(360deg); }
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default KeyLookup;
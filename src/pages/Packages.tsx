@@ -0,0 +1,872 @@
+/**
+ * Packages Page
+ *
+ * Package deployment on the connected participant:
+ * - DAR upload by drag-and-drop, with the DAR's contents inspected first
+ * - Uploaded packages with name, version, size, first-seen time and vetting
+ *   status on this participant's synchronizers
+ * - Dependency graph between packages
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, Check, FileArchive, RefreshCw, Search, Upload, X } from 'lucide-react';
+import { useLedgerClient, useTemplateCatalog } from '../services/store';
+import { readDar, type DarArchive } from '../services/darArchive';
+import {
+    VETTING_LABELS,
+    buildPackageGraph,
+    isStdlibPackage,
+    packageVetting,
+    transitiveDependencies,
+    transitiveDependents,
+    type PackageGraph,
+    type VettingStatus,
+} from '../services/packageInventory';
+import type { DamlPackage, PackageId, VettingState } from '../types/canton';
+
+const VETTING_BADGES: Record<VettingStatus, string> = {
+    vetted: 'badge-success',
+    pending: 'badge-info',
+    expired: 'badge-warning',
+    unvetted: 'badge-neutral',
+};
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const packageLabel = (pkg: Pick<DamlPackage, 'packageId' | 'name' | 'version'>) =>
+    pkg.name ? `${pkg.name}${pkg.version ? ` v${pkg.version}` : ''}` : `${pkg.packageId.slice(0, 12)}…`;
+
+interface DarSelection {
+    file: File;
+    bytes: Uint8Array;
+    /** Null when the file could not be read as a DAR */
+    contents: DarArchive | null;
+    readError?: string;
+}
+
+export function Packages() {
+    const client = useLedgerClient();
+    const { packages, isCatalogLoading, catalogError, loadTemplates, uploadDar } = useTemplateCatalog();
+
+    // Vetting of this participant; null when the participant cannot list it
+    const [participantId, setParticipantId] = useState<string | null>(null);
+    const [vetting, setVetting] = useState<VettingState[] | null>([]);
+    const [vettingError, setVettingError] = useState<string | null>(null);
+
+    const [query, setQuery] = useState('');
+    const [hideStdlib, setHideStdlib] = useState(true);
+    const [selectedId, setSelectedId] = useState<PackageId | null>(null);
+
+    // Upload
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [selection, setSelection] = useState<DarSelection | null>(null);
+    const [vetOnUpload, setVetOnUpload] = useState(true);
+    const [synchronizerId, setSynchronizerId] = useState('');
+    const [isUploading, setIsUploading] = useState(false);
+    const [uploadError, setUploadError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [recentIds, setRecentIds] = useState<Set<PackageId>>(new Set());
+
+    const loadVetting = useCallback(async () => {
+        if (!client) return;
+
+        setVettingError(null);
+        try {
+            const participant = await client.getParticipantId();
+            setParticipantId(participant);
+            setVetting(await client.listVettedPackages([participant]));
+        } catch (err) {
+            setVettingError(err instanceof Error ? err.message : 'Failed to load vetting state');
+        }
+    }, [client]);
+
+    useEffect(() => {
+        loadVetting();
+    }, [loadVetting]);
+
+    const handleRefresh = () => {
+        loadTemplates();
+        loadVetting();
+    };
+
+    const synchronizers = useMemo(
+        () => Array.from(new Set((vetting ?? []).map((state) => state.synchronizerId))).sort(),
+        [vetting]
+    );
+
+    const uploadedIds = useMemo(() => new Set(packages.map((pkg) => pkg.packageId)), [packages]);
+
+    const visiblePackages = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        return packages
+            .filter((pkg) => !hideStdlib || !isStdlibPackage(pkg))
+            .filter(
+                (pkg) =>
+                    !needle ||
+                    pkg.packageId.toLowerCase().includes(needle) ||
+                    (pkg.name ?? '').toLowerCase().includes(needle)
+            )
+            .sort(
+                (a, b) =>
+                    (a.name ?? '\uffff').localeCompare(b.name ?? '\uffff') ||
+                    (a.version ?? '').localeCompare(b.version ?? '', undefined, { numeric: true }) ||
+                    a.packageId.localeCompare(b.packageId)
+            );
+    }, [packages, query, hideStdlib]);
+
+    const graph = useMemo(() => buildPackageGraph(visiblePackages), [visiblePackages]);
+
+    const dependentCounts = useMemo(() => {
+        const counts = new Map<PackageId, number>();
+        packages.forEach((pkg) =>
+            (pkg.dependencies ?? []).forEach((dep) => counts.set(dep, (counts.get(dep) ?? 0) + 1))
+        );
+        return counts;
+    }, [packages]);
+
+    const vettedCount = useMemo(
+        () => (vetting ? packages.filter((pkg) => packageVetting(pkg.packageId, vetting).status === 'vetted').length : 0),
+        [packages, vetting]
+    );
+
+    // Upload
+
+    const selectFile = async (file: File) => {
+        setUploadError(null);
+        setNotice(null);
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        try {
+            setSelection({ file, bytes, contents: await readDar(bytes) });
+        } catch (err) {
+            setSelection({
+                file,
+                bytes,
+                contents: null,
+                readError: err instanceof Error ? err.message : 'Could not read the DAR',
+            });
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file) selectFile(file);
+    };
+
+    const handleUpload = async () => {
+        if (!selection) return;
+
+        setIsUploading(true);
+        setUploadError(null);
+        try {
+            await uploadDar(selection.bytes, {
+                vetAllPackages: vetOnUpload,
+                synchronizerId: synchronizerId || undefined,
+            });
+            const newIds = (selection.contents?.packages ?? [])
+                .map((pkg) => pkg.packageId)
+                .filter((id) => !uploadedIds.has(id));
+            setRecentIds(new Set(newIds));
+            setNotice(
+                `Uploaded ${selection.file.name}` +
+                    (selection.contents ? ` · ${newIds.length} new package${newIds.length !== 1 ? 's' : ''}` : '')
+            );
+            setSelection(null);
+            await loadVetting();
+        } catch (err) {
+            setUploadError(err instanceof Error ? err.message : 'Upload failed');
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    // Graph selection: the selected package, plus everything it reaches either way
+    const related = useMemo(() => {
+        if (!selectedId) return null;
+        return {
+            dependencies: transitiveDependencies(graph, selectedId),
+            dependents: transitiveDependents(graph, selectedId),
+        };
+    }, [graph, selectedId]);
+
+    const toggleSelected = (packageId: PackageId) =>
+        setSelectedId((current) => (current === packageId ? null : packageId));
+
+    return (
+        <div className="packages-page">
+            {/* Header */}
+            <div className="page-header-content">
+                <div>
+                    <h1 className="page-title">Packages</h1>
+                    <p className="page-subtitle">
+                        {packages.length} packages uploaded
+                        {vetting && ` · ${vettedCount} vetted on ${synchronizers.length} synchronizer${synchronizers.length !== 1 ? 's' : ''}`}
+                        {participantId && (
+                            <>
+                                {' · '}
+                                <span className="mono" title={participantId}>{participantId.split('::')[0]}</span>
+                            </>
+                        )}
+                    </p>
+                </div>
+                <div className="header-actions">
+                    <button className="btn btn-secondary" onClick={handleRefresh} disabled={isCatalogLoading}>
+                        <RefreshCw size={16} className={isCatalogLoading ? 'spin' : ''} />
+                        Refresh
+                    </button>
+                    <button className="btn btn-primary" onClick={() => fileInput.current?.click()}>
+                        <Upload size={16} />
+                        Upload DAR
+                    </button>
+                </div>
+            </div>
+
+            {(catalogError || vettingError) && (
+                <div className="error-banner">
+                    <AlertCircle size={18} />
+                    <span>
+                        {catalogError
+                            ? `Could not load packages: ${catalogError}`
+                            : `Could not load vetting state: ${vettingError}`}
+                    </span>
+                </div>
+            )}
+
+            {vetting === null && (
+                <div className="notice-banner">
+                    <AlertCircle size={16} />
+                    <span>This participant does not support listing vetted packages; vetting status is unavailable.</span>
+                </div>
+            )}
+
+            {notice && (
+                <div className="success-banner">
+                    <Check size={16} />
+                    <span>{notice}</span>
+                    <button className="banner-close" onClick={() => setNotice(null)} aria-label="Dismiss">
+                        <X size={14} />
+                    </button>
+                </div>
+            )}
+
+            {/* Upload */}
+            <input
+                ref={fileInput}
+                type="file"
+                accept=".dar"
+                hidden
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) selectFile(file);
+                    e.target.value = '';
+                }}
+            />
+            {selection ? (
+                <div className="card dar-inspection">
+                    <div className="card-header">
+                        <h2 className="card-title">
+                            <FileArchive size={18} />
+                            {selection.contents?.name ?? selection.file.name}
+                        </h2>
+                        <span className="dar-meta">
+                            {formatBytes(selection.bytes.byteLength)}
+                            {selection.contents?.sdkVersion && ` · SDK ${selection.contents.sdkVersion}`}
+                        </span>
+                    </div>
+                    <div className="card-body">
+                        {selection.readError ? (
+                            <div className="notice-banner">
+                                <AlertCircle size={16} />
+                                <span>
+                                    Could not inspect this file: {selection.readError}. It can still be uploaded; the
+                                    participant validates it.
+                                </span>
+                            </div>
+                        ) : (
+                            selection.contents && (
+                                <table className="table dar-packages">
+                                    <thead>
+                                        <tr>
+                                            <th>Package</th>
+                                            <th>Package ID</th>
+                                            <th>LF</th>
+                                            <th>Size</th>
+                                            <th>On participant</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {selection.contents.packages
+                                            .filter((pkg) => !hideStdlib || !isStdlibPackage(pkg))
+                                            .map((pkg) => (
+                                                <tr key={pkg.packageId}>
+                                                    <td>
+                                                        {packageLabel(pkg)}
+                                                        {pkg.packageId === selection.contents?.mainPackageId && (
+                                                            <span className="badge badge-info">Main</span>
+                                                        )}
+                                                    </td>
+                                                    <td className="mono" title={pkg.packageId}>{pkg.packageId.slice(0, 16)}…</td>
+                                                    <td>{pkg.lfVersion}</td>
+                                                    <td>{formatBytes(pkg.size)}</td>
+                                                    <td>
+                                                        {uploadedIds.has(pkg.packageId) ? (
+                                                            <span className="badge badge-neutral">Already uploaded</span>
+                                                        ) : (
+                                                            <span className="badge badge-success">New</span>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        {selection.contents.failures.map((failure) => (
+                                            <tr key={failure.entry}>
+                                                <td colSpan={4} className="mono">{failure.entry}</td>
+                                                <td>
+                                                    <span className="badge badge-warning" title={failure.error}>Not decoded</span>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )
+                        )}
+                        {uploadError && (
+                            <div className="error-banner">
+                                <AlertCircle size={18} />
+                                <span>{uploadError}</span>
+                            </div>
+                        )}
+                    </div>
+                    <div className="card-footer">
+                        <label className="checkbox-label">
+                            <input
+                                type="checkbox"
+                                checked={vetOnUpload}
+                                onChange={(e) => setVetOnUpload(e.target.checked)}
+                            />
+                            Vet packages on upload
+                        </label>
+                        {synchronizers.length > 1 && (
+                            <select
+                                className="sync-select"
+                                value={synchronizerId}
+                                onChange={(e) => setSynchronizerId(e.target.value)}
+                                aria-label="Synchronizer"
+                            >
+                                <option value="">Default synchronizer</option>
+                                {synchronizers.map((id) => (
+                                    <option key={id} value={id}>{id.split('::')[0]}</option>
+                                ))}
+                            </select>
+                        )}
+                        <div className="footer-actions">
+                            <button className="btn btn-ghost" onClick={() => setSelection(null)} disabled={isUploading}>
+                                Cancel
+                            </button>
+                            <button className="btn btn-primary" onClick={handleUpload} disabled={isUploading}>
+                                {isUploading ? <RefreshCw size={16} className="spin" /> : <Upload size={16} />}
+                                Upload
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            ) : (
+                <div
+                    className={`drop-zone ${isDragging ? 'dragging' : ''}`}
+                    onDragOver={(e) => {
+                        e.preventDefault();
+                        setIsDragging(true);
+                    }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={handleDrop}
+                    onClick={() => fileInput.current?.click()}
+                    role="button"
+                    tabIndex={0}
+                >
+                    <Upload size={24} />
+                    <span>Drop a .dar file here, or click to choose one</span>
+                </div>
+            )}
+
+            {/* Filters */}
+            <div className="filters-section">
+                <div className="search-bar">
+                    <Search size={16} className="search-icon" />
+                    <input
+                        className="search-input"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Filter by package name or ID..."
+                    />
+                </div>
+                <label className="checkbox-label">
+                    <input type="checkbox" checked={hideStdlib} onChange={(e) => setHideStdlib(e.target.checked)} />
+                    Hide Daml standard library
+                </label>
+            </div>
+
+            {/* Package List */}
+            <div className="card">
+                <div className="table-container">
+                    <table className="table">
+                        <thead>
+                            <tr>
+                                <th>Package</th>
+                                <th>Package ID</th>
+                                <th>LF</th>
+                                <th>Size</th>
+                                <th title="When LedgerView first saw the package; the JSON API does not report upload times">
+                                    Known Since
+                                </th>
+                                <th>Vetting</th>
+                                <th>Deps</th>
+                                <th>Used By</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visiblePackages.length === 0 ? (
+                                <tr>
+                                    <td colSpan={8} className="empty-cell">
+                                        {isCatalogLoading ? 'Loading packages...' : 'No packages match'}
+                                    </td>
+                                </tr>
+                            ) : (
+                                visiblePackages.map((pkg) => {
+                                    const status = vetting && packageVetting(pkg.packageId, vetting);
+                                    return (
+                                        <tr
+                                            key={pkg.packageId}
+                                            className={`clickable ${selectedId === pkg.packageId ? 'selected' : ''}`}
+                                            onClick={() => toggleSelected(pkg.packageId)}
+                                        >
+                                            <td>
+                                                <span className="package-label">{packageLabel(pkg)}</span>
+                                                {recentIds.has(pkg.packageId) && (
+                                                    <span className="badge badge-success">New</span>
+                                                )}
+                                                {pkg.decodeError && (
+                                                    <span className="badge badge-warning" title={pkg.decodeError}>Not decoded</span>
+                                                )}
+                                            </td>
+                                            <td className="mono" title={pkg.packageId}>{pkg.packageId.slice(0, 16)}…</td>
+                                            <td>{pkg.lfVersion ?? '—'}</td>
+                                            <td>{pkg.size !== undefined ? formatBytes(pkg.size) : '—'}</td>
+                                            <td>{pkg.knownSince ? new Date(pkg.knownSince).toLocaleString() : '—'}</td>
+                                            <td>
+                                                {status ? (
+                                                    <span
+                                                        className={`badge ${VETTING_BADGES[status.status]}`}
+                                                        title={status.synchronizers.join('\n') || undefined}
+                                                    >
+                                                        {VETTING_LABELS[status.status]}
+                                                        {status.synchronizers.length > 1 && ` ×${status.synchronizers.length}`}
+                                                    </span>
+                                                ) : (
+                                                    '—'
+                                                )}
+                                            </td>
+                                            <td>{pkg.dependencies?.length ?? '—'}</td>
+                                            <td>{dependentCounts.get(pkg.packageId) ?? 0}</td>
+                                        </tr>
+                                    );
+                                })
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Dependency Graph */}
+            <div className="card">
+                <div className="card-header">
+                    <h2 className="card-title">Dependency Graph</h2>
+                    <span className="dar-meta">
+                        {selectedId
+                            ? 'Highlighting the selected package, what it depends on and what depends on it'
+                            : 'Select a package to trace its dependencies'}
+                    </span>
+                </div>
+                <div className="card-body graph-body">
+                    {graph.nodes.length === 0 ? (
+                        <div className="empty-cell">No packages to draw</div>
+                    ) : (
+                        <DependencyGraph
+                            graph={graph}
+                            selectedId={selectedId}
+                            related={related}
+                            onSelect={toggleSelected}
+                        />
+                    )}
+                </div>
+            </div>
+
+            <style>{`
+        .packages-page {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+        }
+
+        .page-header-content {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+        }
+
+        .page-title {
+          font-size: var(--text-3xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+          margin-bottom: var(--space-1);
+        }
+
+        .page-subtitle {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .header-actions {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .drop-zone {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: var(--space-3);
+          padding: var(--space-8);
+          border: 2px dashed var(--border-primary);
+          border-radius: var(--radius-lg);
+          color: var(--text-tertiary);
+          font-size: var(--text-sm);
+          cursor: pointer;
+          transition: all var(--transition-fast);
+        }
+
+        .drop-zone:hover,
+        .drop-zone.dragging {
+          border-color: var(--accent-primary);
+          background: var(--accent-primary-light);
+          color: var(--accent-primary);
+        }
+
+        .dar-inspection .card-title {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+        }
+
+        .dar-inspection .card-body {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-4);
+        }
+
+        .dar-inspection .card-footer {
+          display: flex;
+          align-items: center;
+          gap: var(--space-4);
+        }
+
+        .dar-meta {
+          font-size: var(--text-sm);
+          color: var(--text-tertiary);
+        }
+
+        .dar-packages .badge {
+          margin-left: var(--space-2);
+        }
+
+        .footer-actions {
+          display: flex;
+          gap: var(--space-2);
+          margin-left: auto;
+        }
+
+        .sync-select {
+          padding: var(--space-1) var(--space-2);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-md);
+          font-size: var(--text-sm);
+          color: var(--text-primary);
+        }
+
+        .checkbox-label {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+          cursor: pointer;
+        }
+
+        .filters-section {
+          display: flex;
+          align-items: center;
+          gap: var(--space-4);
+          flex-wrap: wrap;
+        }
+
+        .search-bar {
+          flex: 1;
+          min-width: 240px;
+          position: relative;
+          display: flex;
+          align-items: center;
+        }
+
+        .search-bar .search-icon {
+          position: absolute;
+          left: var(--space-3);
+          color: var(--text-tertiary);
+        }
+
+        .search-bar .search-input {
+          width: 100%;
+          padding: var(--space-2) var(--space-4);
+          padding-left: var(--space-10);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+        }
+
+        .table-container {
+          overflow: auto;
+          max-height: 480px;
+        }
+
+        .table-container thead th {
+          position: sticky;
+          top: 0;
+          z-index: 1;
+          background: var(--bg-tertiary);
+        }
+
+        .table tr.clickable {
+          cursor: pointer;
+        }
+
+        .table tr.selected td {
+          background: var(--accent-primary-light);
+        }
+
+        .package-label {
+          font-weight: var(--font-medium);
+          color: var(--text-primary);
+          margin-right: var(--space-2);
+        }
+
+        .empty-cell {
+          text-align: center;
+          padding: var(--space-8) !important;
+          color: var(--text-tertiary);
+        }
+
+        .graph-body {
+          overflow: auto;
+        }
+
+        .graph-node rect {
+          fill: var(--bg-secondary);
+          stroke: var(--border-primary);
+          stroke-width: 1;
+        }
+
+        .graph-node text {
+          fill: var(--text-primary);
+          font-size: 12px;
+        }
+
+        .graph-node .node-version {
+          fill: var(--text-tertiary);
+          font-size: 10px;
+        }
+
+        .graph-node {
+          cursor: pointer;
+        }
+
+        .graph-node.selected rect {
+          stroke: var(--accent-primary);
+          stroke-width: 2;
+          fill: var(--accent-primary-light);
+        }
+
+        .graph-node.dependency rect {
+          stroke: var(--color-success-500);
+        }
+
+        .graph-node.dependent rect {
+          stroke: var(--color-warning-500);
+        }
+
+        .graph-node.dimmed,
+        .graph-edge.dimmed {
+          opacity: 0.25;
+        }
+
+        .graph-edge {
+          fill: none;
+          stroke: var(--border-primary);
+          stroke-width: 1.5;
+        }
+
+        .success-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: rgba(34, 197, 94, 0.08);
+          border: 1px solid var(--color-success-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-success-600);
+          font-size: var(--text-sm);
+        }
+
+        .banner-close {
+          margin-left: auto;
+          background: none;
+          border: none;
+          color: inherit;
+          cursor: pointer;
+        }
+
+        .notice-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: var(--bg-tertiary);
+          border-radius: var(--radius-lg);
+          color: var(--text-secondary);
+          font-size: var(--text-sm);
+        }
+
+        .error-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: rgba(239, 68, 68, 0.08);
+          border: 1px solid var(--color-error-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-error-600);
+          font-size: var(--text-sm);
+        }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          from { transform: rotate(0deg); }
+          to { transform: rotate(360deg); }
+        }
+      `}</style>
+        </div>
+    );
+}
+
+// ============================================================================
+// Dependency Graph
+// ============================================================================
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 40;
+const LAYER_GAP = 80;
+const ROW_GAP = 12;
+
+interface DependencyGraphProps {
+    graph: PackageGraph;
+    selectedId: PackageId | null;
+    related: { dependencies: Set<PackageId>; dependents: Set<PackageId> } | null;
+    onSelect: (packageId: PackageId) => void;
+}
+
+/**
+ * Layered drawing of the graph: dependents on the left, the libraries they
+ * depend on to the right.
+ */
+function DependencyGraph({ graph, selectedId, related, onSelect }: DependencyGraphProps) {
+    const positions = useMemo(() => {
+        const rows = new Array<number>(graph.layers).fill(0);
+        return new Map(
+            graph.nodes.map((node) => {
+                const row = rows[node.layer]++;
+                return [
+                    node.pkg.packageId,
+                    { x: node.layer * (NODE_WIDTH + LAYER_GAP), y: row * (NODE_HEIGHT + ROW_GAP) },
+                ] as const;
+            })
+        );
+    }, [graph]);
+
+    const width = graph.layers * (NODE_WIDTH + LAYER_GAP) - LAYER_GAP;
+    const height = Math.max(...Array.from(positions.values(), (p) => p.y)) + NODE_HEIGHT;
+
+    const isRelated = (id: PackageId) =>
+        !related || id === selectedId || related.dependencies.has(id) || related.dependents.has(id);
+
+    return (
+        <svg width={width + 2} height={height + 2} className="dependency-graph">
+            <g transform="translate(1, 1)">
+                {graph.edges.map(({ from, to }) => {
+                    const a = positions.get(from)!;
+                    const b = positions.get(to)!;
+                    const x1 = a.x + NODE_WIDTH;
+                    const y1 = a.y + NODE_HEIGHT / 2;
+                    const x2 = b.x;
+                    const y2 = b.y + NODE_HEIGHT / 2;
+                    const mid = (x1 + x2) / 2;
+                    return (
+                        <path
+                            key={`${from}-${to}`}
+                            className={`graph-edge ${isRelated(from) && isRelated(to) ? '' : 'dimmed'}`}
+                            d={`M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`}
+                        />
+                    );
+                })}
+                {graph.nodes.map(({ pkg }) => {
+                    const { x, y } = positions.get(pkg.packageId)!;
+                    const role =
+                        pkg.packageId === selectedId
+                            ? 'selected'
+                            : related?.dependencies.has(pkg.packageId)
+                              ? 'dependency'
+                              : related?.dependents.has(pkg.packageId)
+                                ? 'dependent'
+                                : related
+                                  ? 'dimmed'
+                                  : '';
+                    return (
+                        <g
+                            key={pkg.packageId}
+                            className={`graph-node ${role}`}
+                            transform={`translate(${x}, ${y})`}
+                            onClick={() => onSelect(pkg.packageId)}
+                        >
+                            <title>{pkg.packageId}</title>
+                            <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={6} />
+                            <text x={10} y={17}>
+                                {(pkg.name ?? pkg.packageId).slice(0, 26)}
+                            </text>
+                            <text x={10} y={31} className="node-version">
+                                {pkg.version ? `v${pkg.version}` : pkg.packageId.slice(0, 12)}
+                            </text>
+                        </g>
+                    );
+                })}
+            </g>
+        </svg>
+    );
+}
+
+export default Packages;
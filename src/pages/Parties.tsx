@@ -0,0 +1,739 @@
+/**
+ * Parties Page
+ *
+ * Party administration for the connected participant:
+ * - All known parties with hosting (local / remote), namespace fingerprint,
+ *   identity provider and annotations
+ * - Filtering by namespace, hosting and text
+ * - Allocating parties and editing display names and annotations
+ */
+
+import { Fragment, useMemo, useState } from 'react';
+import {
+    AlertCircle,
+    Check,
+    Copy,
+    Edit2,
+    Eye,
+    Plus,
+    RefreshCw,
+    Search,
+    X,
+} from 'lucide-react';
+import { usePartyLens } from '../services/store';
+import type { Party } from '../types/canton';
+
+type HostingFilter = 'all' | 'local' | 'remote';
+
+/** Namespace fingerprint: the part of a party ID after "::" */
+const namespaceOf = (partyId: string): string => partyId.split('::')[1] ?? '';
+
+const shortFingerprint = (fingerprint: string): string =>
+    fingerprint.length > 16 ? `${fingerprint.substring(0, 16)}…` : fingerprint;
+
+/**
+ * Parse "key=value" lines into annotations.
+ */
+function parseAnnotations(text: string): Record<string, string> {
+    const annotations: Record<string, string> = {};
+    text.split('\n').forEach((line, index) => {
+        const trimmed = line.trim();
+        if (!trimmed) return;
+        const separator = trimmed.indexOf('=');
+        if (separator <= 0) {
+            throw new Error(`Line ${index + 1}: expected key=value`);
+        }
+        annotations[trimmed.substring(0, separator).trim()] = trimmed.substring(separator + 1).trim();
+    });
+    return annotations;
+}
+
+const formatAnnotations = (annotations: Record<string, string> = {}): string =>
+    Object.entries(annotations)
+        .map(([key, value]) => `${key}=${value}`)
+        .join('\n');
+
+interface PartyEditorProps {
+    party: Party;
+    onSave: (displayName: string, annotations: Record<string, string>) => Promise<void>;
+    onCancel: () => void;
+}
+
+function PartyEditor({ party, onSave, onCancel }: PartyEditorProps) {
+    const [displayName, setDisplayName] = useState(party.displayName ?? '');
+    const [annotationsText, setAnnotationsText] = useState(formatAnnotations(party.annotations));
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsSaving(true);
+        try {
+            await onSave(displayName.trim(), parseAnnotations(annotationsText));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update party');
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form className="party-editor" onSubmit={handleSubmit}>
+            <div className="party-editor-fields">
+                <div className="input-group">
+                    <label className="input-label" htmlFor={`name-${party.partyId}`}>Display name</label>
+                    <input
+                        id={`name-${party.partyId}`}
+                        className="input"
+                        value={displayName}
+                        onChange={(e) => setDisplayName(e.target.value)}
+                        placeholder={party.partyId.split('::')[0]}
+                    />
+                </div>
+                <div className="input-group">
+                    <label className="input-label" htmlFor={`annotations-${party.partyId}`}>
+                        Annotations (key=value per line)
+                    </label>
+                    <textarea
+                        id={`annotations-${party.partyId}`}
+                        className="input mono"
+                        rows={3}
+                        value={annotationsText}
+                        onChange={(e) => setAnnotationsText(e.target.value)}
+                    />
+                </div>
+            </div>
+            {error && <div className="error-message">{error}</div>}
+            <div className="party-editor-actions">
+                <button type="button" className="btn btn-ghost btn-sm" onClick={onCancel} disabled={isSaving}>
+                    Cancel
+                </button>
+                <button type="submit" className="btn btn-primary btn-sm" disabled={isSaving}>
+                    {isSaving ? <RefreshCw size={14} className="spin" /> : <Check size={14} />}
+                    Save
+                </button>
+            </div>
+        </form>
+    );
+}
+
+export function Parties() {
+    const {
+        activeParty,
+        availableParties,
+        partyRights,
+        getPartyAccess,
+        setActiveParty,
+        refreshParties,
+        allocateParty,
+        updateParty,
+    } = usePartyLens();
+
+    const [searchQuery, setSearchQuery] = useState('');
+    const [namespaceFilter, setNamespaceFilter] = useState('');
+    const [hostingFilter, setHostingFilter] = useState<HostingFilter>('all');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    // Allocation form
+    const [showAllocate, setShowAllocate] = useState(false);
+    const [hint, setHint] = useState('');
+    const [newDisplayName, setNewDisplayName] = useState('');
+    const [newAnnotations, setNewAnnotations] = useState('');
+    const [grantUserId, setGrantUserId] = useState(partyRights?.userId ?? '');
+    const [isAllocating, setIsAllocating] = useState(false);
+    const [allocateError, setAllocateError] = useState<string | null>(null);
+
+    // Without rights information, let the participant decide
+    const canAdminister = !partyRights || partyRights.admin;
+
+    const namespaces = useMemo(() => {
+        const counts = new Map<string, number>();
+        availableParties.forEach((p) => {
+            const namespace = namespaceOf(p.partyId);
+            counts.set(namespace, (counts.get(namespace) ?? 0) + 1);
+        });
+        return Array.from(counts.entries()).sort(([, a], [, b]) => b - a);
+    }, [availableParties]);
+
+    const filteredParties = useMemo(() => {
+        const query = searchQuery.toLowerCase();
+        return availableParties
+            .filter((p) => !namespaceFilter || namespaceOf(p.partyId) === namespaceFilter)
+            .filter((p) => hostingFilter === 'all' || p.isLocal === (hostingFilter === 'local'))
+            .filter((p) =>
+                !query ||
+                p.partyId.toLowerCase().includes(query) ||
+                (p.displayName ?? '').toLowerCase().includes(query) ||
+                Object.entries(p.annotations ?? {}).some(([key, value]) =>
+                    `${key}=${value}`.toLowerCase().includes(query)
+                )
+            )
+            .sort((a, b) => a.partyId.localeCompare(b.partyId));
+    }, [availableParties, namespaceFilter, hostingFilter, searchQuery]);
+
+    const localCount = availableParties.filter((p) => p.isLocal).length;
+
+    const handleRefresh = async () => {
+        setIsRefreshing(true);
+        await refreshParties();
+        setIsRefreshing(false);
+    };
+
+    const handleAllocate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setAllocateError(null);
+        setIsAllocating(true);
+        try {
+            const party = await allocateParty(hint.trim(), {
+                displayName: newDisplayName.trim() || undefined,
+                annotations: parseAnnotations(newAnnotations),
+                userId: grantUserId.trim() || undefined,
+            });
+            setNotice(`Allocated ${party.partyId}`);
+            setHint('');
+            setNewDisplayName('');
+            setNewAnnotations('');
+            setShowAllocate(false);
+        } catch (err) {
+            setAllocateError(err instanceof Error ? err.message : 'Failed to allocate party');
+        } finally {
+            setIsAllocating(false);
+        }
+    };
+
+    const handleSave = async (party: Party, displayName: string, annotations: Record<string, string>) => {
+        // Annotations left out of the update are kept; an empty value removes one
+        const removed = Object.keys(party.annotations ?? {}).filter((key) => !(key in annotations));
+        await updateParty(party, {
+            displayName,
+            annotations: { ...Object.fromEntries(removed.map((key) => [key, ''])), ...annotations },
+            resourceVersion: party.resourceVersion,
+        });
+        setEditingId(null);
+        setNotice(`Updated ${displayName || party.partyId}`);
+    };
+
+    return (
+        <div className="parties-page">
+            {/* Header */}
+            <div className="page-header-content">
+                <div>
+                    <h1 className="page-title">Parties</h1>
+                    <p className="page-subtitle">
+                        {availableParties.length} parties · {localCount} hosted locally · {namespaces.length} namespaces
+                    </p>
+                </div>
+                <div className="header-actions">
+                    <button className="btn btn-secondary" onClick={handleRefresh} disabled={isRefreshing}>
+                        <RefreshCw size={16} className={isRefreshing ? 'spin' : ''} />
+                        Refresh
+                    </button>
+                    <button
+                        className="btn btn-primary"
+                        onClick={() => setShowAllocate(!showAllocate)}
+                        disabled={!canAdminister}
+                        title={canAdminister ? undefined : 'Allocating parties needs the ParticipantAdmin right'}
+                    >
+                        <Plus size={16} />
+                        Allocate Party
+                    </button>
+                </div>
+            </div>
+
+            {!canAdminister && (
+                <div className="notice-banner">
+                    {partyRights?.userId ? `User ${partyRights.userId}` : 'The current token'} is not a participant
+                    admin; parties are read-only.
+                </div>
+            )}
+
+            {notice && (
+                <div className="success-banner">
+                    <Check size={16} />
+                    <span>{notice}</span>
+                    <button className="banner-close" onClick={() => setNotice(null)} aria-label="Dismiss">
+                        <X size={14} />
+                    </button>
+                </div>
+            )}
+
+            {/* Allocation Form */}
+            {showAllocate && (
+                <form className="card allocate-form" onSubmit={handleAllocate}>
+                    <div className="card-header">
+                        <h2 className="card-title">Allocate Party</h2>
+                    </div>
+                    <div className="card-body allocate-fields">
+                        <div className="input-group">
+                            <label className="input-label" htmlFor="party-hint">Party ID hint</label>
+                            <input
+                                id="party-hint"
+                                className="input"
+                                value={hint}
+                                onChange={(e) => setHint(e.target.value)}
+                                placeholder="Alice"
+                                required
+                            />
+                        </div>
+                        <div className="input-group">
+                            <label className="input-label" htmlFor="party-name">Display name</label>
+                            <input
+                                id="party-name"
+                                className="input"
+                                value={newDisplayName}
+                                onChange={(e) => setNewDisplayName(e.target.value)}
+                                placeholder="Optional"
+                            />
+                        </div>
+                        <div className="input-group">
+                            <label className="input-label" htmlFor="party-user">Grant actAs to user</label>
+                            <input
+                                id="party-user"
+                                className="input"
+                                value={grantUserId}
+                                onChange={(e) => setGrantUserId(e.target.value)}
+                                placeholder="Optional user ID"
+                            />
+                        </div>
+                        <div className="input-group allocate-annotations">
+                            <label className="input-label" htmlFor="party-annotations">
+                                Annotations (key=value per line)
+                            </label>
+                            <textarea
+                                id="party-annotations"
+                                className="input mono"
+                                rows={2}
+                                value={newAnnotations}
+                                onChange={(e) => setNewAnnotations(e.target.value)}
+                            />
+                        </div>
+                        {allocateError && (
+                            <div className="error-banner allocate-annotations">
+                                <AlertCircle size={16} />
+                                <span>{allocateError}</span>
+                            </div>
+                        )}
+                    </div>
+                    <div className="card-footer">
+                        <button type="button" className="btn btn-ghost" onClick={() => setShowAllocate(false)}>
+                            Cancel
+                        </button>
+                        <button type="submit" className="btn btn-primary" disabled={isAllocating || !hint.trim()}>
+                            {isAllocating ? <RefreshCw size={16} className="spin" /> : <Plus size={16} />}
+                            Allocate
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {/* Filters */}
+            <div className="filters-section">
+                <div className="search-bar">
+                    <Search size={18} className="search-icon" />
+                    <input
+                        type="text"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        placeholder="Search by party ID, name or annotation..."
+                        className="search-input"
+                    />
+                </div>
+                <div className="filter-controls">
+                    <select
+                        value={namespaceFilter}
+                        onChange={(e) => setNamespaceFilter(e.target.value)}
+                        className="filter-select"
+                    >
+                        <option value="">All namespaces</option>
+                        {namespaces.map(([namespace, count]) => (
+                            <option key={namespace} value={namespace}>
+                                {shortFingerprint(namespace) || '(none)'} ({count})
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        value={hostingFilter}
+                        onChange={(e) => setHostingFilter(e.target.value as HostingFilter)}
+                        className="filter-select"
+                    >
+                        <option value="all">Local and remote</option>
+                        <option value="local">Local only</option>
+                        <option value="remote">Remote only</option>
+                    </select>
+                </div>
+            </div>
+
+            {/* Parties Table */}
+            <div className="card">
+                <div className="table-container">
+                    <table className="data-table">
+                        <thead>
+                            <tr>
+                                <th>Party</th>
+                                <th>Namespace</th>
+                                <th>Hosting</th>
+                                <th>Identity Provider</th>
+                                <th>Annotations</th>
+                                <th>Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {filteredParties.length === 0 ? (
+                                <tr>
+                                    <td colSpan={6} className="empty-cell">
+                                        {availableParties.length === 0 ? 'No parties known to this participant' : 'No parties match your filters'}
+                                    </td>
+                                </tr>
+                            ) : (
+                                filteredParties.map((party) => {
+                                    const namespace = namespaceOf(party.partyId);
+                                    const annotations = Object.entries(party.annotations ?? {});
+                                    const isEditing = editingId === party.partyId;
+                                    return (
+                                        <Fragment key={party.partyId}>
+                                            <tr className={activeParty?.partyId === party.partyId ? 'active-party-row' : ''}>
+                                                <td>
+                                                    <div className="party-cell">
+                                                        <span className="party-cell-name">
+                                                            {party.displayName || party.partyId.split('::')[0]}
+                                                        </span>
+                                                        <span className="party-cell-id">
+                                                            <code className="mono text-xs text-tertiary truncate">{party.partyId}</code>
+                                                            <button
+                                                                className="copy-btn"
+                                                                onClick={() => navigator.clipboard.writeText(party.partyId)}
+                                                                title="Copy party ID"
+                                                            >
+                                                                <Copy size={12} />
+                                                            </button>
+                                                        </span>
+                                                    </div>
+                                                </td>
+                                                <td>
+                                                    <button
+                                                        className="namespace-link mono text-xs"
+                                                        onClick={() => setNamespaceFilter(namespace)}
+                                                        title={`Show parties in namespace ${namespace}`}
+                                                    >
+                                                        {shortFingerprint(namespace)}
+                                                    </button>
+                                                </td>
+                                                <td>
+                                                    <span className={`badge ${party.isLocal ? 'badge-success' : 'badge-neutral'}`}>
+                                                        {party.isLocal ? 'Local' : 'Remote'}
+                                                    </span>
+                                                </td>
+                                                <td>
+                                                    <span className="text-sm text-secondary">
+                                                        {party.identityProviderId || 'Default'}
+                                                    </span>
+                                                </td>
+                                                <td>
+                                                    <div className="annotations-cell">
+                                                        {annotations.length === 0 ? (
+                                                            <span className="text-sm text-tertiary">—</span>
+                                                        ) : (
+                                                            annotations.map(([key, value]) => (
+                                                                <span key={key} className="badge badge-neutral" title={`${key}=${value}`}>
+                                                                    {key}={value}
+                                                                </span>
+                                                            ))
+                                                        )}
+                                                    </div>
+                                                </td>
+                                                <td>
+                                                    <div className="row-actions">
+                                                        <button
+                                                            className="btn btn-ghost btn-sm"
+                                                            onClick={() => setActiveParty(party)}
+                                                            disabled={getPartyAccess(party.partyId) === 'none'}
+                                                            title="View the ledger as this party"
+                                                        >
+                                                            <Eye size={14} />
+                                                            View as
+                                                        </button>
+                                                        <button
+                                                            className="btn btn-ghost btn-sm"
+                                                            onClick={() => setEditingId(isEditing ? null : party.partyId)}
+                                                            disabled={!canAdminister || !party.isLocal}
+                                                            title={party.isLocal ? 'Edit display name and annotations' : 'Only local parties have editable details'}
+                                                        >
+                                                            <Edit2 size={14} />
+                                                            Edit
+                                                        </button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                            {isEditing && (
+                                                <tr className="editor-row">
+                                                    <td colSpan={6}>
+                                                        <PartyEditor
+                                                            party={party}
+                                                            onSave={(displayName, annotations) => handleSave(party, displayName, annotations)}
+                                                            onCancel={() => setEditingId(null)}
+                                                        />
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </Fragment>
+                                    );
+                                })
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <style>{`
+        .parties-page {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+        }
+
+        .page-header-content {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+        }
+
+        .page-title {
+          font-size: var(--text-3xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+          margin-bottom: var(--space-1);
+        }
+
+        .page-subtitle {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .header-actions {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .allocate-fields {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: var(--space-4);
+        }
+
+        .allocate-annotations {
+          grid-column: 1 / -1;
+        }
+
+        .allocate-form .card-footer {
+          display: flex;
+          justify-content: flex-end;
+          gap: var(--space-2);
+        }
+
+        .filters-section {
+          display: flex;
+          gap: var(--space-4);
+          flex-wrap: wrap;
+        }
+
+        .search-bar {
+          flex: 1;
+          min-width: 280px;
+          position: relative;
+          display: flex;
+          align-items: center;
+        }
+
+        .search-bar .search-icon {
+          position: absolute;
+          left: var(--space-3);
+          color: var(--text-tertiary);
+        }
+
+        .search-bar .search-input {
+          width: 100%;
+          padding: var(--space-2) var(--space-4);
+          padding-left: var(--space-10);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+        }
+
+        .filter-controls {
+          display: flex;
+          gap: var(--space-2);
+          align-items: center;
+        }
+
+        .filter-select {
+          padding: var(--space-2) var(--space-4);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+          font-size: var(--text-sm);
+          color: var(--text-primary);
+          min-width: 180px;
+        }
+
+        .table-container {
+          overflow: auto;
+        }
+
+        .active-party-row {
+          background: var(--accent-primary-light);
+        }
+
+        .party-cell {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          max-width: 360px;
+        }
+
+        .party-cell-name {
+          font-weight: var(--font-medium);
+          color: var(--text-primary);
+        }
+
+        .party-cell-id {
+          display: flex;
+          align-items: center;
+          gap: var(--space-1);
+          min-width: 0;
+        }
+
+        .copy-btn {
+          background: none;
+          border: none;
+          color: var(--text-tertiary);
+          cursor: pointer;
+          padding: var(--space-1);
+          opacity: 0;
+          transition: opacity var(--transition-fast);
+        }
+
+        tr:hover .copy-btn {
+          opacity: 1;
+        }
+
+        .copy-btn:hover {
+          color: var(--accent-primary);
+        }
+
+        .namespace-link {
+          background: none;
+          border: none;
+          padding: 0;
+          color: var(--accent-primary);
+          cursor: pointer;
+        }
+
+        .namespace-link:hover {
+          text-decoration: underline;
+        }
+
+        .annotations-cell {
+          display: flex;
+          flex-wrap: wrap;
+          gap: var(--space-1);
+          max-width: 320px;
+        }
+
+        .annotations-cell .badge {
+          max-width: 200px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .row-actions {
+          display: flex;
+          gap: var(--space-1);
+        }
+
+        .editor-row td {
+          background: var(--bg-tertiary);
+        }
+
+        .party-editor {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-3);
+        }
+
+        .party-editor-fields {
+          display: grid;
+          grid-template-columns: 1fr 2fr;
+          gap: var(--space-4);
+        }
+
+        .party-editor-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: var(--space-2);
+        }
+
+        .empty-cell {
+          text-align: center;
+          padding: var(--space-8) !important;
+          color: var(--text-tertiary);
+        }
+
+        .notice-banner {
+          padding: var(--space-3) var(--space-4);
+          background: rgba(245, 158, 11, 0.08);
+          border: 1px solid var(--color-warning-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-warning-600);
+          font-size: var(--text-sm);
+        }
+
+        .success-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: rgba(34, 197, 94, 0.08);
+          border: 1px solid var(--color-success-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-success-600);
+          font-size: var(--text-sm);
+        }
+
+        .banner-close {
+          margin-left: auto;
+          background: none;
+          border: none;
+          color: inherit;
+          cursor: pointer;
+        }
+
+        .error-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: rgba(239, 68, 68, 0.08);
+          border: 1px solid var(--color-error-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-error-600);
+          font-size: var(--text-sm);
+        }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          from { transform: rotate(0deg); }
+          to { transform: rotate(360deg); }
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default Parties;
@@ -0,0 +1,615 @@
+/**
+ * PrivacyComparison Page
+ *
+ * Side-by-side view of what two parties see, to validate a Daml privacy
+ * model before go-live:
+ * - Active contracts and recent transactions of both parties, read at the
+ *   same ledger offset
+ * - Split into visible to both, only to A, and only to B
+ * - The signatory / observer / acting party / witness role behind each
+ *   disclosure
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, ArrowLeftRight, ExternalLink, RefreshCw } from 'lucide-react';
+import { useLedgerClient, usePartyLens } from '../services/store';
+import {
+    compareContracts,
+    compareTransactions,
+    countSides,
+    DISCLOSURE_EXPLANATIONS,
+    readActiveContracts,
+    type ComparisonSide,
+    type ContractComparison,
+    type Disclosure,
+    type TransactionComparison,
+} from '../services/privacyComparison';
+import type { LedgerOffset, Page, Party, PartyId, Transaction } from '../types/canton';
+
+type ComparisonTab = 'contracts' | 'transactions';
+type SideFilter = ComparisonSide | 'all';
+
+/** Contracts read per party, to bound memory; beyond it results are inconclusive */
+const CONTRACT_LIMIT = 20000;
+const TRANSACTION_LIMIT = 200;
+
+interface ComparisonResult {
+    offset: LedgerOffset;
+    contracts: ContractComparison[];
+    transactions: TransactionComparison[];
+    /** Parties whose active contracts were not all read */
+    contractsTruncated: PartyId[];
+    /** Oldest offset both transaction windows cover */
+    windowStart: LedgerOffset;
+}
+
+const DISCLOSURE_BADGES: Record<Disclosure, string> = {
+    signatory: 'badge-success',
+    observer: 'badge-info',
+    actor: 'badge-warning',
+    witness: 'badge-neutral',
+};
+
+const partyName = (party: Party | undefined): string =>
+    party ? party.displayName || party.partyId.split('::')[0] : '—';
+
+/**
+ * Lowest offset a descending page covers in full: zero when it reached the
+ * start of the ledger.
+ */
+const windowFloor = (page: Page<Transaction>): LedgerOffset =>
+    page.nextPageToken ? Math.min(...page.items.map((t) => t.offset)) : 0;
+
+function DisclosureBadge({ role }: { role?: Disclosure }) {
+    if (!role) {
+        return <span className="text-sm text-tertiary">Not visible</span>;
+    }
+    return (
+        <span className={`badge ${DISCLOSURE_BADGES[role]}`} title={DISCLOSURE_EXPLANATIONS[role]}>
+            {role}
+        </span>
+    );
+}
+
+export function PrivacyComparison() {
+    const client = useLedgerClient();
+    const { activeParty, readableParties } = usePartyLens();
+
+    const [partyA, setPartyA] = useState<PartyId>(activeParty?.partyId ?? '');
+    const [partyB, setPartyB] = useState<PartyId>(
+        () => readableParties.find((p) => p.partyId !== activeParty?.partyId)?.partyId ?? ''
+    );
+    const [tab, setTab] = useState<ComparisonTab>('contracts');
+    const [sideFilter, setSideFilter] = useState<SideFilter>('all');
+
+    const [result, setResult] = useState<ComparisonResult | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Only the latest comparison may update the view
+    const comparisonRequest = useRef(0);
+
+    const canCompare = !!client && !!partyA && !!partyB && partyA !== partyB;
+
+    const loadComparison = useCallback(async () => {
+        const request = ++comparisonRequest.current;
+        if (!client || !partyA || !partyB || partyA === partyB) {
+            setIsLoading(false);
+            return;
+        }
+
+        setIsLoading(true);
+        setError(null);
+        try {
+            // Both views at the same offset, so differences are privacy, not timing
+            const { offset } = await client.ping();
+            const contractsOf = (party: PartyId) => readActiveContracts(client, party, offset, CONTRACT_LIMIT);
+            const transactionsOf = (party: PartyId) =>
+                client.getTransactionsPage(party, { endOffset: offset, order: 'desc', pageSize: TRANSACTION_LIMIT });
+
+            const [contractsA, contractsB, transactionsA, transactionsB] = await Promise.all([
+                contractsOf(partyA),
+                contractsOf(partyB),
+                transactionsOf(partyA),
+                transactionsOf(partyB),
+            ]);
+
+            // Compare only the offsets both transaction pages cover
+            const windowStart = Math.max(windowFloor(transactionsA), windowFloor(transactionsB));
+            const inWindow = (t: Transaction) => t.offset >= windowStart;
+
+            if (request !== comparisonRequest.current) return;
+            setResult({
+                offset,
+                contracts: compareContracts(contractsA, contractsB, partyA, partyB),
+                transactions: compareTransactions(
+                    transactionsA.items.filter(inWindow),
+                    transactionsB.items.filter(inWindow),
+                    partyA,
+                    partyB
+                ),
+                contractsTruncated: [
+                    ...(contractsA.complete ? [] : [partyA]),
+                    ...(contractsB.complete ? [] : [partyB]),
+                ],
+                windowStart,
+            });
+        } catch (err) {
+            if (request === comparisonRequest.current) {
+                setError(err instanceof Error ? err.message : 'Failed to compare parties');
+            }
+        } finally {
+            if (request === comparisonRequest.current) setIsLoading(false);
+        }
+    }, [client, partyA, partyB]);
+
+    useEffect(() => {
+        setResult(null);
+        loadComparison();
+    }, [loadComparison]);
+
+    const swapParties = () => {
+        setPartyA(partyB);
+        setPartyB(partyA);
+    };
+
+    const rows = tab === 'contracts' ? result?.contracts ?? [] : result?.transactions ?? [];
+    const counts = useMemo(() => countSides(rows), [rows]);
+    const visibleRows = sideFilter === 'all' ? rows : rows.filter((row) => row.side === sideFilter);
+
+    const nameA = partyName(readableParties.find((p) => p.partyId === partyA));
+    const nameB = partyName(readableParties.find((p) => p.partyId === partyB));
+
+    const sideLabels: Record<ComparisonSide, string> = {
+        both: 'Both',
+        a: `Only ${nameA}`,
+        b: `Only ${nameB}`,
+        inconclusive: 'Inconclusive',
+    };
+    const sideLabel = (side: ComparisonSide) => sideLabels[side];
+
+    const renderPartySelect = (value: PartyId, onChange: (partyId: PartyId) => void, label: string) => (
+        <label className="compare-party">
+            <span className="compare-party-label">{label}</span>
+            <select value={value} onChange={(e) => onChange(e.target.value)} className="compare-party-select">
+                <option value="">Select a party…</option>
+                {readableParties.map((party) => (
+                    <option key={party.partyId} value={party.partyId}>
+                        {partyName(party)} — {party.partyId}
+                    </option>
+                ))}
+            </select>
+        </label>
+    );
+
+    return (
+        <div className="privacy-comparison">
+            {/* Header */}
+            <div className="page-header-content">
+                <div>
+                    <h1 className="page-title">Privacy Comparison</h1>
+                    <p className="page-subtitle">
+                        What two parties see of the ledger
+                        {result && ` · at offset ${result.offset.toLocaleString()}`}
+                    </p>
+                </div>
+                <div className="header-actions">
+                    <button
+                        className="btn btn-secondary"
+                        onClick={loadComparison}
+                        disabled={!canCompare || isLoading}
+                    >
+                        <RefreshCw size={16} className={isLoading ? 'spin' : ''} />
+                        Refresh
+                    </button>
+                </div>
+            </div>
+
+            {/* Party Pickers */}
+            <div className="compare-parties card">
+                {renderPartySelect(partyA, setPartyA, 'Party A')}
+                <button
+                    className="btn btn-icon btn-ghost"
+                    onClick={swapParties}
+                    title="Swap parties"
+                    aria-label="Swap parties"
+                >
+                    <ArrowLeftRight size={18} />
+                </button>
+                {renderPartySelect(partyB, setPartyB, 'Party B')}
+            </div>
+
+            {partyA && partyA === partyB && (
+                <div className="notice-banner">Pick two different parties to compare.</div>
+            )}
+
+            {error && (
+                <div className="error-banner">
+                    <AlertCircle size={18} />
+                    <span>{error}</span>
+                </div>
+            )}
+
+            {result && (
+                <>
+                    {/* Summary */}
+                    <div className="compare-summary">
+                        {(['both', 'a', 'b', 'inconclusive'] as ComparisonSide[])
+                            .filter((side) => side !== 'inconclusive' || counts.inconclusive > 0)
+                            .map((side) => (
+                                <button
+                                    key={side}
+                                    className={`compare-summary-card card side-${side} ${sideFilter === side ? 'active' : ''}`}
+                                    onClick={() => setSideFilter(sideFilter === side ? 'all' : side)}
+                                >
+                                    <span className="compare-summary-count">{counts[side]}</span>
+                                    <span className="compare-summary-label">{sideLabel(side)}</span>
+                                </button>
+                            ))}
+                    </div>
+
+                    <div className="compare-toolbar">
+                        <div className="view-toggle">
+                            <button
+                                className={`toggle-btn ${tab === 'contracts' ? 'active' : ''}`}
+                                onClick={() => setTab('contracts')}
+                            >
+                                Active Contracts ({result.contracts.length})
+                            </button>
+                            <button
+                                className={`toggle-btn ${tab === 'transactions' ? 'active' : ''}`}
+                                onClick={() => setTab('transactions')}
+                            >
+                                Transactions ({result.transactions.length})
+                            </button>
+                        </div>
+                        {sideFilter !== 'all' && (
+                            <button className="btn btn-ghost btn-sm" onClick={() => setSideFilter('all')}>
+                                Show all
+                            </button>
+                        )}
+                    </div>
+
+                    {tab === 'contracts' && result.contractsTruncated.length > 0 && (
+                        <div className="notice-banner">
+                            Read the first {CONTRACT_LIMIT.toLocaleString()} active contracts of{' '}
+                            {result.contractsTruncated
+                                .map((id) => partyName(readableParties.find((p) => p.partyId === id)))
+                                .join(' and ')}
+                            . Contracts only the other party was seen to hold may be among the unread ones, so they
+                            are inconclusive rather than exclusive.
+                        </div>
+                    )}
+                    {tab === 'transactions' && result.windowStart > 0 && (
+                        <div className="notice-banner">
+                            Comparing the transactions from offset {result.windowStart.toLocaleString()} on, the
+                            window both parties' recent history covers.
+                        </div>
+                    )}
+
+                    {/* Comparison Table */}
+                    <div className="card">
+                        <div className="table-container">
+                            <table className="data-table">
+                                <thead>
+                                    <tr>
+                                        <th>{tab === 'contracts' ? 'Contract' : 'Transaction'}</th>
+                                        <th>Visible To</th>
+                                        <th>{nameA}</th>
+                                        <th>{nameB}</th>
+                                        <th>Offset</th>
+                                        <th></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {visibleRows.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={6} className="empty-cell">
+                                                Nothing to compare
+                                            </td>
+                                        </tr>
+                                    ) : tab === 'contracts' ? (
+                                        (visibleRows as ContractComparison[]).map((row) => (
+                                            <tr key={row.contract.contractId}>
+                                                <td>
+                                                    <div className="compare-item">
+                                                        <span className="compare-item-name">
+                                                            {row.contract.templateId.split(':').pop()}
+                                                        </span>
+                                                        <code className="mono text-xs text-tertiary">
+                                                            {row.contract.contractId.substring(0, 16)}...
+                                                        </code>
+                                                    </div>
+                                                </td>
+                                                <td><span className={`compare-side side-${row.side}`}>{sideLabel(row.side)}</span></td>
+                                                <td><DisclosureBadge role={row.roleA} /></td>
+                                                <td><DisclosureBadge role={row.roleB} /></td>
+                                                <td><span className="mono">{row.contract.offset.toLocaleString()}</span></td>
+                                                <td>
+                                                    <Link
+                                                        to={`/contracts/${encodeURIComponent(row.contract.contractId)}`}
+                                                        className="btn btn-ghost btn-sm"
+                                                    >
+                                                        <ExternalLink size={14} />
+                                                        View
+                                                    </Link>
+                                                </td>
+                                            </tr>
+                                        ))
+                                    ) : (
+                                        (visibleRows as TransactionComparison[]).map((row) => (
+                                            <tr key={row.transaction.updateId}>
+                                                <td>
+                                                    <div className="compare-item">
+                                                        <code className="mono text-sm">
+                                                            {row.transaction.updateId.substring(0, 20)}...
+                                                        </code>
+                                                        {row.side === 'both' && row.eventsA !== row.eventsB && (
+                                                            <span
+                                                                className="text-xs text-tertiary"
+                                                                title="Each party sees only the events it is an informee of"
+                                                            >
+                                                                {row.eventsA} vs {row.eventsB} events
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                </td>
+                                                <td><span className={`compare-side side-${row.side}`}>{sideLabel(row.side)}</span></td>
+                                                <td><DisclosureBadge role={row.roleA} /></td>
+                                                <td><DisclosureBadge role={row.roleB} /></td>
+                                                <td><span className="mono">{row.transaction.offset.toLocaleString()}</span></td>
+                                                <td>
+                                                    <Link
+                                                        to={`/transactions/${encodeURIComponent(row.transaction.updateId)}`}
+                                                        className="btn btn-ghost btn-sm"
+                                                    >
+                                                        <ExternalLink size={14} />
+                                                        View
+                                                    </Link>
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    {/* Legend */}
+                    <div className="compare-legend">
+                        {(Object.keys(DISCLOSURE_EXPLANATIONS) as Disclosure[]).map((role) => (
+                            <div key={role} className="compare-legend-item">
+                                <span className={`badge ${DISCLOSURE_BADGES[role]}`}>{role}</span>
+                                <span className="text-sm text-secondary">{DISCLOSURE_EXPLANATIONS[role]}</span>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            <style>{`
+        .privacy-comparison {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+        }
+
+        .page-header-content {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+        }
+
+        .page-title {
+          font-size: var(--text-3xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+          margin-bottom: var(--space-1);
+        }
+
+        .page-subtitle {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .header-actions {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .compare-parties {
+          display: flex;
+          align-items: flex-end;
+          gap: var(--space-4);
+          padding: var(--space-4);
+        }
+
+        .compare-party {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          min-width: 0;
+        }
+
+        .compare-party-label {
+          font-size: var(--text-xs);
+          font-weight: var(--font-semibold);
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          color: var(--text-tertiary);
+        }
+
+        .compare-party-select {
+          padding: var(--space-2) var(--space-4);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+          font-size: var(--text-sm);
+          color: var(--text-primary);
+        }
+
+        .compare-summary {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: var(--space-4);
+        }
+
+        .compare-summary-card {
+          display: flex;
+          flex-direction: column;
+          align-items: flex-start;
+          gap: var(--space-1);
+          padding: var(--space-4);
+          cursor: pointer;
+          text-align: left;
+          border-left: 4px solid var(--border-primary);
+          transition: all var(--transition-fast);
+        }
+
+        .compare-summary-card.side-both { border-left-color: var(--color-success-500); }
+        .compare-summary-card.side-a { border-left-color: var(--accent-primary); }
+        .compare-summary-card.side-b { border-left-color: var(--color-warning-500); }
+
+        .compare-summary-card.active {
+          background: var(--accent-primary-light);
+        }
+
+        .compare-summary-count {
+          font-size: var(--text-2xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+        }
+
+        .compare-summary-label {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .compare-toolbar {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+        }
+
+        .view-toggle {
+          display: flex;
+          background: var(--bg-tertiary);
+          border-radius: var(--radius-lg);
+          overflow: hidden;
+          border: 1px solid var(--border-primary);
+        }
+
+        .toggle-btn {
+          padding: var(--space-2) var(--space-3);
+          background: transparent;
+          border: none;
+          color: var(--text-secondary);
+          font-size: var(--text-sm);
+          cursor: pointer;
+          transition: all var(--transition-fast);
+        }
+
+        .toggle-btn:hover {
+          color: var(--text-primary);
+        }
+
+        .toggle-btn.active {
+          background: var(--bg-secondary);
+          color: var(--accent-primary);
+          font-weight: var(--font-medium);
+        }
+
+        .table-container {
+          overflow: auto;
+          max-height: calc(100vh - 420px);
+          min-height: 240px;
+        }
+
+        .table-container thead th {
+          position: sticky;
+          top: 0;
+          z-index: 1;
+          background: var(--bg-tertiary);
+        }
+
+        .compare-item {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+        }
+
+        .compare-item-name {
+          font-weight: var(--font-medium);
+          color: var(--text-primary);
+        }
+
+        .compare-side {
+          font-size: var(--text-sm);
+          font-weight: var(--font-medium);
+        }
+
+        .compare-side.side-both { color: var(--color-success-600); }
+        .compare-side.side-a { color: var(--accent-primary); }
+        .compare-side.side-b { color: var(--color-warning-600); }
+        .compare-side.side-inconclusive { color: var(--text-tertiary); }
+
+        .compare-legend {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+        }
+
+        .compare-legend-item {
+          display: flex;
+          align-items: center;
+          gap: var(--space-3);
+        }
+
+        .compare-legend-item .badge {
+          min-width: 80px;
+          justify-content: center;
+        }
+
+        .empty-cell {
+          text-align: center;
+          padding: var(--space-8) !important;
+          color: var(--text-tertiary);
+        }
+
+        .notice-banner {
+          padding: var(--space-3) var(--space-4);
+          background: rgba(245, 158, 11, 0.08);
+          border: 1px solid var(--color-warning-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-warning-600);
+          font-size: var(--text-sm);
+        }
+
+        .error-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: rgba(239, 68, 68, 0.08);
+          border: 1px solid var(--color-error-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-error-600);
+          font-size: var(--text-sm);
+        }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          from { transform: rotate(0deg); }
+          to { transform: rotate(360deg); }
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default PrivacyComparison;
@@ -0,0 +1,721 @@
+/**
+ * Settings Page
+ *
+ * Application settings with:
+ * - Current session: decoded token rights and expiry, OAuth refresh
+ * - Named connection profiles (endpoint, auth, Scan URL, default party)
+ * - One-click profile switching
+ * - Profile import and export as JSON
+ * - Local cache size (cached parties and packages)
+ * - Clear cache
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    Database,
+    RefreshCw,
+    Trash2,
+    Server,
+    Plus,
+    Pencil,
+    Upload,
+    Download,
+    Check,
+    Loader2,
+    KeyRound,
+} from 'lucide-react';
+import { getCacheStats, type CacheStats } from '../services/ledgerCache';
+import { exportProfiles, parseProfiles } from '../services/profiles';
+import { useAuth, useClearCache, useConnection, usePartyLens, useProfiles, useScanStore } from '../services/store';
+import type { ConnectionProfile } from '../types/canton';
+import AuthFields from '../components/AuthFields';
+import TokenDetails from '../components/TokenDetails';
+
+type ProfileDraft = Omit<ConnectionProfile, 'id' | 'createdAt'> & { id?: string };
+
+const emptyDraft = (): ProfileDraft => ({
+    name: '',
+    connection: { endpoint: 'http://localhost:7575' },
+});
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface ProfileFormProps {
+    draft: ProfileDraft;
+    partyIds: string[];
+    onSave: (draft: ProfileDraft) => void;
+    onCancel: () => void;
+}
+
+function ProfileForm({ draft: initial, partyIds, onSave, onCancel }: ProfileFormProps) {
+    const [draft, setDraft] = useState(initial);
+    const update = (changes: Partial<ProfileDraft>) => setDraft((d) => ({ ...d, ...changes }));
+    const updateConnection = (changes: Partial<ProfileDraft['connection']>) =>
+        setDraft((d) => ({ ...d, connection: { ...d.connection, ...changes } }));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({
+            ...draft,
+            name: draft.name.trim(),
+            connection: {
+                ...draft.connection,
+                endpoint: draft.connection.endpoint.trim(),
+                authToken: draft.connection.authToken || undefined,
+            },
+            scanUrl: draft.scanUrl?.trim() || undefined,
+            scanMemberId: draft.scanMemberId?.trim() || undefined,
+            defaultPartyId: draft.defaultPartyId?.trim() || undefined,
+        });
+    };
+
+    return (
+        <form className="profile-form" onSubmit={handleSubmit}>
+            <div className="profile-form-grid">
+                <div className="input-group">
+                    <label htmlFor="profile-name" className="input-label">Name</label>
+                    <input
+                        id="profile-name"
+                        className="input"
+                        value={draft.name}
+                        onChange={(e) => update({ name: e.target.value })}
+                        placeholder="Staging participant"
+                        required
+                        autoFocus
+                    />
+                </div>
+                <div className="input-group">
+                    <label htmlFor="profile-endpoint" className="input-label">Participant Endpoint</label>
+                    <input
+                        id="profile-endpoint"
+                        type="url"
+                        className="input"
+                        value={draft.connection.endpoint}
+                        onChange={(e) => updateConnection({ endpoint: e.target.value })}
+                        placeholder="http://localhost:7575"
+                        required
+                    />
+                </div>
+                <div className="input-group">
+                    <label htmlFor="profile-party" className="input-label">Default Party (Optional)</label>
+                    <input
+                        id="profile-party"
+                        className="input"
+                        list="profile-party-options"
+                        value={draft.defaultPartyId ?? ''}
+                        onChange={(e) => update({ defaultPartyId: e.target.value })}
+                        placeholder="Alice::1220…"
+                    />
+                    <datalist id="profile-party-options">
+                        {partyIds.map((id) => <option key={id} value={id} />)}
+                    </datalist>
+                </div>
+                <div className="input-group">
+                    <label htmlFor="profile-scan" className="input-label">Scan API URL (Optional)</label>
+                    <input
+                        id="profile-scan"
+                        type="url"
+                        className="input"
+                        value={draft.scanUrl ?? ''}
+                        onChange={(e) => update({ scanUrl: e.target.value })}
+                        placeholder="https://scan.sv-1.global.canton.network.sync.global/api/scan"
+                    />
+                </div>
+                <div className="input-group">
+                    <label htmlFor="profile-member" className="input-label">Scan Member ID (Optional)</label>
+                    <input
+                        id="profile-member"
+                        className="input"
+                        value={draft.scanMemberId ?? ''}
+                        onChange={(e) => update({ scanMemberId: e.target.value })}
+                        placeholder="Member ID for traffic status"
+                    />
+                </div>
+            </div>
+            <div className="profile-form-auth">
+                <AuthFields
+                    idPrefix="profile-auth"
+                    value={{ authToken: draft.connection.authToken, oauth: draft.connection.oauth }}
+                    onChange={(auth) =>
+                        setDraft((d) => ({ ...d, connection: { endpoint: d.connection.endpoint, ...auth } }))
+                    }
+                />
+            </div>
+            <div className="profile-form-actions">
+                <button type="button" className="btn btn-ghost" onClick={onCancel}>Cancel</button>
+                <button type="submit" className="btn btn-primary">
+                    <Check size={16} />
+                    Save Profile
+                </button>
+            </div>
+        </form>
+    );
+}
+
+export function Settings() {
+    const { config, status } = useConnection();
+    const { activeParty, availableParties, partyRights } = usePartyLens();
+    const { scanConfig } = useScanStore();
+    const { tokens, authError, refreshAuth } = useAuth();
+    const [isRefreshingToken, setIsRefreshingToken] = useState(false);
+    const { profiles, activeProfileId, saveProfile, deleteProfile, importProfiles, switchProfile } = useProfiles();
+    const [draft, setDraft] = useState<ProfileDraft | null>(null);
+    const [switchingId, setSwitchingId] = useState<string | null>(null);
+    const [includeSecrets, setIncludeSecrets] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const clearCache = useClearCache();
+    const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+    const [isClearing, setIsClearing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refreshCacheStats = useCallback(async () => {
+        setCacheStats(await getCacheStats());
+    }, []);
+
+    useEffect(() => {
+        refreshCacheStats();
+    }, [refreshCacheStats]);
+
+    const handleSaveProfile = (input: ProfileDraft) => {
+        const profile = saveProfile(input);
+        setDraft(null);
+        setNotice(`Saved profile "${profile.name}"`);
+    };
+
+    const handleSaveCurrent = () => {
+        if (!config) return;
+        setDraft({
+            name: '',
+            // OAuth sessions are saved as their login settings, not the current token
+            connection: config.oauth ? { endpoint: config.endpoint, oauth: config.oauth } : config,
+            scanUrl: scanConfig.url || undefined,
+            scanMemberId: scanConfig.memberId || undefined,
+            defaultPartyId: activeParty?.partyId,
+        });
+    };
+
+    const handleRefreshToken = async () => {
+        setIsRefreshingToken(true);
+        try {
+            await refreshAuth();
+        } finally {
+            setIsRefreshingToken(false);
+        }
+    };
+
+    const handleDeleteProfile = (profile: ConnectionProfile) => {
+        if (!window.confirm(`Delete profile "${profile.name}"?`)) return;
+        deleteProfile(profile.id);
+    };
+
+    const handleSwitch = async (profile: ConnectionProfile) => {
+        setSwitchingId(profile.id);
+        setError(null);
+        setNotice(null);
+        try {
+            const connected = await switchProfile(profile.id);
+            if (!connected) {
+                setError(`Could not connect to ${profile.connection.endpoint}`);
+            }
+        } finally {
+            setSwitchingId(null);
+        }
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportProfiles(profiles, { includeSecrets })], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'ledgerview-profiles.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setError(null);
+        setNotice(null);
+        try {
+            const imported = parseProfiles(await file.text());
+            importProfiles(imported);
+            setNotice(`Imported ${imported.length} profile${imported.length !== 1 ? 's' : ''}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to import profiles');
+        }
+    };
+
+    const handleClearCache = async () => {
+        if (!window.confirm('Clear all cached ledger data? It will be downloaded again as needed.')) return;
+
+        setIsClearing(true);
+        setError(null);
+        try {
+            await clearCache();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to clear cache');
+        } finally {
+            setIsClearing(false);
+            refreshCacheStats();
+        }
+    };
+
+    return (
+        <div className="settings-page">
+            <div className="page-header-content">
+                <div>
+                    <h1 className="page-title">Settings</h1>
+                    <p className="page-subtitle">Connection and local data preferences</p>
+                </div>
+            </div>
+
+            {error && (
+                <div className="error-banner">
+                    <span>{error}</span>
+                </div>
+            )}
+
+            {status.connected && config && (
+                <div className="card">
+                    <div className="card-header">
+                        <h3 className="card-title">
+                            <KeyRound size={18} />
+                            Authentication
+                        </h3>
+                        {config.oauth && (
+                            <button
+                                className="btn btn-ghost btn-sm"
+                                onClick={handleRefreshToken}
+                                disabled={isRefreshingToken || !tokens}
+                            >
+                                <RefreshCw size={14} className={isRefreshingToken ? 'spin' : ''} />
+                                Refresh Token
+                            </button>
+                        )}
+                    </div>
+                    <div className="card-body">
+                        <p className="settings-hint">
+                            {config.oauth
+                                ? `Signed in with OAuth2 (${config.oauth.flow === 'authorization-code' ? 'login' : 'client credentials'}) at ${config.oauth.issuer}. The token is refreshed automatically before it expires.`
+                                : config.authToken
+                                    ? 'Connected with a pasted bearer token. It is not refreshed; reconnect with a new token once it expires.'
+                                    : 'Connected without authentication.'}
+                        </p>
+                        {authError && (
+                            <div className="error-banner auth-error">
+                                <span>{authError}</span>
+                            </div>
+                        )}
+                        {config.authToken && <TokenDetails token={config.authToken} />}
+                        {partyRights?.source === 'user' && (
+                            <div className="user-rights">
+                                <span>Rights of user <strong>{partyRights.userId}</strong> on the participant:</span>
+                                <span>Act as: {partyRights.actAs.map((p) => p.split('::')[0]).join(', ') || '—'}</span>
+                                <span>
+                                    Read as: {partyRights.readAsAnyParty
+                                        ? 'any party'
+                                        : partyRights.readAs.map((p) => p.split('::')[0]).join(', ') || '—'}
+                                </span>
+                                {partyRights.admin && <span>Participant admin</span>}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {notice && (
+                <div className="notice-banner">
+                    <span>{notice}</span>
+                    <button className="btn btn-ghost btn-sm" onClick={() => setNotice(null)}>Dismiss</button>
+                </div>
+            )}
+
+            <div className="card">
+                <div className="card-header">
+                    <h3 className="card-title">
+                        <Server size={18} />
+                        Connection Profiles
+                    </h3>
+                    <div className="header-actions">
+                        <button className="btn btn-ghost btn-sm" onClick={() => importInputRef.current?.click()}>
+                            <Upload size={14} />
+                            Import
+                        </button>
+                        <button className="btn btn-ghost btn-sm" onClick={handleExport} disabled={profiles.length === 0}>
+                            <Download size={14} />
+                            Export
+                        </button>
+                        <button className="btn btn-secondary btn-sm" onClick={() => setDraft(emptyDraft())}>
+                            <Plus size={14} />
+                            New Profile
+                        </button>
+                    </div>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleImport}
+                        hidden
+                    />
+                </div>
+                <div className="card-body">
+                    <p className="settings-hint">
+                        Save each participant you work against with its auth, Scan URL and default party, then
+                        switch between them in one click. Exports leave auth tokens and client secrets out unless included below.
+                    </p>
+
+                    {draft && (
+                        <ProfileForm
+                            key={draft.id ?? 'new'}
+                            draft={draft}
+                            partyIds={availableParties.map((p) => p.partyId)}
+                            onSave={handleSaveProfile}
+                            onCancel={() => setDraft(null)}
+                        />
+                    )}
+
+                    {profiles.length === 0 ? (
+                        <div className="profiles-empty">No saved profiles yet.</div>
+                    ) : (
+                        <div className="profile-list">
+                            {profiles.map((profile) => {
+                                const isActive = profile.id === activeProfileId && status.connected;
+                                return (
+                                    <div key={profile.id} className={`profile-row ${isActive ? 'active' : ''}`}>
+                                        <div className="profile-info">
+                                            <div className="profile-name">
+                                                {profile.name}
+                                                {isActive && <span className="badge badge-success">Connected</span>}
+                                                {profile.connection.oauth ? (
+                                                    <span className="badge badge-neutral">OAuth2</span>
+                                                ) : profile.connection.authToken && (
+                                                    <span className="badge badge-neutral">Token</span>
+                                                )}
+                                            </div>
+                                            <div className="profile-detail">{profile.connection.endpoint}</div>
+                                            {profile.defaultPartyId && (
+                                                <div className="profile-detail">Party {profile.defaultPartyId}</div>
+                                            )}
+                                            {profile.scanUrl && (
+                                                <div className="profile-detail">Scan {profile.scanUrl}</div>
+                                            )}
+                                        </div>
+                                        <div className="profile-actions">
+                                            <button
+                                                className="btn btn-primary btn-sm"
+                                                onClick={() => handleSwitch(profile)}
+                                                disabled={isActive || switchingId !== null}
+                                            >
+                                                {switchingId === profile.id ? (
+                                                    <Loader2 size={14} className="spin" />
+                                                ) : null}
+                                                {isActive ? 'Active' : 'Switch'}
+                                            </button>
+                                            <button
+                                                className="btn btn-ghost btn-sm"
+                                                onClick={() => setDraft(profile)}
+                                                title="Edit"
+                                            >
+                                                <Pencil size={14} />
+                                            </button>
+                                            <button
+                                                className="btn btn-ghost btn-sm"
+                                                onClick={() => handleDeleteProfile(profile)}
+                                                title="Delete"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    <div className="profile-footer">
+                        {status.connected && !activeProfileId && (
+                            <button className="btn btn-secondary btn-sm" onClick={handleSaveCurrent}>
+                                <Plus size={14} />
+                                Save Current Connection
+                            </button>
+                        )}
+                        <label className="profile-secrets">
+                            <input
+                                type="checkbox"
+                                checked={includeSecrets}
+                                onChange={(e) => setIncludeSecrets(e.target.checked)}
+                            />
+                            Include tokens and client secrets in exports
+                        </label>
+                    </div>
+                </div>
+            </div>
+
+            <div className="card">
+                <div className="card-header">
+                    <h3 className="card-title">
+                        <Database size={18} />
+                        Local Cache
+                    </h3>
+                    <button className="btn btn-ghost btn-sm" onClick={refreshCacheStats} title="Refresh">
+                        <RefreshCw size={14} />
+                    </button>
+                </div>
+                <div className="card-body">
+                    <p className="settings-hint">
+                        Contracts, transactions and offsets are cached per endpoint and party, and decoded
+                        packages per package ID, so reopening LedgerView shows data immediately while fresh
+                        data loads. Least recently used entries are evicted when the cache grows too large.
+                    </p>
+
+                    <div className="cache-stats">
+                        <div className="cache-stat">
+                            <span className="cache-stat-value">{cacheStats ? formatBytes(cacheStats.bytes) : '—'}</span>
+                            <span className="cache-stat-label">Estimated size</span>
+                        </div>
+                        <div className="cache-stat">
+                            <span className="cache-stat-value">{cacheStats?.parties ?? '—'}</span>
+                            <span className="cache-stat-label">Parties</span>
+                        </div>
+                        <div className="cache-stat">
+                            <span className="cache-stat-value">{cacheStats?.packages ?? '—'}</span>
+                            <span className="cache-stat-label">Packages</span>
+                        </div>
+                    </div>
+
+                    <button
+                        className="btn btn-secondary"
+                        onClick={handleClearCache}
+                        disabled={isClearing || !cacheStats || cacheStats.parties + cacheStats.packages === 0}
+                    >
+                        <Trash2 size={16} />
+                        {isClearing ? 'Clearing…' : 'Clear Cache'}
+                    </button>
+                </div>
+            </div>
+
+            <style>{`
+        .settings-page {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+          max-width: 960px;
+        }
+
+        .page-header-content {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+        }
+
+        .page-title {
+          font-size: var(--text-3xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+          margin-bottom: var(--space-1);
+        }
+
+        .page-subtitle {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .card-title {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+        }
+
+        .header-actions {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+        }
+
+        .profile-form {
+          padding: var(--space-4);
+          margin-bottom: var(--space-4);
+          background: var(--bg-tertiary);
+          border-radius: var(--radius-lg);
+        }
+
+        .profile-form-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(260px, 1fr));
+          gap: var(--space-4);
+        }
+
+        .profile-form-auth {
+          margin-top: var(--space-4);
+        }
+
+        .user-rights {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          margin-top: var(--space-3);
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .auth-error {
+          margin-bottom: var(--space-4);
+        }
+
+        .profile-form-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: var(--space-2);
+          margin-top: var(--space-4);
+        }
+
+        .profile-list {
+          display: flex;
+          flex-direction: column;
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+          overflow: hidden;
+        }
+
+        .profile-row {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: var(--space-4);
+          padding: var(--space-3) var(--space-4);
+        }
+
+        .profile-row + .profile-row {
+          border-top: 1px solid var(--border-primary);
+        }
+
+        .profile-row.active {
+          background: var(--bg-tertiary);
+        }
+
+        .profile-info {
+          min-width: 0;
+        }
+
+        .profile-name {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          font-weight: var(--font-semibold);
+          color: var(--text-primary);
+        }
+
+        .profile-detail {
+          font-size: var(--text-xs);
+          font-family: var(--font-mono);
+          color: var(--text-tertiary);
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .profile-actions {
+          display: flex;
+          align-items: center;
+          gap: var(--space-1);
+          flex-shrink: 0;
+        }
+
+        .profiles-empty {
+          padding: var(--space-6);
+          text-align: center;
+          font-size: var(--text-sm);
+          color: var(--text-tertiary);
+        }
+
+        .profile-footer {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: var(--space-4);
+          margin-top: var(--space-4);
+        }
+
+        .profile-secrets {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          margin-left: auto;
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .notice-banner {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          padding: var(--space-3) var(--space-4);
+          background: rgba(34, 197, 94, 0.1);
+          border: 1px solid var(--color-success-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-success-600);
+        }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          from { transform: rotate(0deg); }
+          to { transform: rotate(360deg); }
+        }
+
+        .settings-hint {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+          margin-bottom: var(--space-4);
+        }
+
+        .cache-stats {
+          display: flex;
+          gap: var(--space-8);
+          margin-bottom: var(--space-4);
+        }
+
+        .cache-stat {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+        }
+
+        .cache-stat-value {
+          font-size: var(--text-xl);
+          font-weight: var(--font-semibold);
+          color: var(--text-primary);
+        }
+
+        .cache-stat-label {
+          font-size: var(--text-xs);
+          color: var(--text-tertiary);
+        }
+
+        .error-banner {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          padding: var(--space-3) var(--space-4);
+          background: rgba(239, 68, 68, 0.1);
+          border: 1px solid var(--color-error-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-error-600);
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default Settings;
@@ -2,29 +2,68 @@
  * Templates Page
  * 
  * Template catalog showing:
- * - Uploaded DAR packages
- * - Templates inside each package
- * - Usage statistics
+ * - Uploaded packages with name, version and modules (decoded from Daml-LF)
+ * - Templates with choices, key type, implemented interfaces and fields
+ * - Interfaces with choices and view type
+ * - Usage statistics, falling back to templates inferred from contracts
+ * - Deep links: /templates#<templateId> expands and scrolls to a template
  */
 
-import { useMemo } from 'react';
-import { Package, FileText, Hash, Users } from 'lucide-react';
-import { useContracts, usePartyLens } from '../services/store';
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import {
+    Package, FileText, Hash, Users, Plus, Layers, Key, RefreshCw, AlertCircle, ChevronDown, ChevronRight,
+} from 'lucide-react';
+import { useContracts, usePartyLens, useTemplateCatalog } from '../services/store';
+import { describeType } from '../services/damlValue';
+import { describeRoleFilter } from '../services/partyLens';
+import CommandDialog from '../components/CommandDialog';
+import type { DamlInterface, DamlPackage, Template } from '../types/canton';
+
+interface TemplateEntry {
+    templateId: string;
+    packageId: string;
+    moduleName: string;
+    templateName: string;
+    count: number;
+    uniqueStakeholders: Set<string>;
+    /** Decoded metadata; absent for templates only inferred from contracts */
+    template?: Template;
+}
+
+interface PackageGroup {
+    packageId: string;
+    pkg?: DamlPackage;
+    templates: TemplateEntry[];
+    interfaces: DamlInterface[];
+}
+
+const shortName = (id: string) => id.split(':').pop() || id;
 
 export function Templates() {
-    const { contracts, isLoading } = useContracts();
+    const { contracts, visibleRoles, isLoading } = useContracts();
+    const roleFilter = describeRoleFilter(visibleRoles);
     const { activeParty } = usePartyLens();
+    const { templates, interfaces, packages, isCatalogLoading, catalogError, loadTemplates } = useTemplateCatalog();
+    const [createTemplateId, setCreateTemplateId] = useState<string | null>(null);
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const { hash } = useLocation();
 
-    // Group contracts by template and package
+    // Decoded templates, plus any template only seen through contracts
     const templateStats = useMemo(() => {
-        const stats = new Map<string, {
-            templateId: string;
-            packageId: string;
-            moduleName: string;
-            templateName: string;
-            count: number;
-            uniqueStakeholders: Set<string>;
-        }>();
+        const stats = new Map<string, TemplateEntry>();
+
+        templates.forEach((template) => {
+            stats.set(template.templateId, {
+                templateId: template.templateId,
+                packageId: template.packageId,
+                moduleName: template.moduleName,
+                templateName: template.entityName,
+                count: 0,
+                uniqueStakeholders: new Set(),
+                template,
+            });
+        });
 
         contracts.forEach((contract) => {
             const existing = stats.get(contract.templateId);
@@ -44,22 +83,58 @@ export function Templates() {
             }
         });
 
-        return Array.from(stats.values()).sort((a, b) => b.count - a.count);
-    }, [contracts]);
+        return Array.from(stats.values()).sort(
+            (a, b) => b.count - a.count || a.templateName.localeCompare(b.templateName)
+        );
+    }, [contracts, templates]);
 
     // Group by package
     const packageGroups = useMemo(() => {
-        const groups = new Map<string, typeof templateStats>();
-        templateStats.forEach((template) => {
-            const existing = groups.get(template.packageId);
-            if (existing) {
-                existing.push(template);
+        const groups = new Map<string, PackageGroup>();
+        const group = (packageId: string) => {
+            let existing = groups.get(packageId);
+            if (!existing) {
+                existing = { packageId, templates: [], interfaces: [] };
+                groups.set(packageId, existing);
+            }
+            return existing;
+        };
+
+        packages.forEach((pkg) => {
+            group(pkg.packageId).pkg = pkg;
+        });
+        templateStats.forEach((template) => group(template.packageId).templates.push(template));
+        interfaces.forEach((iface) => group(iface.packageId).interfaces.push(iface));
+
+        // Packages without templates or interfaces (e.g. the standard library) are left out
+        return Array.from(groups.values())
+            .filter((g) => g.templates.length > 0 || g.interfaces.length > 0 || g.pkg?.decodeError)
+            .sort((a, b) =>
+                (b.templates.length + b.interfaces.length) - (a.templates.length + a.interfaces.length) ||
+                (a.pkg?.name || a.packageId).localeCompare(b.pkg?.name || b.packageId)
+            );
+    }, [packages, templateStats, interfaces]);
+
+    // Open the template a deep link points at, once it is in the catalog
+    const linkedTemplateId = hash ? decodeURIComponent(hash.slice(1)) : null;
+    const linkedTemplateFound = linkedTemplateId !== null && templateStats.some((t) => t.templateId === linkedTemplateId);
+    useEffect(() => {
+        if (!linkedTemplateId || !linkedTemplateFound) return;
+        setExpanded((prev) => new Set(prev).add(linkedTemplateId));
+        document.getElementById(linkedTemplateId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [linkedTemplateId, linkedTemplateFound]);
+
+    const toggleExpanded = (templateId: string) => {
+        setExpanded((prev) => {
+            const next = new Set(prev);
+            if (next.has(templateId)) {
+                next.delete(templateId);
             } else {
-                groups.set(template.packageId, [template]);
+                next.add(templateId);
             }
+            return next;
         });
-        return Array.from(groups.entries());
-    }, [templateStats]);
+    };
 
     if (!activeParty) {
         return (
@@ -72,6 +147,8 @@ export function Templates() {
         );
     }
 
+    const failedPackages = packages.filter((p) => p.decodeError).length;
+
     return (
         <div className="templates-page">
             {/* Header */}
@@ -79,9 +156,17 @@ export function Templates() {
                 <div>
                     <h1 className="page-title">Template Catalog</h1>
                     <p className="page-subtitle">
-                        {templateStats.length} templates in use across {packageGroups.length} packages
+                        {templateStats.length} templates and {interfaces.size} interfaces across{' '}
+                        {packageGroups.length} packages
+                        {roleFilter && ` · usage counts ${roleFilter}`}
                     </p>
                 </div>
+                <div className="header-actions">
+                    <button className="btn btn-secondary" onClick={() => loadTemplates()} disabled={isCatalogLoading}>
+                        <RefreshCw size={16} className={isCatalogLoading ? 'spin' : ''} />
+                        Reload packages
+                    </button>
+                </div>
             </div>
 
             {/* Stats Overview */}
@@ -100,6 +185,13 @@ export function Templates() {
                         <span className="stat-label">Templates</span>
                     </div>
                 </div>
+                <div className="stat-item">
+                    <Layers size={20} className="stat-icon" />
+                    <div className="stat-content">
+                        <span className="stat-value">{interfaces.size}</span>
+                        <span className="stat-label">Interfaces</span>
+                    </div>
+                </div>
                 <div className="stat-item">
                     <Hash size={20} className="stat-icon" />
                     <div className="stat-content">
@@ -109,8 +201,19 @@ export function Templates() {
                 </div>
             </div>
 
+            {(catalogError || failedPackages > 0) && (
+                <div className="error-banner">
+                    <AlertCircle size={18} />
+                    <span>
+                        {catalogError
+                            ? `Could not load packages: ${catalogError}. Showing templates inferred from contracts.`
+                            : `${failedPackages} package${failedPackages !== 1 ? 's' : ''} could not be decoded; their templates are inferred from contracts.`}
+                    </span>
+                </div>
+            )}
+
             {/* Package Groups */}
-            {isLoading && templateStats.length === 0 ? (
+            {(isLoading || isCatalogLoading) && templateStats.length === 0 ? (
                 <div className="loading-state">
                     <div className="skeleton" style={{ width: '100%', height: '120px' }} />
                     <div className="skeleton" style={{ width: '100%', height: '120px' }} />
@@ -120,44 +223,171 @@ export function Templates() {
                     <Package className="empty-state-icon" />
                     <h3 className="empty-state-title">No Templates Found</h3>
                     <p className="empty-state-description">
-                        No contracts found for this party, so no templates are in use.
+                        No packages with templates are uploaded and no contracts are visible to this party.
                     </p>
                 </div>
             ) : (
                 <div className="packages-list">
-                    {packageGroups.map(([packageId, templates]) => (
+                    {packageGroups.map(({ packageId, pkg, templates: packageTemplates, interfaces: packageInterfaces }) => (
                         <div key={packageId} className="package-card">
                             <div className="package-header">
                                 <Package size={20} className="package-icon" />
                                 <div className="package-info">
-                                    <h3 className="package-name">Package</h3>
+                                    <h3 className="package-name">
+                                        {pkg?.name ? `${pkg.name}${pkg.version ? ` v${pkg.version}` : ''}` : 'Package'}
+                                    </h3>
                                     <code className="package-id">{packageId}</code>
                                 </div>
+                                {pkg?.lfVersion && <span className="badge badge-neutral">LF {pkg.lfVersion}</span>}
+                                {pkg?.decodeError && (
+                                    <span className="badge badge-warning" title={pkg.decodeError}>Not decoded</span>
+                                )}
                                 <span className="badge badge-neutral">
-                                    {templates.length} template{templates.length !== 1 ? 's' : ''}
+                                    {packageTemplates.length} template{packageTemplates.length !== 1 ? 's' : ''}
                                 </span>
+                                {packageInterfaces.length > 0 && (
+                                    <span className="badge badge-info">
+                                        {packageInterfaces.length} interface{packageInterfaces.length !== 1 ? 's' : ''}
+                                    </span>
+                                )}
                             </div>
 
+                            {pkg && pkg.modules.length > 0 && (
+                                <div className="package-modules">
+                                    <span className="text-tertiary">Modules:</span>
+                                    {pkg.modules.map((moduleName) => (
+                                        <code key={moduleName} className="module-chip">{moduleName}</code>
+                                    ))}
+                                </div>
+                            )}
+
                             <div className="templates-grid">
-                                {templates.map((template) => (
-                                    <div key={template.templateId} className="template-card">
-                                        <div className="template-header">
-                                            <FileText size={18} className="template-icon" />
-                                            <div className="template-info">
-                                                <span className="template-name">{template.templateName}</span>
-                                                <span className="template-module">{template.moduleName}</span>
+                                {packageTemplates.map((entry) => {
+                                    const { template } = entry;
+                                    const isExpanded = expanded.has(entry.templateId);
+                                    const fields = template?.argType?.tag === 'record' ? template.argType.fields : [];
+                                    return (
+                                        <div
+                                            key={entry.templateId}
+                                            id={entry.templateId}
+                                            className={`template-card ${entry.templateId === linkedTemplateId ? 'linked' : ''}`}
+                                        >
+                                            <div className="template-header">
+                                                <FileText size={18} className="template-icon" />
+                                                <div className="template-info">
+                                                    <span className="template-name">{entry.templateName}</span>
+                                                    <span className="template-module">{entry.moduleName}</span>
+                                                </div>
+                                                {!template && (
+                                                    <span className="badge badge-neutral template-badge">Inferred</span>
+                                                )}
                                             </div>
-                                        </div>
 
-                                        <div className="template-stats">
-                                            <div className="template-stat">
-                                                <Hash size={14} />
-                                                <span>{template.count} contracts</span>
+                                            {template && (
+                                                <div className="template-meta">
+                                                    {template.keyType && (
+                                                        <div className="template-meta-row">
+                                                            <Key size={12} />
+                                                            <span>Key: <code>{describeType(template.keyType)}</code></span>
+                                                        </div>
+                                                    )}
+                                                    {template.implements && template.implements.length > 0 && (
+                                                        <div className="template-meta-row">
+                                                            <Layers size={12} />
+                                                            <span>Implements {template.implements.map(shortName).join(', ')}</span>
+                                                        </div>
+                                                    )}
+                                                    {template.choices.length > 0 && (
+                                                        <div className="choice-chips">
+                                                            {template.choices.map((choice) => (
+                                                                <span
+                                                                    key={choice.name}
+                                                                    className={`choice-chip ${choice.consuming ? 'consuming' : ''}`}
+                                                                    title={choice.consuming ? 'Consuming' : 'Non-consuming'}
+                                                                >
+                                                                    {choice.name}
+                                                                </span>
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                    {fields.length > 0 && (
+                                                        <>
+                                                            <button
+                                                                className="fields-toggle"
+                                                                onClick={() => toggleExpanded(entry.templateId)}
+                                                            >
+                                                                {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                                                                {fields.length} field{fields.length !== 1 ? 's' : ''}
+                                                            </button>
+                                                            {isExpanded && (
+                                                                <dl className="field-list">
+                                                                    {fields.map((field) => (
+                                                                        <div key={field.name} className="field-row">
+                                                                            <dt>{field.name}</dt>
+                                                                            <dd className="mono">{describeType(field.type)}</dd>
+                                                                        </div>
+                                                                    ))}
+                                                                </dl>
+                                                            )}
+                                                        </>
+                                                    )}
+                                                </div>
+                                            )}
+
+                                            <div className="template-stats">
+                                                <div className="template-stat">
+                                                    <Hash size={14} />
+                                                    <span>{entry.count} contracts</span>
+                                                </div>
+                                                <div className="template-stat">
+                                                    <Users size={14} />
+                                                    <span>{entry.uniqueStakeholders.size} parties</span>
+                                                </div>
+                                                <button
+                                                    className="btn btn-ghost btn-sm template-action"
+                                                    onClick={() => setCreateTemplateId(entry.templateId)}
+                                                >
+                                                    <Plus size={14} />
+                                                    New contract
+                                                </button>
                                             </div>
-                                            <div className="template-stat">
-                                                <Users size={14} />
-                                                <span>{template.uniqueStakeholders.size} parties</span>
+                                        </div>
+                                    );
+                                })}
+
+                                {packageInterfaces.map((iface) => (
+                                    <div key={iface.interfaceId} className="template-card interface-card">
+                                        <div className="template-header">
+                                            <Layers size={18} className="template-icon" />
+                                            <div className="template-info">
+                                                <span className="template-name">{iface.entityName}</span>
+                                                <span className="template-module">{iface.moduleName}</span>
                                             </div>
+                                            <span className="badge badge-info template-badge">Interface</span>
+                                        </div>
+                                        <div className="template-meta">
+                                            {iface.viewType && (
+                                                <div className="template-meta-row">
+                                                    <span>View: <code>{describeType(iface.viewType)}</code></span>
+                                                </div>
+                                            )}
+                                            {iface.requires.length > 0 && (
+                                                <div className="template-meta-row">
+                                                    <span>Requires {iface.requires.map(shortName).join(', ')}</span>
+                                                </div>
+                                            )}
+                                            {iface.choices.length > 0 && (
+                                                <div className="choice-chips">
+                                                    {iface.choices.map((choice) => (
+                                                        <span
+                                                            key={choice.name}
+                                                            className={`choice-chip ${choice.consuming ? 'consuming' : ''}`}
+                                                        >
+                                                            {choice.name}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                 ))}
@@ -167,6 +397,14 @@ export function Templates() {
                 </div>
             )}
 
+            {createTemplateId && (
+                <CommandDialog
+                    mode="create"
+                    templateId={createTemplateId}
+                    onClose={() => setCreateTemplateId(null)}
+                />
+            )}
+
             <style>{`
         .templates-page {
           display: flex;
@@ -192,6 +430,23 @@ export function Templates() {
           color: var(--text-secondary);
         }
 
+        .header-actions {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .error-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: rgba(245, 158, 11, 0.08);
+          border: 1px solid var(--color-warning-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-warning-600);
+          font-size: var(--text-sm);
+        }
+
         .stats-row {
           display: flex;
           gap: var(--space-4);
@@ -292,6 +547,10 @@ export function Templates() {
           padding: var(--space-4);
         }
 
+        .template-card.linked {
+          border-color: var(--accent-primary);
+        }
+
         .template-card {
           padding: var(--space-4);
           background: var(--bg-tertiary);
@@ -330,9 +589,106 @@ export function Templates() {
 
         .template-stats {
           display: flex;
+          align-items: center;
           gap: var(--space-4);
         }
 
+        .template-action {
+          margin-left: auto;
+        }
+
+        .template-badge {
+          margin-left: auto;
+        }
+
+        .package-modules {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4) 0;
+          font-size: var(--text-xs);
+        }
+
+        .module-chip {
+          font-family: var(--font-mono);
+          font-size: var(--text-xs);
+          color: var(--text-secondary);
+        }
+
+        .template-meta {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+          margin-bottom: var(--space-3);
+          font-size: var(--text-xs);
+          color: var(--text-secondary);
+        }
+
+        .template-meta-row {
+          display: flex;
+          align-items: center;
+          gap: var(--space-1);
+        }
+
+        .template-meta code {
+          font-family: var(--font-mono);
+        }
+
+        .choice-chips {
+          display: flex;
+          flex-wrap: wrap;
+          gap: var(--space-1);
+        }
+
+        .choice-chip {
+          padding: 1px var(--space-2);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-full);
+          font-size: var(--text-xs);
+          color: var(--text-secondary);
+        }
+
+        .choice-chip.consuming {
+          border-color: var(--color-warning-500);
+        }
+
+        .fields-toggle {
+          display: flex;
+          align-items: center;
+          gap: var(--space-1);
+          background: none;
+          border: none;
+          padding: 0;
+          font-size: var(--text-xs);
+          color: var(--text-secondary);
+          cursor: pointer;
+        }
+
+        .field-list {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          margin: 0;
+        }
+
+        .field-row {
+          display: flex;
+          justify-content: space-between;
+          gap: var(--space-3);
+        }
+
+        .field-row dt {
+          color: var(--text-primary);
+        }
+
+        .field-row dd {
+          margin: 0;
+          color: var(--text-tertiary);
+          text-align: right;
+          word-break: break-word;
+        }
+
         .template-stat {
           display: flex;
           align-items: center;
@@ -340,6 +696,14 @@ export function Templates() {
           font-size: var(--text-xs);
           color: var(--text-secondary);
         }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          to { transform: rotate(360deg); }
+        }
       `}</style>
         </div>
     );
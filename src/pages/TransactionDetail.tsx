@@ -0,0 +1,714 @@
+/**
+ * Transaction Detail Page
+ *
+ * Single-update debugger with:
+ * - Update metadata (offset, command, workflow), linking to the workflow view
+ * - Net effect (contracts created / archived)
+ * - Collapsible event tree: exercise → child create / exercise / archive
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+    ArrowLeft,
+    Archive,
+    ChevronDown,
+    ChevronRight,
+    Copy,
+    ExternalLink,
+    FileText,
+    Play,
+    RefreshCw,
+} from 'lucide-react';
+import { useLedgerClient, usePartyLens } from '../services/store';
+import { commandPrefix } from '../services/workflows';
+import type { Event, Transaction, TransactionTree } from '../types/canton';
+
+/**
+ * Root event IDs of a tree. Falls back to the events that are nobody's child
+ * when the participant does not report `rootEventIds`.
+ */
+function getRootEventIds(tree: TransactionTree): string[] {
+    if (tree.rootEventIds && tree.rootEventIds.length > 0) {
+        return tree.rootEventIds;
+    }
+    const childIds = new Set<string>();
+    Object.values(tree.eventsById).forEach((event) => {
+        if (event.type === 'exercised') {
+            event.childEventIds.forEach((id) => childIds.add(id));
+        }
+    });
+    return Object.keys(tree.eventsById).filter((id) => !childIds.has(id));
+}
+
+interface EventNodeProps {
+    eventId: string;
+    tree: TransactionTree;
+    depth: number;
+    collapsed: Set<string>;
+    detailsOpen: Set<string>;
+    onToggleChildren: (eventId: string) => void;
+    onToggleDetails: (eventId: string) => void;
+}
+
+function EventNode({
+    eventId,
+    tree,
+    depth,
+    collapsed,
+    detailsOpen,
+    onToggleChildren,
+    onToggleDetails,
+}: EventNodeProps) {
+    const event: Event | undefined = tree.eventsById[eventId];
+    if (!event) {
+        return (
+            <div className="tree-node missing" style={{ marginLeft: depth * 24 }}>
+                <span className="text-xs text-tertiary">Event {eventId} is not visible to this party</span>
+            </div>
+        );
+    }
+
+    const icons = {
+        created: <FileText size={16} className="event-icon create" />,
+        exercised: <Play size={16} className="event-icon exercise" />,
+        archived: <Archive size={16} className="event-icon archive" />,
+    };
+
+    const children = event.type === 'exercised' ? event.childEventIds : [];
+    const isCollapsed = collapsed.has(eventId);
+    const showDetails = detailsOpen.has(eventId);
+
+    return (
+        <div className="tree-branch">
+            <div className={`tree-node ${event.type}`} style={{ marginLeft: depth * 24 }}>
+                <div className="tree-node-header">
+                    <button
+                        className="tree-toggle"
+                        onClick={() => onToggleChildren(eventId)}
+                        disabled={children.length === 0}
+                        aria-label={isCollapsed ? 'Expand children' : 'Collapse children'}
+                    >
+                        {children.length === 0 ? null : isCollapsed ? (
+                            <ChevronRight size={16} />
+                        ) : (
+                            <ChevronDown size={16} />
+                        )}
+                    </button>
+                    <button className="tree-node-summary" onClick={() => onToggleDetails(eventId)}>
+                        {icons[event.type]}
+                        <span className="event-type">
+                            {event.type === 'exercised' ? event.choice : event.type === 'created' ? 'Create' : 'Archive'}
+                        </span>
+                        <span className="event-template">{event.templateId.split(':').pop()}</span>
+                        {event.type === 'exercised' && (
+                            <span className={`badge ${event.consuming ? 'badge-warning' : 'badge-neutral'}`}>
+                                {event.consuming ? 'consuming' : 'non-consuming'}
+                            </span>
+                        )}
+                    </button>
+                    <Link
+                        to={`/contracts/${encodeURIComponent(event.contractId)}`}
+                        className="tree-contract-link"
+                        title={event.contractId}
+                    >
+                        <code>{event.contractId.substring(0, 16)}...</code>
+                        <ExternalLink size={12} />
+                    </Link>
+                </div>
+
+                {showDetails && (
+                    <div className="tree-node-details">
+                        {event.type === 'exercised' && (
+                            <>
+                                <div className="event-field">
+                                    <span className="field-label">Acting Parties</span>
+                                    <span className="field-value">
+                                        {event.actingParties.map((p) => p.split('::')[0]).join(', ')}
+                                    </span>
+                                </div>
+                                <div className="event-field">
+                                    <span className="field-label">Choice Argument</span>
+                                    <pre className="field-value json">
+                                        {JSON.stringify(event.choiceArgument, null, 2)}
+                                    </pre>
+                                </div>
+                                <div className="event-field">
+                                    <span className="field-label">Exercise Result</span>
+                                    <pre className="field-value json">
+                                        {event.exerciseResult === undefined
+                                            ? '—'
+                                            : JSON.stringify(event.exerciseResult, null, 2)}
+                                    </pre>
+                                </div>
+                            </>
+                        )}
+                        {event.type === 'created' && (
+                            <>
+                                <div className="event-field">
+                                    <span className="field-label">Signatories</span>
+                                    <span className="field-value">
+                                        {event.signatories.map((s) => s.split('::')[0]).join(', ')}
+                                    </span>
+                                </div>
+                                <div className="event-field">
+                                    <span className="field-label">Observers</span>
+                                    <span className="field-value">
+                                        {event.observers.length > 0
+                                            ? event.observers.map((o) => o.split('::')[0]).join(', ')
+                                            : '—'}
+                                    </span>
+                                </div>
+                                <div className="event-field">
+                                    <span className="field-label">Create Arguments</span>
+                                    <pre className="field-value json">
+                                        {JSON.stringify(event.createArguments, null, 2)}
+                                    </pre>
+                                </div>
+                            </>
+                        )}
+                        <div className="event-field">
+                            <span className="field-label">Template ID</span>
+                            <code className="field-value mono text-xs">{event.templateId}</code>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {!isCollapsed &&
+                children.map((childId) => (
+                    <EventNode
+                        key={childId}
+                        eventId={childId}
+                        tree={tree}
+                        depth={depth + 1}
+                        collapsed={collapsed}
+                        detailsOpen={detailsOpen}
+                        onToggleChildren={onToggleChildren}
+                        onToggleDetails={onToggleDetails}
+                    />
+                ))}
+        </div>
+    );
+}
+
+export function TransactionDetail() {
+    const { updateId = '' } = useParams();
+    const client = useLedgerClient();
+    const { activeParty, lensPartyIds } = usePartyLens();
+
+    const [tree, setTree] = useState<TransactionTree | null>(null);
+    const [transaction, setTransaction] = useState<Transaction | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [detailsOpen, setDetailsOpen] = useState<Set<string>>(new Set());
+    const [shownUpdateId, setShownUpdateId] = useState(updateId);
+    /** Bumped per load so responses for a previous update are dropped */
+    const transactionRequest = useRef(0);
+
+    // Links (e.g. from the workflow view) open another update on the same
+    // page; drop the previous update's tree instead of showing it meanwhile
+    if (shownUpdateId !== updateId) {
+        setShownUpdateId(updateId);
+        setTree(null);
+        setTransaction(null);
+        setError(null);
+        setCollapsed(new Set());
+        setDetailsOpen(new Set());
+    }
+
+    const loadTransaction = useCallback(async () => {
+        if (!client || lensPartyIds.length === 0) return;
+
+        const request = ++transactionRequest.current;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const [treeResult, flatResult] = await Promise.all([
+                client.getTransactionTree(updateId, lensPartyIds),
+                client.getTransaction(updateId, lensPartyIds),
+            ]);
+            if (request !== transactionRequest.current) return;
+            setTree(treeResult);
+            setTransaction(flatResult);
+        } catch (err) {
+            if (request === transactionRequest.current) {
+                setError(err instanceof Error ? err.message : 'Failed to load transaction');
+            }
+        } finally {
+            if (request === transactionRequest.current) setIsLoading(false);
+        }
+    }, [client, lensPartyIds, updateId]);
+
+    useEffect(() => {
+        loadTransaction();
+    }, [loadTransaction]);
+
+    const rootEventIds = useMemo(() => (tree ? getRootEventIds(tree) : []), [tree]);
+
+    // Net effect on the ACS, from the flat transaction
+    const netEffect = useMemo(() => {
+        const events = transaction?.events ?? [];
+        return {
+            created: events.filter((e) => e.type === 'created'),
+            archived: events.filter((e) => e.type === 'archived'),
+        };
+    }, [transaction]);
+
+    const toggleIn = (setter: typeof setCollapsed) => (eventId: string) => {
+        setter((prev) => {
+            const next = new Set(prev);
+            if (next.has(eventId)) {
+                next.delete(eventId);
+            } else {
+                next.add(eventId);
+            }
+            return next;
+        });
+    };
+
+    const expandAll = () => {
+        setCollapsed(new Set());
+        setDetailsOpen(new Set(tree ? Object.keys(tree.eventsById) : []));
+    };
+
+    const collapseAll = () => {
+        setCollapsed(new Set(rootEventIds));
+        setDetailsOpen(new Set());
+    };
+
+    if (!activeParty) {
+        return (
+            <div className="empty-state">
+                <h2 className="empty-state-title">No Party Selected</h2>
+                <p className="empty-state-description">
+                    Select a party to view transaction details.
+                </p>
+            </div>
+        );
+    }
+
+    const header = tree ?? transaction;
+    const prefix = header?.commandId ? commandPrefix(header.commandId) : undefined;
+
+    return (
+        <div className="transaction-detail">
+            {/* Header */}
+            <div className="page-header-content">
+                <div className="detail-title-block">
+                    <Link to="/transactions" className="back-link">
+                        <ArrowLeft size={14} />
+                        Transactions
+                    </Link>
+                    <h1 className="page-title">Transaction</h1>
+                    <div className="detail-id">
+                        <code className="mono">{updateId}</code>
+                        <button
+                            className="copy-btn"
+                            onClick={() => navigator.clipboard.writeText(updateId)}
+                            title="Copy update ID"
+                        >
+                            <Copy size={14} />
+                        </button>
+                    </div>
+                </div>
+                <div className="header-actions">
+                    <button
+                        className="btn btn-secondary"
+                        onClick={loadTransaction}
+                        disabled={isLoading}
+                    >
+                        <RefreshCw size={16} className={isLoading ? 'spin' : ''} />
+                        Refresh
+                    </button>
+                </div>
+            </div>
+
+            {/* Error State */}
+            {error && (
+                <div className="error-banner">
+                    <span>{error}</span>
+                    <button onClick={loadTransaction}>Retry</button>
+                </div>
+            )}
+
+            {!isLoading && !error && !header ? (
+                <div className="empty-state">
+                    <h3 className="empty-state-title">Transaction Not Found</h3>
+                    <p className="empty-state-description">
+                        This update is unknown or not visible to the active party.
+                    </p>
+                </div>
+            ) : (
+                <>
+                    {/* Metadata */}
+                    <div className="card">
+                        <div className="card-body">
+                            <div className="info-grid">
+                                <div className="info-item">
+                                    <span className="field-label">Offset</span>
+                                    <span className="mono">{header?.offset.toLocaleString() ?? '—'}</span>
+                                </div>
+                                <div className="info-item">
+                                    <span className="field-label">Effective At</span>
+                                    <span>{header ? new Date(header.effectiveAt).toLocaleString() : '—'}</span>
+                                </div>
+                                <div className="info-item">
+                                    <span className="field-label">Command ID</span>
+                                    {prefix ? (
+                                        <Link
+                                            to={`/workflows?${new URLSearchParams({ prefix })}`}
+                                            className="mono text-xs"
+                                            title="Follow the commands sharing this prefix"
+                                        >
+                                            {header?.commandId}
+                                        </Link>
+                                    ) : (
+                                        <code className="mono text-xs">{header?.commandId || '—'}</code>
+                                    )}
+                                </div>
+                                <div className="info-item">
+                                    <span className="field-label">Workflow ID</span>
+                                    {header?.workflowId ? (
+                                        <Link
+                                            to={`/workflows?${new URLSearchParams({ workflow: header.workflowId })}`}
+                                            className="mono text-xs"
+                                            title="Follow this workflow"
+                                        >
+                                            {header.workflowId}
+                                        </Link>
+                                    ) : (
+                                        <code className="mono text-xs">—</code>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Net Effect */}
+                    {transaction && (
+                        <div className="card">
+                            <div className="card-header">
+                                <h3 className="card-title">Net Effect</h3>
+                                <div className="event-summary">
+                                    <span className="badge badge-success">+{netEffect.created.length}</span>
+                                    <span className="badge badge-error">×{netEffect.archived.length}</span>
+                                </div>
+                            </div>
+                            <div className="card-body net-effect">
+                                {[...netEffect.created, ...netEffect.archived].map((event) => (
+                                    <Link
+                                        key={event.eventId}
+                                        to={`/contracts/${encodeURIComponent(event.contractId)}`}
+                                        className={`net-effect-item ${event.type}`}
+                                    >
+                                        {event.type === 'created' ? (
+                                            <FileText size={14} className="event-icon create" />
+                                        ) : (
+                                            <Archive size={14} className="event-icon archive" />
+                                        )}
+                                        <span className="event-template">{event.templateId.split(':').pop()}</span>
+                                        <code className="mono text-xs text-tertiary">
+                                            {event.contractId.substring(0, 16)}...
+                                        </code>
+                                    </Link>
+                                ))}
+                                {netEffect.created.length + netEffect.archived.length === 0 && (
+                                    <span className="text-sm text-tertiary">No contracts created or archived</span>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Event Tree */}
+                    <div className="card">
+                        <div className="card-header">
+                            <h3 className="card-title">Event Tree</h3>
+                            <div className="card-actions">
+                                <button className="btn btn-ghost btn-sm" onClick={expandAll} disabled={!tree}>
+                                    Expand all
+                                </button>
+                                <button className="btn btn-ghost btn-sm" onClick={collapseAll} disabled={!tree}>
+                                    Collapse all
+                                </button>
+                            </div>
+                        </div>
+                        <div className="card-body">
+                            {isLoading && !tree ? (
+                                <div className="skeleton" style={{ width: '100%', height: '160px' }} />
+                            ) : !tree ? (
+                                <span className="text-sm text-tertiary">
+                                    The transaction tree is not available for this update.
+                                </span>
+                            ) : (
+                                <div className="event-tree">
+                                    {rootEventIds.map((eventId) => (
+                                        <EventNode
+                                            key={eventId}
+                                            eventId={eventId}
+                                            tree={tree}
+                                            depth={0}
+                                            collapsed={collapsed}
+                                            detailsOpen={detailsOpen}
+                                            onToggleChildren={toggleIn(setCollapsed)}
+                                            onToggleDetails={toggleIn(setDetailsOpen)}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </>
+            )}
+
+            <style>{`
+        .transaction-detail {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+        }
+
+        .page-header-content {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+        }
+
+        .page-title {
+          font-size: var(--text-3xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+          margin-bottom: var(--space-1);
+        }
+
+        .header-actions {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .detail-title-block {
+          min-width: 0;
+        }
+
+        .back-link {
+          display: inline-flex;
+          align-items: center;
+          gap: var(--space-1);
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+          margin-bottom: var(--space-2);
+        }
+
+        .back-link:hover {
+          color: var(--accent-primary);
+        }
+
+        .detail-id {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          font-size: var(--text-xs);
+          color: var(--text-secondary);
+          word-break: break-all;
+        }
+
+        .copy-btn {
+          background: none;
+          border: none;
+          color: var(--text-tertiary);
+          cursor: pointer;
+          padding: var(--space-1);
+        }
+
+        .copy-btn:hover {
+          color: var(--accent-primary);
+        }
+
+        .card-actions {
+          display: flex;
+          gap: var(--space-1);
+        }
+
+        .info-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+          gap: var(--space-4);
+        }
+
+        .info-item {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          min-width: 0;
+          word-break: break-all;
+        }
+
+        .event-summary {
+          display: flex;
+          gap: var(--space-1);
+        }
+
+        .net-effect {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+        }
+
+        .net-effect-item {
+          display: flex;
+          align-items: center;
+          gap: var(--space-3);
+          padding: var(--space-2) var(--space-3);
+          background: var(--bg-tertiary);
+          border-radius: var(--radius-md);
+          color: var(--text-primary);
+        }
+
+        .net-effect-item:hover {
+          background: var(--border-primary);
+        }
+
+        .event-tree {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+        }
+
+        .tree-branch {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+        }
+
+        .tree-node {
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-left-width: 3px;
+          border-radius: var(--radius-lg);
+          overflow: hidden;
+        }
+
+        .tree-node.created { border-left-color: var(--color-success-500); }
+        .tree-node.exercised { border-left-color: var(--color-info-500); }
+        .tree-node.archived { border-left-color: var(--color-error-500); }
+
+        .tree-node.missing {
+          padding: var(--space-2) var(--space-3);
+          border-style: dashed;
+        }
+
+        .tree-node-header {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-2) var(--space-3);
+        }
+
+        .tree-toggle {
+          width: 20px;
+          background: none;
+          border: none;
+          color: var(--text-tertiary);
+          cursor: pointer;
+          padding: 0;
+          display: flex;
+        }
+
+        .tree-toggle:disabled {
+          cursor: default;
+        }
+
+        .tree-node-summary {
+          flex: 1;
+          display: flex;
+          align-items: center;
+          gap: var(--space-3);
+          background: none;
+          border: none;
+          cursor: pointer;
+          text-align: left;
+          padding: var(--space-1) 0;
+          min-width: 0;
+        }
+
+        .tree-contract-link {
+          display: inline-flex;
+          align-items: center;
+          gap: var(--space-1);
+          font-family: var(--font-mono);
+          font-size: var(--text-xs);
+          color: var(--text-tertiary);
+        }
+
+        .tree-contract-link:hover {
+          color: var(--accent-primary);
+        }
+
+        .tree-node-details {
+          padding: var(--space-4);
+          border-top: 1px solid var(--border-primary);
+          background: var(--bg-tertiary);
+        }
+
+        .event-icon.create { color: var(--color-success-500); }
+        .event-icon.exercise { color: var(--color-info-500); }
+        .event-icon.archive { color: var(--color-error-500); }
+
+        .event-type {
+          font-weight: var(--font-medium);
+          color: var(--text-primary);
+        }
+
+        .event-template {
+          color: var(--text-secondary);
+        }
+
+        .event-field {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          margin-bottom: var(--space-3);
+        }
+
+        .event-field:last-child {
+          margin-bottom: 0;
+        }
+
+        .field-label {
+          font-size: var(--text-xs);
+          font-weight: var(--font-medium);
+          color: var(--text-tertiary);
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+        }
+
+        .field-value {
+          font-size: var(--text-sm);
+          color: var(--text-primary);
+        }
+
+        .field-value.json {
+          font-family: var(--font-mono);
+          font-size: var(--text-xs);
+          background: var(--bg-secondary);
+          padding: var(--space-3);
+          border-radius: var(--radius-md);
+          overflow-x: auto;
+          max-height: 240px;
+        }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          to { transform: rotate(360deg); }
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default TransactionDetail;
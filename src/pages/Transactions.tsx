@@ -5,9 +5,13 @@
  * - Human mode: simplified event labels
  * - Raw mode: full event tree JSON
  * - Filtering by date, type, template
+ * - Offset window, paged lazily from the server newest first into a
+ *   virtualized list
+ * - Live updates from the ledger stream on top
  */
 
-import { useEffect, useState, useMemo } from 'react';
+import { useCallback, useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import {
     RefreshCw,
     ChevronDown,
@@ -18,12 +22,26 @@ import {
     Code,
     Eye,
     Download,
+    ExternalLink,
 } from 'lucide-react';
-import { useTransactions, usePartyLens } from '../services/store';
-import type { Transaction, Event } from '../types/canton';
+import { useTransactions, usePartyLens, useLedgerClient } from '../services/store';
+import { usePagedQuery } from '../hooks/usePagedQuery';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import LiveIndicator from '../components/LiveIndicator';
+import { transactionVisibility } from '../services/partyLens';
+import type { Transaction, Event, LedgerOffset, PageToken, PartyId } from '../types/canton';
 
 type ViewMode = 'human' | 'raw';
 
+const PAGE_SIZE = 50;
+const ROW_HEIGHT = 84;
+
+/** Parse an offset input; empty or invalid means unbounded */
+function parseOffset(value: string): number | undefined {
+    const offset = Number.parseInt(value, 10);
+    return Number.isFinite(offset) && offset >= 0 ? offset : undefined;
+}
+
 interface EventDisplayProps {
     event: Event;
     expanded: boolean;
@@ -121,9 +139,11 @@ function EventDisplay({ event, expanded, onToggle }: EventDisplayProps) {
 interface TransactionRowProps {
     transaction: Transaction;
     viewMode: ViewMode;
+    /** Lens parties; with several, the row shows which of them see it */
+    lensPartyIds: PartyId[];
 }
 
-function TransactionRow({ transaction, viewMode }: TransactionRowProps) {
+function TransactionRow({ transaction, viewMode, lensPartyIds }: TransactionRowProps) {
     const [expanded, setExpanded] = useState(false);
     const [expandedEvents, setExpandedEvents] = useState<Set<string>>(new Set());
 
@@ -147,6 +167,11 @@ function TransactionRow({ transaction, viewMode }: TransactionRowProps) {
         return counts;
     }, [transaction.events]);
 
+    const visibleTo = useMemo(
+        () => (lensPartyIds.length > 1 ? transactionVisibility(transaction, lensPartyIds) : []),
+        [transaction, lensPartyIds]
+    );
+
     return (
         <div className="transaction-row">
             <div className="transaction-header" onClick={() => setExpanded(!expanded)}>
@@ -161,11 +186,27 @@ function TransactionRow({ transaction, viewMode }: TransactionRowProps) {
                     <div className="transaction-meta">
                         <span className="offset">Offset: {transaction.offset}</span>
                         {transaction.workflowId && (
-                            <span className="workflow">Workflow: {transaction.workflowId}</span>
+                            <Link
+                                to={`/workflows?${new URLSearchParams({ workflow: transaction.workflowId })}`}
+                                className="workflow"
+                                onClick={(e) => e.stopPropagation()}
+                            >
+                                Workflow: {transaction.workflowId}
+                            </Link>
                         )}
                     </div>
                 </div>
 
+                {visibleTo.length > 0 && (
+                    <div className="transaction-visibility" title="Lens parties that see this transaction">
+                        {visibleTo.map((party) => (
+                            <span key={party} className="badge badge-neutral" title={party}>
+                                {party.split('::')[0]}
+                            </span>
+                        ))}
+                    </div>
+                )}
+
                 <div className="event-summary">
                     {eventSummary.created > 0 && (
                         <span className="badge badge-success">+{eventSummary.created}</span>
@@ -181,6 +222,16 @@ function TransactionRow({ transaction, viewMode }: TransactionRowProps) {
                 <div className="transaction-time">
                     {new Date(transaction.effectiveAt).toLocaleString()}
                 </div>
+
+                <Link
+                    to={`/transactions/${encodeURIComponent(transaction.updateId)}`}
+                    className="btn btn-ghost btn-sm"
+                    onClick={(e) => e.stopPropagation()}
+                    title="Open event tree"
+                >
+                    <ExternalLink size={14} />
+                    View
+                </Link>
             </div>
 
             {expanded && (
@@ -208,30 +259,85 @@ function TransactionRow({ transaction, viewMode }: TransactionRowProps) {
 }
 
 export function Transactions() {
-    const { transactions, isLoading, error, loadTransactions } = useTransactions();
-    const { activeParty } = usePartyLens();
+    const { transactions: liveTransactions } = useTransactions();
+    const { activeParty, lensPartyIds } = usePartyLens();
+    const client = useLedgerClient();
     const [viewMode, setViewMode] = useState<ViewMode>('human');
     const [typeFilter, setTypeFilter] = useState<string>('all');
 
-    useEffect(() => {
-        if (activeParty) {
-            loadTransactions(100);
-        }
-    }, [activeParty, loadTransactions]);
-
-    // Filter transactions by event type
+    // Offset window: inputs are applied on submit, not on every keystroke
+    const [fromInput, setFromInput] = useState('');
+    const [toInput, setToInput] = useState('');
+    const [offsetWindow, setOffsetWindow] = useState<{ from?: number; to?: number }>({});
+
+    const fetchPage = useMemo(
+        () =>
+            client && lensPartyIds.length > 0
+                ? (pageToken?: PageToken, offset?: LedgerOffset) =>
+                    client.getTransactionsPage(lensPartyIds, {
+                        beginOffset: offsetWindow.from,
+                        endOffset: offsetWindow.to ?? offset,
+                        order: 'desc',
+                        pageSize: PAGE_SIZE,
+                        pageToken,
+                    })
+                : null,
+        [client, lensPartyIds, offsetWindow]
+    );
+    const {
+        items: pagedTransactions,
+        itemsBefore,
+        offset: windowEnd,
+        hasMore,
+        isLoading,
+        error,
+        loadMore,
+        loadPrevious,
+        reload,
+    } = usePagedQuery(fetchPage);
+
+    // Newest first: live updates after the paged window (while its first
+    // page is loaded), then the window
     const filteredTransactions = useMemo(() => {
-        if (typeFilter === 'all') return transactions;
-        return transactions.filter((t) =>
-            t.events.some((e) => e.type === typeFilter)
-        );
-    }, [transactions, typeFilter]);
+        const live = offsetWindow.to === undefined && windowEnd !== null && itemsBefore === 0
+            ? liveTransactions.filter((t) => t.offset > windowEnd).sort((a, b) => b.offset - a.offset)
+            : [];
+        const all = [...live, ...pagedTransactions];
+        return typeFilter === 'all'
+            ? all
+            : all.filter((t) => t.events.some((e) => e.type === typeFilter));
+    }, [liveTransactions, pagedTransactions, itemsBefore, offsetWindow.to, windowEnd, typeFilter]);
+
+    // Virtualize; scrolling to the end loads the next page, and back to pages
+    // released from memory reads them again. Not while the type filter is on:
+    // a rare event type would otherwise load every page.
+    const getRowKey = useCallback((index: number) => filteredTransactions[index].updateId, [filteredTransactions]);
+    const {
+        containerRef,
+        measureRow,
+        start,
+        end,
+        paddingTop,
+        paddingBottom,
+    } = useVirtualRows({
+        count: filteredTransactions.length,
+        getKey: getRowKey,
+        estimateHeight: ROW_HEIGHT,
+        onEndReached: typeFilter === 'all' ? loadMore : undefined,
+        leadingSpace: typeFilter === 'all' ? itemsBefore * ROW_HEIGHT : 0,
+        onStartReached: typeFilter === 'all' ? loadPrevious : undefined,
+    });
+
+    const applyWindow = (e: React.FormEvent) => {
+        e.preventDefault();
+        setOffsetWindow({ from: parseOffset(fromInput), to: parseOffset(toInput) });
+    };
 
     // Export to CSV
     const exportCSV = () => {
         const rows: string[] = [
             '# Canton LedgerView - Transactions Export',
-            `# Party: ${activeParty?.partyId || 'Unknown'}`,
+            `# Party: ${lensPartyIds.join('; ') || 'Unknown'}`,
             `# Generated: ${new Date().toISOString()}`,
             '',
             'Update ID,Offset,Effective At,Event Type,Template,Contract ID,Workflow ID',
@@ -279,10 +385,13 @@ export function Transactions() {
                 <div>
                     <h1 className="page-title">Transactions</h1>
                     <p className="page-subtitle">
-                        {filteredTransactions.length} transactions
+                        {filteredTransactions.length} transactions loaded
+                        {hasMore && ' · more on scroll'}
+                        {windowEnd !== null && ` · window (${offsetWindow.from ?? 0}, ${windowEnd}]`}
                     </p>
                 </div>
                 <div className="header-actions">
+                    <LiveIndicator />
                     <div className="view-toggle">
                         <button
                             className={`toggle-btn ${viewMode === 'human' ? 'active' : ''}`}
@@ -301,7 +410,7 @@ export function Transactions() {
                     </div>
                     <button
                         className="btn btn-secondary"
-                        onClick={() => loadTransactions(100)}
+                        onClick={reload}
                         disabled={isLoading}
                     >
                         <RefreshCw size={16} className={isLoading ? 'spin' : ''} />
@@ -326,19 +435,41 @@ export function Transactions() {
                     <option value="exercised">Exercises Only</option>
                     <option value="archived">Archives Only</option>
                 </select>
+
+                <form className="offset-window" onSubmit={applyWindow}>
+                    <input
+                        type="number"
+                        min={0}
+                        value={fromInput}
+                        onChange={(e) => setFromInput(e.target.value)}
+                        placeholder="After offset"
+                        className="offset-input"
+                    />
+                    <input
+                        type="number"
+                        min={0}
+                        value={toInput}
+                        onChange={(e) => setToInput(e.target.value)}
+                        placeholder="Up to offset (ledger end)"
+                        className="offset-input"
+                    />
+                    <button type="submit" className="btn btn-secondary btn-sm">
+                        Apply
+                    </button>
+                </form>
             </div>
 
             {/* Error State */}
             {error && (
                 <div className="error-banner">
                     <span>{error}</span>
-                    <button onClick={() => loadTransactions(100)}>Retry</button>
+                    <button onClick={reload}>Retry</button>
                 </div>
             )}
 
             {/* Transactions List */}
-            <div className="transactions-list">
-                {isLoading && transactions.length === 0 ? (
+            <div className="transactions-list" ref={containerRef}>
+                {isLoading && filteredTransactions.length === 0 ? (
                     Array.from({ length: 5 }).map((_, i) => (
                         <div key={i} className="transaction-row skeleton-row">
                             <div className="skeleton" style={{ width: '100%', height: '60px' }} />
@@ -352,13 +483,27 @@ export function Transactions() {
                         </p>
                     </div>
                 ) : (
-                    filteredTransactions.map((tx) => (
-                        <TransactionRow
-                            key={tx.updateId}
-                            transaction={tx}
-                            viewMode={viewMode}
-                        />
-                    ))
+                    <>
+                        <div style={{ height: paddingTop }} />
+                        {filteredTransactions.slice(start, end).map((tx) => (
+                            <div
+                                key={tx.updateId}
+                                ref={measureRow}
+                                data-virtual-key={tx.updateId}
+                                className="transaction-slot"
+                            >
+                                <TransactionRow transaction={tx} viewMode={viewMode} lensPartyIds={lensPartyIds} />
+                            </div>
+                        ))}
+                        <div style={{ height: paddingBottom }} />
+                        {hasMore && (
+                            <div className="load-more">
+                                <button className="btn btn-ghost btn-sm" onClick={loadMore} disabled={isLoading}>
+                                    {isLoading ? 'Loading…' : 'Load older transactions'}
+                                </button>
+                            </div>
+                        )}
+                    </>
                 )}
             </div>
 
@@ -441,9 +586,35 @@ export function Transactions() {
         }
 
         .transactions-list {
+          overflow-y: auto;
+          max-height: calc(100vh - 300px);
+          min-height: 240px;
+        }
+
+        .transaction-slot {
+          padding-bottom: var(--space-2);
+        }
+
+        .load-more {
+          display: flex;
+          justify-content: center;
+          padding: var(--space-3);
+        }
+
+        .offset-window {
           display: flex;
-          flex-direction: column;
           gap: var(--space-2);
+          align-items: center;
+        }
+
+        .offset-input {
+          width: 200px;
+          padding: var(--space-2) var(--space-3);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+          font-size: var(--text-sm);
+          color: var(--text-primary);
         }
 
         .transaction-row {
@@ -493,6 +664,12 @@ export function Transactions() {
           color: var(--text-tertiary);
         }
 
+        .transaction-visibility {
+          display: flex;
+          flex-wrap: wrap;
+          gap: var(--space-1);
+        }
+
         .event-summary {
           display: flex;
           gap: var(--space-1);
@@ -612,6 +789,7 @@ export function Transactions() {
 
         .skeleton-row {
           padding: var(--space-4);
+          margin-bottom: var(--space-2);
         }
 
         .spin {
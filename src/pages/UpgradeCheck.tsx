@@ -0,0 +1,580 @@
+/**
+ * UpgradeCheck Page
+ *
+ * Smart Contract Upgrade (SCU) compatibility between two versions of a
+ * package:
+ * - Any two uploaded versions with the same package name, or a DAR that is
+ *   not uploaded yet against the deployed versions
+ * - Field, choice, key and interface changes, with the ones that break SCU
+ *   compatibility flagged
+ * - Active contracts per package version
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, ArrowRight, CheckCircle, FileArchive, GitBranch, X, XCircle } from 'lucide-react';
+import { useContracts, useTemplateCatalog } from '../services/store';
+import { buildCatalog, type PackageCatalog } from '../services/damlLf';
+import { readDar } from '../services/darArchive';
+import {
+    SEVERITY_LABELS,
+    checkUpgrade,
+    compareVersions,
+    packageVersions,
+    type ChangeSeverity,
+    type PackageVersion,
+} from '../services/upgradeCheck';
+import type { DamlPackage, PackageId } from '../types/canton';
+
+type SeverityFilter = ChangeSeverity | 'all';
+
+const SEVERITY_BADGES: Record<ChangeSeverity, string> = {
+    breaking: 'badge-error',
+    warning: 'badge-warning',
+    compatible: 'badge-success',
+};
+
+const SEVERITIES: ChangeSeverity[] = ['breaking', 'warning', 'compatible'];
+
+/** A DAR loaded from disk as an upgrade candidate */
+interface DarCandidate {
+    fileName: string;
+    catalog: PackageCatalog;
+}
+
+const versionLabel = (pkg: DamlPackage) => `v${pkg.version ?? '?'} — ${pkg.packageId.slice(0, 12)}…`;
+
+export function UpgradeCheck() {
+    const { templates, interfaces, packages } = useTemplateCatalog();
+    const { contractMap } = useContracts();
+
+    const [packageName, setPackageName] = useState('');
+    const [fromId, setFromId] = useState<PackageId>('');
+    const [toId, setToId] = useState<PackageId>('');
+    const [severityFilter, setSeverityFilter] = useState<SeverityFilter>('all');
+
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [candidate, setCandidate] = useState<DarCandidate | null>(null);
+    const [darError, setDarError] = useState<string | null>(null);
+
+    const deployedIds = useMemo(() => new Set(packages.map((pkg) => pkg.packageId)), [packages]);
+
+    // Deployed versions per package name, plus the candidate DAR's packages
+    const versionsByName = useMemo(() => {
+        const fromDar = (candidate?.catalog.packages ?? []).filter((pkg) => !deployedIds.has(pkg.packageId));
+        return packageVersions([...packages, ...fromDar]);
+    }, [packages, candidate, deployedIds]);
+
+    const packageNames = useMemo(
+        () => Array.from(versionsByName.keys()).sort((a, b) => a.localeCompare(b)),
+        [versionsByName]
+    );
+    const versions = useMemo(() => versionsByName.get(packageName) ?? [], [versionsByName, packageName]);
+
+    // Default to the two newest versions of the package
+    useEffect(() => {
+        if (versions.length === 0) return;
+        if (!versions.some((pkg) => pkg.packageId === toId)) {
+            setToId(versions[versions.length - 1].packageId);
+        }
+        if (!versions.some((pkg) => pkg.packageId === fromId)) {
+            setFromId(versions[Math.max(0, versions.length - 2)].packageId);
+        }
+    }, [versions, fromId, toId]);
+
+    const versionOf = useCallback((packageId: PackageId): PackageVersion | null => {
+        const pkg = versions.find((p) => p.packageId === packageId);
+        if (!pkg) return null;
+        if (!deployedIds.has(packageId) && candidate) {
+            return {
+                pkg,
+                templates: candidate.catalog.templates.filter((t) => t.packageId === packageId),
+                interfaces: candidate.catalog.interfaces.filter((i) => i.packageId === packageId),
+            };
+        }
+        return {
+            pkg,
+            templates: Array.from(templates.values()).filter((t) => t.packageId === packageId),
+            interfaces: Array.from(interfaces.values()).filter((i) => i.packageId === packageId),
+        };
+    }, [versions, deployedIds, candidate, templates, interfaces]);
+
+    const from = useMemo(() => versionOf(fromId), [versionOf, fromId]);
+    const to = useMemo(() => versionOf(toId), [versionOf, toId]);
+    const report = useMemo(
+        () => (from && to && from.pkg.packageId !== to.pkg.packageId ? checkUpgrade(from, to) : null),
+        [from, to]
+    );
+
+    const visibleChanges = (report?.changes ?? []).filter(
+        (change) => severityFilter === 'all' || change.severity === severityFilter
+    );
+
+    // Active contracts per version of the selected package
+    const liveContracts = useMemo(() => {
+        const ids = new Set(versions.map((pkg) => pkg.packageId));
+        const byPackage = new Map<PackageId, Map<string, number>>();
+        contractMap.forEach((contract) => {
+            const [packageId, moduleName, entity] = contract.templateId.split(':');
+            if (!ids.has(packageId)) return;
+            const perTemplate = byPackage.get(packageId) ?? new Map<string, number>();
+            const name = `${moduleName}:${entity}`;
+            perTemplate.set(name, (perTemplate.get(name) ?? 0) + 1);
+            byPackage.set(packageId, perTemplate);
+        });
+        return byPackage;
+    }, [contractMap, versions]);
+
+    const selectDar = async (file: File) => {
+        setDarError(null);
+        try {
+            const dar = await readDar(new Uint8Array(await file.arrayBuffer()));
+            const catalog = buildCatalog(dar.packages);
+            const main = catalog.packages.find((pkg) => pkg.packageId === dar.mainPackageId);
+            setCandidate({ fileName: file.name, catalog });
+            if (main?.name) {
+                setPackageName(main.name);
+                setToId(main.packageId);
+                const deployed = packages
+                    .filter((pkg) => pkg.name === main.name)
+                    .sort((a, b) => compareVersions(a.version ?? '', b.version ?? ''));
+                if (deployed.length > 0) {
+                    setFromId(deployed[deployed.length - 1].packageId);
+                }
+            }
+        } catch (err) {
+            setDarError(err instanceof Error ? err.message : 'Could not read the DAR');
+        }
+    };
+
+    const renderVersionSelect = (value: PackageId, onChange: (id: PackageId) => void, label: string) => (
+        <label className="upgrade-field">
+            <span className="upgrade-field-label">{label}</span>
+            <select value={value} onChange={(e) => onChange(e.target.value)} className="upgrade-select">
+                {versions.map((pkg) => (
+                    <option key={pkg.packageId} value={pkg.packageId}>
+                        {versionLabel(pkg)}
+                        {!deployedIds.has(pkg.packageId) && ' (from DAR, not uploaded)'}
+                    </option>
+                ))}
+            </select>
+        </label>
+    );
+
+    return (
+        <div className="upgrade-check">
+            {/* Header */}
+            <div className="page-header-content">
+                <div>
+                    <h1 className="page-title">Upgrade Check</h1>
+                    <p className="page-subtitle">
+                        Smart Contract Upgrade compatibility between versions of a package
+                    </p>
+                </div>
+                <div className="header-actions">
+                    <button className="btn btn-secondary" onClick={() => fileInput.current?.click()}>
+                        <FileArchive size={16} />
+                        Check a DAR
+                    </button>
+                    <input
+                        ref={fileInput}
+                        type="file"
+                        accept=".dar"
+                        hidden
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) selectDar(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+            </div>
+
+            {darError && (
+                <div className="error-banner">
+                    <AlertCircle size={18} />
+                    <span>Could not read the DAR: {darError}</span>
+                </div>
+            )}
+
+            {candidate && (
+                <div className="notice-banner">
+                    <FileArchive size={16} />
+                    <span>
+                        Comparing against {candidate.fileName}; its packages are decoded locally and not uploaded.
+                    </span>
+                    <button className="banner-close" onClick={() => setCandidate(null)} aria-label="Discard DAR">
+                        <X size={14} />
+                    </button>
+                </div>
+            )}
+
+            {/* Version Selection */}
+            <div className="card upgrade-versions">
+                <label className="upgrade-field">
+                    <span className="upgrade-field-label">Package</span>
+                    <select
+                        value={packageName}
+                        onChange={(e) => setPackageName(e.target.value)}
+                        className="upgrade-select"
+                    >
+                        <option value="">Select a package…</option>
+                        {packageNames.map((name) => (
+                            <option key={name} value={name}>
+                                {name} ({versionsByName.get(name)?.length} version{versionsByName.get(name)?.length !== 1 ? 's' : ''})
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                {versions.length > 0 && (
+                    <>
+                        {renderVersionSelect(fromId, setFromId, 'From')}
+                        <ArrowRight size={18} className="upgrade-arrow" />
+                        {renderVersionSelect(toId, setToId, 'To')}
+                    </>
+                )}
+            </div>
+
+            {!packageName ? (
+                <div className="empty-state">
+                    <GitBranch className="empty-state-icon" />
+                    <h3 className="empty-state-title">Choose a package</h3>
+                    <p className="empty-state-description">
+                        Pick a package with several uploaded versions, or load a DAR to check it against what is
+                        deployed.
+                    </p>
+                </div>
+            ) : versions.length < 2 ? (
+                <div className="notice-banner">
+                    <AlertCircle size={16} />
+                    <span>Only one version of {packageName} is known. Load a DAR with a newer version to check it.</span>
+                </div>
+            ) : fromId === toId ? (
+                <div className="notice-banner">
+                    <AlertCircle size={16} />
+                    <span>Select two different versions.</span>
+                </div>
+            ) : (
+                report && (
+                    <>
+                        {/* Verdict */}
+                        <div className={`upgrade-verdict ${report.compatible ? 'compatible' : 'breaking'}`}>
+                            {report.compatible ? <CheckCircle size={20} /> : <XCircle size={20} />}
+                            <span>
+                                {report.compatible
+                                    ? `v${to?.pkg.version} is an SCU-compatible upgrade of v${from?.pkg.version}`
+                                    : `v${to?.pkg.version} breaks SCU compatibility with v${from?.pkg.version}: ` +
+                                      `${report.counts.breaking} breaking change${report.counts.breaking !== 1 ? 's' : ''}`}
+                            </span>
+                        </div>
+
+                        <div className="upgrade-summary">
+                            {SEVERITIES.map((severity) => (
+                                <button
+                                    key={severity}
+                                    className={`card upgrade-summary-card severity-${severity} ${severityFilter === severity ? 'active' : ''}`}
+                                    onClick={() => setSeverityFilter(severityFilter === severity ? 'all' : severity)}
+                                >
+                                    <span className="upgrade-summary-count">{report.counts[severity]}</span>
+                                    <span className="upgrade-summary-label">{SEVERITY_LABELS[severity]}</span>
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Changes */}
+                        <div className="card">
+                            <div className="table-container">
+                                <table className="table">
+                                    <thead>
+                                        <tr>
+                                            <th>Severity</th>
+                                            <th>Kind</th>
+                                            <th>Entity</th>
+                                            <th>Location</th>
+                                            <th>Change</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {visibleChanges.length === 0 ? (
+                                            <tr>
+                                                <td colSpan={5} className="empty-cell">
+                                                    {report.changes.length === 0
+                                                        ? 'No differences in templates, choices or interfaces'
+                                                        : 'No changes of this severity'}
+                                                </td>
+                                            </tr>
+                                        ) : (
+                                            visibleChanges.map((change, i) => (
+                                                <tr key={i}>
+                                                    <td>
+                                                        <span className={`badge ${SEVERITY_BADGES[change.severity]}`}>
+                                                            {SEVERITY_LABELS[change.severity]}
+                                                        </span>
+                                                    </td>
+                                                    <td className="upgrade-subject">{change.subject}</td>
+                                                    <td className="mono">{change.entity ?? '—'}</td>
+                                                    <td className="mono">{change.path ?? '—'}</td>
+                                                    <td>{change.message}</td>
+                                                </tr>
+                                            ))
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    </>
+                )
+            )}
+
+            {/* Live Contracts */}
+            {versions.length > 0 && (
+                <div className="card">
+                    <div className="card-header">
+                        <h2 className="card-title">Active Contracts by Version</h2>
+                        <span className="upgrade-note">Contracts visible to the current party lens</span>
+                    </div>
+                    <div className="table-container">
+                        <table className="table">
+                            <thead>
+                                <tr>
+                                    <th>Version</th>
+                                    <th>Package ID</th>
+                                    <th>Contracts</th>
+                                    <th>Templates</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {[...versions].reverse().map((pkg) => {
+                                    const perTemplate = liveContracts.get(pkg.packageId);
+                                    const total = perTemplate
+                                        ? Array.from(perTemplate.values()).reduce((sum, n) => sum + n, 0)
+                                        : 0;
+                                    return (
+                                        <tr
+                                            key={pkg.packageId}
+                                            className={pkg.packageId === fromId || pkg.packageId === toId ? 'selected' : ''}
+                                        >
+                                            <td>
+                                                v{pkg.version ?? '?'}
+                                                {!deployedIds.has(pkg.packageId) && (
+                                                    <span className="badge badge-info version-badge">DAR</span>
+                                                )}
+                                            </td>
+                                            <td className="mono" title={pkg.packageId}>{pkg.packageId.slice(0, 16)}…</td>
+                                            <td>{total.toLocaleString()}</td>
+                                            <td className="upgrade-templates">
+                                                {perTemplate
+                                                    ? Array.from(perTemplate, ([name, count]) => `${name} (${count})`).join(', ')
+                                                    : '—'}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <style>{`
+        .upgrade-check {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+        }
+
+        .page-header-content {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+        }
+
+        .page-title {
+          font-size: var(--text-3xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+          margin-bottom: var(--space-1);
+        }
+
+        .page-subtitle {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .header-actions {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .upgrade-versions {
+          display: flex;
+          align-items: flex-end;
+          gap: var(--space-4);
+          padding: var(--space-4);
+        }
+
+        .upgrade-field {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          min-width: 0;
+        }
+
+        .upgrade-field-label {
+          font-size: var(--text-xs);
+          font-weight: var(--font-semibold);
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          color: var(--text-tertiary);
+        }
+
+        .upgrade-select {
+          padding: var(--space-2) var(--space-4);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+          font-size: var(--text-sm);
+          color: var(--text-primary);
+        }
+
+        .upgrade-arrow {
+          margin-bottom: var(--space-2);
+          color: var(--text-tertiary);
+          flex-shrink: 0;
+        }
+
+        .upgrade-verdict {
+          display: flex;
+          align-items: center;
+          gap: var(--space-3);
+          padding: var(--space-4);
+          border-radius: var(--radius-lg);
+          font-weight: var(--font-medium);
+        }
+
+        .upgrade-verdict.compatible {
+          background: rgba(34, 197, 94, 0.08);
+          border: 1px solid var(--color-success-500);
+          color: var(--color-success-600);
+        }
+
+        .upgrade-verdict.breaking {
+          background: rgba(239, 68, 68, 0.08);
+          border: 1px solid var(--color-error-500);
+          color: var(--color-error-600);
+        }
+
+        .upgrade-summary {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: var(--space-4);
+        }
+
+        .upgrade-summary-card {
+          display: flex;
+          flex-direction: column;
+          align-items: flex-start;
+          gap: var(--space-1);
+          padding: var(--space-4);
+          cursor: pointer;
+          text-align: left;
+          border-left: 4px solid var(--border-primary);
+          transition: all var(--transition-fast);
+        }
+
+        .upgrade-summary-card.severity-breaking { border-left-color: var(--color-error-500); }
+        .upgrade-summary-card.severity-warning { border-left-color: var(--color-warning-500); }
+        .upgrade-summary-card.severity-compatible { border-left-color: var(--color-success-500); }
+
+        .upgrade-summary-card.active {
+          background: var(--accent-primary-light);
+        }
+
+        .upgrade-summary-count {
+          font-size: var(--text-2xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+        }
+
+        .upgrade-summary-label {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .upgrade-subject {
+          text-transform: capitalize;
+        }
+
+        .upgrade-templates {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .upgrade-note {
+          font-size: var(--text-sm);
+          color: var(--text-tertiary);
+        }
+
+        .table-container {
+          overflow: auto;
+          max-height: 520px;
+        }
+
+        .table-container thead th {
+          position: sticky;
+          top: 0;
+          z-index: 1;
+          background: var(--bg-tertiary);
+        }
+
+        .table tr.selected td {
+          background: var(--accent-primary-light);
+        }
+
+        .version-badge {
+          margin-left: var(--space-2);
+        }
+
+        .empty-cell {
+          text-align: center;
+          padding: var(--space-8) !important;
+          color: var(--text-tertiary);
+        }
+
+        .banner-close {
+          margin-left: auto;
+          background: none;
+          border: none;
+          color: inherit;
+          cursor: pointer;
+        }
+
+        .notice-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: var(--bg-tertiary);
+          border-radius: var(--radius-lg);
+          color: var(--text-secondary);
+          font-size: var(--text-sm);
+        }
+
+        .error-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: rgba(239, 68, 68, 0.08);
+          border: 1px solid var(--color-error-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-error-600);
+          font-size: var(--text-sm);
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default UpgradeCheck;
@@ -0,0 +1,668 @@
+/**
+ * Users Page
+ *
+ * User and rights administration for the connected participant:
+ * - Listing, creating and deleting users
+ * - Assigning primary parties
+ * - Granting and revoking ParticipantAdmin
+ * - A users × parties matrix for granting and revoking CanReadAs / CanActAs
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Check, Plus, RefreshCw, Search, Shield, Trash2, X } from 'lucide-react';
+import { useLedgerClient, usePartyLens } from '../services/store';
+import type { LedgerUser, PartyId, UserRight } from '../types/canton';
+
+type PartyRightKind = 'CanReadAs' | 'CanActAs';
+
+const partyName = (partyId: PartyId) => partyId.split('::')[0];
+
+const hasRight = (rights: UserRight[], kind: UserRight['kind'], party?: PartyId): boolean =>
+    rights.some((right) => right.kind === kind && (!('party' in right) || right.party === party));
+
+export function Users() {
+    const client = useLedgerClient();
+    const { availableParties, partyRights, refreshPartyRights } = usePartyLens();
+
+    const [users, setUsers] = useState<LedgerUser[]>([]);
+    const [rights, setRights] = useState<Map<string, UserRight[]>>(new Map());
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    /** Key of the cell or action being saved */
+    const [pending, setPending] = useState<string | null>(null);
+
+    // Matrix columns
+    const [partyQuery, setPartyQuery] = useState('');
+    const [localOnly, setLocalOnly] = useState(true);
+
+    // Create form
+    const [showCreate, setShowCreate] = useState(false);
+    const [newUserId, setNewUserId] = useState('');
+    const [newPrimaryParty, setNewPrimaryParty] = useState('');
+    const [grantActAs, setGrantActAs] = useState(true);
+    const [grantAdmin, setGrantAdmin] = useState(false);
+
+    const loadUsers = useCallback(async () => {
+        if (!client) return;
+
+        setIsLoading(true);
+        setError(null);
+        try {
+            const list = await client.listUsers();
+            const userRights = await Promise.all(list.map((user) => client.getUserRights(user.id)));
+            setUsers(list.sort((a, b) => a.id.localeCompare(b.id)));
+            setRights(new Map(list.map((user, i) => [user.id, userRights[i]])));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load users');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [client]);
+
+    useEffect(() => {
+        loadUsers();
+    }, [loadUsers]);
+
+    const matrixParties = useMemo(() => {
+        const query = partyQuery.toLowerCase();
+        return availableParties
+            .filter((p) => !localOnly || p.isLocal)
+            .filter((p) =>
+                !query ||
+                p.partyId.toLowerCase().includes(query) ||
+                (p.displayName ?? '').toLowerCase().includes(query)
+            )
+            .sort((a, b) => a.partyId.localeCompare(b.partyId));
+    }, [availableParties, localOnly, partyQuery]);
+
+    /**
+     * Run one change, then re-read the affected user's rights. Changes to the
+     * signed-in user also refresh what the party lens may select.
+     */
+    const runChange = async (key: string, userId: string, change: () => Promise<unknown>, message: string) => {
+        if (!client) return;
+
+        setPending(key);
+        setError(null);
+        try {
+            await change();
+            const updated = await client.getUserRights(userId);
+            setRights((prev) => new Map(prev).set(userId, updated));
+            setNotice(message);
+            if (userId === partyRights?.userId) {
+                refreshPartyRights();
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update rights');
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const toggleRight = (userId: string, right: UserRight, granted: boolean) => {
+        if (!client) return;
+        const label = 'party' in right ? `${right.kind} ${partyName(right.party)}` : right.kind;
+        const key = `${userId}|${right.kind}|${'party' in right ? right.party : ''}`;
+        return granted
+            ? runChange(key, userId, () => client.revokeUserRights(userId, [right]), `Revoked ${label} from ${userId}`)
+            : runChange(key, userId, () => client.grantUserRights(userId, [right]), `Granted ${label} to ${userId}`);
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!client) return;
+
+        const initialRights: UserRight[] = [];
+        if (newPrimaryParty && grantActAs) initialRights.push({ kind: 'CanActAs', party: newPrimaryParty });
+        if (grantAdmin) initialRights.push({ kind: 'ParticipantAdmin' });
+
+        setPending('create');
+        setError(null);
+        try {
+            const user = await client.createUser(
+                { id: newUserId.trim(), primaryParty: newPrimaryParty || undefined },
+                initialRights
+            );
+            setNotice(`Created user ${user.id}`);
+            setNewUserId('');
+            setNewPrimaryParty('');
+            setGrantAdmin(false);
+            setShowCreate(false);
+            await loadUsers();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create user');
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleDelete = async (user: LedgerUser) => {
+        if (!client) return;
+        if (!window.confirm(`Delete user "${user.id}" and all of its rights?`)) return;
+
+        setPending(`delete|${user.id}`);
+        setError(null);
+        try {
+            await client.deleteUser(user.id);
+            setUsers((prev) => prev.filter((u) => u.id !== user.id));
+            setNotice(`Deleted user ${user.id}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete user');
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handlePrimaryParty = async (user: LedgerUser, primaryParty: string) => {
+        if (!client) return;
+
+        setPending(`primary|${user.id}`);
+        setError(null);
+        try {
+            const updated = await client.updateUserPrimaryParty(user, primaryParty || undefined);
+            setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+            setNotice(`Updated the primary party of ${user.id}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update primary party');
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const renderRightToggle = (user: LedgerUser, kind: PartyRightKind, party: PartyId) => {
+        const userRights = rights.get(user.id) ?? [];
+        const granted = hasRight(userRights, kind, party);
+        const key = `${user.id}|${kind}|${party}`;
+        return (
+            <button
+                className={`right-toggle ${kind === 'CanActAs' ? 'act' : 'read'} ${granted ? 'granted' : ''}`}
+                onClick={() => toggleRight(user.id, { kind, party }, granted)}
+                disabled={pending !== null}
+                title={`${granted ? 'Revoke' : 'Grant'} ${kind} ${party}`}
+                aria-pressed={granted}
+            >
+                {pending === key ? <RefreshCw size={10} className="spin" /> : kind === 'CanActAs' ? 'A' : 'R'}
+            </button>
+        );
+    };
+
+    return (
+        <div className="users-page">
+            {/* Header */}
+            <div className="page-header-content">
+                <div>
+                    <h1 className="page-title">Users &amp; Rights</h1>
+                    <p className="page-subtitle">
+                        {users.length} users · {matrixParties.length} of {availableParties.length} parties in the matrix
+                    </p>
+                </div>
+                <div className="header-actions">
+                    <button className="btn btn-secondary" onClick={loadUsers} disabled={isLoading}>
+                        <RefreshCw size={16} className={isLoading ? 'spin' : ''} />
+                        Refresh
+                    </button>
+                    <button className="btn btn-primary" onClick={() => setShowCreate(!showCreate)}>
+                        <Plus size={16} />
+                        Create User
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="error-banner">
+                    <AlertCircle size={18} />
+                    <span>{error}</span>
+                </div>
+            )}
+
+            {notice && (
+                <div className="success-banner">
+                    <Check size={16} />
+                    <span>{notice}</span>
+                    <button className="banner-close" onClick={() => setNotice(null)} aria-label="Dismiss">
+                        <X size={14} />
+                    </button>
+                </div>
+            )}
+
+            {/* Create Form */}
+            {showCreate && (
+                <form className="card create-user-form" onSubmit={handleCreate}>
+                    <div className="card-header">
+                        <h2 className="card-title">Create User</h2>
+                    </div>
+                    <div className="card-body create-user-fields">
+                        <div className="input-group">
+                            <label className="input-label" htmlFor="user-id">User ID</label>
+                            <input
+                                id="user-id"
+                                className="input"
+                                value={newUserId}
+                                onChange={(e) => setNewUserId(e.target.value)}
+                                placeholder="alice"
+                                required
+                            />
+                        </div>
+                        <div className="input-group">
+                            <label className="input-label" htmlFor="user-primary">Primary party</label>
+                            <select
+                                id="user-primary"
+                                className="input"
+                                value={newPrimaryParty}
+                                onChange={(e) => setNewPrimaryParty(e.target.value)}
+                            >
+                                <option value="">None</option>
+                                {availableParties.map((p) => (
+                                    <option key={p.partyId} value={p.partyId}>{p.displayName || p.partyId}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="create-user-options">
+                            <label className="checkbox-label">
+                                <input
+                                    type="checkbox"
+                                    checked={grantActAs}
+                                    onChange={(e) => setGrantActAs(e.target.checked)}
+                                    disabled={!newPrimaryParty}
+                                />
+                                Act as the primary party
+                            </label>
+                            <label className="checkbox-label">
+                                <input
+                                    type="checkbox"
+                                    checked={grantAdmin}
+                                    onChange={(e) => setGrantAdmin(e.target.checked)}
+                                />
+                                Participant admin
+                            </label>
+                        </div>
+                    </div>
+                    <div className="card-footer">
+                        <button type="button" className="btn btn-ghost" onClick={() => setShowCreate(false)}>
+                            Cancel
+                        </button>
+                        <button type="submit" className="btn btn-primary" disabled={pending !== null || !newUserId.trim()}>
+                            {pending === 'create' ? <RefreshCw size={16} className="spin" /> : <Plus size={16} />}
+                            Create
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {/* Matrix Filters */}
+            <div className="filters-section">
+                <div className="search-bar">
+                    <Search size={18} className="search-icon" />
+                    <input
+                        type="text"
+                        value={partyQuery}
+                        onChange={(e) => setPartyQuery(e.target.value)}
+                        placeholder="Filter party columns..."
+                        className="search-input"
+                    />
+                </div>
+                <label className="checkbox-label">
+                    <input type="checkbox" checked={localOnly} onChange={(e) => setLocalOnly(e.target.checked)} />
+                    Local parties only
+                </label>
+                <div className="matrix-legend text-xs text-secondary">
+                    <span className="right-toggle read granted">R</span> CanReadAs
+                    <span className="right-toggle act granted">A</span> CanActAs
+                </div>
+            </div>
+
+            {/* Users × Parties Matrix */}
+            <div className="card">
+                <div className="table-container">
+                    <table className="data-table rights-matrix">
+                        <thead>
+                            <tr>
+                                <th className="sticky-col">User</th>
+                                <th>Primary Party</th>
+                                <th>Admin</th>
+                                {matrixParties.map((party) => (
+                                    <th key={party.partyId} className="party-col" title={party.partyId}>
+                                        {party.displayName || partyName(party.partyId)}
+                                    </th>
+                                ))}
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {users.length === 0 ? (
+                                <tr>
+                                    <td colSpan={matrixParties.length + 4} className="empty-cell">
+                                        {isLoading ? 'Loading users…' : 'No users'}
+                                    </td>
+                                </tr>
+                            ) : (
+                                users.map((user) => {
+                                    const userRights = rights.get(user.id) ?? [];
+                                    const isAdmin = hasRight(userRights, 'ParticipantAdmin');
+                                    return (
+                                        <tr key={user.id}>
+                                            <td className="sticky-col">
+                                                <div className="user-cell">
+                                                    <span className="user-id">{user.id}</span>
+                                                    {user.id === partyRights?.userId && (
+                                                        <span className="badge badge-info">You</span>
+                                                    )}
+                                                    {user.isDeactivated && (
+                                                        <span className="badge badge-neutral">Deactivated</span>
+                                                    )}
+                                                    {hasRight(userRights, 'CanReadAsAnyParty') && (
+                                                        <span className="badge badge-warning" title="CanReadAsAnyParty">Reads all</span>
+                                                    )}
+                                                </div>
+                                            </td>
+                                            <td>
+                                                <select
+                                                    className="primary-select"
+                                                    value={user.primaryParty ?? ''}
+                                                    onChange={(e) => handlePrimaryParty(user, e.target.value)}
+                                                    disabled={pending !== null}
+                                                >
+                                                    <option value="">None</option>
+                                                    {user.primaryParty && !availableParties.some((p) => p.partyId === user.primaryParty) && (
+                                                        <option value={user.primaryParty}>{user.primaryParty}</option>
+                                                    )}
+                                                    {availableParties.map((p) => (
+                                                        <option key={p.partyId} value={p.partyId}>
+                                                            {p.displayName || partyName(p.partyId)}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            </td>
+                                            <td>
+                                                <button
+                                                    className={`admin-toggle ${isAdmin ? 'granted' : ''}`}
+                                                    onClick={() => toggleRight(user.id, { kind: 'ParticipantAdmin' }, isAdmin)}
+                                                    disabled={pending !== null}
+                                                    title={`${isAdmin ? 'Revoke' : 'Grant'} ParticipantAdmin`}
+                                                    aria-pressed={isAdmin}
+                                                >
+                                                    <Shield size={14} />
+                                                </button>
+                                            </td>
+                                            {matrixParties.map((party) => (
+                                                <td key={party.partyId} className="rights-cell">
+                                                    {renderRightToggle(user, 'CanReadAs', party.partyId)}
+                                                    {renderRightToggle(user, 'CanActAs', party.partyId)}
+                                                </td>
+                                            ))}
+                                            <td>
+                                                <button
+                                                    className="btn btn-ghost btn-sm delete-user"
+                                                    onClick={() => handleDelete(user)}
+                                                    disabled={pending !== null}
+                                                    title="Delete user"
+                                                >
+                                                    <Trash2 size={14} />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <style>{`
+        .users-page {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+        }
+
+        .page-header-content {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+        }
+
+        .page-title {
+          font-size: var(--text-3xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+          margin-bottom: var(--space-1);
+        }
+
+        .page-subtitle {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .header-actions {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .create-user-fields {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: var(--space-4);
+        }
+
+        .create-user-options {
+          grid-column: 1 / -1;
+          display: flex;
+          gap: var(--space-6);
+        }
+
+        .create-user-form .card-footer {
+          display: flex;
+          justify-content: flex-end;
+          gap: var(--space-2);
+        }
+
+        .checkbox-label {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+          cursor: pointer;
+        }
+
+        .filters-section {
+          display: flex;
+          align-items: center;
+          gap: var(--space-4);
+          flex-wrap: wrap;
+        }
+
+        .search-bar {
+          flex: 1;
+          min-width: 240px;
+          position: relative;
+          display: flex;
+          align-items: center;
+        }
+
+        .search-bar .search-icon {
+          position: absolute;
+          left: var(--space-3);
+          color: var(--text-tertiary);
+        }
+
+        .search-bar .search-input {
+          width: 100%;
+          padding: var(--space-2) var(--space-4);
+          padding-left: var(--space-10);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+        }
+
+        .matrix-legend {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+        }
+
+        .table-container {
+          overflow: auto;
+          max-height: calc(100vh - 320px);
+        }
+
+        .table-container thead th {
+          position: sticky;
+          top: 0;
+          z-index: 1;
+          background: var(--bg-tertiary);
+        }
+
+        .rights-matrix .sticky-col {
+          position: sticky;
+          left: 0;
+          z-index: 2;
+          background: var(--bg-secondary);
+        }
+
+        .rights-matrix thead .sticky-col {
+          z-index: 3;
+          background: var(--bg-tertiary);
+        }
+
+        .party-col {
+          white-space: nowrap;
+          text-align: center;
+        }
+
+        .user-cell {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          white-space: nowrap;
+        }
+
+        .user-id {
+          font-weight: var(--font-medium);
+          color: var(--text-primary);
+        }
+
+        .primary-select {
+          padding: var(--space-1) var(--space-2);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-md);
+          font-size: var(--text-sm);
+          color: var(--text-primary);
+          max-width: 180px;
+        }
+
+        .rights-cell {
+          text-align: center;
+          white-space: nowrap;
+        }
+
+        .right-toggle,
+        .admin-toggle {
+          display: inline-flex;
+          align-items: center;
+          justify-content: center;
+          width: 24px;
+          height: 24px;
+          margin: 0 2px;
+          border: 1px dashed var(--border-primary);
+          border-radius: var(--radius-md);
+          background: transparent;
+          color: var(--text-tertiary);
+          font-size: var(--text-xs);
+          font-weight: var(--font-semibold);
+          cursor: pointer;
+          transition: all var(--transition-fast);
+        }
+
+        .right-toggle:hover:not(:disabled),
+        .admin-toggle:hover:not(:disabled) {
+          border-color: var(--accent-primary);
+          color: var(--accent-primary);
+        }
+
+        .right-toggle:disabled,
+        .admin-toggle:disabled {
+          cursor: wait;
+        }
+
+        .right-toggle.read.granted {
+          border-style: solid;
+          border-color: var(--color-warning-500);
+          background: rgba(245, 158, 11, 0.1);
+          color: var(--color-warning-600);
+        }
+
+        .right-toggle.act.granted {
+          border-style: solid;
+          border-color: var(--color-success-500);
+          background: rgba(34, 197, 94, 0.1);
+          color: var(--color-success-600);
+        }
+
+        .admin-toggle.granted {
+          border-style: solid;
+          border-color: var(--accent-primary);
+          background: var(--accent-primary-light);
+          color: var(--accent-primary);
+        }
+
+        .delete-user:hover:not(:disabled) {
+          color: var(--color-error-600);
+        }
+
+        .empty-cell {
+          text-align: center;
+          padding: var(--space-8) !important;
+          color: var(--text-tertiary);
+        }
+
+        .success-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: rgba(34, 197, 94, 0.08);
+          border: 1px solid var(--color-success-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-success-600);
+          font-size: var(--text-sm);
+        }
+
+        .banner-close {
+          margin-left: auto;
+          background: none;
+          border: none;
+          color: inherit;
+          cursor: pointer;
+        }
+
+        .error-banner {
+          display: flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: var(--space-3) var(--space-4);
+          background: rgba(239, 68, 68, 0.08);
+          border: 1px solid var(--color-error-500);
+          border-radius: var(--radius-lg);
+          color: var(--color-error-600);
+          font-size: var(--text-sm);
+        }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          from { transform: rotate(0deg); }
+          to { transform: rotate(360deg); }
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default Users;
@@ -0,0 +1,574 @@
+/**
+ * Workflows Page
+ *
+ * Follows a business process across transactions:
+ * - Transactions grouped by workflow ID or command-ID prefix
+ * - An ordered timeline of the steps with the latency between them
+ * - The contracts each step hands to a later one, inputs from outside the
+ *   workflow and the contracts it leaves behind
+ */
+
+import { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowDownRight, ArrowUpRight, Clock, GitMerge, Layers, LogIn, RefreshCw, Search } from 'lucide-react';
+import { useTransactions } from '../services/store';
+import {
+    buildTimeline,
+    formatDuration,
+    groupWorkflows,
+    workflowByPrefix,
+    type Handoff,
+    type WorkflowContract,
+    type WorkflowGrouping,
+} from '../services/workflows';
+
+const shortTemplate = (templateId: string) => templateId.split(':').pop() || templateId;
+
+function ContractLink({ contract }: { contract: WorkflowContract }) {
+    return (
+        <Link
+            to={`/contracts/${encodeURIComponent(contract.contractId)}`}
+            className="workflow-contract"
+            title={contract.contractId}
+        >
+            <span className="workflow-contract-template">{shortTemplate(contract.templateId)}</span>
+            <span className="mono">{contract.contractId.slice(0, 10)}…</span>
+        </Link>
+    );
+}
+
+const stepLabel = (index: number) => `Step ${index + 1}`;
+
+function handoffTargets(handoffs: Handoff[]): string {
+    return Array.from(new Set(handoffs.map((h) => stepLabel(h.to)))).join(', ');
+}
+
+export function Workflows() {
+    const { transactions, isLoading, loadTransactions } = useTransactions();
+    const [searchParams, setSearchParams] = useSearchParams();
+
+    const selectedWorkflow = searchParams.get('workflow');
+    const selectedPrefix = searchParams.get('prefix');
+    const [grouping, setGrouping] = useState<WorkflowGrouping>(selectedPrefix !== null ? 'commandPrefix' : 'workflowId');
+    const [filter, setFilter] = useState(selectedPrefix ?? '');
+
+    const groups = useMemo(() => groupWorkflows(transactions, grouping), [transactions, grouping]);
+    const visibleGroups = useMemo(() => {
+        const query = filter.trim().toLowerCase();
+        return query ? groups.filter((g) => g.key.toLowerCase().includes(query)) : groups;
+    }, [groups, filter]);
+
+    const workflow = useMemo(() => {
+        if (selectedPrefix) return workflowByPrefix(transactions, selectedPrefix);
+        if (selectedWorkflow) return groupWorkflows(transactions, 'workflowId').find((g) => g.key === selectedWorkflow);
+        return undefined;
+    }, [transactions, selectedWorkflow, selectedPrefix]);
+    const timeline = useMemo(() => (workflow ? buildTimeline(workflow) : null), [workflow]);
+    const selectedKey = selectedPrefix ?? selectedWorkflow;
+
+    const select = (key: string) =>
+        setSearchParams(grouping === 'workflowId' ? { workflow: key } : { prefix: key }, { replace: true });
+
+    const switchGrouping = (next: WorkflowGrouping) => {
+        setGrouping(next);
+        setFilter('');
+    };
+
+    return (
+        <div className="workflows-page">
+            {/* Header */}
+            <div className="page-header-content">
+                <div>
+                    <h1 className="page-title">Workflows</h1>
+                    <p className="page-subtitle">
+                        Follow a process across transactions by workflow ID or command-ID prefix
+                    </p>
+                </div>
+                <div className="header-actions">
+                    <button className="btn btn-secondary" onClick={() => loadTransactions()} disabled={isLoading}>
+                        <RefreshCw size={16} className={isLoading ? 'spin' : ''} />
+                        Refresh
+                    </button>
+                </div>
+            </div>
+
+            <div className="workflows-layout">
+                {/* Workflow List */}
+                <div className="card workflows-list">
+                    <div className="grouping-toggle">
+                        <button
+                            className={grouping === 'workflowId' ? 'active' : ''}
+                            onClick={() => switchGrouping('workflowId')}
+                        >
+                            Workflow ID
+                        </button>
+                        <button
+                            className={grouping === 'commandPrefix' ? 'active' : ''}
+                            onClick={() => switchGrouping('commandPrefix')}
+                        >
+                            Command prefix
+                        </button>
+                    </div>
+                    <form
+                        className="search-bar"
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            // Any prefix can be followed, not only the ones grouped automatically
+                            if (grouping === 'commandPrefix' && filter.trim()) select(filter.trim());
+                        }}
+                    >
+                        <Search size={16} className="search-icon" />
+                        <input
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value)}
+                            placeholder={grouping === 'workflowId' ? 'Filter workflow IDs…' : 'Command-ID prefix, Enter to follow…'}
+                            className="search-input"
+                        />
+                    </form>
+                    <div className="workflows-items">
+                        {visibleGroups.length === 0 ? (
+                            <p className="workflows-empty">
+                                {groups.length === 0
+                                    ? grouping === 'workflowId'
+                                        ? 'No cached transaction has a workflow ID'
+                                        : 'No command-ID prefix is shared by several cached transactions'
+                                    : 'Nothing matches the filter'}
+                            </p>
+                        ) : (
+                            visibleGroups.map((group) => (
+                                <button
+                                    key={group.key}
+                                    className={`workflow-item ${group.key === selectedKey ? 'selected' : ''}`}
+                                    onClick={() => select(group.key)}
+                                >
+                                    <span className="mono workflow-item-key" title={group.key}>{group.key}</span>
+                                    <span className="workflow-item-meta">
+                                        {group.transactions.length} step{group.transactions.length !== 1 ? 's' : ''} ·{' '}
+                                        {formatDuration(group.duration)} · {new Date(group.endedAt).toLocaleString()}
+                                    </span>
+                                </button>
+                            ))
+                        )}
+                    </div>
+                    <p className="workflows-note">
+                        From the {transactions.length.toLocaleString()} cached transactions
+                    </p>
+                </div>
+
+                {/* Timeline */}
+                <div className="workflow-detail">
+                    {!selectedKey ? (
+                        <div className="empty-state">
+                            <GitMerge className="empty-state-icon" />
+                            <h3 className="empty-state-title">Choose a workflow</h3>
+                            <p className="empty-state-description">
+                                Pick a workflow to see its transactions in order and the contracts passed between them.
+                            </p>
+                        </div>
+                    ) : !workflow || !timeline ? (
+                        <div className="empty-state">
+                            <GitMerge className="empty-state-icon" />
+                            <h3 className="empty-state-title">No cached transactions</h3>
+                            <p className="empty-state-description">
+                                None of the cached transactions belong to <code className="mono">{selectedKey}</code>.
+                            </p>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="card workflow-summary">
+                                <div className="workflow-summary-item">
+                                    <span className="field-label">{selectedPrefix ? 'Command prefix' : 'Workflow ID'}</span>
+                                    <code className="mono">{workflow.key}</code>
+                                </div>
+                                <div className="workflow-summary-item">
+                                    <span className="field-label">Steps</span>
+                                    <span>{timeline.steps.length}</span>
+                                </div>
+                                <div className="workflow-summary-item">
+                                    <span className="field-label">Duration</span>
+                                    <span>{formatDuration(workflow.duration)}</span>
+                                </div>
+                                <div className="workflow-summary-item">
+                                    <span className="field-label">Handoffs</span>
+                                    <span>{timeline.handoffs.length}</span>
+                                </div>
+                            </div>
+
+                            <div className="workflow-timeline">
+                                {timeline.steps.map((step, index) => (
+                                    <div key={step.transaction.updateId}>
+                                        {step.latency !== undefined && (
+                                            <div className="workflow-latency">
+                                                <Clock size={12} />+{formatDuration(step.latency)}
+                                            </div>
+                                        )}
+                                        <div className="card workflow-step">
+                                            <div className="workflow-step-header">
+                                                <span className="workflow-step-index">{stepLabel(index)}</span>
+                                                <Link
+                                                    to={`/transactions/${encodeURIComponent(step.transaction.updateId)}`}
+                                                    className="mono text-xs"
+                                                    title={step.transaction.updateId}
+                                                >
+                                                    {step.transaction.updateId.slice(0, 16)}…
+                                                </Link>
+                                                <span className="workflow-step-meta">
+                                                    Offset {step.transaction.offset.toLocaleString()} ·{' '}
+                                                    {new Date(step.transaction.effectiveAt).toLocaleString()}
+                                                </span>
+                                            </div>
+                                            {step.transaction.commandId && (
+                                                <div className="workflow-step-command">
+                                                    Command <code className="mono">{step.transaction.commandId}</code>
+                                                </div>
+                                            )}
+
+                                            <div className="workflow-flows">
+                                                {step.inputs.length > 0 && (
+                                                    <div className="workflow-flow">
+                                                        <span className="workflow-flow-label">
+                                                            <ArrowDownRight size={14} /> Receives
+                                                        </span>
+                                                        {step.inputs.map((handoff) => (
+                                                            <span key={handoff.contractId} className="workflow-flow-entry">
+                                                                <ContractLink contract={handoff} />
+                                                                <span className="badge badge-info">from {stepLabel(handoff.from)}</span>
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                                {step.external.length > 0 && (
+                                                    <div className="workflow-flow">
+                                                        <span className="workflow-flow-label">
+                                                            <LogIn size={14} /> Uses
+                                                        </span>
+                                                        {step.external.map((contract) => (
+                                                            <span key={contract.contractId} className="workflow-flow-entry">
+                                                                <ContractLink contract={contract} />
+                                                                <span className="badge badge-neutral">outside the workflow</span>
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                                {step.created.length > 0 && (
+                                                    <div className="workflow-flow">
+                                                        <span className="workflow-flow-label">
+                                                            <ArrowUpRight size={14} /> Creates
+                                                        </span>
+                                                        {step.created.map((contract) => {
+                                                            const passed = step.outputs.filter((h) => h.contractId === contract.contractId);
+                                                            return (
+                                                                <span key={contract.contractId} className="workflow-flow-entry">
+                                                                    <ContractLink contract={contract} />
+                                                                    {passed.length > 0 && (
+                                                                        <span className="badge badge-success">to {handoffTargets(passed)}</span>
+                                                                    )}
+                                                                </span>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {timeline.results.length > 0 && (
+                                <div className="card">
+                                    <div className="card-header">
+                                        <h2 className="card-title">
+                                            <Layers size={16} /> Outcome
+                                        </h2>
+                                        <span className="workflows-note">Contracts created and not used by a later step</span>
+                                    </div>
+                                    <div className="card-body workflow-results">
+                                        {timeline.results.map((contract) => (
+                                            <ContractLink key={contract.contractId} contract={contract} />
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <style>{`
+        .workflows-page {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-6);
+        }
+
+        .page-header-content {
+          display: flex;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--space-4);
+        }
+
+        .page-title {
+          font-size: var(--text-3xl);
+          font-weight: var(--font-bold);
+          color: var(--text-primary);
+          margin-bottom: var(--space-1);
+        }
+
+        .page-subtitle {
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+        }
+
+        .header-actions {
+          display: flex;
+          gap: var(--space-2);
+        }
+
+        .workflows-layout {
+          display: grid;
+          grid-template-columns: 320px minmax(0, 1fr);
+          gap: var(--space-6);
+          align-items: start;
+        }
+
+        .workflows-list {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-3);
+          padding: var(--space-4);
+        }
+
+        .grouping-toggle {
+          display: flex;
+          background: var(--bg-tertiary);
+          border-radius: var(--radius-lg);
+          padding: 2px;
+        }
+
+        .grouping-toggle button {
+          flex: 1;
+          padding: var(--space-1) var(--space-2);
+          background: none;
+          border: none;
+          border-radius: var(--radius-md);
+          font-size: var(--text-sm);
+          color: var(--text-secondary);
+          cursor: pointer;
+        }
+
+        .grouping-toggle button.active {
+          background: var(--bg-primary);
+          color: var(--text-primary);
+          box-shadow: var(--shadow-sm);
+        }
+
+        .search-bar {
+          position: relative;
+        }
+
+        .search-bar .search-icon {
+          position: absolute;
+          left: var(--space-3);
+          top: 50%;
+          transform: translateY(-50%);
+          color: var(--text-tertiary);
+        }
+
+        .search-bar .search-input {
+          width: 100%;
+          padding: var(--space-2) var(--space-3) var(--space-2) var(--space-8);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-primary);
+          border-radius: var(--radius-lg);
+          font-size: var(--text-sm);
+          color: var(--text-primary);
+        }
+
+        .workflows-items {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          max-height: 560px;
+          overflow-y: auto;
+        }
+
+        .workflow-item {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+          padding: var(--space-2) var(--space-3);
+          background: none;
+          border: 1px solid transparent;
+          border-radius: var(--radius-md);
+          text-align: left;
+          cursor: pointer;
+        }
+
+        .workflow-item:hover {
+          background: var(--bg-tertiary);
+        }
+
+        .workflow-item.selected {
+          background: var(--accent-primary-light);
+          border-color: var(--accent-primary);
+        }
+
+        .workflow-item-key {
+          font-size: var(--text-sm);
+          color: var(--text-primary);
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .workflow-item-meta,
+        .workflows-note,
+        .workflows-empty {
+          font-size: var(--text-xs);
+          color: var(--text-tertiary);
+        }
+
+        .workflow-detail {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-4);
+          min-width: 0;
+        }
+
+        .workflow-summary {
+          display: grid;
+          grid-template-columns: 2fr repeat(3, 1fr);
+          gap: var(--space-4);
+          padding: var(--space-4);
+        }
+
+        .workflow-summary-item {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-1);
+          min-width: 0;
+          word-break: break-all;
+        }
+
+        .field-label {
+          font-size: var(--text-xs);
+          font-weight: var(--font-semibold);
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          color: var(--text-tertiary);
+        }
+
+        .workflow-timeline {
+          display: flex;
+          flex-direction: column;
+        }
+
+        .workflow-latency {
+          display: flex;
+          align-items: center;
+          gap: var(--space-1);
+          margin-left: var(--space-6);
+          padding: var(--space-2) var(--space-3);
+          border-left: 2px dashed var(--border-primary);
+          font-size: var(--text-xs);
+          color: var(--text-tertiary);
+        }
+
+        .workflow-step {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+          padding: var(--space-4);
+        }
+
+        .workflow-step-header {
+          display: flex;
+          align-items: center;
+          gap: var(--space-3);
+          flex-wrap: wrap;
+        }
+
+        .workflow-step-index {
+          font-weight: var(--font-semibold);
+          color: var(--text-primary);
+        }
+
+        .workflow-step-meta,
+        .workflow-step-command {
+          font-size: var(--text-xs);
+          color: var(--text-tertiary);
+        }
+
+        .workflow-step-meta {
+          margin-left: auto;
+        }
+
+        .workflow-flows {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+        }
+
+        .workflow-flow {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: var(--space-2);
+        }
+
+        .workflow-flow-label {
+          display: inline-flex;
+          align-items: center;
+          gap: var(--space-1);
+          width: 88px;
+          font-size: var(--text-xs);
+          color: var(--text-secondary);
+        }
+
+        .workflow-flow-entry {
+          display: inline-flex;
+          align-items: center;
+          gap: var(--space-1);
+        }
+
+        .workflow-contract {
+          display: inline-flex;
+          align-items: center;
+          gap: var(--space-2);
+          padding: 2px var(--space-2);
+          background: var(--bg-tertiary);
+          border-radius: var(--radius-md);
+          font-size: var(--text-xs);
+          color: var(--text-primary);
+          text-decoration: none;
+        }
+
+        .workflow-contract:hover {
+          background: var(--accent-primary-light);
+        }
+
+        .workflow-contract-template {
+          font-weight: var(--font-medium);
+        }
+
+        .workflow-results {
+          display: flex;
+          flex-wrap: wrap;
+          gap: var(--space-2);
+        }
+
+        .spin {
+          animation: spin 1s linear infinite;
+        }
+
+        @keyframes spin {
+          from { transform: rotate(0deg); }
+          to { transform: rotate(360deg); }
+        }
+      `}</style>
+        </div>
+    );
+}
+
+export default Workflows;
@@ -0,0 +1,364 @@
+/**
+ * Participant Authentication
+ *
+ * OAuth2 / OIDC token handling for the JSON Ledger API:
+ * - Authorization code flow with PKCE (browser redirect to the issuer)
+ * - Client credentials flow (service accounts)
+ * - Token refresh ahead of expiry
+ * - JWT decoding of the ledger claims: user ID, actAs/readAs, expiry
+ *
+ * Endpoints are discovered from the issuer's OpenID configuration unless
+ * given explicitly. Run `npm run mock-idp` for a local issuer to test against.
+ */
+
+import type { ConnectionConfig, LedgerTokenInfo, OAuthConfig, TokenSet } from '../types/canton';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface IssuerEndpoints {
+    authorizationEndpoint: string;
+    tokenEndpoint: string;
+}
+
+interface TokenResponse {
+    access_token: string;
+    refresh_token?: string;
+    id_token?: string;
+    expires_in?: number;
+}
+
+/** Login in progress, kept across the redirect to the issuer */
+interface PendingLogin {
+    state: string;
+    verifier: string;
+    redirectUri: string;
+    config: ConnectionConfig;
+    profileId?: string;
+}
+
+export class AuthError extends Error {
+    constructor(
+        message: string,
+        /** OAuth2 error code, e.g. invalid_grant */
+        public readonly code?: string
+    ) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+const PENDING_LOGIN_KEY = 'ledgerview-oauth-pending';
+/** Tokens are refreshed this long before they expire */
+const REFRESH_MARGIN_MS = 60_000;
+const MIN_REFRESH_DELAY_MS = 5_000;
+/** Custom claims namespace of Daml ledger tokens */
+const DAML_CLAIMS = 'https://daml.com/ledger-api';
+
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+// ============================================================================
+// JWT Decoding
+// ============================================================================
+
+function base64UrlDecode(value: string): string {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const bytes = Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+}
+
+/**
+ * Decode a JWT payload without verifying it; the participant verifies tokens.
+ * Returns null for anything that is not a JWT.
+ */
+export function decodeJwt(token: string): Record<string, unknown> | null {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+    try {
+        const payload = JSON.parse(base64UrlDecode(parts[1]));
+        return typeof payload === 'object' && payload !== null ? payload : null;
+    } catch {
+        return null;
+    }
+}
+
+const stringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+/**
+ * Read the ledger rights of an access token. Custom Daml tokens list actAs and
+ * readAs parties; user tokens only name the user, whose rights live on the
+ * participant (see /v2/users/{id}/rights).
+ */
+export function decodeLedgerToken(token: string): LedgerTokenInfo | null {
+    const claims = decodeJwt(token);
+    if (!claims) return null;
+
+    const seconds = (value: unknown) => (typeof value === 'number' ? value * 1000 : undefined);
+    const audience = typeof claims.aud === 'string' ? [claims.aud] : stringList(claims.aud);
+    const common = {
+        issuer: typeof claims.iss === 'string' ? claims.iss : undefined,
+        audience,
+        scope: typeof claims.scope === 'string' ? claims.scope : undefined,
+        expiresAt: seconds(claims.exp),
+        issuedAt: seconds(claims.iat),
+    };
+
+    const custom = (claims[DAML_CLAIMS] ?? null) as Record<string, unknown> | null;
+    if (custom && typeof custom === 'object') {
+        return {
+            ...common,
+            format: 'custom-daml',
+            userId: typeof custom.applicationId === 'string' ? custom.applicationId : undefined,
+            participantId: typeof custom.participantId === 'string' ? custom.participantId : undefined,
+            actAs: stringList(custom.actAs),
+            readAs: stringList(custom.readAs),
+            admin: custom.admin === true,
+        };
+    }
+
+    // Audience-based tokens name the participant as https://daml.com/jwt/aud/participant/<id>
+    const participantAudience = audience.find((a) => a.startsWith('https://daml.com/jwt/aud/participant/'));
+    return {
+        ...common,
+        format: 'user',
+        userId: typeof claims.sub === 'string' ? claims.sub : undefined,
+        participantId: participantAudience?.split('/').pop(),
+        actAs: [],
+        readAs: [],
+        admin: false,
+    };
+}
+
+// ============================================================================
+// Issuer Endpoints
+// ============================================================================
+
+const discoveredEndpoints = new Map<string, Promise<IssuerEndpoints>>();
+
+async function discover(issuer: string): Promise<IssuerEndpoints> {
+    const url = `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new AuthError(`OpenID discovery failed (${response.status}) at ${url}`);
+    }
+    const metadata = await response.json();
+    if (typeof metadata.token_endpoint !== 'string') {
+        throw new AuthError(`Issuer ${issuer} does not advertise a token endpoint`);
+    }
+    return {
+        authorizationEndpoint: metadata.authorization_endpoint,
+        tokenEndpoint: metadata.token_endpoint,
+    };
+}
+
+async function resolveEndpoints(oauth: OAuthConfig): Promise<IssuerEndpoints> {
+    if (oauth.tokenEndpoint && (oauth.authorizationEndpoint || oauth.flow === 'client-credentials')) {
+        return {
+            authorizationEndpoint: oauth.authorizationEndpoint ?? '',
+            tokenEndpoint: oauth.tokenEndpoint,
+        };
+    }
+
+    let endpoints = discoveredEndpoints.get(oauth.issuer);
+    if (!endpoints) {
+        endpoints = discover(oauth.issuer);
+        discoveredEndpoints.set(oauth.issuer, endpoints);
+        // A failed lookup is retried on the next attempt
+        endpoints.catch(() => discoveredEndpoints.delete(oauth.issuer));
+    }
+    const discovered = await endpoints;
+    return {
+        authorizationEndpoint: oauth.authorizationEndpoint ?? discovered.authorizationEndpoint,
+        tokenEndpoint: oauth.tokenEndpoint ?? discovered.tokenEndpoint,
+    };
+}
+
+// ============================================================================
+// Token Requests
+// ============================================================================
+
+async function tokenRequest(oauth: OAuthConfig, params: Record<string, string | undefined>): Promise<TokenSet> {
+    const { tokenEndpoint } = await resolveEndpoints(oauth);
+    const body = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value) body.set(key, value);
+    }
+
+    const response = await fetch(tokenEndpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body,
+    });
+    const text = await response.text();
+    let json: Partial<TokenResponse> & { error?: string; error_description?: string } = {};
+    try {
+        json = text ? JSON.parse(text) : {};
+    } catch {
+        // Non-JSON error pages are reported by status below
+    }
+
+    if (!response.ok || !json.access_token) {
+        throw new AuthError(
+            json.error_description || json.error || `Token request failed (${response.status})`,
+            json.error
+        );
+    }
+    return toTokenSet(json as TokenResponse);
+}
+
+function toTokenSet(response: TokenResponse): TokenSet {
+    const expiresAt = response.expires_in
+        ? Date.now() + response.expires_in * 1000
+        : decodeLedgerToken(response.access_token)?.expiresAt;
+    return {
+        accessToken: response.access_token,
+        refreshToken: response.refresh_token,
+        idToken: response.id_token,
+        expiresAt,
+    };
+}
+
+/**
+ * Obtain a token for a service account.
+ */
+export function requestClientCredentials(oauth: OAuthConfig): Promise<TokenSet> {
+    return tokenRequest(oauth, {
+        grant_type: 'client_credentials',
+        client_id: oauth.clientId,
+        client_secret: oauth.clientSecret,
+        audience: oauth.audience,
+        scope: oauth.scope,
+    });
+}
+
+/**
+ * Obtain fresh tokens before the current ones expire. Client credentials are
+ * simply requested again; other flows need a refresh token.
+ */
+export function refreshTokens(oauth: OAuthConfig, tokens: TokenSet): Promise<TokenSet> {
+    if (tokens.refreshToken) {
+        return tokenRequest(oauth, {
+            grant_type: 'refresh_token',
+            refresh_token: tokens.refreshToken,
+            client_id: oauth.clientId,
+            client_secret: oauth.clientSecret,
+            scope: oauth.scope,
+        }).then((refreshed) => ({
+            ...refreshed,
+            // Issuers may keep the refresh token and omit it from the response
+            refreshToken: refreshed.refreshToken ?? tokens.refreshToken,
+        }));
+    }
+    if (oauth.flow === 'client-credentials') {
+        return requestClientCredentials(oauth);
+    }
+    return Promise.reject(new AuthError('Session expired: the issuer did not provide a refresh token'));
+}
+
+/**
+ * Milliseconds until the tokens should be refreshed, or null when they do not
+ * expire.
+ */
+export function refreshDelay(tokens: TokenSet): number | null {
+    if (!tokens.expiresAt) return null;
+    return Math.max(MIN_REFRESH_DELAY_MS, tokens.expiresAt - Date.now() - REFRESH_MARGIN_MS);
+}
+
+// ============================================================================
+// Authorization Code + PKCE
+// ============================================================================
+
+function randomString(byteLength: number): string {
+    return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+async function pkceChallenge(verifier: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+    return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Redirect the browser to the issuer's login page. The login completes on
+ * AUTH_CALLBACK_PATH with completeAuthorization().
+ */
+export async function beginAuthorization(config: ConnectionConfig, profileId?: string): Promise<never> {
+    const oauth = config.oauth;
+    if (!oauth) throw new AuthError('No OAuth configuration');
+
+    const { authorizationEndpoint } = await resolveEndpoints(oauth);
+    if (!authorizationEndpoint) {
+        throw new AuthError(`Issuer ${oauth.issuer} does not advertise an authorization endpoint`);
+    }
+
+    const pending: PendingLogin = {
+        state: randomString(16),
+        verifier: randomString(32),
+        redirectUri: `${window.location.origin}${AUTH_CALLBACK_PATH}`,
+        config: { ...config, authToken: undefined },
+        profileId,
+    };
+    sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+
+    const url = new URL(authorizationEndpoint);
+    url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: oauth.clientId,
+        redirect_uri: pending.redirectUri,
+        scope: oauth.scope || 'openid offline_access',
+        state: pending.state,
+        code_challenge: await pkceChallenge(pending.verifier),
+        code_challenge_method: 'S256',
+        ...(oauth.audience && { audience: oauth.audience }),
+    }).toString();
+
+    window.location.assign(url.toString());
+    // The page unloads; never resolve
+    return new Promise<never>(() => {});
+}
+
+/**
+ * Exchange the authorization code the issuer redirected back with.
+ */
+export async function completeAuthorization(
+    search: string
+): Promise<{ config: ConnectionConfig; tokens: TokenSet; profileId?: string }> {
+    const params = new URLSearchParams(search);
+    const stored = sessionStorage.getItem(PENDING_LOGIN_KEY);
+    sessionStorage.removeItem(PENDING_LOGIN_KEY);
+
+    const error = params.get('error');
+    if (error) {
+        throw new AuthError(params.get('error_description') || error, error);
+    }
+    if (!stored) {
+        throw new AuthError('No login in progress; start again from the connection page');
+    }
+
+    const pending = JSON.parse(stored) as PendingLogin;
+    if (params.get('state') !== pending.state) {
+        throw new AuthError('Login response does not match the request (state mismatch)');
+    }
+    const code = params.get('code');
+    if (!code || !pending.config.oauth) {
+        throw new AuthError('The issuer returned no authorization code');
+    }
+
+    const tokens = await tokenRequest(pending.config.oauth, {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: pending.redirectUri,
+        client_id: pending.config.oauth.clientId,
+        code_verifier: pending.verifier,
+    });
+    return { config: pending.config, tokens, profileId: pending.profileId };
+}
@@ -10,20 +10,42 @@
 import type {
     Party,
     PartyId,
+    PartySet,
+    AllocatePartyOptions,
+    PartyDetailsUpdate,
     Contract,
     ContractId,
     TemplateId,
     Package,
     PackageId,
+    UploadDarOptions,
+    VettingState,
     Transaction,
     TransactionTree,
     TransactionFilter,
+    IdentifierFilter,
     LedgerOffset,
     LedgerEnd,
     ConnectionConfig,
     ConnectionStatus,
     CreatedEvent,
+    ArchivedEvent,
+    ExercisedEvent,
+    ContractLifecycle,
+    Command,
+    CommandCompletion,
+    CommandOptions,
+    CommandSubmission,
+    StreamErrorMessage,
+    StreamStatus,
+    UpdateStreamItem,
+    Page,
+    PageOptions,
+    PageToken,
+    LedgerUser,
+    UserRight,
 } from '../types/canton';
+import { LedgerStream, LedgerStreamError } from './ledgerStream';
 
 // ============================================================================
 // API Response Types (internal)
@@ -35,6 +57,8 @@ interface ActiveContractsStreamItem {
     contractEntry?: {
         createdEvent?: CreatedEvent;
     };
+    /** Resume point after this entry (Canton 3.5+) */
+    streamContinuationToken?: string;
 }
 
 interface TransactionsStreamItem {
@@ -42,6 +66,181 @@ interface TransactionsStreamItem {
     transactionTree?: TransactionTree;
 }
 
+interface UpdatesStreamMessage {
+    update?: {
+        Transaction?: { value: Transaction };
+        OffsetCheckpoint?: { value: { offset: LedgerOffset } };
+    };
+    transaction?: Transaction;
+}
+
+interface StreamCallbacks<T> {
+    onItem: (item: T) => void;
+    onStatus?: (status: StreamStatus, error?: string) => void;
+    onComplete?: () => void;
+}
+
+interface ContractEventsResponse {
+    created?: CreatedEvent;
+    archived?: ArchivedEvent;
+}
+
+interface PartyDetailsResponse {
+    party: PartyId;
+    isLocal?: boolean;
+    identityProviderId?: string;
+    localMetadata?: {
+        resourceVersion?: string;
+        annotations?: Record<string, string>;
+    };
+}
+
+/** Right as encoded by the API: { kind: { CanActAs: { value: { party } } } } */
+interface RightResponse {
+    kind?: Record<string, { value?: { party?: PartyId } }>;
+}
+
+interface UserResponse {
+    id: string;
+    primaryParty?: PartyId;
+    isDeactivated?: boolean;
+    identityProviderId?: string;
+    metadata?: {
+        resourceVersion?: string;
+        annotations?: Record<string, string>;
+    };
+}
+
+interface VettedPackagesResponse {
+    participantId: string;
+    synchronizerId: string;
+    packages?: Array<{
+        packageId: string;
+        packageName?: string;
+        packageVersion?: string;
+        validFromInclusive?: string;
+        validUntilExclusive?: string;
+    }>;
+}
+
+interface CompletionStreamItem {
+    completionResponse?: {
+        Completion?: {
+            value: {
+                commandId: string;
+                userId: string;
+                actAs?: PartyId[];
+                submissionId?: string;
+                status?: { code: number; message: string };
+                updateId?: string;
+                offset: LedgerOffset;
+                synchronizerTime?: { synchronizerId: string; recordTime?: string };
+                paidTrafficCost?: number;
+            };
+        };
+    };
+}
+
+/** Decoded form of a PageToken */
+interface PageCursor {
+    /** Snapshot offset (ACS) or upper end of the update window */
+    offset: LedgerOffset;
+    /** ACS continuation token, or the next exclusive bound for updates */
+    cursor: string | LedgerOffset;
+    /** Offset span to search for the next page of a descending update query */
+    window?: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Parties have no display name field in the v2 API; LedgerView keeps it in
+ * the party's local metadata under this annotation.
+ */
+export const DISPLAY_NAME_ANNOTATION = 'ledgerview/display-name';
+
+/** Requests one descending update page may issue before handing back a token */
+const MAX_WINDOW_REQUESTS = 16;
+
+/** Streams read over HTTP (the completion stream never ends) return once idle this long */
+const STREAM_IDLE_MS = 1000;
+
+/** Transaction trees read per request while scanning a contract's lifecycle */
+const LIFECYCLE_PAGE_SIZE = 200;
+/** Trees scanned at most per lifecycle; longer lifecycles are cut off */
+const MAX_LIFECYCLE_TREES = 5000;
+
+function encodePageToken(cursor: PageCursor): PageToken {
+    return btoa(JSON.stringify(cursor));
+}
+
+function decodePageToken(token: PageToken | undefined): PageCursor | null {
+    if (!token) return null;
+    try {
+        return JSON.parse(atob(token)) as PageCursor;
+    } catch {
+        throw new CantonAPIError(400, 'Invalid page token', 'pageToken');
+    }
+}
+
+function parseRight(right: RightResponse): UserRight[] {
+    const [kind, body] = Object.entries(right.kind ?? {})[0] ?? [];
+    switch (kind) {
+        case 'CanActAs':
+        case 'CanReadAs':
+        case 'CanExecuteAs':
+            return body?.value?.party ? [{ kind, party: body.value.party }] : [];
+        case 'CanReadAsAnyParty':
+        case 'CanExecuteAsAnyParty':
+        case 'ParticipantAdmin':
+        case 'IdentityProviderAdmin':
+            return [{ kind }];
+        default:
+            return [];
+    }
+}
+
+function encodeRight(right: UserRight): RightResponse {
+    return {
+        kind: { [right.kind]: { value: 'party' in right ? { party: right.party } : {} } },
+    };
+}
+
+function toUser(user: UserResponse): LedgerUser {
+    return {
+        id: user.id,
+        primaryParty: user.primaryParty || undefined,
+        isDeactivated: user.isDeactivated,
+        identityProviderId: user.identityProviderId || undefined,
+    };
+}
+
+function toVettingState(state: VettedPackagesResponse): VettingState {
+    return {
+        participantId: state.participantId,
+        synchronizerId: state.synchronizerId,
+        packages: (state.packages || []).map((pkg) => ({
+            packageId: pkg.packageId,
+            packageName: pkg.packageName || undefined,
+            packageVersion: pkg.packageVersion || undefined,
+            validFrom: pkg.validFromInclusive || undefined,
+            validUntil: pkg.validUntilExclusive || undefined,
+        })),
+    };
+}
+
+function toParty(details: PartyDetailsResponse): Party {
+    const { [DISPLAY_NAME_ANNOTATION]: displayName, ...annotations } = details.localMetadata?.annotations ?? {};
+    return {
+        partyId: details.party,
+        displayName: displayName || undefined,
+        isLocal: details.isLocal ?? false,
+        identityProviderId: details.identityProviderId || undefined,
+        annotations,
+        resourceVersion: details.localMetadata?.resourceVersion,
+    };
+}
+
 // ============================================================================
 // Canton Client Class
 // ============================================================================
@@ -49,15 +248,29 @@ interface TransactionsStreamItem {
 export class CantonClient {
     private endpoint: string;
     private headers: HeadersInit;
+    private authToken?: string;
 
     constructor(config: ConnectionConfig) {
         this.endpoint = config.endpoint.replace(/\/$/, ''); // Remove trailing slash
+        this.authToken = config.authToken;
         this.headers = {
             'Content-Type': 'application/json',
             ...(config.authToken && { Authorization: `Bearer ${config.authToken}` }),
         };
     }
 
+    /**
+     * Replace the bearer token, e.g. after an OAuth refresh. Open streams pick
+     * it up when they reconnect.
+     */
+    setAuthToken(authToken: string | undefined): void {
+        this.authToken = authToken;
+        this.headers = {
+            'Content-Type': 'application/json',
+            ...(authToken && { Authorization: `Bearer ${authToken}` }),
+        };
+    }
+
     // ==========================================================================
     // Private Helpers
     // ==========================================================================
@@ -75,17 +288,7 @@ export class CantonClient {
             },
         });
 
-        if (!response.ok) {
-            const errorBody = await response.text();
-            let errorMessage: string;
-            try {
-                const errorJson = JSON.parse(errorBody);
-                errorMessage = errorJson.message || errorJson.error || errorBody;
-            } catch {
-                errorMessage = errorBody || response.statusText;
-            }
-            throw new CantonAPIError(response.status, errorMessage, path);
-        }
+        await this.ensureOk(response, path);
 
         const text = await response.text();
         if (!text) {
@@ -94,6 +297,33 @@ export class CantonClient {
         return JSON.parse(text);
     }
 
+    private async ensureOk(response: Response, path: string): Promise<void> {
+        if (response.ok) {
+            return;
+        }
+        const errorBody = await response.text();
+        let errorMessage: string;
+        try {
+            const errorJson = JSON.parse(errorBody);
+            errorMessage = errorJson.message || errorJson.error || errorBody;
+        } catch {
+            errorMessage = errorBody || response.statusText;
+        }
+        throw new CantonAPIError(response.status, errorMessage, path);
+    }
+
+    private async getBytes(path: string): Promise<Uint8Array> {
+        const response = await fetch(`${this.endpoint}${path}`, {
+            method: 'GET',
+            headers: {
+                ...this.headers,
+                Accept: 'application/octet-stream',
+            },
+        });
+        await this.ensureOk(response, path);
+        return new Uint8Array(await response.arrayBuffer());
+    }
+
     private async get<T>(path: string): Promise<T> {
         return this.request<T>(path, { method: 'GET' });
     }
@@ -105,6 +335,13 @@ export class CantonClient {
         });
     }
 
+    private async patch<T>(path: string, body: unknown): Promise<T> {
+        return this.request<T>(path, {
+            method: 'PATCH',
+            body: JSON.stringify(body),
+        });
+    }
+
     // ==========================================================================
     // Connection & Health
     // ==========================================================================
@@ -116,6 +353,24 @@ export class CantonClient {
         return this.get<LedgerEnd>('/v2/state/ledger-end');
     }
 
+    /**
+     * Offset up to which the participant has pruned its update history; 0
+     * when nothing was pruned or the participant does not report it.
+     */
+    async getPrunedOffset(): Promise<LedgerOffset> {
+        try {
+            const response = await this.get<{ participantPrunedUpToInclusive?: LedgerOffset }>(
+                '/v2/state/latest-pruned-offsets'
+            );
+            return response.participantPrunedUpToInclusive ?? 0;
+        } catch (error) {
+            if (error instanceof CantonAPIError && error.status === 404) {
+                return 0;
+            }
+            throw error;
+        }
+    }
+
     /**
      * Get the current connection status.
      */
@@ -144,8 +399,34 @@ export class CantonClient {
      * Get all parties known to this participant.
      */
     async getParties(): Promise<Party[]> {
-        const response = await this.get<{ partyDetails: Party[] }>('/v2/parties');
-        return response.partyDetails || [];
+        const parties: Party[] = [];
+        let pageToken = '';
+        do {
+            const response = await this.get<{ partyDetails?: PartyDetailsResponse[]; nextPageToken?: string }>(
+                `/v2/parties${pageToken ? `?pageToken=${encodeURIComponent(pageToken)}` : ''}`
+            );
+            parties.push(...(response.partyDetails || []).map(toParty));
+            pageToken = response.nextPageToken ?? '';
+        } while (pageToken);
+        return parties;
+    }
+
+    /**
+     * Get the current details of a party, or null if it is unknown.
+     */
+    async getParty(partyId: PartyId): Promise<Party | null> {
+        try {
+            const response = await this.get<{ partyDetails?: PartyDetailsResponse[] }>(
+                `/v2/parties/${encodeURIComponent(partyId)}`
+            );
+            const details = response.partyDetails?.[0];
+            return details ? toParty(details) : null;
+        } catch (error) {
+            if (error instanceof CantonAPIError && error.status === 404) {
+                return null;
+            }
+            throw error;
+        }
     }
 
     /**
@@ -153,13 +434,164 @@ export class CantonClient {
      */
     async allocateParty(
         partyIdHint: string,
-        displayName?: string
+        options: AllocatePartyOptions = {}
     ): Promise<Party> {
-        return this.post<Party>('/v2/parties', {
+        const annotations = {
+            ...options.annotations,
+            ...(options.displayName && { [DISPLAY_NAME_ANNOTATION]: options.displayName }),
+        };
+        const response = await this.post<{ partyDetails: PartyDetailsResponse }>('/v2/parties', {
             partyIdHint,
-            displayName: displayName || partyIdHint,
-            identityProviderId: '',
+            localMetadata: { annotations },
+            identityProviderId: options.identityProviderId ?? '',
+            synchronizerId: options.synchronizerId || undefined,
+            userId: options.userId || undefined,
+        });
+        return toParty(response.partyDetails);
+    }
+
+    /**
+     * Update a party's display name and annotations.
+     */
+    async updatePartyDetails(
+        party: Party,
+        update: PartyDetailsUpdate
+    ): Promise<Party> {
+        const annotations = {
+            ...update.annotations,
+            ...(update.displayName !== undefined && { [DISPLAY_NAME_ANNOTATION]: update.displayName }),
+        };
+        const response = await this.patch<{ partyDetails: PartyDetailsResponse }>(
+            `/v2/parties/${encodeURIComponent(party.partyId)}`,
+            {
+                partyDetails: {
+                    party: party.partyId,
+                    isLocal: party.isLocal,
+                    identityProviderId: party.identityProviderId ?? '',
+                    localMetadata: {
+                        resourceVersion: update.resourceVersion ?? '',
+                        annotations,
+                    },
+                },
+                updateMask: { paths: ['local_metadata.annotations'] },
+            }
+        );
+        return toParty(response.partyDetails);
+    }
+
+    /**
+     * Get the ID of the participant node serving this Ledger API.
+     */
+    async getParticipantId(): Promise<string> {
+        const response = await this.get<{ participantId: string }>('/v2/parties/participant-id');
+        return response.participantId;
+    }
+
+    // ==========================================================================
+    // User Management
+    // ==========================================================================
+
+    /**
+     * Get the user the auth token belongs to, or null when the participant
+     * runs without user-based auth.
+     */
+    async getAuthenticatedUser(): Promise<LedgerUser | null> {
+        try {
+            const response = await this.get<{ user?: UserResponse }>('/v2/authenticated-user');
+            return response.user ? toUser(response.user) : null;
+        } catch (error) {
+            if (error instanceof CantonAPIError && error.status < 500) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * List the rights granted to a user.
+     */
+    async getUserRights(userId: string): Promise<UserRight[]> {
+        const response = await this.get<{ rights?: RightResponse[] }>(
+            `/v2/users/${encodeURIComponent(userId)}/rights`
+        );
+        return (response.rights || []).flatMap(parseRight);
+    }
+
+    /**
+     * List all users of the participant.
+     */
+    async listUsers(): Promise<LedgerUser[]> {
+        const users: LedgerUser[] = [];
+        let pageToken = '';
+        do {
+            const response = await this.get<{ users?: UserResponse[]; nextPageToken?: string }>(
+                `/v2/users${pageToken ? `?pageToken=${encodeURIComponent(pageToken)}` : ''}`
+            );
+            users.push(...(response.users || []).map(toUser));
+            pageToken = response.nextPageToken ?? '';
+        } while (pageToken);
+        return users;
+    }
+
+    /**
+     * Create a user, optionally with initial rights.
+     */
+    async createUser(user: LedgerUser, rights: UserRight[] = []): Promise<LedgerUser> {
+        const response = await this.post<{ user: UserResponse }>('/v2/users', {
+            user: {
+                id: user.id,
+                primaryParty: user.primaryParty ?? '',
+                isDeactivated: user.isDeactivated ?? false,
+                identityProviderId: user.identityProviderId ?? '',
+            },
+            rights: rights.map(encodeRight),
+        });
+        return toUser(response.user);
+    }
+
+    /**
+     * Delete a user and all its rights.
+     */
+    async deleteUser(userId: string): Promise<void> {
+        await this.request(`/v2/users/${encodeURIComponent(userId)}`, { method: 'DELETE' });
+    }
+
+    /**
+     * Set (or, with undefined, clear) a user's primary party.
+     */
+    async updateUserPrimaryParty(user: LedgerUser, primaryParty: PartyId | undefined): Promise<LedgerUser> {
+        const response = await this.patch<{ user: UserResponse }>(`/v2/users/${encodeURIComponent(user.id)}`, {
+            user: {
+                id: user.id,
+                primaryParty: primaryParty ?? '',
+                isDeactivated: user.isDeactivated ?? false,
+                identityProviderId: user.identityProviderId ?? '',
+            },
+            updateMask: { paths: ['primary_party'] },
         });
+        return toUser(response.user);
+    }
+
+    /**
+     * Grant rights to a user; returns the rights it did not have before.
+     */
+    async grantUserRights(userId: string, rights: UserRight[]): Promise<UserRight[]> {
+        const response = await this.post<{ newlyGrantedRights?: RightResponse[] }>(
+            `/v2/users/${encodeURIComponent(userId)}/rights`,
+            { userId, rights: rights.map(encodeRight) }
+        );
+        return (response.newlyGrantedRights || []).flatMap(parseRight);
+    }
+
+    /**
+     * Revoke rights from a user; returns the rights it actually had.
+     */
+    async revokeUserRights(userId: string, rights: UserRight[]): Promise<UserRight[]> {
+        const response = await this.patch<{ newlyRevokedRights?: RightResponse[] }>(
+            `/v2/users/${encodeURIComponent(userId)}/rights`,
+            { userId, rights: rights.map(encodeRight) }
+        );
+        return (response.newlyRevokedRights || []).flatMap(parseRight);
     }
 
     // ==========================================================================
@@ -167,17 +599,19 @@ export class CantonClient {
     // ==========================================================================
 
     /**
-     * Get all active contracts for a party, optionally filtered by template.
+     * Get all active contracts visible to the given parties, optionally filtered
+     * by template or by implemented interface.
      */
     async getActiveContracts(
-        partyId: PartyId,
+        parties: PartySet,
         options: {
             templateIds?: TemplateId[];
+            interfaceIds?: TemplateId[];
             offset?: LedgerOffset;
             verbose?: boolean;
         } = {}
     ): Promise<Contract[]> {
-        const filter = this.buildTransactionFilter(partyId, options.templateIds);
+        const filter = this.buildTransactionFilter(parties, options.templateIds, options.interfaceIds);
 
         const request = {
             filter,
@@ -196,51 +630,177 @@ export class CantonClient {
         for (const item of response) {
             if (item.contractEntry?.createdEvent) {
                 const event = item.contractEntry.createdEvent;
-                contracts.push(this.eventToContract(event, item.offset));
+                contracts.push(createdEventToContract(event, item.offset));
             }
         }
 
         return contracts;
     }
 
+    /**
+     * Get one page of the active contracts at a fixed offset. The first page
+     * pins the snapshot offset (ledger end unless given); the returned token
+     * keeps later pages on the same snapshot.
+     *
+     * Participants before Canton 3.5 return no continuation tokens: the first
+     * page is then marked `truncated` when more contracts exist.
+     */
+    async getActiveContractsPage(
+        parties: PartySet,
+        options: PageOptions & {
+            templateIds?: TemplateId[];
+            interfaceIds?: TemplateId[];
+            offset?: LedgerOffset;
+        } = {}
+    ): Promise<Page<Contract>> {
+        const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+        const token = decodePageToken(options.pageToken);
+        const offset = token?.offset ?? options.offset ?? (await this.ping()).offset;
+
+        const response = await this.post<ActiveContractsStreamItem[]>(
+            `/v2/state/active-contracts?limit=${pageSize}`,
+            {
+                filter: this.buildTransactionFilter(parties, options.templateIds, options.interfaceIds),
+                verbose: true,
+                activeAtOffset: offset,
+                streamContinuationToken: token?.cursor,
+            }
+        );
+
+        const items: Contract[] = [];
+        for (const item of response) {
+            if (item.contractEntry?.createdEvent) {
+                items.push(createdEventToContract(item.contractEntry.createdEvent, item.offset));
+            }
+        }
+
+        const full = response.length >= pageSize;
+        const cursor = response[response.length - 1]?.streamContinuationToken;
+        return {
+            items,
+            offset,
+            nextPageToken: full && cursor ? encodePageToken({ offset, cursor }) : undefined,
+            truncated: full && !cursor ? true : undefined,
+        };
+    }
+
     /**
      * Get a specific contract by ID.
      */
     async getContract(
         contractId: ContractId,
-        partyId: PartyId
+        parties: PartySet
     ): Promise<Contract | null> {
+        const events = await this.getContractEvents(contractId, parties);
+        if (events.created) {
+            return createdEventToContract(events.created, events.created.offset);
+        }
+        return null;
+    }
+
+    /**
+     * Get the create and (if any) archive event of a contract.
+     */
+    async getContractEvents(
+        contractId: ContractId,
+        parties: PartySet
+    ): Promise<ContractEventsResponse> {
         // Use event query service to find the contract
         try {
-            const response = await this.post<{ created?: CreatedEvent }>(
-                '/v2/events/contract',
-                {
-                    contractId,
-                    requestingParties: [partyId],
-                }
-            );
-
-            if (response.created) {
-                return this.eventToContract(response.created, response.created.offset);
-            }
-            return null;
+            return await this.post<ContractEventsResponse>('/v2/events/contract', {
+                contractId,
+                requestingParties: partyList(parties),
+            });
         } catch (error) {
             if (error instanceof CantonAPIError && error.status === 404) {
-                return null;
+                return {};
             }
             throw error;
         }
     }
 
+    /**
+     * Get the full lifecycle of a contract: its create, every choice exercised
+     * on it and its archive.
+     *
+     * Exercises are not indexed by contract, so the transaction trees between
+     * the create and the archive are scanned for events on this contract, page
+     * by page, up to MAX_LIFECYCLE_TREES.
+     */
+    async getContractLifecycle(
+        contractId: ContractId,
+        parties: PartySet
+    ): Promise<ContractLifecycle | null> {
+        const { created, archived } = await this.getContractEvents(contractId, parties);
+        if (!created) {
+            return null;
+        }
+
+        const end = archived?.offset ?? (await this.ping()).offset;
+        const exercises: ExercisedEvent[] = [];
+        const updates: ContractLifecycle['updates'] = {};
+        let begin = created.offset - 1;
+        let scanned = 0;
+        let consumed = false;
+
+        let complete = false;
+
+        while (begin < end && !consumed && scanned < MAX_LIFECYCLE_TREES) {
+            const trees = await this.getTransactionTrees(parties, {
+                templateIds: [created.templateId],
+                beginOffset: begin,
+                endOffset: end,
+                limit: LIFECYCLE_PAGE_SIZE,
+            });
+
+            for (const tree of trees) {
+                const events = Object.values(tree.eventsById || {}).filter(
+                    (event) => event.contractId === contractId
+                );
+                if (events.length === 0) continue;
+
+                updates[tree.offset] = {
+                    updateId: tree.updateId,
+                    effectiveAt: tree.effectiveAt,
+                    commandId: tree.commandId,
+                    workflowId: tree.workflowId,
+                };
+                for (const event of events) {
+                    if (event.type === 'exercised') {
+                        exercises.push(event);
+                        // Nothing happens to a contract after its consuming exercise
+                        consumed ||= event.consuming;
+                    }
+                }
+            }
+
+            scanned += trees.length;
+            complete = trees.length < LIFECYCLE_PAGE_SIZE;
+            if (complete) break;
+            begin = trees[trees.length - 1].offset;
+        }
+
+        exercises.sort((a, b) => a.offset - b.offset || a.nodeId - b.nodeId);
+
+        return {
+            contractId,
+            createdEvent: created,
+            exercises,
+            archivedEvent: archived,
+            updates,
+            scannedTo: complete || consumed || begin >= end ? undefined : begin,
+        };
+    }
+
     // ==========================================================================
     // Transaction Service
     // ==========================================================================
 
     /**
-     * Get transactions for a party within an offset range.
+     * Get transactions visible to the given parties within an offset range.
      */
     async getTransactions(
-        partyId: PartyId,
+        parties: PartySet,
         options: {
             templateIds?: TemplateId[];
             beginOffset?: LedgerOffset;
@@ -248,7 +808,7 @@ export class CantonClient {
             limit?: number;
         } = {}
     ): Promise<Transaction[]> {
-        const filter = this.buildTransactionFilter(partyId, options.templateIds);
+        const filter = this.buildTransactionFilter(parties, options.templateIds);
 
         const request = {
             filter,
@@ -258,7 +818,7 @@ export class CantonClient {
         };
 
         const response = await this.post<TransactionsStreamItem[]>(
-            '/v2/updates/transactions',
+            this.withLimit('/v2/updates/transactions', options.limit, STREAM_IDLE_MS),
             request
         );
 
@@ -269,16 +829,102 @@ export class CantonClient {
             }
         }
 
-        return options.limit
-            ? transactions.slice(0, options.limit)
-            : transactions;
+        return transactions;
+    }
+
+    /**
+     * Get one page of transactions in the offset window
+     * (beginOffset, endOffset]. The window end defaults to the ledger end at
+     * the first page and is kept by the returned token, so pages stay stable
+     * while the ledger grows.
+     *
+     * Ascending pages continue after the last offset returned. The ledger only
+     * serves updates oldest first, so descending pages search offset windows
+     * backwards from the end: sparse windows are widened, and within a dense
+     * window only its newest transactions are kept.
+     */
+    async getTransactionsPage(
+        parties: PartySet,
+        options: PageOptions & {
+            templateIds?: TemplateId[];
+            beginOffset?: LedgerOffset;
+            endOffset?: LedgerOffset;
+            order?: 'asc' | 'desc';
+        } = {}
+    ): Promise<Page<Transaction>> {
+        const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+        const floor = options.beginOffset ?? 0;
+        const token = decodePageToken(options.pageToken);
+        const end = token?.offset ?? options.endOffset ?? (await this.ping()).offset;
+        const fetchWindow = (begin: LedgerOffset, upper: LedgerOffset, limit: number) =>
+            this.getTransactions(parties, {
+                templateIds: options.templateIds,
+                beginOffset: begin,
+                endOffset: upper,
+                limit,
+            });
+
+        if (options.order !== 'desc') {
+            const begin = token ? Number(token.cursor) : floor;
+            const items = begin < end ? await fetchWindow(begin, end, pageSize) : [];
+            const last = items[items.length - 1]?.offset;
+            return {
+                items,
+                offset: end,
+                nextPageToken: items.length >= pageSize && last < end
+                    ? encodePageToken({ offset: end, cursor: last })
+                    : undefined,
+            };
+        }
+
+        // Newest `limit` transactions in (begin, upper], walking forward
+        // through a window that holds more than that
+        const newestInWindow = async (begin: LedgerOffset, upper: LedgerOffset, limit: number) => {
+            let items = await fetchWindow(begin, upper, limit);
+            while (items.length >= limit && items[items.length - 1].offset < upper) {
+                const newer = await fetchWindow(items[items.length - 1].offset, upper, limit);
+                items = [...items, ...newer].slice(-limit);
+            }
+            return items;
+        };
+
+        const collected: Transaction[] = [];
+        let upper = token ? Number(token.cursor) : end;
+        let window = token?.window ?? pageSize * 10;
+        for (let requests = 0; collected.length < pageSize && upper > floor && requests < MAX_WINDOW_REQUESTS; requests++) {
+            const begin = Math.max(floor, upper - window);
+            const need = pageSize - collected.length;
+            const chunk = await newestInWindow(begin, upper, need);
+            collected.unshift(...chunk);
+
+            if (chunk.length >= need) {
+                // Dense: the next page starts just below the oldest one kept
+                window = Math.max(1, upper - chunk[0].offset + 1);
+                upper = chunk[0].offset - 1;
+            } else {
+                // Sparse: size the next window from the density seen so far
+                const missing = need - chunk.length;
+                window = chunk.length > 0
+                    ? Math.min(window * 16, Math.ceil((window * missing * 1.25) / chunk.length))
+                    : window * 4;
+                upper = begin;
+            }
+        }
+
+        return {
+            items: collected.reverse(),
+            offset: end,
+            nextPageToken: upper > floor
+                ? encodePageToken({ offset: end, cursor: upper, window })
+                : undefined,
+        };
     }
 
     /**
      * Get transaction trees (with full event hierarchy).
      */
     async getTransactionTrees(
-        partyId: PartyId,
+        parties: PartySet,
         options: {
             templateIds?: TemplateId[];
             beginOffset?: LedgerOffset;
@@ -286,7 +932,7 @@ export class CantonClient {
             limit?: number;
         } = {}
     ): Promise<TransactionTree[]> {
-        const filter = this.buildTransactionFilter(partyId, options.templateIds);
+        const filter = this.buildTransactionFilter(parties, options.templateIds);
 
         const request = {
             filter,
@@ -296,7 +942,7 @@ export class CantonClient {
         };
 
         const response = await this.post<TransactionsStreamItem[]>(
-            '/v2/updates/transaction-trees',
+            this.withLimit('/v2/updates/transaction-trees', options.limit, STREAM_IDLE_MS),
             request
         );
 
@@ -307,7 +953,7 @@ export class CantonClient {
             }
         }
 
-        return options.limit ? trees.slice(0, options.limit) : trees;
+        return trees;
     }
 
     /**
@@ -315,12 +961,12 @@ export class CantonClient {
      */
     async getTransaction(
         updateId: string,
-        partyId: PartyId
+        parties: PartySet
     ): Promise<Transaction | null> {
         try {
             return await this.post<Transaction>('/v2/updates/transaction-by-id', {
                 updateId,
-                requestingParties: [partyId],
+                requestingParties: partyList(parties),
             });
         } catch (error) {
             if (error instanceof CantonAPIError && error.status === 404) {
@@ -330,6 +976,235 @@ export class CantonClient {
         }
     }
 
+    /**
+     * Get a single transaction tree (with full event hierarchy) by update ID.
+     */
+    async getTransactionTree(
+        updateId: string,
+        parties: PartySet
+    ): Promise<TransactionTree | null> {
+        try {
+            const response = await this.get<{ transaction?: TransactionTree }>(
+                `/v2/updates/transaction-tree-by-id/${encodeURIComponent(updateId)}?${partyList(parties).map((party) => `parties=${encodeURIComponent(party)}`).join('&')}`
+            );
+            return response.transaction ?? null;
+        } catch (error) {
+            if (error instanceof CantonAPIError && error.status === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    // ==========================================================================
+    // Streaming (WebSocket)
+    // ==========================================================================
+
+    /**
+     * Stream transactions as they are committed. `beginExclusive` is read on
+     * every (re)connect so the stream resumes where it left off.
+     */
+    streamUpdates(
+        parties: PartySet,
+        options: {
+            beginExclusive: () => LedgerOffset;
+            templateIds?: TemplateId[];
+        },
+        callbacks: StreamCallbacks<UpdateStreamItem>
+    ): LedgerStream<UpdateStreamItem> {
+        const filter = this.buildTransactionFilter(parties, options.templateIds);
+
+        return new LedgerStream<UpdateStreamItem>({
+            url: this.streamUrl('/v2/updates'),
+            protocols: () => this.streamProtocols(),
+            buildRequest: () => ({
+                filter,
+                beginExclusive: options.beginExclusive(),
+                verbose: true,
+            }),
+            parse: (message) => {
+                const item = this.checkStreamMessage<UpdatesStreamMessage>(message);
+                const checkpoint = item.update?.OffsetCheckpoint?.value;
+                if (checkpoint) {
+                    return [{ type: 'checkpoint', offset: checkpoint.offset }];
+                }
+                const transaction = item.update?.Transaction?.value ?? item.transaction;
+                return transaction ? [{ type: 'transaction', transaction }] : [];
+            },
+            resumeOnClose: true,
+            ...callbacks,
+        }).start();
+    }
+
+    /**
+     * Stream the active contract set at an offset. The server closes the
+     * stream once the snapshot is complete; a reconnect replays it from the
+     * start.
+     */
+    streamActiveContracts(
+        parties: PartySet,
+        options: {
+            offset: LedgerOffset;
+            templateIds?: TemplateId[];
+            /** Reconnects before the stream closes with an error */
+            maxRetries?: number;
+        },
+        callbacks: StreamCallbacks<Contract>
+    ): LedgerStream<Contract> {
+        const filter = this.buildTransactionFilter(parties, options.templateIds);
+
+        return new LedgerStream<Contract>({
+            url: this.streamUrl('/v2/state/active-contracts'),
+            protocols: () => this.streamProtocols(),
+            buildRequest: () => ({
+                filter,
+                verbose: true,
+                activeAtOffset: options.offset,
+            }),
+            parse: (message) => {
+                const item = this.checkStreamMessage<ActiveContractsStreamItem>(message);
+                const event = item.contractEntry?.createdEvent;
+                return event ? [createdEventToContract(event, item.offset)] : [];
+            },
+            maxRetries: options.maxRetries,
+            ...callbacks,
+        }).start();
+    }
+
+    // ==========================================================================
+    // Command Submission
+    // ==========================================================================
+
+    /**
+     * Submit a batch of commands and wait for the resulting transaction.
+     */
+    async submitAndWaitForTransaction(
+        submission: CommandSubmission
+    ): Promise<Transaction> {
+        const response = await this.post<{ transaction: Transaction }>(
+            '/v2/commands/submit-and-wait-for-transaction',
+            { commands: submission }
+        );
+        return response.transaction;
+    }
+
+    /**
+     * Get the completions of commands submitted by `userId` acting as any of
+     * the given parties, oldest first, after `beginOffset`. The user defaults
+     * to the one the token authenticates. Successful and rejected commands
+     * alike complete, so this shows submissions that never produced a
+     * transaction.
+     */
+    async getCompletions(
+        parties: PartyId[],
+        options: {
+            userId?: string;
+            beginOffset?: LedgerOffset;
+            limit?: number;
+        } = {}
+    ): Promise<CommandCompletion[]> {
+        const path = this.withLimit('/v2/commands/completions', options.limit, STREAM_IDLE_MS);
+        const response = await this.post<CompletionStreamItem[]>(path, {
+            userId: options.userId || undefined,
+            parties,
+            beginExclusive: options.beginOffset ?? 0,
+        });
+
+        const completions: CommandCompletion[] = [];
+        for (const item of response) {
+            const completion = item.completionResponse?.Completion?.value;
+            if (!completion) continue;
+            completions.push({
+                commandId: completion.commandId,
+                userId: completion.userId,
+                actAs: completion.actAs ?? [],
+                submissionId: completion.submissionId || undefined,
+                status: completion.status ?? { code: 0, message: '' },
+                updateId: completion.updateId || undefined,
+                offset: completion.offset,
+                synchronizerId: completion.synchronizerTime?.synchronizerId,
+                recordTime: completion.synchronizerTime?.recordTime,
+                paidTrafficCost: completion.paidTrafficCost,
+            });
+        }
+        return completions;
+    }
+
+    /**
+     * Submit commands with the given options (command ID, actAs/readAs,
+     * deduplication) and wait for the resulting transaction.
+     */
+    async submitCommands(
+        commands: Command[],
+        options: CommandOptions
+    ): Promise<Transaction> {
+        return this.submitAndWaitForTransaction(
+            this.buildSubmission(commands, options)
+        );
+    }
+
+    /**
+     * Create a contract of the given template.
+     */
+    async createContract(
+        templateId: TemplateId,
+        createArguments: Record<string, unknown>,
+        options: CommandOptions
+    ): Promise<Transaction> {
+        return this.submitCommands(
+            [{ CreateCommand: { templateId, createArguments } }],
+            options
+        );
+    }
+
+    /**
+     * Exercise a choice on a contract identified by its contract ID.
+     */
+    async exerciseChoice(
+        templateId: TemplateId,
+        contractId: ContractId,
+        choice: string,
+        choiceArgument: unknown,
+        options: CommandOptions
+    ): Promise<Transaction> {
+        return this.submitCommands(
+            [{ ExerciseCommand: { templateId, contractId, choice, choiceArgument } }],
+            options
+        );
+    }
+
+    /**
+     * Exercise a choice on the contract currently holding the given key.
+     */
+    async exerciseByKey(
+        templateId: TemplateId,
+        contractKey: unknown,
+        choice: string,
+        choiceArgument: unknown,
+        options: CommandOptions
+    ): Promise<Transaction> {
+        return this.submitCommands(
+            [{ ExerciseByKeyCommand: { templateId, contractKey, choice, choiceArgument } }],
+            options
+        );
+    }
+
+    /**
+     * Create a contract and exercise a choice on it in the same transaction.
+     */
+    async createAndExercise(
+        templateId: TemplateId,
+        createArguments: Record<string, unknown>,
+        choice: string,
+        choiceArgument: unknown,
+        options: CommandOptions
+    ): Promise<Transaction> {
+        return this.submitCommands(
+            [{ CreateAndExerciseCommand: { templateId, createArguments, choice, choiceArgument } }],
+            options
+        );
+    }
+
     // ==========================================================================
     // Package Service
     // ==========================================================================
@@ -358,73 +1233,187 @@ export class CantonClient {
         }
     }
 
+    /**
+     * Download a package's Daml-LF archive payload.
+     */
+    async getPackageArchive(packageId: PackageId): Promise<Uint8Array | null> {
+        try {
+            return await this.getBytes(`/v2/packages/${encodeURIComponent(packageId)}`);
+        } catch (error) {
+            if (error instanceof CantonAPIError && error.status === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Upload a DAR. The participant answers with an empty body, so callers
+     * list packages again to see what was added.
+     */
+    async uploadDar(archive: Uint8Array, options: UploadDarOptions = {}): Promise<void> {
+        const params = new URLSearchParams();
+        if (options.vetAllPackages !== undefined) {
+            params.set('vetAllPackages', String(options.vetAllPackages));
+        }
+        if (options.synchronizerId) {
+            params.set('synchronizerId', options.synchronizerId);
+        }
+        const query = params.toString();
+        await this.request<unknown>(`/v2/packages${query ? `?${query}` : ''}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: archive as BodyInit,
+        });
+    }
+
+    /**
+     * List the packages vetted per participant and synchronizer, optionally
+     * only for some participants. Returns null on participants that predate
+     * the vetting list endpoint.
+     */
+    async listVettedPackages(participantIds: string[] = []): Promise<VettingState[] | null> {
+        const states: VettingState[] = [];
+        let pageToken = '';
+        try {
+            do {
+                const response = await this.post<{
+                    vettedPackages?: VettedPackagesResponse[];
+                    nextPageToken?: string;
+                }>('/v2/package-vetting/list', {
+                    topologyStateFilter: { participantIds, synchronizerIds: [] },
+                    pageToken,
+                });
+                states.push(...(response.vettedPackages || []).map(toVettingState));
+                pageToken = response.nextPageToken ?? '';
+            } while (pageToken);
+        } catch (error) {
+            if (error instanceof CantonAPIError && error.status === 404) {
+                return null;
+            }
+            throw error;
+        }
+        return states;
+    }
+
     // ==========================================================================
     // Utility Methods
     // ==========================================================================
 
     /**
-     * Build a transaction filter for the given party and templates.
+     * Append the server-side result limit to a bounded query endpoint.
+     */
+    private withLimit(path: string, limit?: number, idleTimeoutMs?: number): string {
+        const params = [
+            limit ? `limit=${limit}` : '',
+            idleTimeoutMs ? `stream_idle_timeout_ms=${idleTimeoutMs}` : '',
+        ].filter(Boolean);
+        return params.length > 0 ? `${path}?${params.join('&')}` : path;
+    }
+
+    /**
+     * Build a transaction filter reading as each of the given parties. Every
+     * party gets its own entry so events carry the parties that witness them.
+     *
+     * Template and interface filters combine as a union. Interface filters
+     * request the interface view, so matched events carry its value.
      */
     private buildTransactionFilter(
-        partyId: PartyId,
-        templateIds?: TemplateId[]
+        parties: PartySet,
+        templateIds: TemplateId[] = [],
+        interfaceIds: TemplateId[] = []
     ): TransactionFilter {
-        if (!templateIds || templateIds.length === 0) {
-            // Wildcard filter - get all templates
-            return {
-                filtersByParty: {},
-                filtersForAnyParty: {
-                    cumulative: [
-                        {
-                            identifierFilter: {
-                                WildcardFilter: {
-                                    value: {
-                                        includeCreatedEventBlob: true,
-                                    },
-                                },
+        const cumulative: IdentifierFilter[] = templateIds.length === 0 && interfaceIds.length === 0
+            ? [
+                // Wildcard filter - get all templates
+                {
+                    identifierFilter: {
+                        WildcardFilter: {
+                            value: {
+                                includeCreatedEventBlob: true,
                             },
                         },
-                    ],
+                    },
                 },
-            };
-        }
-
-        // Template-specific filter
-        return {
-            filtersByParty: {
-                [partyId]: {
-                    cumulative: templateIds.map((templateId) => ({
-                        identifierFilter: {
-                            TemplateFilter: {
-                                value: {
-                                    templateId,
-                                    includeCreatedEventBlob: true,
-                                },
+            ]
+            : [
+                ...templateIds.map((templateId) => ({
+                    identifierFilter: {
+                        TemplateFilter: {
+                            value: {
+                                templateId,
+                                includeCreatedEventBlob: true,
                             },
                         },
-                    })),
-                },
-            },
+                    },
+                })),
+                ...interfaceIds.map((interfaceId) => ({
+                    identifierFilter: {
+                        InterfaceFilter: {
+                            value: {
+                                interfaceId,
+                                includeInterfaceView: true,
+                                includeCreatedEventBlob: true,
+                            },
+                        },
+                    },
+                })),
+            ];
+
+        return {
+            filtersByParty: Object.fromEntries(
+                partyList(parties).map((partyId) => [partyId, { cumulative }])
+            ),
         };
     }
 
     /**
-     * Convert a CreatedEvent to a Contract object.
+     * Build a command submission from UI-level options.
      */
-    private eventToContract(event: CreatedEvent, offset: LedgerOffset): Contract {
+    private buildSubmission(
+        commands: Command[],
+        options: CommandOptions
+    ): CommandSubmission {
         return {
-            contractId: event.contractId,
-            templateId: event.templateId,
-            payload: event.createArguments,
-            stakeholders: [...event.signatories, ...event.observers],
-            observers: event.observers,
-            signatories: event.signatories,
-            createdAt: new Date().toISOString(), // Would come from effectiveAt in full impl
-            offset,
-            contractKey: event.contractKey,
-            createdEventBlob: event.createdEventBlob,
+            commands,
+            commandId: options.commandId || generateCommandId(),
+            actAs: options.actAs,
+            readAs: options.readAs && options.readAs.length > 0 ? options.readAs : undefined,
+            workflowId: options.workflowId || undefined,
+            deduplicationPeriod: options.deduplicationSeconds
+                ? {
+                    DeduplicationDuration: {
+                        value: { seconds: options.deduplicationSeconds, nanos: 0 },
+                    },
+                }
+                : undefined,
         };
     }
+
+    /**
+     * WebSocket URL of a streaming endpoint.
+     */
+    private streamUrl(path: string): string {
+        return `${this.endpoint.replace(/^http/, 'ws')}${path}`;
+    }
+
+    /**
+     * Browsers cannot set headers on WebSockets, so the JSON API accepts the
+     * token as a subprotocol instead.
+     */
+    private streamProtocols(): string[] {
+        return this.authToken
+            ? ['daml.ws.auth', `jwt.token.${this.authToken}`]
+            : ['daml.ws.auth'];
+    }
+
+    private checkStreamMessage<T>(message: unknown): T {
+        const error = message as Partial<StreamErrorMessage>;
+        if (error && typeof error.code === 'string' && typeof error.cause === 'string') {
+            throw new LedgerStreamError(error.cause, error.code);
+        }
+        return message as T;
+    }
 }
 
 // ============================================================================
@@ -453,6 +1442,57 @@ export function createCantonClient(config: ConnectionConfig): CantonClient {
     return new CantonClient(config);
 }
 
+// ============================================================================
+// Command Helpers
+// ============================================================================
+
+/**
+ * Generate a unique command ID for a submission from LedgerView.
+ */
+export function generateCommandId(): string {
+    return `ledgerview-${crypto.randomUUID()}`;
+}
+
+// ============================================================================
+// Event Helpers
+// ============================================================================
+
+/**
+ * The parties of a party set, as a list.
+ */
+export function partyList(parties: PartySet): PartyId[] {
+    return Array.isArray(parties) ? parties : [parties];
+}
+
+/**
+ * Build a contract from its created event.
+ */
+export function createdEventToContract(
+    event: CreatedEvent,
+    offset: LedgerOffset,
+    createdAt?: string
+): Contract {
+    return {
+        contractId: event.contractId,
+        templateId: event.templateId,
+        payload: event.createArguments,
+        stakeholders: [...event.signatories, ...event.observers],
+        observers: event.observers,
+        signatories: event.signatories,
+        createdAt: createdAt ?? new Date().toISOString(), // Would come from effectiveAt in full impl
+        offset,
+        contractKey: event.contractKey,
+        createdEventBlob: event.createdEventBlob,
+        witnessParties: event.witnessParties,
+        interfaceViews: event.interfaceViews?.map((view) => ({
+            interfaceId: view.interfaceId,
+            viewValue: view.viewValue,
+            // A zero (OK) status code means the view was computed
+            error: view.viewStatus?.code ? view.viewStatus.message || `Status ${view.viewStatus.code}` : undefined,
+        })),
+    };
+}
+
 // ============================================================================
 // Connection Helpers
 // ============================================================================
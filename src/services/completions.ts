@@ -0,0 +1,110 @@
+/**
+ * Command Completions
+ *
+ * Helpers for reading command outcomes from the completion stream:
+ * - gRPC status codes by name
+ * - Canton error IDs, categories and correlation IDs parsed from messages
+ * - Counting rejections by error ID
+ */
+
+import type { CommandCompletion } from '../types/canton';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CompletionOutcome = 'succeeded' | 'rejected';
+
+/** A Canton error message split into its parts */
+export interface CantonErrorDetails {
+    /** Error ID, e.g. `CONTRACT_NOT_FOUND` */
+    errorId?: string;
+    category?: number;
+    correlationId?: string;
+    description: string;
+}
+
+export const GRPC_STATUS_NAMES: Record<number, string> = {
+    0: 'OK',
+    1: 'CANCELLED',
+    2: 'UNKNOWN',
+    3: 'INVALID_ARGUMENT',
+    4: 'DEADLINE_EXCEEDED',
+    5: 'NOT_FOUND',
+    6: 'ALREADY_EXISTS',
+    7: 'PERMISSION_DENIED',
+    8: 'RESOURCE_EXHAUSTED',
+    9: 'FAILED_PRECONDITION',
+    10: 'ABORTED',
+    11: 'OUT_OF_RANGE',
+    12: 'UNIMPLEMENTED',
+    13: 'INTERNAL',
+    14: 'UNAVAILABLE',
+    15: 'DATA_LOSS',
+    16: 'UNAUTHENTICATED',
+};
+
+/** Canton error categories, by the number in the error message */
+export const ERROR_CATEGORIES: Record<number, { label: string; retryable: boolean }> = {
+    1: { label: 'Transient server failure', retryable: true },
+    2: { label: 'Contention on shared resources', retryable: true },
+    3: { label: 'Deadline exceeded, state unknown', retryable: true },
+    4: { label: 'Internal assumption violated', retryable: false },
+    5: { label: 'Malicious or faulty behaviour', retryable: false },
+    6: { label: 'Invalid authentication credentials', retryable: false },
+    7: { label: 'Insufficient permission', retryable: false },
+    8: { label: 'Invalid request', retryable: false },
+    9: { label: 'Invalid given current state', retryable: false },
+    10: { label: 'Resource already exists', retryable: false },
+    11: { label: 'Resource missing', retryable: false },
+    12: { label: 'Offset after ledger end', retryable: false },
+    13: { label: 'Background process degraded', retryable: true },
+    14: { label: 'Unsupported operation', retryable: false },
+};
+
+/** `ERROR_ID(category,correlationId): description` */
+const CANTON_ERROR_PATTERN = /^([A-Z][A-Z0-9_]*)\((\d+),([^)]*)\):\s*([\s\S]*)$/;
+
+// ============================================================================
+// Outcomes
+// ============================================================================
+
+export function completionOutcome(completion: CommandCompletion): CompletionOutcome {
+    return completion.status.code === 0 ? 'succeeded' : 'rejected';
+}
+
+export function statusName(code: number): string {
+    return GRPC_STATUS_NAMES[code] ?? `CODE_${code}`;
+}
+
+/**
+ * Split a Canton error message into error ID, category and correlation ID.
+ * Messages in any other format are returned as the description.
+ */
+export function parseCantonError(message: string): CantonErrorDetails {
+    const match = CANTON_ERROR_PATTERN.exec(message.trim());
+    if (!match) {
+        return { description: message };
+    }
+    return {
+        errorId: match[1],
+        category: Number(match[2]),
+        correlationId: match[3] || undefined,
+        description: match[4],
+    };
+}
+
+/**
+ * Rejections per Canton error ID (or gRPC status name when the message has
+ * none), most frequent first.
+ */
+export function countRejections(completions: CommandCompletion[]): Array<{ reason: string; count: number }> {
+    const counts = new Map<string, number>();
+    completions
+        .filter((c) => completionOutcome(c) === 'rejected')
+        .forEach((c) => {
+            const reason = parseCantonError(c.status.message).errorId ?? statusName(c.status.code);
+            counts.set(reason, (counts.get(reason) ?? 0) + 1);
+        });
+    return Array.from(counts, ([reason, count]) => ({ reason, count })).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,255 @@
+/**
+ * Contract Graph
+ *
+ * Follows the contract IDs embedded in payloads through the cached ledger:
+ * - Finds contract-ID values in a payload, guided by the template's type
+ *   when the catalog knows it and by the shape of the value otherwise
+ * - Builds the graph around one contract: the contracts it references on
+ *   the right, the contracts referencing it on the left
+ *
+ * Referenced contracts the cache has never seen are kept as nodes with an
+ * unknown status; contracts referencing the root are only found in the cache.
+ */
+
+import type { ArchivedContract, Contract, ContractId, DamlType, Template, TemplateId } from '../types/canton';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ContractReference {
+    contractId: ContractId;
+    /** Location in the payload, e.g. `asset.cid` or `lots[2]` */
+    path: string;
+    /** Template the field's type points to, when typed */
+    templateId?: TemplateId;
+    /** Found through the payload type rather than by its shape */
+    typed: boolean;
+}
+
+export type ReferenceStatus = 'active' | 'archived' | 'unknown';
+
+export interface ReferenceNode {
+    contractId: ContractId;
+    templateId?: TemplateId;
+    status: ReferenceStatus;
+    /** 0 for the root, positive for referenced, negative for referencing contracts */
+    column: number;
+}
+
+export interface ReferenceEdge {
+    from: ContractId;
+    to: ContractId;
+    path: string;
+    typed: boolean;
+}
+
+export interface ReferenceGraph {
+    nodes: ReferenceNode[];
+    edges: ReferenceEdge[];
+    /** Some nodes were left out to stay within the node limit */
+    truncated: boolean;
+}
+
+export interface ReferenceSource {
+    contracts: Map<ContractId, Contract>;
+    archivedContracts: Map<ContractId, ArchivedContract>;
+    templates: Map<TemplateId, Template>;
+}
+
+/** Canton contract IDs: a version byte `00` and a 32-byte discriminator, then a suffix */
+const CONTRACT_ID_PATTERN = /^00[0-9a-f]{64,}$/i;
+
+const DEFAULT_DEPTH = 2;
+const DEFAULT_MAX_NODES = 40;
+
+// ============================================================================
+// References
+// ============================================================================
+
+const join = (path: string, segment: string) => (path ? `${path}.${segment}` : segment);
+
+function collectUntyped(value: unknown, path: string, found: ContractReference[]): void {
+    if (typeof value === 'string') {
+        if (CONTRACT_ID_PATTERN.test(value)) found.push({ contractId: value, path, typed: false });
+    } else if (Array.isArray(value)) {
+        value.forEach((item, i) => collectUntyped(item, `${path}[${i}]`, found));
+    } else if (value && typeof value === 'object') {
+        Object.entries(value).forEach(([key, item]) => collectUntyped(item, join(path, key), found));
+    }
+}
+
+function collectTyped(value: unknown, type: DamlType, path: string, found: ContractReference[]): void {
+    if (value === null || value === undefined) return;
+
+    switch (type.tag) {
+        case 'contractId':
+            if (typeof value === 'string') {
+                found.push({ contractId: value, path, templateId: type.templateId || undefined, typed: true });
+            }
+            return;
+        case 'optional':
+            // Nested optionals are encoded as lists
+            if (type.elementType.tag === 'optional') {
+                if (Array.isArray(value) && value.length > 0) collectTyped(value[0], type.elementType, path, found);
+            } else {
+                collectTyped(value, type.elementType, path, found);
+            }
+            return;
+        case 'list':
+            if (Array.isArray(value)) value.forEach((item, i) => collectTyped(item, type.elementType, `${path}[${i}]`, found));
+            return;
+        case 'map':
+            if (Array.isArray(value)) {
+                value.forEach((entry, i) => {
+                    if (!Array.isArray(entry)) return;
+                    collectTyped(entry[0], type.keyType, `${path}[${i}].key`, found);
+                    collectTyped(entry[1], type.valueType, `${path}[${i}].value`, found);
+                });
+            }
+            return;
+        case 'textMap':
+            if (typeof value === 'object') {
+                Object.entries(value as Record<string, unknown>).forEach(([key, item]) =>
+                    collectTyped(item, type.valueType, `${path}[${key}]`, found)
+                );
+            }
+            return;
+        case 'record':
+            if (typeof value === 'object') {
+                const record = value as Record<string, unknown>;
+                type.fields.forEach((field) => collectTyped(record[field.name], field.type, join(path, field.name), found));
+            }
+            return;
+        case 'variant': {
+            const variant = value as { tag?: string; value?: unknown };
+            const constructor = type.constructors.find((c) => c.name === variant.tag);
+            if (constructor) collectTyped(variant.value, constructor.type, join(path, constructor.name), found);
+            return;
+        }
+        case 'unknown':
+            collectUntyped(value, path, found);
+            return;
+        default:
+            return;
+    }
+}
+
+/**
+ * Contract IDs in a payload. With the payload type only contract-ID fields
+ * count; without it, any string shaped like a contract ID does.
+ */
+export function findReferences(payload: unknown, type?: DamlType): ContractReference[] {
+    const found: ContractReference[] = [];
+    if (type) {
+        collectTyped(payload, type, '', found);
+    } else {
+        collectUntyped(payload, '', found);
+    }
+    return found;
+}
+
+// ============================================================================
+// Graph
+// ============================================================================
+
+function lookup(source: ReferenceSource, contractId: ContractId): { contract?: Contract; status: ReferenceStatus } {
+    const active = source.contracts.get(contractId);
+    if (active) return { contract: active, status: 'active' };
+    const archived = source.archivedContracts.get(contractId);
+    if (archived) return { contract: archived.contract, status: 'archived' };
+    return { status: 'unknown' };
+}
+
+const referencesOf = (source: ReferenceSource, contract: Contract) =>
+    findReferences(contract.payload, source.templates.get(contract.templateId)?.argType).filter(
+        (ref) => ref.contractId !== contract.contractId
+    );
+
+/**
+ * The contracts around `rootId`, up to `depth` references away in either
+ * direction. Referenced contracts are followed onwards only to the right,
+ * referencing ones only to the left, so the graph reads left to right.
+ */
+export function buildReferenceGraph(
+    rootId: ContractId,
+    source: ReferenceSource,
+    options: {
+        depth?: number;
+        maxNodes?: number;
+        /** The root contract and its status, when the cache does not hold it */
+        root?: { contract: Contract; status: ReferenceStatus };
+    } = {}
+): ReferenceGraph {
+    const depth = options.depth ?? DEFAULT_DEPTH;
+    const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+    const nodes = new Map<ContractId, ReferenceNode>();
+    const edges = new Map<string, ReferenceEdge>();
+    let truncated = false;
+
+    const resolve = (contractId: ContractId) => {
+        const found = lookup(source, contractId);
+        return !found.contract && contractId === rootId && options.root ? options.root : found;
+    };
+
+    const addNode = (contractId: ContractId, column: number, templateId?: TemplateId): boolean => {
+        if (nodes.has(contractId)) return true;
+        if (nodes.size >= maxNodes) {
+            truncated = true;
+            return false;
+        }
+        const { contract, status } = resolve(contractId);
+        nodes.set(contractId, { contractId, templateId: contract?.templateId ?? templateId, status, column });
+        return true;
+    };
+    const addEdge = (from: ContractId, ref: ContractReference) =>
+        edges.set(`${from}>${ref.contractId}>${ref.path}`, { from, to: ref.contractId, path: ref.path, typed: ref.typed });
+
+    // Who references whom, across every cached contract with a payload
+    const referrers = new Map<ContractId, Array<{ from: ContractId; ref: ContractReference }>>();
+    const cached = [
+        ...source.contracts.values(),
+        ...Array.from(source.archivedContracts.values(), (entry) => entry.contract).filter((c): c is Contract => !!c),
+    ];
+    cached.forEach((contract) =>
+        referencesOf(source, contract).forEach((ref) =>
+            referrers.set(ref.contractId, [...(referrers.get(ref.contractId) ?? []), { from: contract.contractId, ref }])
+        )
+    );
+
+    addNode(rootId, 0);
+
+    // Referenced contracts, to the right
+    let frontier = [rootId];
+    for (let level = 1; level <= depth && frontier.length > 0; level++) {
+        const next: ContractId[] = [];
+        frontier.forEach((id) => {
+            const contract = resolve(id).contract;
+            if (!contract) return;
+            referencesOf(source, contract).forEach((ref) => {
+                const known = nodes.has(ref.contractId);
+                if (!addNode(ref.contractId, level, ref.templateId)) return;
+                addEdge(id, ref);
+                if (!known) next.push(ref.contractId);
+            });
+        });
+        frontier = next;
+    }
+
+    // Referencing contracts, to the left
+    frontier = [rootId];
+    for (let level = 1; level <= depth && frontier.length > 0; level++) {
+        const next: ContractId[] = [];
+        frontier.forEach((id) => {
+            (referrers.get(id) ?? []).forEach(({ from, ref }) => {
+                const known = nodes.has(from);
+                if (!addNode(from, -level)) return;
+                addEdge(from, ref);
+                if (!known) next.push(from);
+            });
+        });
+        frontier = next;
+    }
+
+    return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()), truncated };
+}
@@ -0,0 +1,208 @@
+/**
+ * Contract Keys
+ *
+ * Resolves contract keys against the cached ledger:
+ * - Comparing key values independently of their JSON formatting
+ * - The templates that share a key across package versions
+ * - Every contract that held a key, in creation order
+ *
+ * Archived contracts whose creation was never observed carry no key and
+ * cannot show up in a key's history.
+ */
+
+import type {
+    ArchivedContract,
+    Contract,
+    DamlType,
+    Template,
+    TemplateId,
+    Transaction,
+    UpdateId,
+} from '../types/canton';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface KeySource {
+    contracts: Iterable<Contract>;
+    archivedContracts: Iterable<ArchivedContract>;
+    transactions: Transaction[];
+}
+
+/** One contract that held a key */
+export interface KeyHolder {
+    contract: Contract;
+    /** Set once the contract was archived */
+    archived?: ArchivedContract;
+    /** The update that archived it, when cached */
+    archivedBy?: UpdateId;
+}
+
+// ============================================================================
+// Key Values
+// ============================================================================
+
+const sortedObject = (entries: Array<[string, unknown]>) =>
+    Object.fromEntries(entries.sort(([a], [b]) => a.localeCompare(b)));
+
+/** `1.50` and `1.5000000000` are the same numeric */
+function canonicalNumeric(value: unknown): unknown {
+    const text = String(value).trim();
+    if (!/^-?\d+(\.\d+)?$/.test(text)) return text;
+    const [whole, fraction = ''] = text.split('.');
+    const trimmed = fraction.replace(/0+$/, '');
+    return trimmed ? `${whole}.${trimmed}` : whole;
+}
+
+function canonicalValue(value: unknown, type?: DamlType): unknown {
+    if (value === null || value === undefined) return null;
+
+    switch (type?.tag) {
+        case 'int64':
+            return String(value).trim();
+        case 'decimal':
+        case 'numeric':
+            return canonicalNumeric(value);
+        case 'timestamp': {
+            const date = new Date(String(value));
+            return Number.isNaN(date.getTime()) ? value : date.toISOString();
+        }
+        case 'optional':
+            // Nested optionals are encoded as lists
+            if (type.elementType.tag === 'optional') {
+                return Array.isArray(value) ? value.map((item) => canonicalValue(item, type.elementType)) : value;
+            }
+            return canonicalValue(value, type.elementType);
+        case 'list':
+            return Array.isArray(value) ? value.map((item) => canonicalValue(item, type.elementType)) : value;
+        case 'map':
+            return Array.isArray(value)
+                ? value.map((entry) =>
+                    Array.isArray(entry)
+                        ? [canonicalValue(entry[0], type.keyType), canonicalValue(entry[1], type.valueType)]
+                        : entry
+                )
+                : value;
+        case 'textMap':
+            return typeof value === 'object'
+                ? sortedObject(
+                    Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, canonicalValue(v, type.valueType)])
+                )
+                : value;
+        case 'record': {
+            if (typeof value !== 'object') return value;
+            const record = value as Record<string, unknown>;
+            return Object.fromEntries(
+                type.fields.map((field) => [field.name, canonicalValue(record[field.name], field.type)])
+            );
+        }
+        case 'variant': {
+            const variant = value as { tag?: string; value?: unknown };
+            const constructor = type.constructors.find((c) => c.name === variant.tag);
+            return { tag: variant.tag, value: canonicalValue(variant.value, constructor?.type) };
+        }
+        case undefined:
+        case 'unknown':
+            // Untyped: only the order of object fields is normalized
+            if (Array.isArray(value)) return value.map((item) => canonicalValue(item));
+            if (typeof value === 'object') {
+                return sortedObject(
+                    Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, canonicalValue(v)])
+                );
+            }
+            return value;
+        default:
+            return value;
+    }
+}
+
+/**
+ * A string that is equal for equal keys, however the participant or the
+ * user formatted them. Numerics, timestamps and field order are normalized.
+ */
+export function canonicalKey(key: unknown, keyType?: DamlType): string {
+    return JSON.stringify(canonicalValue(key, keyType));
+}
+
+/**
+ * Short one-line rendering of a key value for tables and links.
+ */
+export function formatKey(key: unknown): string {
+    if (typeof key === 'string') return key;
+    const text = JSON.stringify(key);
+    return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+const qualifiedName = (template: Template) => `${template.moduleName}:${template.entityName}`;
+
+/**
+ * The IDs of `template` in every known version of its package. Contracts
+ * keep the template ID they were created with, and a key stays the same key
+ * across Smart Contract Upgrades.
+ */
+export function keyTemplateIds(template: Template, templates: Iterable<Template>): Set<TemplateId> {
+    const ids = new Set<TemplateId>([template.templateId]);
+    if (!template.packageName) return ids;
+
+    for (const candidate of templates) {
+        if (
+            candidate.keyType &&
+            candidate.packageName === template.packageName &&
+            qualifiedName(candidate) === qualifiedName(template)
+        ) {
+            ids.add(candidate.templateId);
+        }
+    }
+    return ids;
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Whether a contract of one of `templateIds` holds the key with the given
+ * canonical form.
+ */
+export function holdsKey(contract: Contract, templateIds: Set<TemplateId>, key: string, keyType?: DamlType): boolean {
+    return (
+        templateIds.has(contract.templateId) &&
+        contract.contractKey !== undefined &&
+        contract.contractKey !== null &&
+        canonicalKey(contract.contractKey, keyType) === key
+    );
+}
+
+/**
+ * Every cached contract that held the key, oldest first. `extra` adds
+ * contracts fetched from the ledger that the cache has not seen yet.
+ */
+export function keyHistory(
+    source: KeySource,
+    templateIds: Set<TemplateId>,
+    key: unknown,
+    keyType?: DamlType,
+    extra: Contract[] = []
+): KeyHolder[] {
+    const canonical = canonicalKey(key, keyType);
+    const holders = new Map<string, KeyHolder>();
+
+    for (const entry of source.archivedContracts) {
+        if (entry.contract && holdsKey(entry.contract, templateIds, canonical, keyType)) {
+            const archivedBy = source.transactions.find((tx) => tx.offset === entry.offset)?.updateId;
+            holders.set(entry.contractId, { contract: entry.contract, archived: entry, archivedBy });
+        }
+    }
+    for (const contract of [...source.contracts, ...extra]) {
+        if (!holders.has(contract.contractId) && holdsKey(contract, templateIds, canonical, keyType)) {
+            holders.set(contract.contractId, { contract });
+        }
+    }
+
+    return Array.from(holders.values()).sort((a, b) => a.contract.offset - b.contract.offset);
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { buildCatalog, type DecodedPackage } from './damlLf';
+import type { DamlType } from '../types/canton';
+
+type DataTypes = DecodedPackage['dataTypes'];
+type LfDataType = DataTypes extends Map<string, infer V> ? V : never;
+type LfType = Extract<LfDataType['cons'], { kind: 'record' }>['fields'][number]['type'];
+
+const INT64 = 2;
+const con = (ref: string, ...args: LfType[]): LfType => ({ kind: 'con', ref, args });
+const int64: LfType = { kind: 'builtin', builtin: INT64, args: [] };
+const v = (name: string): LfType => ({ kind: 'var', name });
+const record = (fields: Record<string, LfType>, params: string[] = []): LfDataType => ({
+    params,
+    cons: { kind: 'record', fields: Object.entries(fields).map(([name, type]) => ({ name, type })) },
+});
+
+/** Resolve the argument type of the template `pkg:Main:T`, declared with `dataTypes` */
+function templateArg(dataTypes: Record<string, LfDataType>): DamlType | undefined {
+    const pkg: DecodedPackage = {
+        packageId: 'pkg',
+        lfVersion: '2.1',
+        modules: ['Main'],
+        size: 0,
+        dependencies: [],
+        dataTypes: new Map(Object.entries(dataTypes)),
+        templates: [{ id: 'pkg:Main:T', moduleName: 'Main', entityName: 'T', choices: [], implements: [] }],
+        interfaces: [],
+    };
+    return buildCatalog([pkg]).templates[0].argType;
+}
+
+const field = (type: DamlType | undefined, name: string): DamlType | undefined =>
+    type?.tag === 'record' ? type.fields.find((f) => f.name === name)?.type : undefined;
+
+describe('buildCatalog type resolution', () => {
+    it('substitutes type arguments into generic data types', () => {
+        const arg = templateArg({
+            'pkg:Main:T': record({ box: con('pkg:Main:Box', int64) }),
+            'pkg:Main:Box': record({ value: v('a') }, ['a']),
+        });
+
+        expect(field(field(arg, 'box'), 'value')).toEqual({ tag: 'int64' });
+    });
+
+    it('stops at the first repetition of a recursive type', () => {
+        const arg = templateArg({
+            'pkg:Main:T': record({ items: con('pkg:Main:List', int64) }),
+            'pkg:Main:List': {
+                params: ['a'],
+                cons: {
+                    kind: 'variant',
+                    constructors: [
+                        { name: 'Nil', type: { kind: 'builtin', builtin: 0, args: [] } },
+                        { name: 'Cons', type: con('pkg:Main:Cell', v('a')) },
+                    ],
+                },
+            },
+            'pkg:Main:Cell': record({ head: v('a'), tail: con('pkg:Main:List', v('a')) }, ['a']),
+        });
+
+        const list = field(arg, 'items');
+        expect(list?.tag).toBe('variant');
+        const cell = list?.tag === 'variant' ? list.constructors[1].type : undefined;
+        expect(field(cell, 'head')).toEqual({ tag: 'int64' });
+        expect(field(cell, 'tail')).toEqual({ tag: 'unknown', name: 'Recursive' });
+    });
+
+    it('expands deeply nested types that are not recursive', () => {
+        const depth = 20;
+        const dataTypes: Record<string, LfDataType> = { 'pkg:Main:T': record({ next: con('pkg:Main:N0') }) };
+        for (let i = 0; i < depth; i++) {
+            dataTypes[`pkg:Main:N${i}`] = record({ next: i + 1 < depth ? con(`pkg:Main:N${i + 1}`) : int64 });
+        }
+
+        let type = templateArg(dataTypes);
+        for (let i = 0; i <= depth; i++) type = field(type, 'next');
+        expect(type).toEqual({ tag: 'int64' });
+    });
+
+    it('resolves each type application once', () => {
+        const fields = (ref: string) =>
+            Object.fromEntries(Array.from({ length: 8 }, (_, i) => [`f${i}`, con(ref)]));
+        const dataTypes: Record<string, LfDataType> = { 'pkg:Main:T': record(fields('pkg:Main:L0')) };
+        for (let i = 0; i < 10; i++) dataTypes[`pkg:Main:L${i}`] = record(fields(`pkg:Main:L${i + 1}`));
+        dataTypes['pkg:Main:L10'] = record({ leaf: int64 });
+
+        // 8^10 paths, but one resolved type per level, shared by every field
+        const arg = templateArg(dataTypes);
+        expect(field(arg, 'f0')).toBe(field(arg, 'f7'));
+    });
+});
@@ -0,0 +1,594 @@
+/**
+ * Daml-LF Decoder
+ *
+ * Decodes Daml-LF package archives (as returned by GET /v2/packages/{id})
+ * into the catalog types used across the app:
+ * - Package name, version, module list and the packages it depends on
+ * - Templates with choices, key type, implemented interfaces and fields
+ * - Interfaces with choices and view type
+ * - DamlType schemas resolved across packages
+ *
+ * Only Daml-LF 2 is supported, which is what Canton 3.x participants serve.
+ * Field numbers mirror `daml_lf2.proto` and are kept in one table below.
+ */
+
+import { ProtoMessage, decodeMessage } from './protobuf';
+import type { Choice, DamlInterface, DamlPackage, DamlType, PackageId, Template, TemplateId } from '../types/canton';
+
+// ============================================================================
+// Proto Field Numbers (daml_lf.proto / daml_lf2.proto)
+// ============================================================================
+
+const F = {
+    ArchivePayload: { minor: 3, damlLf1: 2, damlLf2: 4 },
+    Package: { modules: 1, internedStrings: 2, internedDottedNames: 3, metadata: 4, internedTypes: 5 },
+    PackageMetadata: { name: 1, version: 2 },
+    InternedDottedName: { segments: 1 },
+    Module: { name: 1, dataTypes: 4, templates: 6, interfaces: 8 },
+    DefDataType: { name: 1, params: 2, record: 3, variant: 4, enum: 5, interface: 7 },
+    TypeVarWithKind: { var: 1 },
+    Fields: { fields: 1 },
+    FieldWithType: { field: 1, type: 2 },
+    EnumConstructors: { constructors: 1 },
+    DefTemplate: { tycon: 1, choices: 6, key: 8, implements: 9 },
+    DefKey: { type: 1 },
+    Implements: { interface: 1 },
+    TemplateChoice: { name: 1, consuming: 2, argBinder: 6, retType: 7 },
+    VarWithType: { var: 1, type: 2 },
+    DefInterface: { tycon: 1, choices: 4, view: 6, requires: 7 },
+    TypeConId: { module: 1, name: 2 },
+    ModuleId: { packageRef: 1, moduleName: 2 },
+    PackageRef: { self: 1, packageId: 2 },
+    Type: { var: 1, con: 2, builtin: 3, forall: 4, struct: 5, nat: 6, syn: 7, interned: 8 },
+    TypeApp: { head: 1, args: 2 },
+    Forall: { body: 2 },
+} as const;
+
+/** BuiltinType enum values in Daml-LF 2 */
+const Builtin = {
+    UNIT: 0,
+    BOOL: 1,
+    INT64: 2,
+    DATE: 3,
+    TIMESTAMP: 4,
+    NUMERIC: 5,
+    PARTY: 6,
+    TEXT: 7,
+    CONTRACT_ID: 8,
+    OPTIONAL: 9,
+    LIST: 10,
+    TEXTMAP: 11,
+    GENMAP: 12,
+    ANY: 13,
+} as const;
+
+/**
+ * Data types nested deeper than this are not expanded. Recursion is caught
+ * earlier, by type; this only stops polymorphic recursion, where each level
+ * applies the type to a larger argument.
+ */
+const MAX_TYPE_DEPTH = 64;
+
+// ============================================================================
+// Intermediate Types
+// ============================================================================
+
+/** Daml-LF type before data type references are resolved */
+type LfType =
+    | { kind: 'builtin'; builtin: number; args: LfType[] }
+    | { kind: 'con'; ref: TemplateId; args: LfType[] }
+    | { kind: 'var'; name: string }
+    | { kind: 'nat'; value: number }
+    | { kind: 'other'; name: string };
+
+type LfDataCons =
+    | { kind: 'record'; fields: Array<{ name: string; type: LfType }> }
+    | { kind: 'variant'; constructors: Array<{ name: string; type: LfType }> }
+    | { kind: 'enum'; constructors: string[] }
+    | { kind: 'interface' };
+
+interface LfDataType {
+    params: string[];
+    cons: LfDataCons;
+}
+
+interface LfChoice {
+    name: string;
+    consuming: boolean;
+    argType: LfType;
+    returnType: LfType;
+}
+
+interface LfTemplate {
+    id: TemplateId;
+    moduleName: string;
+    entityName: string;
+    choices: LfChoice[];
+    keyType?: LfType;
+    implements: TemplateId[];
+}
+
+interface LfInterface {
+    id: TemplateId;
+    moduleName: string;
+    entityName: string;
+    choices: LfChoice[];
+    viewType?: LfType;
+    requires: TemplateId[];
+}
+
+/** A decoded package, prior to cross-package type resolution */
+export interface DecodedPackage {
+    packageId: PackageId;
+    name?: string;
+    version?: string;
+    lfVersion: string;
+    modules: string[];
+    /** Size of the archive payload in bytes */
+    size: number;
+    /**
+     * Other packages referenced from the package's types. References made only
+     * from expressions are not decoded, so this can miss utility libraries.
+     */
+    dependencies: PackageId[];
+    /** When LedgerView first saw the package; the JSON API has no upload time */
+    knownSince?: string;
+    dataTypes: Map<TemplateId, LfDataType>;
+    templates: LfTemplate[];
+    interfaces: LfInterface[];
+}
+
+export interface PackageCatalog {
+    packages: DamlPackage[];
+    templates: Template[];
+    interfaces: DamlInterface[];
+}
+
+export class DamlLfDecodeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DamlLfDecodeError';
+    }
+}
+
+// ============================================================================
+// Package Decoding
+// ============================================================================
+
+/**
+ * Decode a package archive payload.
+ */
+export function decodePackage(packageId: PackageId, payload: Uint8Array): DecodedPackage {
+    const archive = decodeMessage(payload);
+    const minor = archive.string(F.ArchivePayload.minor) ?? '';
+
+    if (archive.has(F.ArchivePayload.damlLf1)) {
+        throw new DamlLfDecodeError(`Daml-LF 1.${minor} packages are not supported`);
+    }
+    const lf2 = archive.message(F.ArchivePayload.damlLf2);
+    if (!lf2) {
+        throw new DamlLfDecodeError('Archive does not contain a Daml-LF 2 package');
+    }
+
+    return new PackageDecoder(packageId, lf2, `2.${minor}`, payload.byteLength).decode();
+}
+
+class PackageDecoder {
+    private strings: string[];
+    private dottedNames: string[];
+    private internedTypes: ProtoMessage[];
+    private typeCache = new Map<number, LfType>();
+    private dependencies = new Set<PackageId>();
+
+    constructor(
+        private packageId: PackageId,
+        private pkg: ProtoMessage,
+        private lfVersion: string,
+        private size: number
+    ) {
+        this.strings = pkg.strings(F.Package.internedStrings);
+        this.dottedNames = pkg
+            .messages(F.Package.internedDottedNames)
+            .map((name) => name.ints(F.InternedDottedName.segments).map((i) => this.str(i)).join('.'));
+        this.internedTypes = pkg.messages(F.Package.internedTypes);
+    }
+
+    decode(): DecodedPackage {
+        const metadata = this.pkg.message(F.Package.metadata);
+        const result: DecodedPackage = {
+            packageId: this.packageId,
+            name: metadata ? this.str(metadata.int(F.PackageMetadata.name)) : undefined,
+            version: metadata ? this.str(metadata.int(F.PackageMetadata.version)) : undefined,
+            lfVersion: this.lfVersion,
+            modules: [],
+            size: this.size,
+            dependencies: [],
+            dataTypes: new Map(),
+            templates: [],
+            interfaces: [],
+        };
+
+        for (const module of this.pkg.messages(F.Package.modules)) {
+            const moduleName = this.dname(module.int(F.Module.name));
+            result.modules.push(moduleName);
+            const qualify = (name: string) => `${this.packageId}:${moduleName}:${name}`;
+
+            for (const dataType of module.messages(F.Module.dataTypes)) {
+                const name = this.dname(dataType.int(F.DefDataType.name));
+                result.dataTypes.set(qualify(name), {
+                    params: dataType
+                        .messages(F.DefDataType.params)
+                        .map((param) => this.str(param.int(F.TypeVarWithKind.var))),
+                    cons: this.decodeDataCons(dataType),
+                });
+            }
+
+            for (const template of module.messages(F.Module.templates)) {
+                const entityName = this.dname(template.int(F.DefTemplate.tycon));
+                const key = template.message(F.DefTemplate.key)?.message(F.DefKey.type);
+                result.templates.push({
+                    id: qualify(entityName),
+                    moduleName,
+                    entityName,
+                    choices: template.messages(F.DefTemplate.choices).map((c) => this.decodeChoice(c)),
+                    keyType: key ? this.decodeType(key) : undefined,
+                    implements: template
+                        .messages(F.DefTemplate.implements)
+                        .flatMap((impl) => this.optionalTypeCon(impl.message(F.Implements.interface))),
+                });
+            }
+
+            for (const iface of module.messages(F.Module.interfaces)) {
+                const entityName = this.dname(iface.int(F.DefInterface.tycon));
+                const view = iface.message(F.DefInterface.view);
+                result.interfaces.push({
+                    id: qualify(entityName),
+                    moduleName,
+                    entityName,
+                    choices: iface.messages(F.DefInterface.choices).map((c) => this.decodeChoice(c)),
+                    viewType: view ? this.decodeType(view) : undefined,
+                    requires: iface.messages(F.DefInterface.requires).map((ref) => this.typeCon(ref)),
+                });
+            }
+        }
+
+        if (result.modules.length === 0) {
+            throw new DamlLfDecodeError('Package has no modules');
+        }
+        this.dependencies.delete(this.packageId);
+        result.dependencies = Array.from(this.dependencies);
+        return result;
+    }
+
+    private str(index: number): string {
+        const value = this.strings[index];
+        if (value === undefined) {
+            throw new DamlLfDecodeError(`Interned string ${index} out of range`);
+        }
+        return value;
+    }
+
+    private dname(index: number): string {
+        const value = this.dottedNames[index];
+        if (value === undefined) {
+            throw new DamlLfDecodeError(`Interned name ${index} out of range`);
+        }
+        return value;
+    }
+
+    private decodeDataCons(dataType: ProtoMessage): LfDataCons {
+        const record = dataType.message(F.DefDataType.record);
+        if (record) {
+            return { kind: 'record', fields: this.decodeFields(record) };
+        }
+        const variant = dataType.message(F.DefDataType.variant);
+        if (variant) {
+            return { kind: 'variant', constructors: this.decodeFields(variant) };
+        }
+        const enumCons = dataType.message(F.DefDataType.enum);
+        if (enumCons) {
+            return {
+                kind: 'enum',
+                constructors: enumCons.ints(F.EnumConstructors.constructors).map((i) => this.str(i)),
+            };
+        }
+        // An enum with no constructors encodes as an empty message, which is
+        // indistinguishable from an absent one; interfaces are the other case
+        return dataType.has(F.DefDataType.interface)
+            ? { kind: 'interface' }
+            : { kind: 'enum', constructors: [] };
+    }
+
+    private decodeFields(fields: ProtoMessage): Array<{ name: string; type: LfType }> {
+        return fields.messages(F.Fields.fields).map((field) => ({
+            name: this.str(field.int(F.FieldWithType.field)),
+            type: this.decodeType(field.message(F.FieldWithType.type)),
+        }));
+    }
+
+    private decodeChoice(choice: ProtoMessage): LfChoice {
+        const binder = choice.message(F.TemplateChoice.argBinder);
+        return {
+            name: this.str(choice.int(F.TemplateChoice.name)),
+            consuming: choice.bool(F.TemplateChoice.consuming),
+            argType: this.decodeType(binder?.message(F.VarWithType.type)),
+            returnType: this.decodeType(choice.message(F.TemplateChoice.retType)),
+        };
+    }
+
+    private typeCon(ref: ProtoMessage): TemplateId {
+        const module = ref.message(F.TypeConId.module);
+        const packageRef = module?.message(F.ModuleId.packageRef);
+        const packageId = packageRef?.has(F.PackageRef.packageId)
+            ? this.str(packageRef.int(F.PackageRef.packageId))
+            : this.packageId;
+        this.dependencies.add(packageId);
+        const moduleName = this.dname(module?.int(F.ModuleId.moduleName) ?? 0);
+        return `${packageId}:${moduleName}:${this.dname(ref.int(F.TypeConId.name))}`;
+    }
+
+    private optionalTypeCon(ref: ProtoMessage | undefined): TemplateId[] {
+        return ref ? [this.typeCon(ref)] : [];
+    }
+
+    private decodeType(type: ProtoMessage | undefined): LfType {
+        if (!type) {
+            return { kind: 'other', name: 'Unknown' };
+        }
+
+        if (type.has(F.Type.interned)) {
+            const index = type.int(F.Type.interned);
+            const cached = this.typeCache.get(index);
+            if (cached) return cached;
+            const interned = this.internedTypes[index];
+            if (!interned) {
+                throw new DamlLfDecodeError(`Interned type ${index} out of range`);
+            }
+            const decoded = this.decodeType(interned);
+            this.typeCache.set(index, decoded);
+            return decoded;
+        }
+
+        const builtin = type.message(F.Type.builtin);
+        if (builtin) {
+            return {
+                kind: 'builtin',
+                builtin: builtin.int(F.TypeApp.head),
+                args: builtin.messages(F.TypeApp.args).map((arg) => this.decodeType(arg)),
+            };
+        }
+
+        const con = type.message(F.Type.con);
+        if (con) {
+            const ref = con.message(F.TypeApp.head);
+            return {
+                kind: 'con',
+                ref: ref ? this.typeCon(ref) : '',
+                args: con.messages(F.TypeApp.args).map((arg) => this.decodeType(arg)),
+            };
+        }
+
+        const variable = type.message(F.Type.var);
+        if (variable) {
+            return { kind: 'var', name: this.str(variable.int(F.TypeApp.head)) };
+        }
+
+        if (type.has(F.Type.nat)) {
+            return { kind: 'nat', value: type.int(F.Type.nat) };
+        }
+
+        const forall = type.message(F.Type.forall);
+        if (forall) {
+            return this.decodeType(forall.message(F.Forall.body));
+        }
+
+        return { kind: 'other', name: type.has(F.Type.struct) ? 'Struct' : 'Synonym' };
+    }
+}
+
+// ============================================================================
+// Catalog Building
+// ============================================================================
+
+/**
+ * Resolve decoded packages into templates and interfaces. Data types are
+ * looked up across all packages, so dependencies should be included.
+ */
+export function buildCatalog(decoded: DecodedPackage[], failures: DamlPackage[] = []): PackageCatalog {
+    const dataTypes = new Map<TemplateId, LfDataType>();
+    decoded.forEach((pkg) => pkg.dataTypes.forEach((dataType, id) => dataTypes.set(id, dataType)));
+    const resolver = new TypeResolver(dataTypes);
+
+    const packages: DamlPackage[] = [...failures];
+    const templates: Template[] = [];
+    const interfaces: DamlInterface[] = [];
+
+    for (const pkg of decoded) {
+        packages.push({
+            packageId: pkg.packageId,
+            name: pkg.name,
+            version: pkg.version,
+            lfVersion: pkg.lfVersion,
+            modules: pkg.modules,
+            size: pkg.size,
+            dependencies: pkg.dependencies,
+            knownSince: pkg.knownSince,
+            templateIds: pkg.templates.map((t) => t.id),
+            interfaceIds: pkg.interfaces.map((i) => i.id),
+        });
+
+        for (const template of pkg.templates) {
+            templates.push({
+                templateId: template.id,
+                packageId: pkg.packageId,
+                moduleName: template.moduleName,
+                entityName: template.entityName,
+                choices: template.choices.map((c) => resolver.choice(c)),
+                argType: resolver.resolve({ kind: 'con', ref: template.id, args: [] }),
+                keyType: template.keyType ? resolver.resolve(template.keyType) : undefined,
+                implements: template.implements,
+                packageName: pkg.name,
+                packageVersion: pkg.version,
+            });
+        }
+
+        for (const iface of pkg.interfaces) {
+            interfaces.push({
+                interfaceId: iface.id,
+                packageId: pkg.packageId,
+                moduleName: iface.moduleName,
+                entityName: iface.entityName,
+                choices: iface.choices.map((c) => resolver.choice(c)),
+                viewType: iface.viewType ? resolver.resolve(iface.viewType) : undefined,
+                requires: iface.requires,
+            });
+        }
+    }
+
+    return { packages, templates, interfaces };
+}
+
+class TypeResolver {
+    /** Resolved data type applications, by name and type arguments */
+    private resolved = new Map<string, DamlType>();
+    /** Data type applications being resolved; meeting one again is recursion */
+    private resolving = new Set<string>();
+
+    constructor(private dataTypes: Map<TemplateId, LfDataType>) {}
+
+    choice(choice: LfChoice): Choice {
+        return {
+            name: choice.name,
+            consuming: choice.consuming,
+            selfConsuming: choice.consuming,
+            // Controllers and observers are expressions, only known at runtime
+            controllers: [],
+            observers: [],
+            argType: this.resolve(choice.argType),
+            returnType: this.resolve(choice.returnType),
+        };
+    }
+
+    resolve(type: LfType, env = new Map<string, LfType>()): DamlType {
+        const next = (t: LfType) => this.resolve(t, env);
+
+        switch (type.kind) {
+            case 'var': {
+                const bound = env.get(type.name);
+                return bound ? this.resolve(bound) : { tag: 'unknown', name: type.name };
+            }
+            case 'nat':
+                return { tag: 'unknown', name: String(type.value) };
+            case 'other':
+                return { tag: 'unknown', name: type.name };
+            case 'builtin':
+                return this.builtin(type.builtin, type.args.map((arg) => substitute(arg, env)), next);
+            case 'con':
+                return this.dataType(type.ref, type.args.map((arg) => substitute(arg, env)));
+        }
+    }
+
+    private builtin(builtin: number, args: LfType[], next: (t: LfType) => DamlType): DamlType {
+        const [first, second] = args;
+        switch (builtin) {
+            case Builtin.UNIT:
+                return { tag: 'unit' };
+            case Builtin.BOOL:
+                return { tag: 'bool' };
+            case Builtin.INT64:
+                return { tag: 'int64' };
+            case Builtin.DATE:
+                return { tag: 'date' };
+            case Builtin.TIMESTAMP:
+                return { tag: 'timestamp' };
+            case Builtin.NUMERIC:
+                return first?.kind === 'nat' ? { tag: 'numeric', scale: first.value } : { tag: 'decimal' };
+            case Builtin.PARTY:
+                return { tag: 'party' };
+            case Builtin.TEXT:
+                return { tag: 'text' };
+            case Builtin.CONTRACT_ID:
+                return { tag: 'contractId', templateId: first?.kind === 'con' ? first.ref : '' };
+            case Builtin.OPTIONAL:
+                return first ? { tag: 'optional', elementType: next(first) } : { tag: 'unknown', name: 'Optional' };
+            case Builtin.LIST:
+                return first ? { tag: 'list', elementType: next(first) } : { tag: 'unknown', name: 'List' };
+            case Builtin.TEXTMAP:
+                return first ? { tag: 'textMap', valueType: next(first) } : { tag: 'unknown', name: 'TextMap' };
+            case Builtin.GENMAP:
+                return first && second
+                    ? { tag: 'map', keyType: next(first), valueType: next(second) }
+                    : { tag: 'unknown', name: 'Map' };
+            case Builtin.ANY:
+                return { tag: 'unknown', name: 'Any' };
+            default:
+                return { tag: 'unknown', name: `Builtin ${builtin}` };
+        }
+    }
+
+    /**
+     * Resolve a data type applied to `args` once; a data type met again while
+     * its own fields are being resolved is recursive and left unexpanded.
+     */
+    private dataType(ref: TemplateId, args: LfType[]): DamlType {
+        const key = JSON.stringify([ref, args]);
+        const cached = this.resolved.get(key);
+        if (cached) {
+            return cached;
+        }
+        if (this.resolving.has(key)) {
+            return { tag: 'unknown', name: 'Recursive' };
+        }
+        if (this.resolving.size >= MAX_TYPE_DEPTH) {
+            return { tag: 'unknown', name: 'Nested too deeply' };
+        }
+
+        this.resolving.add(key);
+        try {
+            const resolved = this.expand(ref, args);
+            this.resolved.set(key, resolved);
+            return resolved;
+        } finally {
+            this.resolving.delete(key);
+        }
+    }
+
+    private expand(ref: TemplateId, args: LfType[]): DamlType {
+        const dataType = this.dataTypes.get(ref);
+        const name = ref.split(':').pop() || ref;
+        if (!dataType) {
+            return { tag: 'unknown', name };
+        }
+
+        const env = new Map(dataType.params.map((param, i) => [param, args[i]] as const)
+            .filter((entry): entry is [string, LfType] => entry[1] !== undefined));
+        const field = (f: { name: string; type: LfType }) => ({
+            name: f.name,
+            type: this.resolve(f.type, env),
+        });
+
+        switch (dataType.cons.kind) {
+            case 'record':
+                return { tag: 'record', fields: dataType.cons.fields.map(field) };
+            case 'variant':
+                return { tag: 'variant', constructors: dataType.cons.constructors.map(field) };
+            case 'enum':
+                return { tag: 'enum', constructors: dataType.cons.constructors };
+            case 'interface':
+                return { tag: 'unknown', name };
+        }
+    }
+}
+
+/** Replace type variables bound in `env` before leaving their scope */
+function substitute(type: LfType, env: Map<string, LfType>): LfType {
+    switch (type.kind) {
+        case 'var':
+            return env.get(type.name) ?? type;
+        case 'builtin':
+        case 'con':
+            return { ...type, args: type.args.map((arg) => substitute(arg, env)) };
+        default:
+            return type;
+    }
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DamlValueError,
+    defaultDraft,
+    fromLedgerValue,
+    resolveArgument,
+    toLedgerValue,
+    validateDraft,
+} from './damlValue';
+import type { DamlType } from '../types/canton';
+
+const int64: DamlType = { tag: 'int64' };
+const text: DamlType = { tag: 'text' };
+const optional = (elementType: DamlType): DamlType => ({ tag: 'optional', elementType });
+
+describe('toLedgerValue', () => {
+    it('encodes nested optionals unambiguously', () => {
+        const type = optional(optional(int64));
+
+        expect(toLedgerValue(type, null)).toBeNull();
+        expect(toLedgerValue(type, { some: null })).toEqual([]);
+        expect(toLedgerValue(type, { some: { some: '5' } })).toEqual(['5']);
+    });
+
+    it('keeps Int64 and numerics as trimmed strings', () => {
+        expect(toLedgerValue(int64, ' -9223372036854775808 ')).toBe('-9223372036854775808');
+        expect(toLedgerValue({ tag: 'numeric', scale: 2 }, '1.25')).toBe('1.25');
+    });
+
+    it('rejects Int64 values out of range', () => {
+        expect(() => toLedgerValue(int64, '9223372036854775808')).toThrow(DamlValueError);
+    });
+
+    it('rejects numerics with more decimals than the scale', () => {
+        expect(() => toLedgerValue({ tag: 'numeric', scale: 2 }, '1.255')).toThrow('at most 2 decimal places');
+        expect(() => toLedgerValue({ tag: 'numeric', scale: 0 }, '1.5')).toThrow(DamlValueError);
+    });
+
+    it('keeps text verbatim', () => {
+        expect(toLedgerValue(text, '  padded ')).toBe('  padded ');
+    });
+
+    it('encodes maps as entry pairs and text maps as objects', () => {
+        const entries = [['a', '1'], ['b', '2']];
+
+        expect(toLedgerValue({ tag: 'map', keyType: text, valueType: int64 }, entries)).toEqual([
+            ['a', '1'],
+            ['b', '2'],
+        ]);
+        expect(toLedgerValue({ tag: 'textMap', valueType: int64 }, entries)).toEqual({ a: '1', b: '2' });
+    });
+
+    it('encodes records and variants', () => {
+        const type: DamlType = {
+            tag: 'record',
+            fields: [
+                { name: 'owner', type: { tag: 'party' } },
+                {
+                    name: 'shape',
+                    type: {
+                        tag: 'variant',
+                        constructors: [
+                            { name: 'Circle', type: { tag: 'numeric', scale: 2 } },
+                            { name: 'Point', type: { tag: 'unit' } },
+                        ],
+                    },
+                },
+            ],
+        };
+
+        expect(toLedgerValue(type, { owner: 'alice', shape: { tag: 'Point', value: {} } })).toEqual({
+            owner: 'alice',
+            shape: { tag: 'Point', value: {} },
+        });
+    });
+});
+
+describe('validateDraft', () => {
+    it('reports every problem with its path', () => {
+        const type: DamlType = {
+            tag: 'record',
+            fields: [
+                { name: 'owner', type: { tag: 'party' } },
+                { name: 'amounts', type: { tag: 'list', elementType: int64 } },
+            ],
+        };
+
+        expect(validateDraft(type, { owner: ' ', amounts: ['1', 'x'] })).toEqual([
+            { path: 'owner', message: 'Party is required' },
+            { path: 'amounts.1', message: 'Expected a whole number' },
+        ]);
+    });
+
+    it('reports duplicate map keys', () => {
+        const type: DamlType = { tag: 'map', keyType: text, valueType: int64 };
+        expect(validateDraft(type, [['a', '1'], ['a', '2']])).toEqual([
+            { path: '1.key', message: 'Duplicate key' },
+        ]);
+    });
+
+    it('rejects unknown variant constructors and enum values', () => {
+        const variant: DamlType = { tag: 'variant', constructors: [{ name: 'A', type: { tag: 'unit' } }] };
+        expect(validateDraft(variant, { tag: 'B', value: {} })).toEqual([{ path: '', message: 'Unknown constructor' }]);
+        expect(validateDraft({ tag: 'enum', constructors: ['Red'] }, 'Blue')).toHaveLength(1);
+    });
+});
+
+describe('fromLedgerValue', () => {
+    it('round-trips through the ledger encoding', () => {
+        const type: DamlType = {
+            tag: 'record',
+            fields: [
+                { name: 'note', type: optional(optional(text)) },
+                { name: 'tags', type: { tag: 'textMap', valueType: int64 } },
+                { name: 'count', type: int64 },
+            ],
+        };
+        const value = { note: [], tags: { a: '1' }, count: '3' };
+
+        const draft = fromLedgerValue(type, value);
+        expect(draft).toEqual({ note: { some: null }, tags: [['a', '1']], count: '3' });
+        expect(toLedgerValue(type, draft)).toEqual(value);
+    });
+
+    it('falls back to defaults for values of the wrong shape', () => {
+        const variant: DamlType = { tag: 'variant', constructors: [{ name: 'A', type: int64 }] };
+
+        expect(fromLedgerValue(variant, 'nonsense')).toEqual(defaultDraft(variant));
+        expect(fromLedgerValue({ tag: 'list', elementType: int64 }, {})).toEqual([]);
+        expect(fromLedgerValue({ tag: 'timestamp' }, 'not a date')).toBe('');
+    });
+});
+
+describe('resolveArgument', () => {
+    it('prefixes form errors with the label', () => {
+        expect(() => resolveArgument('Amount', { mode: 'form', draft: 'x', json: '' }, int64)).toThrow(
+            'Amount: Expected a whole number'
+        );
+    });
+
+    it('parses raw JSON when no type is known', () => {
+        expect(resolveArgument('Argument', { mode: 'json', draft: null, json: '{"a":1}' })).toEqual({ a: 1 });
+        expect(() => resolveArgument('Argument', { mode: 'json', draft: null, json: '{' })).toThrow(
+            'Argument is not valid JSON'
+        );
+    });
+});
@@ -0,0 +1,407 @@
+/**
+ * Daml Value Helpers
+ *
+ * Converts between form drafts and the JSON Ledger API value encoding for a
+ * given DamlType:
+ * - Default drafts for empty forms
+ * - Validation with per-field paths
+ * - Serialization to / parsing from the JSON Ledger API encoding
+ *
+ * @see https://docs.digitalasset.com/build/3.3/reference/json-api/lf-value-specification.html
+ */
+
+import type { DamlType } from '../types/canton';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Editable form state for a Daml value.
+ *
+ * Scalars are kept as strings (exactly what the inputs hold), optionals as
+ * `null` or `{ some }` (so nested optionals stay unambiguous), variants as
+ * `{ tag, value }` and maps as `[key, value]` entry pairs.
+ */
+export type DamlDraft =
+    | string
+    | boolean
+    | null
+    | DamlDraft[]
+    | { [field: string]: DamlDraft };
+
+export interface DamlValidationError {
+    /** Dotted path to the offending value, e.g. `owner` or `items.2.amount` */
+    path: string;
+    message: string;
+}
+
+export class DamlValueError extends Error {
+    constructor(public readonly errors: DamlValidationError[]) {
+        super(
+            errors
+                .map((e) => (e.path ? `${e.path}: ${e.message}` : e.message))
+                .join('; ')
+        );
+        this.name = 'DamlValueError';
+    }
+}
+
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+const DEFAULT_NUMERIC_SCALE = 10;
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/**
+ * Build the empty draft for a type.
+ */
+export function defaultDraft(type: DamlType): DamlDraft {
+    switch (type.tag) {
+        case 'unit':
+            return {};
+        case 'bool':
+            return false;
+        case 'optional':
+            return null;
+        case 'list':
+        case 'map':
+        case 'textMap':
+            return [];
+        case 'record':
+            return Object.fromEntries(
+                type.fields.map((field) => [field.name, defaultDraft(field.type)])
+            );
+        case 'variant': {
+            const first = type.constructors[0];
+            return first ? { tag: first.name, value: defaultDraft(first.type) } : null;
+        }
+        case 'enum':
+            return type.constructors[0] ?? '';
+        default:
+            return '';
+    }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const joinPath = (path: string, segment: string | number) =>
+    path ? `${path}.${segment}` : String(segment);
+
+function numericPattern(scale: number): RegExp {
+    return scale > 0
+        ? new RegExp(`^-?\\d+(\\.\\d{1,${scale}})?$`)
+        : /^-?\d+$/;
+}
+
+/**
+ * Validate a draft against its type. Returns every problem found.
+ */
+export function validateDraft(
+    type: DamlType,
+    draft: DamlDraft,
+    path = ''
+): DamlValidationError[] {
+    const fail = (message: string) => [{ path, message }];
+    const text = typeof draft === 'string' ? draft.trim() : '';
+
+    switch (type.tag) {
+        case 'unit':
+        case 'bool':
+            return [];
+        case 'text':
+            return typeof draft === 'string' ? [] : fail('Expected text');
+        case 'int64': {
+            if (!/^-?\d+$/.test(text)) return fail('Expected a whole number');
+            const value = BigInt(text);
+            return value < INT64_MIN || value > INT64_MAX ? fail('Out of Int64 range') : [];
+        }
+        case 'decimal':
+        case 'numeric': {
+            const scale = type.tag === 'numeric' ? type.scale : DEFAULT_NUMERIC_SCALE;
+            return numericPattern(scale).test(text)
+                ? []
+                : fail(`Expected a number with at most ${scale} decimal places`);
+        }
+        case 'party':
+            return text ? [] : fail('Party is required');
+        case 'contractId':
+            return text ? [] : fail('Contract ID is required');
+        case 'date':
+            return /^\d{4}-\d{2}-\d{2}$/.test(text) ? [] : fail('Expected a date');
+        case 'timestamp':
+            return text && !Number.isNaN(new Date(text).getTime()) ? [] : fail('Expected a date and time');
+        case 'optional':
+            if (draft === null) return [];
+            return isDraftObject(draft) && 'some' in draft
+                ? validateDraft(type.elementType, draft.some, path)
+                : fail('Expected an optional value');
+        case 'list':
+            return Array.isArray(draft)
+                ? draft.flatMap((item, i) => validateDraft(type.elementType, item, joinPath(path, i)))
+                : fail('Expected a list');
+        case 'map':
+        case 'textMap': {
+            if (!Array.isArray(draft)) return fail('Expected a map');
+            const keyType: DamlType = type.tag === 'map' ? type.keyType : { tag: 'text' };
+            const seen = new Set<string>();
+            return draft.flatMap((entry, i) => {
+                const [key, value] = Array.isArray(entry) ? entry : [null, null];
+                const entryPath = joinPath(path, i);
+                const errors = [
+                    ...validateDraft(keyType, key, joinPath(entryPath, 'key')),
+                    ...validateDraft(type.valueType, value, joinPath(entryPath, 'value')),
+                ];
+                const keyId = JSON.stringify(key);
+                if (seen.has(keyId)) {
+                    errors.push({ path: joinPath(entryPath, 'key'), message: 'Duplicate key' });
+                }
+                seen.add(keyId);
+                return errors;
+            });
+        }
+        case 'record': {
+            if (!isDraftObject(draft)) return fail('Expected a record');
+            return type.fields.flatMap((field) =>
+                validateDraft(field.type, draft[field.name] ?? null, joinPath(path, field.name))
+            );
+        }
+        case 'variant': {
+            if (!isDraftObject(draft)) return fail('Expected a constructor');
+            const constructor = type.constructors.find((c) => c.name === draft.tag);
+            return constructor
+                ? validateDraft(constructor.type, draft.value ?? null, joinPath(path, constructor.name))
+                : fail('Unknown constructor');
+        }
+        case 'enum':
+            return type.constructors.includes(text) ? [] : fail('Unknown enum value');
+        case 'unknown':
+            try {
+                JSON.parse(text);
+                return [];
+            } catch {
+                return fail('Expected a JSON value');
+            }
+    }
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+function isDraftObject(draft: DamlDraft): draft is { [field: string]: DamlDraft } {
+    return typeof draft === 'object' && draft !== null && !Array.isArray(draft);
+}
+
+/**
+ * Convert a draft into the JSON Ledger API value encoding.
+ *
+ * Throws a DamlValueError when the draft does not validate.
+ */
+export function toLedgerValue(type: DamlType, draft: DamlDraft): unknown {
+    const errors = validateDraft(type, draft);
+    if (errors.length > 0) {
+        throw new DamlValueError(errors);
+    }
+    return encode(type, draft);
+}
+
+function encode(type: DamlType, draft: DamlDraft): unknown {
+    switch (type.tag) {
+        case 'unit':
+            return {};
+        case 'bool':
+            return Boolean(draft);
+        case 'int64':
+        case 'decimal':
+        case 'numeric':
+        case 'party':
+        case 'contractId':
+        case 'date':
+        case 'enum':
+            return String(draft).trim();
+        case 'text':
+            return String(draft);
+        case 'timestamp':
+            return new Date(String(draft)).toISOString();
+        case 'optional': {
+            if (draft === null) return null;
+            const inner = encode(type.elementType, (draft as { some: DamlDraft }).some);
+            // Nested optionals: Some None is [], Some (Some x) is [x]
+            if (type.elementType.tag === 'optional') {
+                return inner === null ? [] : [inner];
+            }
+            return inner;
+        }
+        case 'list':
+            return (draft as DamlDraft[]).map((item) => encode(type.elementType, item));
+        case 'map':
+            return (draft as DamlDraft[]).map((entry) => {
+                const [key, value] = entry as DamlDraft[];
+                return [encode(type.keyType, key), encode(type.valueType, value)];
+            });
+        case 'textMap':
+            return Object.fromEntries(
+                (draft as DamlDraft[]).map((entry) => {
+                    const [key, value] = entry as DamlDraft[];
+                    return [String(key), encode(type.valueType, value)];
+                })
+            );
+        case 'record': {
+            const record = draft as { [field: string]: DamlDraft };
+            return Object.fromEntries(
+                type.fields.map((field) => [field.name, encode(field.type, record[field.name] ?? null)])
+            );
+        }
+        case 'variant': {
+            const variant = draft as { [field: string]: DamlDraft };
+            const constructor = type.constructors.find((c) => c.name === variant.tag)!;
+            return { tag: constructor.name, value: encode(constructor.type, variant.value ?? null) };
+        }
+        case 'unknown':
+            return JSON.parse(String(draft));
+    }
+}
+
+/**
+ * Convert a JSON Ledger API value back into a draft, e.g. when switching an
+ * editor from raw JSON to form mode. Unparseable parts fall back to defaults.
+ */
+export function fromLedgerValue(type: DamlType, value: unknown): DamlDraft {
+    switch (type.tag) {
+        case 'unit':
+            return {};
+        case 'bool':
+            return value === true;
+        case 'timestamp': {
+            const date = typeof value === 'string' ? new Date(value) : null;
+            return date && !Number.isNaN(date.getTime()) ? toLocalDateTime(date) : '';
+        }
+        case 'optional':
+            if (value === null || value === undefined) return null;
+            if (type.elementType.tag === 'optional') {
+                return {
+                    some: Array.isArray(value) && value.length > 0
+                        ? fromLedgerValue(type.elementType, value[0])
+                        : null,
+                };
+            }
+            return { some: fromLedgerValue(type.elementType, value) };
+        case 'list':
+            return Array.isArray(value)
+                ? value.map((item) => fromLedgerValue(type.elementType, item))
+                : [];
+        case 'map':
+            return Array.isArray(value)
+                ? value.map((entry) => [
+                    fromLedgerValue(type.keyType, Array.isArray(entry) ? entry[0] : null),
+                    fromLedgerValue(type.valueType, Array.isArray(entry) ? entry[1] : null),
+                ])
+                : [];
+        case 'textMap':
+            return value && typeof value === 'object'
+                ? Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+                    key,
+                    fromLedgerValue(type.valueType, item),
+                ])
+                : [];
+        case 'record': {
+            const record = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+            return Object.fromEntries(
+                type.fields.map((field) => [field.name, fromLedgerValue(field.type, record[field.name])])
+            );
+        }
+        case 'variant': {
+            const variant = (value && typeof value === 'object' ? value : {}) as { tag?: string; value?: unknown };
+            const constructor = type.constructors.find((c) => c.name === variant.tag);
+            return constructor
+                ? { tag: constructor.name, value: fromLedgerValue(constructor.type, variant.value) }
+                : defaultDraft(type);
+        }
+        case 'unknown':
+            return value === undefined ? '' : JSON.stringify(value);
+        default:
+            return typeof value === 'string' || typeof value === 'number' ? String(value) : defaultDraft(type);
+    }
+}
+
+// ============================================================================
+// Argument Editors
+// ============================================================================
+
+/** State of an argument editor that can switch between form and raw JSON */
+export interface ArgumentState {
+    mode: 'form' | 'json';
+    draft: DamlDraft;
+    json: string;
+}
+
+/**
+ * Initial editor state: form mode when the type is known, JSON otherwise.
+ */
+export function initialArgumentState(type?: DamlType, json = '{}'): ArgumentState {
+    return type
+        ? { mode: 'form', draft: defaultDraft(type), json }
+        : { mode: 'json', draft: null, json };
+}
+
+/**
+ * Produce the JSON Ledger API value an argument editor currently holds.
+ */
+export function resolveArgument(label: string, state: ArgumentState, type?: DamlType): unknown {
+    if (state.mode === 'form' && type) {
+        try {
+            return toLedgerValue(type, state.draft);
+        } catch (error) {
+            throw new Error(`${label}: ${error instanceof Error ? error.message : 'invalid value'}`);
+        }
+    }
+    try {
+        return JSON.parse(state.json);
+    } catch {
+        throw new Error(`${label} is not valid JSON`);
+    }
+}
+
+/**
+ * Format a date for a `datetime-local` input (local time, seconds precision).
+ */
+export function toLocalDateTime(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+        `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Short human-readable rendering of a type, e.g. `Optional (List Party)`.
+ */
+export function describeType(type: DamlType): string {
+    switch (type.tag) {
+        case 'contractId':
+            return `ContractId ${type.templateId.split(':').pop() || ''}`.trim();
+        case 'list':
+            return `List (${describeType(type.elementType)})`;
+        case 'optional':
+            return `Optional (${describeType(type.elementType)})`;
+        case 'map':
+            return `Map (${describeType(type.keyType)}) (${describeType(type.valueType)})`;
+        case 'textMap':
+            return `TextMap (${describeType(type.valueType)})`;
+        case 'numeric':
+            return `Numeric ${type.scale}`;
+        case 'record':
+            return 'Record';
+        case 'variant':
+            return 'Variant';
+        case 'enum':
+            return 'Enum';
+        case 'unknown':
+            return type.name;
+        default:
+            return type.tag.charAt(0).toUpperCase() + type.tag.slice(1);
+    }
+}
@@ -0,0 +1,186 @@
+/**
+ * DAR Reader
+ *
+ * Reads a DAR (a zip of Daml-LF archives) in the browser, so a file can be
+ * inspected before it is uploaded:
+ * - Zip central directory, stored and deflated entries
+ * - META-INF/MANIFEST.MF: DAR name, SDK version and main package
+ * - Each .dalf archive, decoded with the Daml-LF decoder
+ *
+ * Zip64 is not supported; DARs stay far below its 4 GB threshold.
+ */
+
+import { decodeMessage } from './protobuf';
+import { decodePackage, type DecodedPackage } from './damlLf';
+import type { PackageId } from '../types/canton';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DarArchive {
+    name?: string;
+    sdkVersion?: string;
+    mainPackageId?: PackageId;
+    packages: DecodedPackage[];
+    /** Archives that could not be decoded, by entry name */
+    failures: Array<{ entry: string; error: string }>;
+}
+
+export class DarReadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DarReadError';
+    }
+}
+
+interface ZipEntry {
+    name: string;
+    method: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+const SIG_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const SIG_CENTRAL_DIRECTORY = 0x02014b50;
+const SIG_LOCAL_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/** Fields of the Daml-LF `Archive` message wrapping each payload */
+const F_ARCHIVE = { payload: 3, hash: 4 } as const;
+
+const MANIFEST = 'META-INF/MANIFEST.MF';
+
+// ============================================================================
+// Zip
+// ============================================================================
+
+function readEntries(bytes: Uint8Array): ZipEntry[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const textDecoder = new TextDecoder();
+
+    // The end record is 22 bytes plus a comment of up to 64 KB
+    let end = -1;
+    for (let pos = bytes.length - 22; pos >= Math.max(0, bytes.length - 22 - 0xffff); pos--) {
+        if (view.getUint32(pos, true) === SIG_END_OF_CENTRAL_DIRECTORY) {
+            end = pos;
+            break;
+        }
+    }
+    if (end < 0) {
+        throw new DarReadError('Not a zip file');
+    }
+
+    const count = view.getUint16(end + 10, true);
+    let pos = view.getUint32(end + 16, true);
+    if (pos === 0xffffffff) {
+        throw new DarReadError('Zip64 archives are not supported');
+    }
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(pos, true) !== SIG_CENTRAL_DIRECTORY) {
+            throw new DarReadError('Corrupt zip central directory');
+        }
+        const nameLength = view.getUint16(pos + 28, true);
+        const extraLength = view.getUint16(pos + 30, true);
+        const commentLength = view.getUint16(pos + 32, true);
+        entries.push({
+            name: textDecoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength)),
+            method: view.getUint16(pos + 10, true),
+            compressedSize: view.getUint32(pos + 20, true),
+            localHeaderOffset: view.getUint32(pos + 42, true),
+        });
+        pos += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+}
+
+async function readEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== SIG_LOCAL_HEADER) {
+        throw new DarReadError(`Corrupt zip entry ${entry.name}`);
+    }
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const data = bytes.slice(start, start + entry.compressedSize);
+
+    switch (entry.method) {
+        case METHOD_STORED:
+            return data;
+        case METHOD_DEFLATE: {
+            const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+            return new Uint8Array(await new Response(stream).arrayBuffer());
+        }
+        default:
+            throw new DarReadError(`Unsupported compression method ${entry.method} in ${entry.name}`);
+    }
+}
+
+// ============================================================================
+// Manifest
+// ============================================================================
+
+/**
+ * Parse a JAR-style manifest. Lines longer than 72 bytes continue on the
+ * next line, which starts with a single space.
+ */
+function parseManifest(text: string): Map<string, string> {
+    const unfolded = text.replace(/\r?\n /g, '');
+    const attributes = new Map<string, string>();
+    for (const line of unfolded.split(/\r?\n/)) {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+            attributes.set(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+        }
+    }
+    return attributes;
+}
+
+// ============================================================================
+// DAR
+// ============================================================================
+
+/**
+ * Read a DAR and decode the packages it contains.
+ */
+export async function readDar(bytes: Uint8Array): Promise<DarArchive> {
+    const entries = readEntries(bytes);
+    const result: DarArchive = { packages: [], failures: [] };
+    let mainDalf: string | undefined;
+
+    const manifestEntry = entries.find((entry) => entry.name === MANIFEST);
+    if (manifestEntry) {
+        const manifest = parseManifest(new TextDecoder().decode(await readEntry(bytes, manifestEntry)));
+        result.name = manifest.get('Name');
+        result.sdkVersion = manifest.get('Sdk-Version');
+        mainDalf = manifest.get('Main-Dalf');
+    }
+
+    for (const entry of entries.filter((e) => e.name.endsWith('.dalf'))) {
+        try {
+            const archive = decodeMessage(await readEntry(bytes, entry));
+            const packageId = archive.string(F_ARCHIVE.hash);
+            const payload = archive.bytes(F_ARCHIVE.payload);
+            if (!packageId || !payload) {
+                throw new DarReadError('Not a Daml-LF archive');
+            }
+            result.packages.push(decodePackage(packageId, payload));
+            if (entry.name === mainDalf) {
+                result.mainPackageId = packageId;
+            }
+        } catch (error) {
+            result.failures.push({
+                entry: entry.name,
+                error: error instanceof Error ? error.message : 'Failed to decode archive',
+            });
+        }
+    }
+
+    if (result.packages.length === 0 && result.failures.length === 0) {
+        throw new DarReadError('The file contains no Daml-LF archives');
+    }
+    return result;
+}
@@ -0,0 +1,269 @@
+/**
+ * Ledger Cache
+ *
+ * Persistent local cache in IndexedDB so reopening LedgerView serves data
+ * immediately while fresh data loads:
+ * - Party snapshots (contracts, archive index, transactions, offsets) per
+ *   endpoint and set of lens parties
+ * - Decoded packages per package ID (package IDs are content hashes, so an
+ *   entry is valid on every participant that has the package)
+ * - Least-recently-used eviction with a size budget and a maximum age
+ *
+ * Every function degrades to a no-op when IndexedDB is unavailable (private
+ * browsing, tests): the cache is an optimisation, never a requirement.
+ */
+
+import type {
+    ArchivedContract,
+    Contract,
+    LedgerOffset,
+    PackageId,
+    PartyId,
+    Transaction,
+} from '../types/canton';
+import type { DecodedPackage } from './damlLf';
+import { lensKey } from './partyLens';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PartySnapshot {
+    endpoint: string;
+    /** Parties of the lens the snapshot was taken for */
+    parties: PartyId[];
+    contracts: Contract[];
+    archivedContracts: ArchivedContract[];
+    transactions: Transaction[];
+    acsOffset: LedgerOffset;
+    /** Absent in snapshots written before snapshots were capped */
+    acsTruncated?: boolean;
+    lastOffset: LedgerOffset;
+    savedAt: string;
+}
+
+export interface CacheStats {
+    parties: number;
+    packages: number;
+    /** Estimated size of the cached data */
+    bytes: number;
+}
+
+export class LedgerCacheError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LedgerCacheError';
+    }
+}
+
+/** Bookkeeping kept apart from the data so eviction never reads the data */
+interface CacheEntry {
+    key: string;
+    kind: 'party' | 'package';
+    bytes: number;
+    accessedAt: number;
+}
+
+const DB_NAME = 'ledgerview-cache';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+const DATA = 'data';
+
+/** Total size budget; least recently used entries are evicted beyond it */
+const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+/** Entries not read for this long are dropped */
+const MAX_ENTRY_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Database Access
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.resolve(null);
+    }
+
+    dbPromise ??= new Promise<IDBDatabase | null>((resolve) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(ENTRIES)) {
+                db.createObjectStore(ENTRIES, { keyPath: 'key' });
+            }
+            if (!db.objectStoreNames.contains(DATA)) {
+                db.createObjectStore(DATA);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.warn('Ledger cache unavailable:', request.error);
+            resolve(null);
+        };
+    });
+    return dbPromise;
+}
+
+/**
+ * Run `body` in a transaction over both stores and resolve with its result
+ * once the transaction has committed.
+ */
+async function withStores<T>(
+    mode: IDBTransactionMode,
+    body: (entries: IDBObjectStore, data: IDBObjectStore) => Promise<T> | T
+): Promise<T | null> {
+    const db = await openDatabase();
+    if (!db) return null;
+
+    const tx = db.transaction([ENTRIES, DATA], mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onabort = () => reject(new LedgerCacheError(tx.error?.message ?? 'Cache transaction aborted'));
+        tx.onerror = () => reject(new LedgerCacheError(tx.error?.message ?? 'Cache transaction failed'));
+    });
+    const result = await body(tx.objectStore(ENTRIES), tx.objectStore(DATA));
+    await done;
+    return result;
+}
+
+function requestValue<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(new LedgerCacheError(request.error?.message ?? 'Cache request failed'));
+    });
+}
+
+/** Order-independent, and unchanged from single-party keys for one party */
+const partyKey = (endpoint: string, parties: PartyId[]) => `party:${endpoint}|${lensKey(parties)}`;
+const packageKey = (packageId: PackageId) => `package:${packageId}`;
+
+async function readEntry<T>(key: string): Promise<T | null> {
+    try {
+        const value = await withStores('readwrite', async (entries, data) => {
+            const [entry, value] = await Promise.all([
+                requestValue<CacheEntry | undefined>(entries.get(key)),
+                requestValue<T | undefined>(data.get(key)),
+            ]);
+            if (!entry || value === undefined) return null;
+            entries.put({ ...entry, accessedAt: Date.now() });
+            return value;
+        });
+        return value ?? null;
+    } catch (error) {
+        console.warn('Ledger cache read failed:', error);
+        return null;
+    }
+}
+
+async function writeEntry(key: string, kind: CacheEntry['kind'], value: unknown, bytes: number): Promise<void> {
+    if (bytes > MAX_CACHE_BYTES) return;
+
+    try {
+        await withStores('readwrite', (entries, data) => {
+            data.put(value, key);
+            entries.put({ key, kind, bytes, accessedAt: Date.now() } satisfies CacheEntry);
+        });
+        await evict();
+    } catch (error) {
+        console.warn('Ledger cache write failed:', error);
+    }
+}
+
+/**
+ * Drop expired entries, then the least recently used ones until the cache
+ * fits its size budget.
+ */
+async function evict(): Promise<void> {
+    await withStores('readwrite', async (entries, data) => {
+        const all = await requestValue<CacheEntry[]>(entries.getAll());
+        const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+        let total = all.reduce((sum, entry) => sum + entry.bytes, 0);
+
+        for (const entry of all.sort((a, b) => a.accessedAt - b.accessedAt)) {
+            if (entry.accessedAt >= cutoff && total <= MAX_CACHE_BYTES) break;
+            entries.delete(entry.key);
+            data.delete(entry.key);
+            total -= entry.bytes;
+        }
+    });
+}
+
+// ============================================================================
+// Party Snapshots
+// ============================================================================
+
+export function loadPartySnapshot(endpoint: string, parties: PartyId[]): Promise<PartySnapshot | null> {
+    return readEntry<PartySnapshot>(partyKey(endpoint, parties));
+}
+
+/** Estimated sizes of snapshot items, which are never mutated once synced */
+const itemSizes = new WeakMap<object, number>();
+
+/**
+ * Structured clone has no size API; the JSON length is a fair estimate. Items
+ * are measured once, so repeated saves of a large ACS only measure what changed.
+ */
+function snapshotBytes(snapshot: PartySnapshot): number {
+    let bytes = 0;
+    for (const items of [snapshot.contracts, snapshot.archivedContracts, snapshot.transactions]) {
+        for (const item of items) {
+            let size = itemSizes.get(item);
+            if (size === undefined) {
+                size = JSON.stringify(item).length;
+                itemSizes.set(item, size);
+            }
+            bytes += size;
+        }
+    }
+    return bytes;
+}
+
+export function savePartySnapshot(snapshot: PartySnapshot): Promise<void> {
+    return writeEntry(partyKey(snapshot.endpoint, snapshot.parties), 'party', snapshot, snapshotBytes(snapshot));
+}
+
+// ============================================================================
+// Packages
+// ============================================================================
+
+export function loadCachedPackage(packageId: PackageId): Promise<DecodedPackage | null> {
+    return readEntry<DecodedPackage>(packageKey(packageId));
+}
+
+/**
+ * Cache a decoded package. `archiveBytes` (the size of the archive it was
+ * decoded from) stands in for its size.
+ */
+export function saveCachedPackage(decoded: DecodedPackage, archiveBytes: number): Promise<void> {
+    return writeEntry(packageKey(decoded.packageId), 'package', decoded, archiveBytes);
+}
+
+// ============================================================================
+// Maintenance
+// ============================================================================
+
+export async function getCacheStats(): Promise<CacheStats> {
+    const empty: CacheStats = { parties: 0, packages: 0, bytes: 0 };
+    try {
+        const all = await withStores('readonly', (entries) => requestValue<CacheEntry[]>(entries.getAll()));
+        return (all ?? []).reduce(
+            (stats, entry) => ({
+                parties: stats.parties + (entry.kind === 'party' ? 1 : 0),
+                packages: stats.packages + (entry.kind === 'package' ? 1 : 0),
+                bytes: stats.bytes + entry.bytes,
+            }),
+            empty
+        );
+    } catch (error) {
+        console.warn('Ledger cache stats failed:', error);
+        return empty;
+    }
+}
+
+export async function clearCache(): Promise<void> {
+    await withStores('readwrite', (entries, data) => {
+        entries.clear();
+        data.clear();
+    });
+}
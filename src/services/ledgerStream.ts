@@ -0,0 +1,182 @@
+/**
+ * Ledger Stream
+ *
+ * WebSocket subscription to a JSON Ledger API stream endpoint:
+ * - Sends the request as the first message of every connection
+ * - Reconnects with exponential backoff, rebuilding the request so it can
+ *   resume from the last offset seen, optionally giving up after a number
+ *   of retries
+ * - Closes for good on an error reported by the server (LedgerStreamError):
+ *   resending the same request would fail the same way
+ * - Reports connection status for live indicators
+ *
+ * @see https://docs.digitalasset.com/build/3.3/reference/json-api/asyncapi.html
+ */
+
+import type { StreamStatus } from '../types/canton';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LedgerStreamOptions<T> {
+    url: string;
+    /** Subprotocols, resolved per connection so refreshed tokens are used */
+    protocols?: string[] | (() => string[]);
+    /** Request sent after every (re)connect */
+    buildRequest: () => unknown;
+    /**
+     * Map a server message to zero or more items; throw to fail the connection,
+     * or throw a LedgerStreamError to close the stream with the server's error
+     */
+    parse: (message: unknown) => T[];
+    onItem: (item: T) => void;
+    onStatus?: (status: StreamStatus, error?: string) => void;
+    /** Called when a finite stream (e.g. an ACS snapshot) ends normally */
+    onComplete?: () => void;
+    /** Reconnect when the server ends the stream; off for finite streams */
+    resumeOnClose?: boolean;
+    /** Reconnects allowed before the stream closes with the last error; unlimited by default */
+    maxRetries?: number;
+    initialDelayMs?: number;
+    maxDelayMs?: number;
+}
+
+export class LedgerStreamError extends Error {
+    constructor(
+        message: string,
+        public readonly code?: string
+    ) {
+        super(message);
+        this.name = 'LedgerStreamError';
+    }
+}
+
+/** Normal closure, sent by the server when a bounded stream is done */
+const CLOSE_NORMAL = 1000;
+
+// ============================================================================
+// Ledger Stream Class
+// ============================================================================
+
+export class LedgerStream<T> {
+    private socket: WebSocket | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private attempt = 0;
+    private retries = 0;
+    private closed = false;
+    private _status: StreamStatus = 'idle';
+
+    constructor(private options: LedgerStreamOptions<T>) {}
+
+    get status(): StreamStatus {
+        return this._status;
+    }
+
+    /**
+     * Open the stream. Safe to call once; use close() to stop for good.
+     */
+    start(): this {
+        this.closed = false;
+        this.connect();
+        return this;
+    }
+
+    /**
+     * Stop the stream and cancel any pending reconnect.
+     */
+    close(): void {
+        this.closed = true;
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        if (this.socket) {
+            this.socket.onclose = null;
+            this.socket.close(CLOSE_NORMAL);
+            this.socket = null;
+        }
+        this.setStatus('closed');
+    }
+
+    private connect(): void {
+        this.setStatus(this.attempt === 0 ? 'connecting' : 'reconnecting');
+
+        let socket: WebSocket;
+        try {
+            const { protocols } = this.options;
+            socket = new WebSocket(this.options.url, typeof protocols === 'function' ? protocols() : protocols);
+        } catch (error) {
+            this.scheduleReconnect(error instanceof Error ? error.message : 'Failed to open stream');
+            return;
+        }
+        this.socket = socket;
+
+        socket.onopen = () => {
+            socket.send(JSON.stringify(this.options.buildRequest()));
+            this.setStatus('live');
+        };
+
+        socket.onmessage = (event) => {
+            let items: T[];
+            try {
+                items = this.options.parse(JSON.parse(String(event.data)));
+            } catch (error) {
+                socket.onclose = null;
+                socket.close();
+                if (error instanceof LedgerStreamError) {
+                    this.socket = null;
+                    this.closed = true;
+                    this.setStatus('closed', error.message);
+                } else {
+                    this.scheduleReconnect(error instanceof Error ? error.message : 'Invalid stream message');
+                }
+                return;
+            }
+            // A healthy message means the next failure starts backing off afresh
+            this.attempt = 0;
+            items.forEach((item) => this.options.onItem(item));
+        };
+
+        socket.onclose = (event) => {
+            this.socket = null;
+            if (this.closed) return;
+
+            if (event.code === CLOSE_NORMAL && !this.options.resumeOnClose) {
+                this.closed = true;
+                this.setStatus('closed');
+                this.options.onComplete?.();
+                return;
+            }
+            this.scheduleReconnect(event.reason || `Stream closed (code ${event.code})`);
+        };
+    }
+
+    private scheduleReconnect(reason: string): void {
+        if (this.closed) return;
+
+        const { maxRetries } = this.options;
+        if (maxRetries !== undefined && this.retries >= maxRetries) {
+            this.closed = true;
+            this.setStatus('closed', reason);
+            return;
+        }
+        this.retries++;
+
+        const initial = this.options.initialDelayMs ?? 1000;
+        const max = this.options.maxDelayMs ?? 30000;
+        const delay = Math.min(max, initial * 2 ** this.attempt) * (0.8 + Math.random() * 0.4);
+        this.attempt++;
+
+        this.setStatus('reconnecting', reason);
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.connect();
+        }, delay);
+    }
+
+    private setStatus(status: StreamStatus, error?: string): void {
+        this._status = status;
+        this.options.onStatus?.(status, error);
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * Package Inventory
+ *
+ * Helpers for reasoning about the packages deployed on a participant:
+ * - Vetting status of a package on each synchronizer
+ * - The dependency graph between packages, laid out in layers
+ * - Recognising Daml standard library packages
+ */
+
+import type { DamlPackage, PackageId, VettingState } from '../types/canton';
+
+// ============================================================================
+// Vetting
+// ============================================================================
+
+export type VettingStatus = 'vetted' | 'pending' | 'expired' | 'unvetted';
+
+export interface PackageVetting {
+    status: VettingStatus;
+    /** Synchronizers on which the package is currently vetted */
+    synchronizers: string[];
+}
+
+export const VETTING_LABELS: Record<VettingStatus, string> = {
+    vetted: 'Vetted',
+    pending: 'Vetting pending',
+    expired: 'Vetting expired',
+    unvetted: 'Not vetted',
+};
+
+/**
+ * Vetting status of a package across the given vetting states, which should
+ * all belong to one participant.
+ */
+export function packageVetting(packageId: PackageId, states: VettingState[], now = Date.now()): PackageVetting {
+    const synchronizers: string[] = [];
+    let pending = false;
+    let expired = false;
+
+    for (const state of states) {
+        const vetted = state.packages.find((pkg) => pkg.packageId === packageId);
+        if (!vetted) continue;
+        if (vetted.validFrom && Date.parse(vetted.validFrom) > now) {
+            pending = true;
+        } else if (vetted.validUntil && Date.parse(vetted.validUntil) <= now) {
+            expired = true;
+        } else {
+            synchronizers.push(state.synchronizerId);
+        }
+    }
+
+    const status: VettingStatus =
+        synchronizers.length > 0 ? 'vetted' : pending ? 'pending' : expired ? 'expired' : 'unvetted';
+    return { status, synchronizers };
+}
+
+// ============================================================================
+// Dependency Graph
+// ============================================================================
+
+export interface PackageNode {
+    pkg: DamlPackage;
+    /** Column: 0 for packages nothing depends on, growing toward libraries */
+    layer: number;
+}
+
+export interface PackageEdge {
+    from: PackageId;
+    to: PackageId;
+}
+
+export interface PackageGraph {
+    nodes: PackageNode[];
+    edges: PackageEdge[];
+    layers: number;
+}
+
+const STDLIB_PREFIXES = ['daml-prim', 'daml-stdlib', 'ghc-stdlib'];
+
+/**
+ * Whether a package is part of the Daml standard library, which every DAR
+ * bundles and which clutters the graph.
+ */
+export function isStdlibPackage(pkg: Pick<DamlPackage, 'name'>): boolean {
+    return !!pkg.name && STDLIB_PREFIXES.some((prefix) => pkg.name!.startsWith(prefix));
+}
+
+/**
+ * Lay out the dependency graph of the given packages. Dependencies outside
+ * the set are dropped. Each package sits one layer right of its rightmost
+ * dependent, so edges always point right.
+ */
+export function buildPackageGraph(packages: DamlPackage[]): PackageGraph {
+    const byId = new Map(packages.map((pkg) => [pkg.packageId, pkg]));
+    const edges: PackageEdge[] = packages.flatMap((pkg) =>
+        (pkg.dependencies ?? []).filter((dep) => byId.has(dep)).map((dep) => ({ from: pkg.packageId, to: dep }))
+    );
+
+    const dependents = new Map<PackageId, PackageId[]>();
+    edges.forEach(({ from, to }) => dependents.set(to, [...(dependents.get(to) ?? []), from]));
+
+    // Package IDs are content hashes, so the graph cannot contain cycles
+    const layers = new Map<PackageId, number>();
+    const layerOf = (id: PackageId): number => {
+        const known = layers.get(id);
+        if (known !== undefined) return known;
+        const layer = Math.max(-1, ...(dependents.get(id) ?? []).map(layerOf)) + 1;
+        layers.set(id, layer);
+        return layer;
+    };
+
+    const nodes = packages.map((pkg) => ({ pkg, layer: layerOf(pkg.packageId) }));
+    return {
+        nodes,
+        edges,
+        layers: nodes.length > 0 ? Math.max(...nodes.map((node) => node.layer)) + 1 : 0,
+    };
+}
+
+/**
+ * Every package reachable from `packageId` along dependency edges.
+ */
+export function transitiveDependencies(graph: PackageGraph, packageId: PackageId): Set<PackageId> {
+    const reached = new Set<PackageId>();
+    const visit = (id: PackageId) => {
+        graph.edges.forEach(({ from, to }) => {
+            if (from === id && !reached.has(to)) {
+                reached.add(to);
+                visit(to);
+            }
+        });
+    };
+    visit(packageId);
+    return reached;
+}
+
+/**
+ * Every package that depends on `packageId`, directly or transitively.
+ */
+export function transitiveDependents(graph: PackageGraph, packageId: PackageId): Set<PackageId> {
+    const reached = new Set<PackageId>();
+    const visit = (id: PackageId) => {
+        graph.edges.forEach(({ from, to }) => {
+            if (to === id && !reached.has(from)) {
+                reached.add(from);
+                visit(from);
+            }
+        });
+    };
+    visit(packageId);
+    return reached;
+}
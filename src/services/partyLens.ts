@@ -0,0 +1,95 @@
+/**
+ * Party Lens
+ *
+ * Helpers for viewing the ledger as the union of several parties:
+ * - A stable key for a set of lens parties
+ * - Which lens parties can see a contract, event or transaction
+ * - The role the lens has on a contract: signatory, observer or witness
+ *
+ * Queries read as every lens party, so the participant reports the parties
+ * each event was disclosed to in its witnessParties. Data cached before
+ * witnesses were recorded falls back to the stakeholders.
+ */
+
+import type { Contract, ContractRole, Event, PartyId, Transaction } from '../types/canton';
+
+export const CONTRACT_ROLES: ContractRole[] = ['signatory', 'observer', 'witness'];
+
+export const CONTRACT_ROLE_LABELS: Record<ContractRole, string> = {
+    signatory: 'Signatory',
+    observer: 'Observer',
+    witness: 'Witness / divulged',
+};
+
+/**
+ * Order-independent key of a set of parties.
+ */
+export function lensKey(parties: PartyId[]): string {
+    return [...parties].sort().join(',');
+}
+
+const inLens = (parties: PartyId[], lens: PartyId[]) => lens.filter((party) => parties.includes(party));
+
+function eventParties(event: Event): PartyId[] {
+    switch (event.type) {
+        case 'created':
+            return [...event.signatories, ...event.observers];
+        case 'exercised':
+            return event.actingParties;
+        default:
+            return [];
+    }
+}
+
+/**
+ * The lens parties a contract is visible to.
+ */
+export function contractVisibility(contract: Contract, lens: PartyId[]): PartyId[] {
+    return inLens(contract.witnessParties ?? contract.stakeholders, lens);
+}
+
+/**
+ * The lens parties that witnessed an event.
+ */
+export function eventVisibility(event: Event, lens: PartyId[]): PartyId[] {
+    return inLens(event.witnessParties ?? eventParties(event), lens);
+}
+
+/**
+ * The lens parties that see at least one event of a transaction.
+ */
+export function transactionVisibility(transaction: Transaction, lens: PartyId[]): PartyId[] {
+    const witnesses = new Set(transaction.events.flatMap((event) => eventVisibility(event, lens)));
+    return lens.filter((party) => witnesses.has(party));
+}
+
+/**
+ * The strongest role any lens party has on a contract. Contracts the lens
+ * sees without being a stakeholder were witnessed or divulged.
+ */
+export function contractRole(contract: Contract, lens: PartyId[]): ContractRole {
+    if (contract.signatories.some((party) => lens.includes(party))) return 'signatory';
+    if (contract.observers.some((party) => lens.includes(party))) return 'observer';
+    return 'witness';
+}
+
+/**
+ * Contracts per lens role.
+ */
+export function countRoles(contracts: Iterable<Contract>, lens: PartyId[]): Record<ContractRole, number> {
+    const counts: Record<ContractRole, number> = { signatory: 0, observer: 0, witness: 0 };
+    for (const contract of contracts) {
+        counts[contractRole(contract, lens)]++;
+    }
+    return counts;
+}
+
+/**
+ * Short description of an active role filter; null when every role shows.
+ */
+export function describeRoleFilter(visibleRoles: ContractRole[]): string | null {
+    if (visibleRoles.length === CONTRACT_ROLES.length) return null;
+    if (visibleRoles.length === 0) return 'all contract roles hidden';
+    const labels = visibleRoles.map((role) => CONTRACT_ROLE_LABELS[role].toLowerCase());
+    return `${labels.join(' and ')} contracts only`;
+}
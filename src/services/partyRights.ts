@@ -0,0 +1,79 @@
+/**
+ * Party Rights
+ *
+ * Which parties the current credentials may read and act as:
+ * - Custom Daml tokens list actAs / readAs parties in their claims
+ * - User tokens carry rights on the participant (/v2/users/{id}/rights)
+ * - Participants without auth allow every party
+ *
+ * The party lens uses this to keep users from selecting parties the
+ * participant would answer with 403s.
+ */
+
+import type { LedgerTokenInfo, PartyAccess, PartyId, PartyRights, UserRight } from '../types/canton';
+import type { CantonClient } from './cantonClient';
+import { decodeLedgerToken } from './auth';
+
+/** Rights when the participant does not authenticate requests */
+export const UNRESTRICTED_RIGHTS: PartyRights = {
+    source: 'unrestricted',
+    actAs: [],
+    readAs: [],
+    readAsAnyParty: true,
+    admin: true,
+};
+
+export function rightsFromToken(info: LedgerTokenInfo): PartyRights {
+    return {
+        source: 'token',
+        userId: info.userId,
+        actAs: info.actAs,
+        readAs: info.readAs,
+        readAsAnyParty: false,
+        admin: info.admin,
+    };
+}
+
+export function rightsFromUserRights(userId: string, rights: UserRight[]): PartyRights {
+    const partiesOf = (kind: 'CanActAs' | 'CanReadAs') =>
+        rights.flatMap((right) => (right.kind === kind ? [right.party] : []));
+    return {
+        source: 'user',
+        userId,
+        actAs: partiesOf('CanActAs'),
+        readAs: partiesOf('CanReadAs'),
+        readAsAnyParty: rights.some((right) => right.kind === 'CanReadAsAnyParty'),
+        admin: rights.some((right) => right.kind === 'ParticipantAdmin'),
+    };
+}
+
+/**
+ * Access to a party: acting implies reading. Unknown rights (null) restrict
+ * nothing, so a failed rights lookup never locks the user out.
+ */
+export function partyAccess(rights: PartyRights | null, partyId: PartyId): PartyAccess {
+    if (!rights || rights.source === 'unrestricted') return 'act';
+    if (rights.actAs.includes(partyId)) return 'act';
+    if (rights.readAsAnyParty || rights.readAs.includes(partyId)) return 'read';
+    return 'none';
+}
+
+/**
+ * Work out the rights of the given token: from its claims when it is a custom
+ * Daml token, otherwise from the rights of the user it authenticates.
+ */
+export async function resolvePartyRights(client: CantonClient, authToken?: string): Promise<PartyRights> {
+    if (!authToken) {
+        return UNRESTRICTED_RIGHTS;
+    }
+    const info = decodeLedgerToken(authToken);
+    if (info?.format === 'custom-daml') {
+        return rightsFromToken(info);
+    }
+
+    const userId = info?.userId ?? (await client.getAuthenticatedUser())?.id;
+    if (!userId) {
+        return UNRESTRICTED_RIGHTS;
+    }
+    return rightsFromUserRights(userId, await client.getUserRights(userId));
+}
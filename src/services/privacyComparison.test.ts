@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CantonClient } from './cantonClient';
+import {
+    compareContracts,
+    compareTransactions,
+    countSides,
+    eventDisclosure,
+    readActiveContracts,
+} from './privacyComparison';
+import type { Contract, Event, Page, Transaction } from '../types/canton';
+
+function contract(contractId: string, offset: number, signatories: string[], observers: string[] = []): Contract {
+    return {
+        contractId,
+        templateId: 'pkg:Main:Asset',
+        payload: {},
+        stakeholders: [...signatories, ...observers],
+        observers,
+        signatories,
+        createdAt: '',
+        offset,
+    };
+}
+
+const base = { contractId: 'c', templateId: 'pkg:Main:Asset', offset: 1, nodeId: 0 };
+
+const createdBy = (signatories: string[], observers: string[] = []): Event => ({
+    ...base,
+    type: 'created',
+    eventId: 'created',
+    createArguments: {},
+    signatories,
+    observers,
+});
+
+const exercisedBy = (actingParties: string[]): Event => ({
+    ...base,
+    type: 'exercised',
+    eventId: 'exercised',
+    choice: 'Transfer',
+    choiceArgument: {},
+    actingParties,
+    consuming: true,
+    childEventIds: [],
+});
+
+const tx = (updateId: string, offset: number, events: Event[]): Transaction => ({
+    updateId,
+    offset,
+    effectiveAt: '',
+    events,
+});
+
+describe('eventDisclosure', () => {
+    it('names the role that disclosed an event', () => {
+        expect(eventDisclosure(createdBy(['alice'], ['bob']), 'alice')).toBe('signatory');
+        expect(eventDisclosure(createdBy(['alice'], ['bob']), 'bob')).toBe('observer');
+        expect(eventDisclosure(exercisedBy(['bob']), 'bob')).toBe('actor');
+        expect(eventDisclosure(exercisedBy(['bob']), 'carol')).toBe('witness');
+    });
+});
+
+describe('compareContracts', () => {
+    const shared = contract('shared', 3, ['alice'], ['bob']);
+    const onlyA = contract('onlyA', 2, ['alice']);
+    const onlyB = contract('onlyB', 1, ['bob']);
+
+    it('splits contracts by the party that sees them, newest first', () => {
+        const rows = compareContracts(
+            { contracts: [shared, onlyA], complete: true },
+            { contracts: [onlyB, shared], complete: true },
+            'alice',
+            'bob'
+        );
+
+        expect(rows.map((r) => [r.contract.contractId, r.side, r.roleA, r.roleB])).toEqual([
+            ['shared', 'both', 'signatory', 'observer'],
+            ['onlyA', 'a', 'signatory', undefined],
+            ['onlyB', 'b', undefined, 'signatory'],
+        ]);
+    });
+
+    it('is inconclusive about contracts the other party may hold beyond what was read', () => {
+        const rows = compareContracts(
+            { contracts: [onlyA], complete: true },
+            { contracts: [onlyB], complete: false },
+            'alice',
+            'bob'
+        );
+
+        expect(countSides(rows)).toEqual({ both: 0, a: 0, b: 1, inconclusive: 1 });
+    });
+});
+
+describe('compareTransactions', () => {
+    it('compares the projections each party sees', () => {
+        const rows = compareTransactions(
+            [tx('u1', 5, [createdBy(['alice']), exercisedBy(['alice'])])],
+            [tx('u1', 5, [exercisedBy(['alice'])]), tx('u2', 6, [createdBy(['bob'])])],
+            'alice',
+            'bob'
+        );
+
+        expect(rows.map((r) => [r.transaction.updateId, r.side, r.eventsA, r.eventsB, r.roleA, r.roleB])).toEqual([
+            ['u2', 'b', 0, 1, undefined, 'signatory'],
+            ['u1', 'both', 2, 1, 'signatory', 'witness'],
+        ]);
+    });
+});
+
+describe('readActiveContracts', () => {
+    const page = (items: Contract[], nextPageToken?: string, truncated?: boolean): Page<Contract> => ({
+        items,
+        nextPageToken,
+        truncated,
+        offset: 10,
+    });
+    const clientWith = (pages: Array<Page<Contract>>) =>
+        ({ getActiveContractsPage: vi.fn(async () => pages.shift()!) }) as unknown as CantonClient;
+
+    it('reads every page', async () => {
+        const read = await readActiveContracts(
+            clientWith([page([contract('a', 1, ['alice'])], 'next'), page([contract('b', 2, ['alice'])])]),
+            'alice',
+            10,
+            100
+        );
+
+        expect(read.contracts.map((c) => c.contractId)).toEqual(['a', 'b']);
+        expect(read.complete).toBe(true);
+    });
+
+    it('is incomplete when stopped at the limit or by the participant', async () => {
+        const atLimit = await readActiveContracts(
+            clientWith([page([contract('a', 1, ['alice'])], 'next')]),
+            'alice',
+            10,
+            1
+        );
+        const truncated = await readActiveContracts(
+            clientWith([page([contract('a', 1, ['alice'])], undefined, true)]),
+            'alice',
+            10,
+            100
+        );
+
+        expect(atLimit.complete).toBe(false);
+        expect(truncated.complete).toBe(false);
+    });
+});
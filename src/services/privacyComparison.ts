@@ -0,0 +1,187 @@
+/**
+ * Privacy Comparison
+ *
+ * Diffs what two parties see of the ledger, to validate a Daml privacy model:
+ * - Contracts and transactions visible to both parties, or only to one
+ * - Why a party sees something: its role as signatory, observer, acting
+ *   party or witness
+ *
+ * A contract one party sees is only reported as hidden from the other when
+ * the other party's active contracts were read in full.
+ */
+
+import type { CantonClient } from './cantonClient';
+import type { Contract, Event, LedgerOffset, PartyId, Transaction } from '../types/canton';
+import { contractRole } from './partyLens';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** How an item was disclosed to a party */
+export type Disclosure = 'signatory' | 'observer' | 'actor' | 'witness';
+
+/** `inconclusive`: seen by one party, while the other's contracts were not all read */
+export type ComparisonSide = 'both' | 'a' | 'b' | 'inconclusive';
+
+export interface ContractComparison {
+    contract: Contract;
+    side: ComparisonSide;
+    /** Role of each party; absent on the side that does not see the contract */
+    roleA?: Disclosure;
+    roleB?: Disclosure;
+}
+
+export interface ActiveContractsRead {
+    contracts: Contract[];
+    /** Every active contract of the party was read */
+    complete: boolean;
+}
+
+export interface TransactionComparison {
+    /** The transaction as seen by party A, or by B when A does not see it */
+    transaction: Transaction;
+    side: ComparisonSide;
+    /** Events of the transaction each party sees; parties see projections */
+    eventsA: number;
+    eventsB: number;
+    /** Strongest role of each party across the events it sees */
+    roleA?: Disclosure;
+    roleB?: Disclosure;
+}
+
+export const DISCLOSURE_EXPLANATIONS: Record<Disclosure, string> = {
+    signatory: 'Signatory: authorized the contract and sees it and everything done with it',
+    observer: 'Observer: named on the contract, sees its creation and archival',
+    actor: 'Acting party: exercised a choice in the transaction',
+    witness: 'Witness: not a stakeholder; disclosed as an informee of an action, or by divulgence',
+};
+
+/** Strongest first */
+const DISCLOSURE_ORDER: Disclosure[] = ['signatory', 'observer', 'actor', 'witness'];
+
+const CONTRACT_PAGE_SIZE = 1000;
+
+// ============================================================================
+// Disclosure
+// ============================================================================
+
+export function contractDisclosure(contract: Contract, party: PartyId): Disclosure {
+    return contractRole(contract, [party]);
+}
+
+export function eventDisclosure(event: Event, party: PartyId): Disclosure {
+    switch (event.type) {
+        case 'created':
+            if (event.signatories.includes(party)) return 'signatory';
+            if (event.observers.includes(party)) return 'observer';
+            return 'witness';
+        case 'exercised':
+            return event.actingParties.includes(party) ? 'actor' : 'witness';
+        default:
+            return 'witness';
+    }
+}
+
+function strongestDisclosure(events: Event[], party: PartyId): Disclosure | undefined {
+    const roles = new Set(events.map((event) => eventDisclosure(event, party)));
+    return DISCLOSURE_ORDER.find((role) => roles.has(role));
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+const sideOf = (inA: boolean, inB: boolean): ComparisonSide => (inA && inB ? 'both' : inA ? 'a' : 'b');
+
+/**
+ * Read a party's active contracts at `offset`, page by page, stopping once
+ * `limit` contracts were read.
+ */
+export async function readActiveContracts(
+    client: CantonClient,
+    party: PartyId,
+    offset: LedgerOffset,
+    limit: number
+): Promise<ActiveContractsRead> {
+    const contracts: Contract[] = [];
+    let pageToken: string | undefined;
+
+    do {
+        const page = await client.getActiveContractsPage(party, { offset, pageSize: CONTRACT_PAGE_SIZE, pageToken });
+        contracts.push(...page.items);
+        if (page.truncated) {
+            return { contracts, complete: false };
+        }
+        pageToken = page.nextPageToken;
+    } while (pageToken && contracts.length < limit);
+
+    return { contracts, complete: !pageToken };
+}
+
+/**
+ * Compare the active contracts of two parties, taken at the same offset.
+ * Contracts only one party was seen to hold are inconclusive when the other
+ * party's contracts were not read in full: they may be beyond what was read.
+ */
+export function compareContracts(
+    readA: ActiveContractsRead,
+    readB: ActiveContractsRead,
+    partyA: PartyId,
+    partyB: PartyId
+): ContractComparison[] {
+    const byIdA = new Map(readA.contracts.map((c) => [c.contractId, c]));
+    const byIdB = new Map(readB.contracts.map((c) => [c.contractId, c]));
+    const ids = new Set([...byIdA.keys(), ...byIdB.keys()]);
+
+    return Array.from(ids, (contractId) => {
+        const a = byIdA.get(contractId);
+        const b = byIdB.get(contractId);
+        const contract = (a ?? b)!;
+        const side = sideOf(!!a, !!b);
+        return {
+            contract,
+            side: (side === 'a' && !readB.complete) || (side === 'b' && !readA.complete) ? 'inconclusive' : side,
+            roleA: a && contractDisclosure(contract, partyA),
+            roleB: b && contractDisclosure(contract, partyB),
+        };
+    }).sort((x, y) => y.contract.offset - x.contract.offset);
+}
+
+/**
+ * Compare the transactions of two parties over the same offset window.
+ */
+export function compareTransactions(
+    transactionsA: Transaction[],
+    transactionsB: Transaction[],
+    partyA: PartyId,
+    partyB: PartyId
+): TransactionComparison[] {
+    const byIdA = new Map(transactionsA.map((t) => [t.updateId, t]));
+    const byIdB = new Map(transactionsB.map((t) => [t.updateId, t]));
+    const ids = new Set([...byIdA.keys(), ...byIdB.keys()]);
+
+    return Array.from(ids, (updateId) => {
+        const a = byIdA.get(updateId);
+        const b = byIdB.get(updateId);
+        return {
+            transaction: (a ?? b)!,
+            side: sideOf(!!a, !!b),
+            eventsA: a?.events.length ?? 0,
+            eventsB: b?.events.length ?? 0,
+            roleA: a && strongestDisclosure(a.events, partyA),
+            roleB: b && strongestDisclosure(b.events, partyB),
+        };
+    }).sort((x, y) => y.transaction.offset - x.transaction.offset);
+}
+
+/**
+ * Row counts per side.
+ */
+export function countSides(rows: { side: ComparisonSide }[]): Record<ComparisonSide, number> {
+    const counts: Record<ComparisonSide, number> = { both: 0, a: 0, b: 0, inconclusive: 0 };
+    rows.forEach((row) => {
+        counts[row.side]++;
+    });
+    return counts;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { ProfileImportError, exportProfiles, mergeProfiles, parseProfiles } from './profiles';
+import type { ConnectionProfile } from '../types/canton';
+
+const profile: ConnectionProfile = {
+    id: 'p1',
+    name: 'Sandbox',
+    connection: {
+        endpoint: 'http://localhost:7575',
+        authToken: 'token',
+        oauth: { flow: 'client-credentials', issuer: 'https://idp.example', clientId: 'ledgerview', clientSecret: 'secret' },
+    },
+    createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('exportProfiles', () => {
+    it('leaves out tokens and client secrets by default', () => {
+        const [exported] = parseProfiles(exportProfiles([profile]));
+
+        expect(exported.connection.authToken).toBeUndefined();
+        expect(exported.connection.oauth?.clientSecret).toBeUndefined();
+        expect(exported.connection.oauth?.clientId).toBe('ledgerview');
+    });
+
+    it('round-trips profiles with secrets when asked', () => {
+        expect(parseProfiles(exportProfiles([profile], { includeSecrets: true }))).toEqual([profile]);
+    });
+});
+
+describe('parseProfiles', () => {
+    it('accepts a bare array and fills in missing IDs', () => {
+        const [parsed] = parseProfiles(JSON.stringify([{ name: 'Remote', connection: { endpoint: 'https://p.example' } }]));
+
+        expect(parsed.name).toBe('Remote');
+        expect(parsed.id).toBeTruthy();
+        expect(parsed.createdAt).toBeTruthy();
+    });
+
+    it.each([
+        ['not json', 'File is not valid JSON'],
+        ['{"profiles": []}', 'File does not contain connection profiles'],
+        ['{"format": "ledgerview-profiles", "version": 99, "profiles": []}', 'Unsupported profiles file version 99'],
+        ['[{"connection": {"endpoint": "http://x"}}]', 'Profile 1 has no name'],
+        ['[{"name": "A", "connection": {"endpoint": "not a url"}}]', 'Profile "A" has an invalid endpoint: not a url'],
+        ['[{"name": "A", "connection": {"endpoint": "http://x", "oauth": {"flow": "implicit"}}}]', 'Profile "A": unknown OAuth flow implicit'],
+        ['[{"name": 3}]', 'Profile 1: "name" must be a string'],
+    ])('rejects %s', (text, message) => {
+        expect(() => parseProfiles(text)).toThrow(new ProfileImportError(message));
+    });
+});
+
+describe('mergeProfiles', () => {
+    it('replaces profiles by ID, keeping secrets the import lacks', () => {
+        const imported = parseProfiles(exportProfiles([{ ...profile, name: 'Renamed' }]));
+        const merged = mergeProfiles([profile], imported);
+
+        expect(merged).toHaveLength(1);
+        expect(merged[0].name).toBe('Renamed');
+        expect(merged[0].connection.authToken).toBe('token');
+        expect(merged[0].connection.oauth?.clientSecret).toBe('secret');
+    });
+
+    it('drops the saved client secret when the client changed', () => {
+        const [imported] = parseProfiles(exportProfiles([profile]));
+        imported.connection.oauth = { ...imported.connection.oauth!, clientId: 'other' };
+
+        expect(mergeProfiles([profile], [imported])[0].connection.oauth?.clientSecret).toBeUndefined();
+    });
+
+    it('appends profiles with new IDs', () => {
+        expect(mergeProfiles([profile], [{ ...profile, id: 'p2' }]).map((p) => p.id)).toEqual(['p1', 'p2']);
+    });
+});
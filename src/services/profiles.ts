@@ -0,0 +1,189 @@
+/**
+ * Connection Profiles
+ *
+ * JSON import and export of saved connection profiles, so a team can share
+ * the set of participants it works against:
+ * - Export, optionally without auth tokens and OAuth client secrets
+ * - Import with validation; profiles with a known ID replace the saved one
+ */
+
+import type { ConnectionConfig, ConnectionProfile, OAuthConfig } from '../types/canton';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Envelope written by exportProfiles */
+interface ProfilesFile {
+    format: typeof PROFILES_FORMAT;
+    version: number;
+    exportedAt: string;
+    profiles: ConnectionProfile[];
+}
+
+const PROFILES_FORMAT = 'ledgerview-profiles';
+const PROFILES_VERSION = 1;
+
+export class ProfileImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProfileImportError';
+    }
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const withoutSecrets = (connection: ConnectionConfig): ConnectionConfig => ({
+    ...connection,
+    authToken: undefined,
+    oauth: connection.oauth && { ...connection.oauth, clientSecret: undefined },
+});
+
+/**
+ * Serialize profiles for download. Auth tokens and client secrets are left
+ * out unless asked for.
+ */
+export function exportProfiles(
+    profiles: ConnectionProfile[],
+    options: { includeSecrets?: boolean } = {}
+): string {
+    const file: ProfilesFile = {
+        format: PROFILES_FORMAT,
+        version: PROFILES_VERSION,
+        exportedAt: new Date().toISOString(),
+        profiles: profiles.map((profile) =>
+            options.includeSecrets
+                ? profile
+                : { ...profile, connection: withoutSecrets(profile.connection) }
+        ),
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+const optionalString = (value: unknown, field: string, index: number): string | undefined => {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') {
+        throw new ProfileImportError(`Profile ${index + 1}: "${field}" must be a string`);
+    }
+    return value;
+};
+
+function parseOAuth(value: unknown, name: string, index: number): OAuthConfig | undefined {
+    if (value === undefined || value === null) return undefined;
+    const raw = value as Record<string, unknown>;
+    if (raw.flow !== 'authorization-code' && raw.flow !== 'client-credentials') {
+        throw new ProfileImportError(`Profile "${name}": unknown OAuth flow ${String(raw.flow)}`);
+    }
+    const issuer = optionalString(raw.issuer, 'connection.oauth.issuer', index);
+    const clientId = optionalString(raw.clientId, 'connection.oauth.clientId', index);
+    if (!issuer || !clientId) {
+        throw new ProfileImportError(`Profile "${name}": OAuth needs an issuer and a client ID`);
+    }
+    return {
+        flow: raw.flow,
+        issuer,
+        clientId,
+        clientSecret: optionalString(raw.clientSecret, 'connection.oauth.clientSecret', index),
+        audience: optionalString(raw.audience, 'connection.oauth.audience', index),
+        scope: optionalString(raw.scope, 'connection.oauth.scope', index),
+        authorizationEndpoint: optionalString(raw.authorizationEndpoint, 'connection.oauth.authorizationEndpoint', index),
+        tokenEndpoint: optionalString(raw.tokenEndpoint, 'connection.oauth.tokenEndpoint', index),
+    };
+}
+
+function parseProfile(value: unknown, index: number): ConnectionProfile {
+    if (typeof value !== 'object' || value === null) {
+        throw new ProfileImportError(`Profile ${index + 1} is not an object`);
+    }
+    const raw = value as Record<string, unknown>;
+    const connection = (raw.connection ?? {}) as Record<string, unknown>;
+
+    const name = optionalString(raw.name, 'name', index);
+    if (!name) throw new ProfileImportError(`Profile ${index + 1} has no name`);
+
+    const endpoint = optionalString(connection.endpoint, 'connection.endpoint', index);
+    if (!endpoint) throw new ProfileImportError(`Profile "${name}" has no endpoint`);
+    try {
+        new URL(endpoint);
+    } catch {
+        throw new ProfileImportError(`Profile "${name}" has an invalid endpoint: ${endpoint}`);
+    }
+
+    return {
+        id: optionalString(raw.id, 'id', index) ?? crypto.randomUUID(),
+        name,
+        connection: {
+            endpoint,
+            authToken: optionalString(connection.authToken, 'connection.authToken', index),
+            oauth: parseOAuth(connection.oauth, name, index),
+        },
+        scanUrl: optionalString(raw.scanUrl, 'scanUrl', index),
+        scanMemberId: optionalString(raw.scanMemberId, 'scanMemberId', index),
+        defaultPartyId: optionalString(raw.defaultPartyId, 'defaultPartyId', index),
+        createdAt: optionalString(raw.createdAt, 'createdAt', index) ?? new Date().toISOString(),
+    };
+}
+
+/**
+ * Parse and validate an exported profiles file. A bare array of profiles is
+ * accepted too.
+ */
+export function parseProfiles(text: string): ConnectionProfile[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ProfileImportError('File is not valid JSON');
+    }
+
+    let list: unknown;
+    if (Array.isArray(data)) {
+        list = data;
+    } else if (typeof data === 'object' && data !== null && (data as ProfilesFile).format === PROFILES_FORMAT) {
+        const file = data as ProfilesFile;
+        if (file.version > PROFILES_VERSION) {
+            throw new ProfileImportError(`Unsupported profiles file version ${file.version}`);
+        }
+        list = file.profiles;
+    }
+    if (!Array.isArray(list)) {
+        throw new ProfileImportError('File does not contain connection profiles');
+    }
+
+    return list.map(parseProfile);
+}
+
+/**
+ * Merge imported profiles into the saved ones. A profile with a known ID
+ * replaces the saved one but keeps its secrets when the import has none.
+ */
+export function mergeProfiles(saved: ConnectionProfile[], imported: ConnectionProfile[]): ConnectionProfile[] {
+    const merged = new Map(saved.map((profile) => [profile.id, profile]));
+    for (const profile of imported) {
+        const existing = merged.get(profile.id);
+        if (!existing) {
+            merged.set(profile.id, profile);
+            continue;
+        }
+        const { authToken, oauth } = profile.connection;
+        const savedOAuth = existing.connection.oauth;
+        merged.set(profile.id, {
+            ...profile,
+            connection: {
+                ...profile.connection,
+                authToken: authToken ?? existing.connection.authToken,
+                oauth: oauth && {
+                    ...oauth,
+                    clientSecret: oauth.clientSecret ?? (savedOAuth?.clientId === oauth.clientId ? savedOAuth.clientSecret : undefined),
+                },
+            },
+        });
+    }
+    return Array.from(merged.values());
+}
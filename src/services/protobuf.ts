@@ -0,0 +1,179 @@
+/**
+ * Protobuf Wire Reader
+ *
+ * Minimal schema-less reader for the protobuf wire format, enough to walk
+ * Daml-LF archives without generated code:
+ * - Varint, fixed32/64 and length-delimited fields
+ * - Packed repeated scalars
+ * - Lazy access to nested messages by field number
+ *
+ * @see https://protobuf.dev/programming-guides/encoding/
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+type FieldValue = number | Uint8Array;
+
+export class ProtobufDecodeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProtobufDecodeError';
+    }
+}
+
+// ============================================================================
+// Message
+// ============================================================================
+
+/**
+ * A decoded message: raw field values grouped by field number.
+ *
+ * Varints are returned as JS numbers, which is exact for the interned indices,
+ * enums and small integers found in Daml-LF.
+ */
+export class ProtoMessage {
+    private fields = new Map<number, FieldValue[]>();
+
+    constructor(bytes: Uint8Array) {
+        let pos = 0;
+        const readVarint = (): number => {
+            let result = 0;
+            let multiplier = 1;
+            for (;;) {
+                if (pos >= bytes.length) {
+                    throw new ProtobufDecodeError('Truncated varint');
+                }
+                const byte = bytes[pos++];
+                result += (byte & 0x7f) * multiplier;
+                if ((byte & 0x80) === 0) return result;
+                multiplier *= 128;
+            }
+        };
+
+        while (pos < bytes.length) {
+            const key = readVarint();
+            const fieldNumber = Math.floor(key / 8);
+            const wireType = key & 7;
+            let value: FieldValue;
+
+            switch (wireType) {
+                case WIRE_VARINT:
+                    value = readVarint();
+                    break;
+                case WIRE_FIXED64:
+                    value = bytes.subarray(pos, pos + 8);
+                    pos += 8;
+                    break;
+                case WIRE_LENGTH_DELIMITED: {
+                    const length = readVarint();
+                    if (pos + length > bytes.length) {
+                        throw new ProtobufDecodeError(`Field ${fieldNumber} overruns message`);
+                    }
+                    value = bytes.subarray(pos, pos + length);
+                    pos += length;
+                    break;
+                }
+                case WIRE_FIXED32:
+                    value = bytes.subarray(pos, pos + 4);
+                    pos += 4;
+                    break;
+                default:
+                    throw new ProtobufDecodeError(`Unsupported wire type ${wireType}`);
+            }
+
+            const existing = this.fields.get(fieldNumber);
+            if (existing) {
+                existing.push(value);
+            } else {
+                this.fields.set(fieldNumber, [value]);
+            }
+        }
+    }
+
+    has(field: number): boolean {
+        return this.fields.has(field);
+    }
+
+    /** Scalar varint field (last value wins, as in protobuf) */
+    int(field: number, fallback = 0): number {
+        const values = this.fields.get(field);
+        const value = values?.[values.length - 1];
+        return typeof value === 'number' ? value : fallback;
+    }
+
+    bool(field: number): boolean {
+        return this.int(field) !== 0;
+    }
+
+    bytes(field: number): Uint8Array | undefined {
+        const values = this.fields.get(field);
+        const value = values?.[values.length - 1];
+        return value instanceof Uint8Array ? value : undefined;
+    }
+
+    string(field: number): string | undefined {
+        const value = this.bytes(field);
+        return value ? textDecoder.decode(value) : undefined;
+    }
+
+    message(field: number): ProtoMessage | undefined {
+        const value = this.bytes(field);
+        return value ? new ProtoMessage(value) : undefined;
+    }
+
+    /** Repeated varint field, accepting both packed and unpacked encodings */
+    ints(field: number): number[] {
+        return (this.fields.get(field) ?? []).flatMap((value) =>
+            typeof value === 'number' ? [value] : readPackedVarints(value)
+        );
+    }
+
+    strings(field: number): string[] {
+        return (this.fields.get(field) ?? [])
+            .filter((value): value is Uint8Array => value instanceof Uint8Array)
+            .map((value) => textDecoder.decode(value));
+    }
+
+    messages(field: number): ProtoMessage[] {
+        return (this.fields.get(field) ?? [])
+            .filter((value): value is Uint8Array => value instanceof Uint8Array)
+            .map((value) => new ProtoMessage(value));
+    }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const textDecoder = new TextDecoder();
+
+function readPackedVarints(bytes: Uint8Array): number[] {
+    const result: number[] = [];
+    let value = 0;
+    let multiplier = 1;
+    for (const byte of bytes) {
+        value += (byte & 0x7f) * multiplier;
+        if ((byte & 0x80) === 0) {
+            result.push(value);
+            value = 0;
+            multiplier = 1;
+        } else {
+            multiplier *= 128;
+        }
+    }
+    return result;
+}
+
+/**
+ * Decode a top-level message.
+ */
+export function decodeMessage(bytes: Uint8Array): ProtoMessage {
+    return new ProtoMessage(bytes);
+}
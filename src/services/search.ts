@@ -0,0 +1,270 @@
+/**
+ * Ledger Search
+ *
+ * Searches the cached ledger for the command palette:
+ * - Contract IDs, template names, payload and key values (active and archived)
+ * - Update, command and workflow IDs of cached transactions
+ * - Party IDs and display names
+ * - Template and module names from the catalog
+ *
+ * Only data already held by the store is searched; nothing is fetched.
+ */
+
+import type {
+    ArchivedContract,
+    Contract,
+    Party,
+    SearchQuery,
+    SearchResult,
+    Template,
+    Transaction,
+} from '../types/canton';
+import { archivedToContract } from './syncEngine';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SearchSource {
+    contracts: Iterable<Contract>;
+    archivedContracts: Iterable<ArchivedContract>;
+    transactions: Transaction[];
+    parties: Party[];
+    templates: Iterable<Template>;
+}
+
+type SearchType = SearchResult['type'];
+
+interface ScoredResult extends SearchResult {
+    score: number;
+}
+
+const DEFAULT_LIMIT = 8;
+/** Payload values are only searched for queries at least this long */
+const MIN_PAYLOAD_QUERY = 3;
+/** Contract and update IDs are long hex strings */
+const LEDGER_ID_PATTERN = /^[0-9a-f]{40,}$/i;
+
+// Stringified payloads and keys, computed once per contract object
+const payloadText = new WeakMap<Contract, string>();
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Score how well `text` matches the lowercased query: exact beats prefix
+ * beats substring; 0 means no match.
+ */
+function matchScore(text: string | undefined, query: string): number {
+    if (!text) return 0;
+    const value = text.toLowerCase();
+    if (value === query) return 100;
+    if (value.startsWith(query)) return 60;
+    if (value.includes(query)) return 30;
+    return 0;
+}
+
+function bestMatch(fields: [string, string | undefined][], query: string): { field: string; score: number } {
+    let best = { field: '', score: 0 };
+    for (const [field, text] of fields) {
+        const score = matchScore(text, query);
+        if (score > best.score) best = { field, score };
+    }
+    return best;
+}
+
+/** A short excerpt of `text` around the first occurrence of `query` */
+function snippet(text: string, query: string): string {
+    const index = text.toLowerCase().indexOf(query);
+    if (index < 0) return text.slice(0, 60);
+    const start = Math.max(0, index - 24);
+    const end = Math.min(text.length, index + query.length + 24);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+const shortTemplate = (templateId: string) => templateId.split(':').pop() || templateId;
+
+// ============================================================================
+// Search
+// ============================================================================
+
+function searchContract(contract: Contract, query: string, archived: boolean): ScoredResult | null {
+    const { field, score } = bestMatch(
+        [
+            ['contractId', contract.contractId],
+            ['template', shortTemplate(contract.templateId)],
+        ],
+        query
+    );
+
+    let description = `${shortTemplate(contract.templateId)}${archived ? ' · archived' : ''}`;
+    let matchedField = field;
+    let total = score;
+
+    if (total === 0 && query.length >= MIN_PAYLOAD_QUERY) {
+        let text = payloadText.get(contract);
+        if (text === undefined) {
+            text = contract.contractKey === undefined
+                ? JSON.stringify(contract.payload)
+                : `${JSON.stringify(contract.payload)} ${JSON.stringify(contract.contractKey)}`;
+            payloadText.set(contract, text);
+        }
+        if (text.toLowerCase().includes(query)) {
+            total = 20;
+            matchedField = 'payload';
+            description = `${description} · ${snippet(text, query)}`;
+        }
+    }
+
+    if (total === 0) return null;
+    return {
+        type: 'contract',
+        id: contract.contractId,
+        label: contract.contractId,
+        description,
+        metadata: { matchedField, archived },
+        score: total,
+    };
+}
+
+/**
+ * Search the cached ledger. Results are ranked per type and capped at
+ * `query.limit` per type.
+ */
+export function searchLedger(source: SearchSource, query: SearchQuery): SearchResult[] {
+    const text = query.text.trim().toLowerCase();
+    if (!text) return [];
+
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    const wanted = (type: SearchType) => !query.types || query.types.includes(type);
+    const byType = new Map<SearchType, ScoredResult[]>();
+    const add = (result: ScoredResult | null) => {
+        if (!result) return;
+        const list = byType.get(result.type) ?? [];
+        list.push(result);
+        byType.set(result.type, list);
+    };
+
+    if (wanted('contract')) {
+        for (const contract of source.contracts) add(searchContract(contract, text, false));
+        for (const entry of source.archivedContracts) {
+            add(searchContract(archivedToContract(entry), text, true));
+        }
+    }
+
+    if (wanted('transaction')) {
+        for (const tx of source.transactions) {
+            const { field, score } = bestMatch(
+                [
+                    ['updateId', tx.updateId],
+                    ['commandId', tx.commandId],
+                    ['workflowId', tx.workflowId],
+                ],
+                text
+            );
+            if (score === 0) continue;
+            add({
+                type: 'transaction',
+                id: tx.updateId,
+                label: tx.updateId,
+                description: `Offset ${tx.offset} · ${tx.events.length} event${tx.events.length !== 1 ? 's' : ''}${
+                    field !== 'updateId' ? ` · ${field} match` : ''}`,
+                metadata: { matchedField: field, offset: tx.offset },
+                score,
+            });
+        }
+    }
+
+    if (wanted('party')) {
+        for (const party of source.parties) {
+            const { field, score } = bestMatch(
+                [
+                    ['displayName', party.displayName],
+                    ['partyId', party.partyId],
+                ],
+                text
+            );
+            if (score === 0) continue;
+            add({
+                type: 'party',
+                id: party.partyId,
+                label: party.displayName || party.partyId.split('::')[0],
+                description: party.partyId,
+                metadata: { matchedField: field, isLocal: party.isLocal },
+                score,
+            });
+        }
+    }
+
+    if (wanted('template')) {
+        for (const template of source.templates) {
+            const { field, score } = bestMatch(
+                [
+                    ['entityName', template.entityName],
+                    ['moduleName', template.moduleName],
+                    ['templateId', template.templateId],
+                    ['packageName', template.packageName],
+                ],
+                text
+            );
+            if (score === 0) continue;
+            add({
+                type: 'template',
+                id: template.templateId,
+                label: template.entityName,
+                description: `${template.moduleName}${template.packageName ? ` · ${template.packageName}` : ''}`,
+                metadata: { matchedField: field },
+                score,
+            });
+        }
+    }
+
+    // Pasted IDs not in the cache can still be opened directly
+    if (LEDGER_ID_PATTERN.test(text)) {
+        if (wanted('contract') && !byType.get('contract')?.some((r) => r.id.toLowerCase() === text)) {
+            add({
+                type: 'contract',
+                id: query.text.trim(),
+                label: query.text.trim(),
+                description: 'Look up as contract ID',
+                metadata: { lookup: true },
+                score: 1,
+            });
+        }
+        if (wanted('transaction') && !byType.get('transaction')?.some((r) => r.id.toLowerCase() === text)) {
+            add({
+                type: 'transaction',
+                id: query.text.trim(),
+                label: query.text.trim(),
+                description: 'Look up as update ID',
+                metadata: { lookup: true },
+                score: 1,
+            });
+        }
+    }
+
+    const order: SearchType[] = ['contract', 'transaction', 'party', 'template'];
+    return order.flatMap((type) =>
+        (byType.get(type) ?? [])
+            .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+            .slice(0, limit)
+            .map(({ score: _score, ...result }) => result)
+    );
+}
+
+/**
+ * The page a result opens, or null when selecting it is an action (parties).
+ */
+export function resultPath(result: SearchResult): string | null {
+    switch (result.type) {
+        case 'contract':
+            return `/contracts/${encodeURIComponent(result.id)}`;
+        case 'transaction':
+            return `/transactions/${encodeURIComponent(result.id)}`;
+        case 'template':
+            return `/templates#${encodeURIComponent(result.id)}`;
+        case 'party':
+            return null;
+    }
+}
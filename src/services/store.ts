@@ -2,31 +2,80 @@
  * LedgerView Store
  * 
  * Global state management using Zustand for:
- * - Connection configuration
- * - Party lens (active party, visibility settings)
- * - Cached data (contracts, transactions)
+ * - Connection configuration and saved connection profiles
+ * - OAuth2 sessions, refreshed before their tokens expire
+ * - Party lens (active party, visibility settings, party rights)
+ * - Cached data (contracts, transactions, template catalog)
+ * - Live WebSocket streams keeping the cached data current
+ * - Persistent IndexedDB cache of party data and decoded packages
  * - UI state (filters, search)
  */
 
+import { useCallback, useMemo } from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type {
     Party,
+    PartyId,
     Contract,
+    ArchivedContract,
     Transaction,
     Template,
+    DamlInterface,
+    DamlPackage,
+    PackageId,
+    UploadDarOptions,
     ConnectionConfig,
+    ConnectionProfile,
     ConnectionStatus,
     ContractQuery,
     SavedFilter,
     LedgerOffset,
+    Command,
+    CommandOptions,
+    StreamStatus,
+    TokenSet,
+    UpdateStreamItem,
+    PartyAccess,
+    PartyRights,
+    ContractRole,
+    AllocatePartyOptions,
+    PartyDetailsUpdate,
 } from '../types/canton';
 import {
     MemberTrafficResponse,
     OpenAndIssuingMiningRoundsResponse,
 } from '../types/scan';
-import { CantonClient, createCantonClient } from './cantonClient';
+import { CantonAPIError, CantonClient, createCantonClient } from './cantonClient';
 import { ScanClient, createScanClient } from './scanClient';
+import { mergeProfiles } from './profiles';
+import {
+    beginAuthorization,
+    completeAuthorization,
+    refreshDelay,
+    refreshTokens,
+    requestClientCredentials,
+} from './auth';
+import { partyAccess, resolvePartyRights } from './partyRights';
+import { CONTRACT_ROLES, contractRole, countRoles, lensKey } from './partyLens';
+import { buildCatalog, decodePackage, type DecodedPackage } from './damlLf';
+import type { LedgerStream } from './ledgerStream';
+import {
+    clearCache as clearLedgerCache,
+    loadCachedPackage,
+    loadPartySnapshot,
+    saveCachedPackage,
+    savePartySnapshot,
+} from './ledgerCache';
+import {
+    applyTransactions,
+    bootstrapSync,
+    createSyncState,
+    fetchDelta,
+    indexArchives,
+    MAX_SYNCED_CONTRACTS,
+    type SyncState,
+} from './syncEngine';
 
 // ============================================================================
 // Store State Types
@@ -36,21 +85,52 @@ interface ConnectionState {
     config: ConnectionConfig | null;
     status: ConnectionStatus;
     client: CantonClient | null;
+    /** OAuth tokens of the current session; config.authToken mirrors the access token */
+    tokens: TokenSet | null;
+    authError: string | null;
+}
+
+interface ProfileState {
+    profiles: ConnectionProfile[];
+    /** Profile the current connection was opened from */
+    activeProfileId: string | null;
 }
 
 interface PartyLensState {
+    /** Primary lens party: the default actAs party for commands */
     activeParty: Party | null;
+    /** Parties the ledger is viewed as; always includes the active party */
+    lensParties: Party[];
     availableParties: Party[];
-    viewAsObserver: boolean;
+    /** Contract roles the lens shows; the rest are filtered out of the views */
+    visibleRoles: ContractRole[];
+    /** What the credentials allow; null until resolved (or when the lookup failed) */
+    partyRights: PartyRights | null;
 }
 
 interface DataState {
     contracts: Map<string, Contract>;
+    /** Archive index: contracts seen archived, with archive offset and time */
+    archivedContracts: Map<string, ArchivedContract>;
+    /** Offset of the ACS snapshot the contracts were bootstrapped from */
+    acsOffset: LedgerOffset | null;
+    /** The ACS snapshot was capped; pages query the server beyond it */
+    acsTruncated: boolean;
     transactions: Transaction[];
     templates: Map<string, Template>;
+    interfaces: Map<string, DamlInterface>;
+    packages: DamlPackage[];
+    /** Sync cursor: all updates up to this offset have been applied */
     lastOffset: LedgerOffset;
     isLoading: boolean;
     error: string | null;
+    isCatalogLoading: boolean;
+    catalogError: string | null;
+}
+
+interface StreamState {
+    streamStatus: StreamStatus;
+    streamError: string | null;
 }
 
 interface ScanState {
@@ -74,22 +154,47 @@ interface UIState {
     darkMode: boolean;
 }
 
-interface StoreState extends ConnectionState, PartyLensState, DataState, UIState, ScanState {
+interface StoreState extends ConnectionState, ProfileState, PartyLensState, DataState, StreamState, UIState, ScanState {
     // Connection actions
-    connect: (config: ConnectionConfig) => Promise<boolean>;
+    connect: (config: ConnectionConfig, tokens?: TokenSet) => Promise<boolean>;
     disconnect: () => void;
     refreshConnection: () => Promise<void>;
 
+    // Auth actions
+    refreshAuth: () => Promise<void>;
+    completeLogin: (search: string) => Promise<boolean>;
+
+    // Profile actions
+    saveProfile: (profile: Omit<ConnectionProfile, 'id' | 'createdAt'> & { id?: string }) => ConnectionProfile;
+    deleteProfile: (id: string) => void;
+    importProfiles: (profiles: ConnectionProfile[]) => void;
+    switchProfile: (id: string) => Promise<boolean>;
+
     // Party actions
     setActiveParty: (party: Party) => void;
-    toggleObserverView: () => void;
+    setLensParties: (parties: Party[]) => void;
+    toggleLensParty: (party: Party) => void;
+    toggleRole: (role: ContractRole) => void;
     refreshParties: () => Promise<void>;
+    allocateParty: (partyIdHint: string, options?: AllocatePartyOptions) => Promise<Party>;
+    updateParty: (party: Party, update: PartyDetailsUpdate) => Promise<Party>;
+    refreshPartyRights: () => Promise<void>;
 
     // Data actions
-    loadContracts: (query?: ContractQuery) => Promise<void>;
+    loadContracts: (options?: { full?: boolean }) => Promise<void>;
     loadTransactions: (limit?: number) => Promise<void>;
     refreshData: () => Promise<void>;
     getContract: (contractId: string) => Contract | undefined;
+    loadTemplates: () => Promise<void>;
+    uploadDar: (archive: Uint8Array, options?: UploadDarOptions) => Promise<void>;
+    clearCache: () => Promise<void>;
+
+    // Stream actions
+    startStreaming: () => Promise<void>;
+    stopStreaming: () => void;
+
+    // Command actions
+    submitCommands: (commands: Command[], options?: Partial<CommandOptions>) => Promise<Transaction>;
 
     // UI actions
     setCurrentPage: (page: UIState['currentPage']) => void;
@@ -119,23 +224,252 @@ const initialConnectionState: ConnectionState = {
         endpoint: '',
     },
     client: null,
+    tokens: null,
+    authError: null,
+};
+
+const initialProfileState: ProfileState = {
+    profiles: [],
+    activeProfileId: null,
 };
 
 const initialPartyState: PartyLensState = {
     activeParty: null,
+    lensParties: [],
     availableParties: [],
-    viewAsObserver: false,
+    visibleRoles: CONTRACT_ROLES,
+    partyRights: null,
 };
 
 const initialDataState: DataState = {
     contracts: new Map(),
+    archivedContracts: new Map(),
+    acsOffset: null,
+    acsTruncated: false,
     transactions: [],
     templates: new Map(),
+    interfaces: new Map(),
+    packages: [],
     lastOffset: 0,
     isLoading: false,
     error: null,
+    isCatalogLoading: false,
+    catalogError: null,
 };
 
+/** Package IDs are content hashes, so decoded packages never go stale */
+const decodedPackages = new Map<PackageId, DecodedPackage>();
+const PACKAGE_FETCH_CONCURRENCY = 4;
+
+const initialStreamState: StreamState = {
+    streamStatus: 'idle',
+    streamError: null,
+};
+
+/** Upper bound on transactions kept in memory */
+const MAX_TRANSACTIONS = 1000;
+
+/** Per-party sync state, cleared when the party lens changes */
+const resetSyncState = (): Partial<DataState> => ({
+    contracts: new Map(),
+    archivedContracts: new Map(),
+    acsOffset: null,
+    acsTruncated: false,
+    transactions: [],
+    lastOffset: 0,
+});
+
+// Open streams live outside the store state: they are not serializable
+let snapshotStream: LedgerStream<Contract> | null = null;
+let updateStream: LedgerStream<UpdateStreamItem> | null = null;
+/** Bumped on every start/stop so callbacks of superseded streams are ignored */
+let streamGeneration = 0;
+/** Reconnects allowed while streaming the ACS snapshot before streaming fails */
+const SNAPSHOT_STREAM_RETRIES = 3;
+/** Set when a server error re-bootstrapped the stream; cleared by the next update */
+let streamRebootstrapped = false;
+
+let tokenRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Refresh the session's tokens shortly before the access token expires.
+ */
+function scheduleTokenRefresh(): void {
+    if (tokenRefreshTimer) {
+        clearTimeout(tokenRefreshTimer);
+        tokenRefreshTimer = null;
+    }
+    const { tokens, config } = useLedgerStore.getState();
+    if (!tokens || !config?.oauth) return;
+
+    const delay = refreshDelay(tokens);
+    if (delay === null) return;
+    tokenRefreshTimer = setTimeout(() => {
+        tokenRefreshTimer = null;
+        useLedgerStore.getState().refreshAuth();
+    }, delay);
+}
+
+/**
+ * Mark a profile as the active one and open its default party, if hosted.
+ */
+function activateProfile(profileId: string): void {
+    const state = useLedgerStore.getState();
+    const profile = state.profiles.find((p) => p.id === profileId);
+    if (!profile) return;
+
+    useLedgerStore.setState({ activeProfileId: profile.id });
+    const party = profile.defaultPartyId
+        ? state.availableParties.find((p) => p.partyId === profile.defaultPartyId)
+        : undefined;
+    if (party && partyAccess(state.partyRights, party.partyId) !== 'none') {
+        state.setActiveParty(party);
+    }
+}
+
+/** IDs of the parties the lens reads as */
+const lensPartyIds = (state: Pick<PartyLensState, 'lensParties'>) => state.lensParties.map((p) => p.partyId);
+
+/** Cache restore in flight for the active party; loads wait for it */
+let cacheRestore: Promise<void> | null = null;
+let cacheWriteTimer: ReturnType<typeof setTimeout> | null = null;
+/** Party snapshots are written at most this often while data keeps changing */
+const CACHE_WRITE_INTERVAL_MS = 5000;
+
+/**
+ * Serve the lens parties' cached snapshot while nothing fresher has loaded.
+ * Syncing then resumes from the cached offset instead of re-reading the ledger.
+ */
+async function restorePartySnapshot(endpoint: string, parties: PartyId[]): Promise<void> {
+    const snapshot = await loadPartySnapshot(endpoint, parties);
+    const state = useLedgerStore.getState();
+    if (
+        !snapshot ||
+        state.config?.endpoint !== endpoint ||
+        lensKey(lensPartyIds(state)) !== lensKey(parties) ||
+        state.acsOffset !== null
+    ) {
+        return;
+    }
+
+    useLedgerStore.setState({
+        contracts: new Map(snapshot.contracts.map((c) => [c.contractId, c])),
+        archivedContracts: new Map(snapshot.archivedContracts.map((a) => [a.contractId, a])),
+        transactions: snapshot.transactions,
+        acsOffset: snapshot.acsOffset,
+        acsTruncated: snapshot.acsTruncated ?? false,
+        lastOffset: snapshot.lastOffset,
+    });
+}
+
+/**
+ * ACS bootstrap in flight; HTTP loads and the stream share it while they
+ * read for the same connection, endpoint and lens
+ */
+let acsBootstrap: { client: CantonClient; key: string; promise: Promise<void> } | null = null;
+
+/**
+ * Bootstrap the lens parties' ACS with `load` unless a bootstrap for the same
+ * connection and lens is already in flight, in which case wait for that one
+ * instead of reading the ACS again. The snapshot is dropped if the lens or
+ * connection changed meanwhile, or if `load` returns null because it was
+ * superseded.
+ */
+function bootstrapOnce(
+    client: CantonClient,
+    parties: PartyId[],
+    load: () => Promise<SyncState | null>
+): Promise<void> {
+    const key = `${useLedgerStore.getState().config?.endpoint ?? ''}|${lensKey(parties)}`;
+    if (acsBootstrap && acsBootstrap.client === client && acsBootstrap.key === key) return acsBootstrap.promise;
+
+    const bootstrap = load()
+        .then((snapshot) => {
+            const state = useLedgerStore.getState();
+            if (!snapshot || state.client !== client || lensKey(lensPartyIds(state)) !== lensKey(parties)) return;
+            useLedgerStore.setState(adoptSnapshot(state, snapshot));
+        })
+        .finally(() => {
+            if (acsBootstrap?.promise === bootstrap) acsBootstrap = null;
+        });
+    acsBootstrap = { client, key, promise: bootstrap };
+    return bootstrap;
+}
+
+/**
+ * Write the lens parties' data to the cache, throttled so a busy stream does
+ * not serialize the whole ACS on every update.
+ */
+function scheduleCacheWrite(): void {
+    if (cacheWriteTimer) return;
+
+    cacheWriteTimer = setTimeout(() => {
+        cacheWriteTimer = null;
+        const state = useLedgerStore.getState();
+        if (!state.config || state.lensParties.length === 0 || state.acsOffset === null) return;
+
+        savePartySnapshot({
+            endpoint: state.config.endpoint,
+            parties: lensPartyIds(state),
+            contracts: Array.from(state.contracts.values()),
+            archivedContracts: Array.from(state.archivedContracts.values()),
+            transactions: state.transactions,
+            acsOffset: state.acsOffset,
+            acsTruncated: state.acsTruncated,
+            lastOffset: state.lastOffset,
+            savedAt: new Date().toISOString(),
+        });
+    }, CACHE_WRITE_INTERVAL_MS);
+}
+
+/**
+ * Merge transactions into the cached list, ordered by offset, without duplicates.
+ */
+function mergeTransactions(current: Transaction[], incoming: Transaction[]): Transaction[] {
+    if (incoming.length === 0) return current;
+    const byId = new Map(current.map((t) => [t.updateId, t]));
+    incoming.forEach((t) => byId.set(t.updateId, t));
+    return Array.from(byId.values())
+        .sort((a, b) => a.offset - b.offset)
+        .slice(-MAX_TRANSACTIONS);
+}
+
+/**
+ * Apply newly committed transactions to contracts, the archive index and the
+ * transaction list.
+ */
+function applyDelta(state: StoreState, transactions: Transaction[]): Partial<StoreState> {
+    const fresh = transactions.filter((t) => t.offset > state.lastOffset);
+    return {
+        ...applyTransactions(state, fresh),
+        transactions: mergeTransactions(state.transactions, fresh),
+    };
+}
+
+/**
+ * Adopt a fresh ACS snapshot unless the cache has already synced past it
+ * (another bootstrap or the live stream got there first). The archive index
+ * is kept: archives stay valid across snapshots.
+ */
+function adoptSnapshot(state: StoreState, snapshot: SyncState): Partial<StoreState> {
+    if (state.acsOffset !== null && state.lastOffset > snapshot.lastOffset) {
+        return {};
+    }
+    const archivedContracts = new Map(state.archivedContracts);
+    snapshot.archivedContracts.forEach((entry, id) => archivedContracts.set(id, entry));
+    return { ...snapshot, archivedContracts };
+}
+
+/**
+ * Apply one streamed update. Replays after a reconnect are skipped by offset.
+ */
+function applyStreamItem(state: StoreState, item: UpdateStreamItem): Partial<StoreState> {
+    if (item.type === 'checkpoint') {
+        return { lastOffset: Math.max(state.lastOffset, item.offset) };
+    }
+    return applyDelta(state, [item.transaction]);
+}
+
 const initialScanState: ScanState = {
     scanConfig: {
         url: 'https://scan.sv-1.global.canton.network.sync.global/api/scan', // Default from docs
@@ -166,8 +500,10 @@ export const useLedgerStore = create<StoreState>()(
         (set, get) => ({
             // Initial state
             ...initialConnectionState,
+            ...initialProfileState,
             ...initialPartyState,
             ...initialDataState,
+            ...initialStreamState,
             ...initialUIState,
             ...initialScanState,
 
@@ -175,12 +511,20 @@ export const useLedgerStore = create<StoreState>()(
             // Connection Actions
             // ========================================
 
-            connect: async (config: ConnectionConfig) => {
-                const client = createCantonClient(config);
-
-                set({ isLoading: true, error: null });
+            connect: async (config: ConnectionConfig, tokens?: TokenSet) => {
+                set({ isLoading: true, error: null, authError: null });
 
                 try {
+                    // Service accounts log in without user interaction
+                    let session = tokens ?? null;
+                    if (!session && config.oauth?.flow === 'client-credentials') {
+                        session = await requestClientCredentials(config.oauth);
+                    }
+                    if (session) {
+                        config = { ...config, authToken: session.accessToken };
+                    }
+                    const client = createCantonClient(config);
+
                     const status = await client.getConnectionStatus();
 
                     if (!status.connected) {
@@ -192,18 +536,31 @@ export const useLedgerStore = create<StoreState>()(
                         return false;
                     }
 
-                    // Fetch available parties
-                    const parties = await client.getParties();
+                    // Fetch available parties; users without admin rights may not
+                    // list them, so offer the parties they hold rights for instead
+                    const parties = await client.getParties().catch(async (error) => {
+                        if (!(error instanceof CantonAPIError && error.status === 403)) throw error;
+                        const rights = await resolvePartyRights(client, config.authToken);
+                        return Array.from(new Set([...rights.actAs, ...rights.readAs]), (partyId) => ({
+                            partyId,
+                            isLocal: true,
+                        }));
+                    });
 
                     set({
                         config,
                         client,
                         status,
+                        tokens: session,
                         availableParties: parties,
                         isLoading: false,
                         error: null,
                     });
 
+                    scheduleTokenRefresh();
+                    get().refreshPartyRights();
+                    get().loadTemplates();
+
                     return true;
                 } catch (error) {
                     const errorMessage = error instanceof Error ? error.message : 'Connection failed';
@@ -221,10 +578,18 @@ export const useLedgerStore = create<StoreState>()(
             },
 
             disconnect: () => {
+                get().stopStreaming();
+                cacheRestore = null;
+                acsBootstrap = null;
+                if (tokenRefreshTimer) {
+                    clearTimeout(tokenRefreshTimer);
+                    tokenRefreshTimer = null;
+                }
                 set({
                     ...initialConnectionState,
                     ...initialPartyState,
                     ...initialDataState,
+                    activeProfileId: null,
                 });
             },
 
@@ -246,19 +611,151 @@ export const useLedgerStore = create<StoreState>()(
                 }
             },
 
+            // ========================================
+            // Auth Actions
+            // ========================================
+
+            refreshAuth: async () => {
+                const { client, config, tokens } = get();
+                if (!client || !config?.oauth || !tokens) return;
+
+                try {
+                    const refreshed = await refreshTokens(config.oauth, tokens);
+                    // Ignore results for a session that ended meanwhile
+                    if (get().client !== client) return;
+                    client.setAuthToken(refreshed.accessToken);
+                    set({
+                        tokens: refreshed,
+                        config: { ...config, authToken: refreshed.accessToken },
+                        authError: null,
+                    });
+                    scheduleTokenRefresh();
+                    // Refreshed tokens may carry different claims
+                    get().refreshPartyRights();
+                } catch (error) {
+                    set({ authError: error instanceof Error ? error.message : 'Failed to refresh token' });
+                }
+            },
+
+            completeLogin: async (search: string) => {
+                try {
+                    const { config, tokens, profileId } = await completeAuthorization(search);
+                    const connected = await get().connect(config, tokens);
+                    if (connected && profileId) {
+                        activateProfile(profileId);
+                    }
+                    return connected;
+                } catch (error) {
+                    set({ authError: error instanceof Error ? error.message : 'Login failed' });
+                    return false;
+                }
+            },
+
+            // ========================================
+            // Profile Actions
+            // ========================================
+
+            saveProfile: (input) => {
+                const existing = input.id ? get().profiles.find((p) => p.id === input.id) : undefined;
+                const profile: ConnectionProfile = {
+                    ...input,
+                    id: existing?.id ?? crypto.randomUUID(),
+                    createdAt: existing?.createdAt ?? new Date().toISOString(),
+                };
+                set((state) => ({
+                    profiles: existing
+                        ? state.profiles.map((p) => (p.id === profile.id ? profile : p))
+                        : [...state.profiles, profile],
+                }));
+                return profile;
+            },
+
+            deleteProfile: (id) => {
+                set((state) => ({
+                    profiles: state.profiles.filter((p) => p.id !== id),
+                    activeProfileId: state.activeProfileId === id ? null : state.activeProfileId,
+                }));
+            },
+
+            importProfiles: (profiles) => {
+                set((state) => ({ profiles: mergeProfiles(state.profiles, profiles) }));
+            },
+
+            switchProfile: async (id) => {
+                const profile = get().profiles.find((p) => p.id === id);
+                if (!profile) return false;
+
+                // Interactive logins continue on the issuer's page
+                if (profile.connection.oauth?.flow === 'authorization-code') {
+                    try {
+                        await beginAuthorization(profile.connection, profile.id);
+                    } catch (error) {
+                        set({ authError: error instanceof Error ? error.message : 'Login failed' });
+                        return false;
+                    }
+                }
+
+                // Drop the previous participant's data before any of the new one arrives
+                get().stopStreaming();
+                cacheRestore = null;
+                acsBootstrap = null;
+                set({ ...initialPartyState, ...initialDataState });
+
+                if (profile.scanUrl) {
+                    get().setScanConfig(profile.scanUrl, profile.scanMemberId ?? '');
+                }
+
+                const connected = await get().connect(profile.connection);
+                if (connected) {
+                    activateProfile(profile.id);
+                }
+                return connected;
+            },
+
             // ========================================
             // Party Actions
             // ========================================
 
             setActiveParty: (party: Party) => {
-                set({ activeParty: party });
-                // Refresh data for new party
-                get().refreshData();
+                get().setLensParties([party]);
             },
 
-            toggleObserverView: () => {
-                set((state) => ({ viewAsObserver: !state.viewAsObserver }));
+            setLensParties: (parties: Party[]) => {
+                if (parties.length === 0) return;
+                const { activeParty } = get();
+                // Keep the primary party when it stays in the lens
+                const primary = parties.find((p) => p.partyId === activeParty?.partyId) ?? parties[0];
+
+                get().stopStreaming();
+                set({ activeParty: primary, lensParties: parties, ...resetSyncState() });
+                // A bootstrap still running for the previous lens is discarded
+                acsBootstrap = null;
+                // Serve cached data first, then fetch what changed since it
+                const endpoint = get().config?.endpoint;
+                cacheRestore = endpoint ? restorePartySnapshot(endpoint, lensPartyIds(get())) : null;
+                // Refresh data for the new lens, then follow it live; the
+                // stream reuses the ACS bootstrap the refresh starts
                 get().refreshData();
+                get().startStreaming();
+            },
+
+            toggleLensParty: (party: Party) => {
+                const { lensParties } = get();
+                const selected = lensParties.some((p) => p.partyId === party.partyId);
+                get().setLensParties(
+                    selected
+                        ? lensParties.filter((p) => p.partyId !== party.partyId)
+                        : [...lensParties, party]
+                );
+            },
+
+            toggleRole: (role: ContractRole) => {
+                // Roles filter loaded contracts; nothing needs refetching
+                set((state) => ({
+                    visibleRoles: state.visibleRoles.includes(role)
+                        ? state.visibleRoles.filter((r) => r !== role)
+                        : CONTRACT_ROLES.filter((r) => r === role || state.visibleRoles.includes(r)),
+                }));
             },
 
             refreshParties: async () => {
@@ -273,35 +770,84 @@ export const useLedgerStore = create<StoreState>()(
                 }
             },
 
+            allocateParty: async (partyIdHint, options = {}) => {
+                const { client } = get();
+                if (!client) {
+                    throw new Error('Connect to a participant before allocating parties');
+                }
+
+                const party = await client.allocateParty(partyIdHint, options);
+                await get().refreshParties();
+                return party;
+            },
+
+            updateParty: async (party, update) => {
+                const { client } = get();
+                if (!client) {
+                    throw new Error('Connect to a participant before editing parties');
+                }
+
+                const updated = await client.updatePartyDetails(party, update);
+                // Keep the lens on the new details
+                set((state) => {
+                    const replace = (p: Party) => (p.partyId === updated.partyId ? updated : p);
+                    return {
+                        availableParties: state.availableParties.map(replace),
+                        lensParties: state.lensParties.map(replace),
+                        activeParty: state.activeParty && replace(state.activeParty),
+                    };
+                });
+                return updated;
+            },
+
+            refreshPartyRights: async () => {
+                const { client, config } = get();
+                if (!client) return;
+
+                try {
+                    const partyRights = await resolvePartyRights(client, config?.authToken);
+                    if (get().client === client) {
+                        set({ partyRights });
+                    }
+                } catch (error) {
+                    console.error('Failed to resolve party rights:', error);
+                }
+            },
+
             // ========================================
             // Data Actions
             // ========================================
 
-            loadContracts: async (query?: ContractQuery) => {
-                const { client, activeParty } = get();
-                if (!client || !activeParty) return;
+            loadContracts: async (options = {}) => {
+                await cacheRestore;
+                const { client, acsOffset } = get();
+                const parties = lensPartyIds(get());
+                if (!client || parties.length === 0) return;
 
                 set({ isLoading: true, error: null });
 
                 try {
-                    const contracts = await client.getActiveContracts(
-                        activeParty.partyId,
-                        {
-                            templateIds: query?.templateId ? [query.templateId] : undefined,
-                            offset: query?.fromOffset,
-                            verbose: true,
+                    if (acsOffset === null || options.full) {
+                        await bootstrapOnce(client, parties, () => bootstrapSync(client, parties));
+                        set({ isLoading: false });
+                    } else {
+                        // Only fetch what was committed since the last sync
+                        const transactions = await fetchDelta(client, parties, get());
+                        if (transactions) {
+                            set((state) => ({ ...applyDelta(state, transactions), isLoading: false }));
+                        } else {
+                            // The cached sync point is gone or too far behind:
+                            // drop it and take a fresh snapshot, which a running
+                            // stream restarts from as well
+                            const streaming = get().streamStatus !== 'idle';
+                            get().stopStreaming();
+                            set(resetSyncState());
+                            const bootstrap = bootstrapOnce(client, parties, () => bootstrapSync(client, parties));
+                            if (streaming) get().startStreaming();
+                            await bootstrap;
+                            set({ isLoading: false });
                         }
-                    );
-
-                    const contractMap = new Map<string, Contract>();
-                    for (const contract of contracts) {
-                        contractMap.set(contract.contractId, contract);
                     }
-
-                    set({
-                        contracts: contractMap,
-                        isLoading: false,
-                    });
                 } catch (error) {
                     set({
                         error: error instanceof Error ? error.message : 'Failed to load contracts',
@@ -311,30 +857,30 @@ export const useLedgerStore = create<StoreState>()(
             },
 
             loadTransactions: async (limit = 100) => {
-                const { client, activeParty, lastOffset } = get();
-                if (!client || !activeParty) return;
+                await cacheRestore;
+                const { client, acsOffset } = get();
+                const parties = lensPartyIds(get());
+                if (!client || parties.length === 0) return;
 
                 set({ isLoading: true, error: null });
 
                 try {
-                    const transactions = await client.getTransactions(
-                        activeParty.partyId,
+                    // Most recent history up to the sync point; later updates
+                    // arrive as deltas
+                    const { items: transactions } = await client.getTransactionsPage(
+                        parties,
                         {
-                            beginOffset: 0,
-                            limit,
+                            endOffset: acsOffset ?? undefined,
+                            order: 'desc',
+                            pageSize: limit,
                         }
                     );
 
-                    // Update last offset if we have transactions
-                    const newLastOffset = transactions.length > 0
-                        ? Math.max(...transactions.map((t) => t.offset))
-                        : lastOffset;
-
-                    set({
-                        transactions,
-                        lastOffset: newLastOffset,
+                    set((state) => ({
+                        ...indexArchives(state, transactions),
+                        transactions: mergeTransactions(state.transactions, transactions),
                         isLoading: false,
-                    });
+                    }));
                 } catch (error) {
                     set({
                         error: error instanceof Error ? error.message : 'Failed to load transactions',
@@ -357,6 +903,212 @@ export const useLedgerStore = create<StoreState>()(
                 return get().contracts.get(contractId);
             },
 
+            loadTemplates: async () => {
+                const { client } = get();
+                if (!client) return;
+
+                set({ isCatalogLoading: true, catalogError: null });
+
+                try {
+                    const packageIds = await client.listPackages();
+                    const failures: DamlPackage[] = [];
+                    const pending = packageIds.filter((id) => !decodedPackages.has(id));
+
+                    const worker = async () => {
+                        for (let id = pending.shift(); id; id = pending.shift()) {
+                            try {
+                                const cached = await loadCachedPackage(id);
+                                // Entries cached before dependencies were recorded are decoded again
+                                if (cached?.dependencies) {
+                                    decodedPackages.set(id, cached);
+                                    continue;
+                                }
+                                const archive = await client.getPackageArchive(id);
+                                if (!archive) throw new Error('Package not found');
+                                const decoded = {
+                                    ...decodePackage(id, archive),
+                                    knownSince: cached?.knownSince ?? new Date().toISOString(),
+                                };
+                                decodedPackages.set(id, decoded);
+                                saveCachedPackage(decoded, archive.byteLength);
+                            } catch (error) {
+                                failures.push({
+                                    packageId: id,
+                                    modules: [],
+                                    templateIds: [],
+                                    interfaceIds: [],
+                                    decodeError: error instanceof Error ? error.message : 'Failed to decode package',
+                                });
+                            }
+                        }
+                    };
+                    await Promise.all(Array.from({ length: PACKAGE_FETCH_CONCURRENCY }, worker));
+
+                    const catalog = buildCatalog(
+                        packageIds.flatMap((id) => decodedPackages.get(id) ?? []),
+                        failures
+                    );
+
+                    set({
+                        packages: catalog.packages,
+                        templates: new Map(catalog.templates.map((t) => [t.templateId, t])),
+                        interfaces: new Map(catalog.interfaces.map((i) => [i.interfaceId, i])),
+                        isCatalogLoading: false,
+                    });
+                } catch (error) {
+                    set({
+                        catalogError: error instanceof Error ? error.message : 'Failed to load packages',
+                        isCatalogLoading: false,
+                    });
+                }
+            },
+
+            uploadDar: async (archive, options = {}) => {
+                const { client } = get();
+                if (!client) {
+                    throw new Error('Connect to a participant before uploading packages');
+                }
+
+                await client.uploadDar(archive, options);
+                await get().loadTemplates();
+            },
+
+            clearCache: async () => {
+                // A pending write would put the current snapshot straight back
+                if (cacheWriteTimer) {
+                    clearTimeout(cacheWriteTimer);
+                    cacheWriteTimer = null;
+                }
+                decodedPackages.clear();
+                await clearLedgerCache();
+            },
+
+            // ========================================
+            // Stream Actions
+            // ========================================
+
+            startStreaming: async () => {
+                get().stopStreaming();
+                const { client } = get();
+                const parties = lensPartyIds(get());
+                if (!client || parties.length === 0) return;
+
+                const generation = streamGeneration;
+                const isCurrent = () => generation === streamGeneration;
+                const onStatus = (status: StreamStatus, error?: string) => {
+                    if (isCurrent()) set({ streamStatus: status, streamError: error ?? null });
+                };
+
+                set({ streamStatus: 'connecting', streamError: null });
+
+                try {
+                    await cacheRestore;
+                    if (!isCurrent()) return;
+
+                    // Bootstrap the ACS at a fixed offset unless already synced
+                    // (or being bootstrapped by a load), then follow the updates
+                    // after it
+                    if (get().acsOffset === null) {
+                        await bootstrapOnce(client, parties, async () => {
+                            const { offset } = await client.ping();
+                            const snapshot: Contract[] = [];
+                            await new Promise<void>((resolve, reject) => {
+                                snapshotStream = client.streamActiveContracts(
+                                    parties,
+                                    { offset, maxRetries: SNAPSHOT_STREAM_RETRIES },
+                                    {
+                                        onItem: (contract) => {
+                                            snapshot.push(contract);
+                                            // Keep memory bounded; closing resolves via 'closed'
+                                            if (snapshot.length === MAX_SYNCED_CONTRACTS) snapshotStream?.close();
+                                        },
+                                        onStatus: (status, error) => {
+                                            if (status === 'closed') {
+                                                // Closed with an error once the retries ran out
+                                                if (error) {
+                                                    reject(new Error(error));
+                                                } else {
+                                                    resolve();
+                                                }
+                                                return;
+                                            }
+                                            // The snapshot is replayed from the start after a reconnect
+                                            if (status === 'reconnecting') snapshot.length = 0;
+                                            onStatus(status, error);
+                                        },
+                                    }
+                                );
+                            });
+                            snapshotStream = null;
+                            if (!isCurrent()) return null;
+
+                            return createSyncState(snapshot, offset, snapshot.length >= MAX_SYNCED_CONTRACTS);
+                        });
+                        if (!isCurrent()) return;
+                    }
+
+                    updateStream = client.streamUpdates(
+                        parties,
+                        { beginExclusive: () => get().lastOffset },
+                        {
+                            onItem: (item) => {
+                                streamRebootstrapped = false;
+                                set((state) => applyStreamItem(state, item));
+                            },
+                            onStatus: (status, error) => {
+                                onStatus(status, error);
+                                // The server rejected the request (e.g. the offset was
+                                // pruned): re-read the ACS at the ledger end and follow on
+                                // from there, once, or leave the error showing
+                                if (status !== 'closed' || !error || !isCurrent() || streamRebootstrapped) return;
+                                streamRebootstrapped = true;
+                                set(resetSyncState());
+                                get().startStreaming();
+                            },
+                        }
+                    );
+                } catch (error) {
+                    set({
+                        streamStatus: 'closed',
+                        streamError: error instanceof Error ? error.message : 'Failed to start stream',
+                    });
+                }
+            },
+
+            stopStreaming: () => {
+                streamGeneration++;
+                snapshotStream?.close();
+                updateStream?.close();
+                snapshotStream = null;
+                updateStream = null;
+                set({ streamStatus: 'idle' });
+            },
+
+            // ========================================
+            // Command Actions
+            // ========================================
+
+            submitCommands: async (commands, options = {}) => {
+                const { client, activeParty } = get();
+                if (!client || !activeParty) {
+                    throw new Error('Connect and select a party before submitting commands');
+                }
+
+                const transaction = await client.submitCommands(commands, {
+                    ...options,
+                    actAs: options.actAs && options.actAs.length > 0
+                        ? options.actAs
+                        : [activeParty.partyId],
+                });
+
+                // Pick up the new contracts / archives, unless the stream delivers them
+                if (get().streamStatus !== 'live') {
+                    get().refreshData();
+                }
+
+                return transaction;
+            },
+
             // ========================================
             // UI Actions
             // ========================================
@@ -455,6 +1207,7 @@ export const useLedgerStore = create<StoreState>()(
                     ...initialDataState,
                     ...initialUIState,
                     ...initialScanState,
+                    activeProfileId: null,
                     // Preserve Scan Config
                     scanConfig: get().scanConfig,
                 });
@@ -484,6 +1237,8 @@ export const useLedgerStore = create<StoreState>()(
             // Only persist certain fields
             partialize: (state) => ({
                 config: state.config,
+                profiles: state.profiles,
+                activeProfileId: state.activeProfileId,
                 savedFilters: state.savedFilters,
                 darkMode: state.darkMode,
                 sidebarOpen: state.sidebarOpen,
@@ -493,6 +1248,17 @@ export const useLedgerStore = create<StoreState>()(
     )
 );
 
+// Persist party data whenever the sync state moves
+useLedgerStore.subscribe((state, prev) => {
+    if (
+        state.lastOffset !== prev.lastOffset ||
+        state.archivedContracts !== prev.archivedContracts ||
+        state.transactions !== prev.transactions
+    ) {
+        scheduleCacheWrite();
+    }
+});
+
 // ============================================================================
 // Selector Hooks
 // ============================================================================
@@ -510,27 +1276,106 @@ export const useConnection = () =>
         }))
     );
 
-export const usePartyLens = () =>
+export const useProfiles = () =>
+    useLedgerStore(
+        useShallow((state) => ({
+            profiles: state.profiles,
+            activeProfileId: state.activeProfileId,
+            saveProfile: state.saveProfile,
+            deleteProfile: state.deleteProfile,
+            importProfiles: state.importProfiles,
+            switchProfile: state.switchProfile,
+        }))
+    );
+
+export const useAuth = () =>
     useLedgerStore(
+        useShallow((state) => ({
+            config: state.config,
+            tokens: state.tokens,
+            authError: state.authError,
+            refreshAuth: state.refreshAuth,
+            completeLogin: state.completeLogin,
+        }))
+    );
+
+export const useLedgerClient = () => useLedgerStore((state) => state.client);
+
+export const useClearCache = () => useLedgerStore((state) => state.clearCache);
+
+export const usePartyLens = () => {
+    const lens = useLedgerStore(
         useShallow((state) => ({
             activeParty: state.activeParty,
+            lensParties: state.lensParties,
             availableParties: state.availableParties,
-            viewAsObserver: state.viewAsObserver,
+            visibleRoles: state.visibleRoles,
+            partyRights: state.partyRights,
             setActiveParty: state.setActiveParty,
-            toggleObserverView: state.toggleObserverView,
+            refreshParties: state.refreshParties,
+            refreshPartyRights: state.refreshPartyRights,
+            allocateParty: state.allocateParty,
+            updateParty: state.updateParty,
+            setLensParties: state.setLensParties,
+            toggleLensParty: state.toggleLensParty,
+            toggleRole: state.toggleRole,
         }))
     );
+    const { availableParties, partyRights, activeParty, lensParties, visibleRoles } = lens;
+
+    // Derived outside the selector so they stay stable between store updates
+    const derived = useMemo(() => {
+        const getPartyAccess = (partyId: string): PartyAccess => partyAccess(partyRights, partyId);
+        return {
+            getPartyAccess,
+            readableParties: availableParties.filter((p) => getPartyAccess(p.partyId) !== 'none'),
+            actableParties: availableParties.filter((p) => getPartyAccess(p.partyId) === 'act'),
+        };
+    }, [availableParties, partyRights]);
+    const lensPartyIdList = useMemo(() => lensParties.map((p) => p.partyId), [lensParties]);
+    const matchesRole = useCallback(
+        (contract: Contract) => visibleRoles.includes(contractRole(contract, lensPartyIdList)),
+        [visibleRoles, lensPartyIdList]
+    );
 
-export const useContracts = () =>
-    useLedgerStore(
+    return {
+        ...lens,
+        ...derived,
+        /** IDs of the lens parties, for visibility checks */
+        lensPartyIds: lensPartyIdList,
+        /** Whether a contract passes the role filter */
+        matchesRole,
+        /** Access to the active party; 'none' when nothing is selected */
+        activePartyAccess: activeParty ? derived.getPartyAccess(activeParty.partyId) : ('none' as PartyAccess),
+    };
+};
+
+export const useContracts = () => {
+    const { contractMap, lensParties, visibleRoles, ...rest } = useLedgerStore(
         useShallow((state) => ({
-            contracts: Array.from(state.contracts.values()),
+            contractMap: state.contracts,
+            lensParties: state.lensParties,
+            visibleRoles: state.visibleRoles,
+            archivedContracts: state.archivedContracts,
             isLoading: state.isLoading,
             error: state.error,
             loadContracts: state.loadContracts,
             getContract: state.getContract,
         }))
     );
+    // Derived outside the selector so they stay stable between store updates
+    const { contracts, roleCounts } = useMemo(() => {
+        const lens = lensParties.map((p) => p.partyId);
+        const all = Array.from(contractMap.values());
+        return {
+            /** Active contracts passing the role filter */
+            contracts: all.filter((c) => visibleRoles.includes(contractRole(c, lens))),
+            /** Active contracts per role, before the role filter */
+            roleCounts: countRoles(all, lens),
+        };
+    }, [contractMap, lensParties, visibleRoles]);
+    return { contracts, contractMap, roleCounts, visibleRoles, ...rest };
+};
 
 export const useTransactions = () =>
     useLedgerStore(
@@ -542,6 +1387,40 @@ export const useTransactions = () =>
         }))
     );
 
+export const useCommands = () =>
+    useLedgerStore(
+        useShallow((state) => ({
+            activeParty: state.activeParty,
+            availableParties: state.availableParties,
+            contracts: state.contracts,
+            templates: state.templates,
+            submitCommands: state.submitCommands,
+        }))
+    );
+
+export const useTemplateCatalog = () =>
+    useLedgerStore(
+        useShallow((state) => ({
+            templates: state.templates,
+            interfaces: state.interfaces,
+            packages: state.packages,
+            isCatalogLoading: state.isCatalogLoading,
+            catalogError: state.catalogError,
+            loadTemplates: state.loadTemplates,
+            uploadDar: state.uploadDar,
+        }))
+    );
+
+export const useLiveStream = () =>
+    useLedgerStore(
+        useShallow((state) => ({
+            streamStatus: state.streamStatus,
+            streamError: state.streamError,
+            startStreaming: state.startStreaming,
+            stopStreaming: state.stopStreaming,
+        }))
+    );
+
 export const useUI = () =>
     useLedgerStore(
         useShallow((state) => ({
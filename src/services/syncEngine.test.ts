@@ -0,0 +1,185 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CantonClient } from './cantonClient';
+import {
+    MAX_ARCHIVED_CONTRACTS,
+    MAX_DELTA_TRANSACTIONS,
+    MAX_SYNCED_CONTRACTS,
+    applyTransactions,
+    createSyncState,
+    fetchDelta,
+    indexArchives,
+    selectContracts,
+} from './syncEngine';
+import type { Contract, Event, Page, Transaction } from '../types/canton';
+
+const TEMPLATE = 'pkg:Main:Asset';
+
+function contract(contractId: string, offset = 1): Contract {
+    return {
+        contractId,
+        templateId: TEMPLATE,
+        payload: {},
+        stakeholders: ['alice'],
+        observers: [],
+        signatories: ['alice'],
+        createdAt: '2026-01-01T00:00:00Z',
+        offset,
+    };
+}
+
+function created(contractId: string, offset: number): Event {
+    return {
+        type: 'created',
+        eventId: `${offset}:${contractId}`,
+        contractId,
+        templateId: TEMPLATE,
+        offset,
+        nodeId: 0,
+        createArguments: { id: contractId },
+        signatories: ['alice'],
+        observers: [],
+    };
+}
+
+function archived(contractId: string, offset: number): Event {
+    return {
+        type: 'archived',
+        eventId: `${offset}:${contractId}:archived`,
+        contractId,
+        templateId: TEMPLATE,
+        offset,
+        nodeId: 1,
+    };
+}
+
+function tx(offset: number, events: Event[]): Transaction {
+    return { updateId: `update-${offset}`, offset, effectiveAt: `t${offset}`, events };
+}
+
+describe('applyTransactions', () => {
+    it('creates and archives contracts after the last offset', () => {
+        const state = createSyncState([contract('a')], 10);
+        const next = applyTransactions(state, [
+            tx(12, [archived('a', 12)]),
+            tx(11, [created('b', 11)]),
+        ]);
+
+        expect([...next.contracts.keys()]).toEqual(['b']);
+        expect(next.contracts.get('b')).toMatchObject({ offset: 11, createdAt: 't11', payload: { id: 'b' } });
+        expect(next.archivedContracts.get('a')).toMatchObject({ offset: 12, archivedAt: 't12' });
+        expect(next.archivedContracts.get('a')?.contract?.contractId).toBe('a');
+        expect(next.lastOffset).toBe(12);
+        expect(next.acsTruncated).toBe(false);
+    });
+
+    it('skips transactions at or below the last offset', () => {
+        const state = createSyncState([contract('a')], 10);
+        expect(applyTransactions(state, [tx(10, [archived('a', 10)]), tx(4, [created('x', 4)])])).toBe(state);
+    });
+
+    it('does not modify the previous state', () => {
+        const state = createSyncState([contract('a')], 10);
+        applyTransactions(state, [tx(11, [archived('a', 11)])]);
+        expect(state.contracts.has('a')).toBe(true);
+        expect(state.archivedContracts.size).toBe(0);
+    });
+
+    it('evicts the oldest contracts beyond the cap and marks the set truncated', () => {
+        const snapshot = Array.from({ length: MAX_SYNCED_CONTRACTS }, (_, i) => contract(`c${i}`));
+        const next = applyTransactions(createSyncState(snapshot, 1), [tx(2, [created('new', 2)])]);
+
+        expect(next.contracts.size).toBe(MAX_SYNCED_CONTRACTS);
+        expect(next.contracts.has('c0')).toBe(false);
+        expect(next.contracts.has('new')).toBe(true);
+        expect(next.acsTruncated).toBe(true);
+    });
+
+    it('evicts the oldest archives beyond the cap', () => {
+        const events = Array.from({ length: MAX_ARCHIVED_CONTRACTS + 1 }, (_, i) => archived(`c${i}`, 2));
+        const next = applyTransactions(createSyncState([], 1), [tx(2, events)]);
+
+        expect(next.archivedContracts.size).toBe(MAX_ARCHIVED_CONTRACTS);
+        expect(next.archivedContracts.has('c0')).toBe(false);
+        expect(next.acsTruncated).toBe(false);
+    });
+});
+
+describe('indexArchives', () => {
+    it('records archives up to the ACS offset with their creation', () => {
+        const state = createSyncState([], 10);
+        const next = indexArchives(state, [
+            tx(11, [archived('late', 11)]),
+            tx(6, [archived('a', 6)]),
+            tx(5, [created('a', 5)]),
+        ]);
+
+        expect([...next.archivedContracts.keys()]).toEqual(['a']);
+        expect(next.archivedContracts.get('a')?.contract).toMatchObject({ offset: 5, payload: { id: 'a' } });
+        expect(next.contracts).toBe(state.contracts);
+    });
+
+    it('returns the state unchanged when nothing was archived', () => {
+        const state = createSyncState([], 10);
+        expect(indexArchives(state, [tx(5, [created('a', 5)])])).toBe(state);
+    });
+});
+
+describe('selectContracts', () => {
+    it('selects by status, with placeholders for archives never seen created', () => {
+        const state = applyTransactions(createSyncState([contract('a')], 1), [tx(2, [archived('gone', 2)])]);
+
+        expect(selectContracts(state).map((c) => c.contractId)).toEqual(['a']);
+        expect(selectContracts(state, 'archived')).toEqual([
+            expect.objectContaining({ contractId: 'gone', payload: {}, offset: 2 }),
+        ]);
+        expect(selectContracts(state, 'all')).toHaveLength(2);
+    });
+});
+
+describe('fetchDelta', () => {
+    function client(ledgerEnd: number, pruned: number, pages: Array<Page<Transaction>> = []) {
+        const getTransactionsPage = vi.fn(async () => pages.shift() ?? { items: [], offset: ledgerEnd });
+        return {
+            client: {
+                ping: async () => ({ offset: ledgerEnd }),
+                getPrunedOffset: async () => pruned,
+                getTransactionsPage,
+            } as unknown as CantonClient,
+            getTransactionsPage,
+        };
+    }
+
+    it('is empty when already at the ledger end', async () => {
+        const { client: c, getTransactionsPage } = client(10, 0);
+        await expect(fetchDelta(c, 'alice', createSyncState([], 10))).resolves.toEqual([]);
+        expect(getTransactionsPage).not.toHaveBeenCalled();
+    });
+
+    it('follows the pages of the delta', async () => {
+        const { client: c, getTransactionsPage } = client(20, 0, [
+            { items: [tx(11, [])], nextPageToken: 'p2', offset: 20 },
+            { items: [tx(15, [])], offset: 20 },
+        ]);
+
+        const delta = await fetchDelta(c, 'alice', createSyncState([], 10));
+        expect(delta?.map((t) => t.offset)).toEqual([11, 15]);
+        expect(getTransactionsPage).toHaveBeenLastCalledWith(
+            'alice',
+            expect.objectContaining({ beginOffset: 10, endOffset: 20, pageToken: 'p2' })
+        );
+    });
+
+    it('is null when the ledger end is behind the state', async () => {
+        await expect(fetchDelta(client(5, 0).client, 'alice', createSyncState([], 10))).resolves.toBeNull();
+    });
+
+    it('is null when the history after the state was pruned', async () => {
+        await expect(fetchDelta(client(20, 12).client, 'alice', createSyncState([], 10))).resolves.toBeNull();
+    });
+
+    it('is null when the delta is too large to replay', async () => {
+        const items = Array.from({ length: MAX_DELTA_TRANSACTIONS + 1 }, (_, i) => tx(11 + i, []));
+        const { client: c } = client(MAX_DELTA_TRANSACTIONS + 20, 0, [{ items, nextPageToken: 'more', offset: 0 }]);
+        await expect(fetchDelta(c, 'alice', createSyncState([], 10))).resolves.toBeNull();
+    });
+});
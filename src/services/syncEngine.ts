@@ -0,0 +1,269 @@
+/**
+ * Ledger Sync Engine
+ *
+ * Keeps a party's view of the ledger current without re-reading it:
+ * - Bootstraps the active contract set (ACS) at a fixed offset
+ * - Applies only the updates committed after the last synced offset
+ * - Maintains an archive index (archive offset and time per contract)
+ * - Bounds the contracts and archives held in memory, evicting the oldest
+ *   entries as updates arrive; larger sets are paged from the server
+ *
+ * The functions are pure: callers own the state and decide where the
+ * transactions come from (REST delta queries or the live stream).
+ */
+
+import { createdEventToContract, type CantonClient } from './cantonClient';
+import type {
+    ArchivedContract,
+    Contract,
+    ContractId,
+    ContractQuery,
+    CreatedEvent,
+    LedgerOffset,
+    PartySet,
+    Transaction,
+} from '../types/canton';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SyncState {
+    contracts: Map<ContractId, Contract>;
+    archivedContracts: Map<ContractId, ArchivedContract>;
+    /** Offset of the ACS snapshot; null until bootstrapped */
+    acsOffset: LedgerOffset | null;
+    /** Every update up to and including this offset has been applied */
+    lastOffset: LedgerOffset;
+    /** The snapshot stopped at MAX_SYNCED_CONTRACTS; `contracts` is partial */
+    acsTruncated: boolean;
+}
+
+export type ContractStatus = NonNullable<ContractQuery['status']>;
+
+/**
+ * Largest ACS snapshot kept in memory. A working set for overviews and
+ * lookups; the contracts browser pages the full ACS from the server.
+ */
+export const MAX_SYNCED_CONTRACTS = 2000;
+const SNAPSHOT_PAGE_SIZE = 1000;
+/** Largest archive index kept in memory; the oldest archives are evicted beyond it */
+export const MAX_ARCHIVED_CONTRACTS = 5000;
+/** Largest delta replayed onto a sync state; further behind, a fresh snapshot is cheaper */
+export const MAX_DELTA_TRANSACTIONS = 5000;
+const DELTA_PAGE_SIZE = 500;
+
+// ============================================================================
+// State Transitions
+// ============================================================================
+
+/**
+ * Drop the first-inserted entries of `map` (in place) until it holds at most
+ * `max`. Returns whether anything was dropped.
+ */
+function evictOldest<K, V>(map: Map<K, V>, max: number): boolean {
+    if (map.size <= max) return false;
+    for (const key of map.keys()) {
+        if (map.size <= max) break;
+        map.delete(key);
+    }
+    return true;
+}
+
+/**
+ * Start a sync state from an ACS snapshot taken at `offset`.
+ */
+export function createSyncState(snapshot: Contract[], offset: LedgerOffset, truncated = false): SyncState {
+    return {
+        contracts: new Map(snapshot.map((c) => [c.contractId, c])),
+        archivedContracts: new Map(),
+        acsOffset: offset,
+        lastOffset: offset,
+        acsTruncated: truncated,
+    };
+}
+
+/**
+ * Apply transactions committed after the last synced offset. Transactions at
+ * or below it are skipped, so replays after a reconnect are harmless.
+ * Contracts beyond MAX_SYNCED_CONTRACTS and archives beyond
+ * MAX_ARCHIVED_CONTRACTS are evicted oldest first; evicting contracts marks
+ * the active set as truncated.
+ */
+export function applyTransactions(state: SyncState, transactions: Transaction[]): SyncState {
+    const pending = transactions
+        .filter((tx) => tx.offset > state.lastOffset)
+        .sort((a, b) => a.offset - b.offset);
+    if (pending.length === 0) {
+        return state;
+    }
+
+    const contracts = new Map(state.contracts);
+    const archivedContracts = new Map(state.archivedContracts);
+
+    for (const tx of pending) {
+        for (const event of tx.events) {
+            if (event.type === 'created') {
+                contracts.set(event.contractId, createdEventToContract(event, tx.offset, tx.effectiveAt));
+            } else if (event.type === 'archived') {
+                archivedContracts.set(event.contractId, {
+                    contractId: event.contractId,
+                    templateId: event.templateId,
+                    offset: tx.offset,
+                    archivedAt: tx.effectiveAt,
+                    contract: contracts.get(event.contractId),
+                });
+                contracts.delete(event.contractId);
+            }
+        }
+    }
+
+    const evicted = evictOldest(contracts, MAX_SYNCED_CONTRACTS);
+    evictOldest(archivedContracts, MAX_ARCHIVED_CONTRACTS);
+
+    return {
+        ...state,
+        contracts,
+        archivedContracts,
+        lastOffset: pending[pending.length - 1].offset,
+        acsTruncated: state.acsTruncated || evicted,
+    };
+}
+
+/**
+ * Record archives found in historical transactions (at or before the ACS
+ * offset) without touching the active set, which the snapshot already covers.
+ */
+export function indexArchives(state: SyncState, history: Transaction[]): SyncState {
+    const created = new Map<ContractId, { event: CreatedEvent; tx: Transaction }>();
+    let archivedContracts: Map<ContractId, ArchivedContract> | null = null;
+
+    for (const tx of [...history].sort((a, b) => a.offset - b.offset)) {
+        if (state.acsOffset === null || tx.offset > state.acsOffset) break;
+
+        for (const event of tx.events) {
+            if (event.type === 'created') {
+                created.set(event.contractId, { event, tx });
+            } else if (event.type === 'archived' && !state.archivedContracts.has(event.contractId)) {
+                const origin = created.get(event.contractId);
+                archivedContracts ??= new Map(state.archivedContracts);
+                archivedContracts.set(event.contractId, {
+                    contractId: event.contractId,
+                    templateId: event.templateId,
+                    offset: tx.offset,
+                    archivedAt: tx.effectiveAt,
+                    contract: origin
+                        ? createdEventToContract(origin.event, origin.tx.offset, origin.tx.effectiveAt)
+                        : undefined,
+                });
+            }
+        }
+    }
+
+    if (!archivedContracts) return state;
+    evictOldest(archivedContracts, MAX_ARCHIVED_CONTRACTS);
+    return { ...state, archivedContracts };
+}
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+/**
+ * Take an ACS snapshot at the current ledger end, page by page, stopping at
+ * MAX_SYNCED_CONTRACTS.
+ */
+export async function bootstrapSync(client: CantonClient, parties: PartySet): Promise<SyncState> {
+    const { offset } = await client.ping();
+    const snapshot: Contract[] = [];
+    let pageToken: string | undefined;
+    let truncated = false;
+
+    do {
+        const page = await client.getActiveContractsPage(parties, {
+            offset,
+            pageSize: SNAPSHOT_PAGE_SIZE,
+            pageToken,
+        });
+        snapshot.push(...page.items);
+        pageToken = page.nextPageToken;
+        truncated = page.truncated === true || (pageToken !== undefined && snapshot.length >= MAX_SYNCED_CONTRACTS);
+    } while (pageToken && !truncated);
+
+    return createSyncState(snapshot, offset, truncated);
+}
+
+/**
+ * Fetch the transactions committed since the last synced offset, page by
+ * page. Null when the sync state cannot be caught up and the ACS has to be
+ * bootstrapped again: the ledger end is behind it (the ledger was reset, e.g.
+ * a restarted sandbox), the history after it was pruned, or it is more than
+ * MAX_DELTA_TRANSACTIONS behind.
+ */
+export async function fetchDelta(
+    client: CantonClient,
+    parties: PartySet,
+    state: SyncState
+): Promise<Transaction[] | null> {
+    const [{ offset }, pruned] = await Promise.all([client.ping(), client.getPrunedOffset()]);
+    if (offset < state.lastOffset || pruned > state.lastOffset) {
+        return null;
+    }
+
+    if (offset === state.lastOffset) {
+        return [];
+    }
+
+    const transactions: Transaction[] = [];
+    let pageToken: string | undefined;
+    do {
+        const page = await client.getTransactionsPage(parties, {
+            beginOffset: state.lastOffset,
+            endOffset: offset,
+            pageSize: DELTA_PAGE_SIZE,
+            pageToken,
+        });
+        transactions.push(...page.items);
+        if (transactions.length > MAX_DELTA_TRANSACTIONS) {
+            return null;
+        }
+        pageToken = page.nextPageToken;
+    } while (pageToken);
+    return transactions;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * The contract behind an archive entry; an empty placeholder when its
+ * creation was never observed.
+ */
+export function archivedToContract(entry: ArchivedContract): Contract {
+    return entry.contract ?? {
+        contractId: entry.contractId,
+        templateId: entry.templateId,
+        payload: {},
+        stakeholders: [],
+        observers: [],
+        signatories: [],
+        createdAt: '',
+        offset: entry.offset,
+    };
+}
+
+/**
+ * Contracts by lifecycle status. Archived contracts whose creation was never
+ * observed are returned with an empty payload.
+ */
+export function selectContracts(
+    state: Pick<SyncState, 'contracts' | 'archivedContracts'>,
+    status: ContractStatus = 'active'
+): Contract[] {
+    const active = status === 'archived' ? [] : Array.from(state.contracts.values());
+    const archived = status === 'active'
+        ? []
+        : Array.from(state.archivedContracts.values()).map(archivedToContract);
+    return [...active, ...archived];
+}
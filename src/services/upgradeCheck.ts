@@ -0,0 +1,329 @@
+/**
+ * Upgrade Check
+ *
+ * Compares two versions of a Daml package under the Smart Contract Upgrade
+ * (SCU) rules, so a new version can be checked before it is deployed:
+ * - Templates, choices and interface instances added or removed
+ * - Template fields and choice arguments: new fields must be optional and
+ *   appended; existing fields keep their name, position and type
+ * - Variants and enums may only gain constructors at the end
+ * - Contract keys and interface definitions must not change
+ *
+ * The participant runs the authoritative check on upload; this one explains
+ * what changed and which changes it would reject.
+ */
+
+import type { Choice, DamlInterface, DamlPackage, DamlType, Template } from '../types/canton';
+import { describeType } from './damlValue';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChangeSeverity = 'breaking' | 'warning' | 'compatible';
+
+export type ChangeSubject = 'package' | 'template' | 'field' | 'key' | 'choice' | 'interface';
+
+export interface UpgradeChange {
+    severity: ChangeSeverity;
+    subject: ChangeSubject;
+    /** Qualified entity name (`Module:Entity`), absent for package-level changes */
+    entity?: string;
+    /** Location inside the entity, e.g. `Transfer.newOwner` */
+    path?: string;
+    message: string;
+}
+
+/** One package version, with the catalog entries it defines */
+export interface PackageVersion {
+    pkg: DamlPackage;
+    templates: Template[];
+    interfaces: DamlInterface[];
+}
+
+export interface UpgradeReport {
+    changes: UpgradeChange[];
+    counts: Record<ChangeSeverity, number>;
+    /** No breaking changes were found */
+    compatible: boolean;
+}
+
+export const SEVERITY_LABELS: Record<ChangeSeverity, string> = {
+    breaking: 'Breaking',
+    warning: 'Unverified',
+    compatible: 'Compatible',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const entityName = (entry: { moduleName: string; entityName: string }) => `${entry.moduleName}:${entry.entityName}`;
+
+/** Module and entity of a qualified ID, which differ across versions only in the package ID */
+const unqualified = (id: string) => id.split(':').slice(1).join(':');
+
+/**
+ * Compare dotted package versions numerically; non-numeric parts compare
+ * as text.
+ */
+export function compareVersions(a: string, b: string): number {
+    const partsA = a.split('.');
+    const partsB = b.split('.');
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const order = (partsA[i] ?? '0').localeCompare(partsB[i] ?? '0', undefined, { numeric: true });
+        if (order !== 0) return order;
+    }
+    return 0;
+}
+
+/**
+ * Group packages by name, each group sorted by ascending version.
+ * Packages without metadata cannot be upgraded and are left out.
+ */
+export function packageVersions(packages: DamlPackage[]): Map<string, DamlPackage[]> {
+    const groups = new Map<string, DamlPackage[]>();
+    packages.forEach((pkg) => {
+        if (!pkg.name || pkg.decodeError) return;
+        groups.set(pkg.name, [...(groups.get(pkg.name) ?? []), pkg]);
+    });
+    groups.forEach((versions) => versions.sort((a, b) => compareVersions(a.version ?? '', b.version ?? '')));
+    return groups;
+}
+
+// ============================================================================
+// Type Comparison
+// ============================================================================
+
+type Emit = (severity: ChangeSeverity, path: string, message: string) => void;
+
+const join = (path: string, segment: string) => (path ? `${path}.${segment}` : segment);
+
+/**
+ * Check that values of `before` can be read as `after`. `path` names the
+ * position being compared in messages.
+ */
+function compareTypes(before: DamlType, after: DamlType, path: string, emit: Emit): void {
+    if (before.tag !== after.tag) {
+        emit('breaking', path, `Type changed from ${describeType(before)} to ${describeType(after)}`);
+        return;
+    }
+
+    switch (before.tag) {
+        case 'record':
+            compareMembers(before.fields, (after as typeof before).fields, path, emit, 'field');
+            return;
+        case 'variant':
+            compareMembers(before.constructors, (after as typeof before).constructors, path, emit, 'constructor');
+            return;
+        case 'enum': {
+            const next = (after as typeof before).constructors;
+            const kept = before.constructors.every((name, i) => next[i] === name);
+            if (!kept) {
+                emit('breaking', path, 'Enum constructors were removed or reordered');
+            } else if (next.length > before.constructors.length) {
+                emit('compatible', path, `Enum constructors added: ${next.slice(before.constructors.length).join(', ')}`);
+            }
+            return;
+        }
+        case 'optional':
+        case 'list':
+            compareTypes(before.elementType, (after as typeof before).elementType, path, emit);
+            return;
+        case 'map':
+            compareTypes(before.keyType, (after as typeof before).keyType, path, emit);
+            compareTypes(before.valueType, (after as typeof before).valueType, path, emit);
+            return;
+        case 'textMap':
+            compareTypes(before.valueType, (after as typeof before).valueType, path, emit);
+            return;
+        case 'numeric':
+            if (before.scale !== (after as typeof before).scale) {
+                emit('breaking', path, `Numeric scale changed from ${before.scale} to ${(after as typeof before).scale}`);
+            }
+            return;
+        case 'contractId': {
+            const target = (after as typeof before).templateId;
+            if (before.templateId && target && unqualified(before.templateId) !== unqualified(target)) {
+                emit('breaking', path, `Contract ID now points to ${unqualified(target)}`);
+            }
+            return;
+        }
+        case 'unknown':
+            if (before.name !== (after as typeof before).name) {
+                emit('warning', path, `Could not compare ${before.name} with ${(after as typeof before).name}`);
+            }
+            return;
+        default:
+            return;
+    }
+}
+
+/**
+ * Record fields and variant constructors: existing members keep name and
+ * position, new ones go at the end. New record fields must be optional so
+ * existing contracts can be read without them.
+ */
+function compareMembers(
+    before: Array<{ name: string; type: DamlType }>,
+    after: Array<{ name: string; type: DamlType }>,
+    path: string,
+    emit: Emit,
+    member: 'field' | 'constructor'
+): void {
+    before.forEach((old, i) => {
+        const current = after[i];
+        if (current?.name === old.name) {
+            compareTypes(old.type, current.type, join(path, old.name), emit);
+        } else if (after.some((m) => m.name === old.name)) {
+            emit('breaking', join(path, old.name), `The ${member} moved from position ${i + 1}`);
+        } else {
+            emit('breaking', join(path, old.name), `The ${member} was removed`);
+        }
+    });
+
+    after.slice(before.length).forEach((added) => {
+        if (before.some((m) => m.name === added.name)) return;
+        const memberPath = join(path, added.name);
+        if (member === 'constructor') {
+            emit('compatible', memberPath, 'Constructor added');
+        } else if (added.type.tag === 'optional') {
+            emit('compatible', memberPath, `Optional field added (${describeType(added.type)})`);
+        } else {
+            emit('breaking', memberPath, `Field added with non-optional type ${describeType(added.type)}`);
+        }
+    });
+}
+
+// ============================================================================
+// Entity Comparison
+// ============================================================================
+
+function compareChoices(before: Choice[], after: Choice[], emit: Emit): void {
+    const next = new Map(after.map((choice) => [choice.name, choice]));
+
+    before.forEach((choice) => {
+        const current = next.get(choice.name);
+        if (!current) {
+            emit('breaking', choice.name, 'Choice removed');
+            return;
+        }
+        if (choice.consuming !== current.consuming) {
+            emit('breaking', choice.name, current.consuming ? 'Choice became consuming' : 'Choice became non-consuming');
+        }
+        compareTypes(choice.argType, current.argType, choice.name, emit);
+        compareTypes(choice.returnType, current.returnType, `${choice.name} (result)`, emit);
+    });
+
+    after
+        .filter((choice) => !before.some((c) => c.name === choice.name))
+        .forEach((choice) => emit('compatible', choice.name, 'Choice added'));
+}
+
+function compareTemplates(before: Template, after: Template, record: (change: UpgradeChange) => void): void {
+    const entity = entityName(before);
+    const emitter = (subject: ChangeSubject): Emit => (severity, path, message) =>
+        record({ severity, subject, entity, path: path || undefined, message });
+
+    if (before.argType && after.argType) {
+        compareTypes(before.argType, after.argType, '', emitter('field'));
+    } else if (before.argType || after.argType) {
+        emitter('field')('warning', '', 'Fields could not be decoded for one of the versions');
+    }
+
+    if (before.keyType && !after.keyType) {
+        emitter('key')('breaking', '', 'Contract key removed');
+    } else if (!before.keyType && after.keyType) {
+        emitter('key')('breaking', '', 'Contract key added');
+    } else if (before.keyType && after.keyType) {
+        // Keys identify contracts across versions, so even compatible changes break lookups
+        const keyChanges: string[] = [];
+        compareTypes(before.keyType, after.keyType, '', (_severity, path, message) =>
+            keyChanges.push(path ? `${path}: ${message}` : message)
+        );
+        keyChanges.forEach((message) => emitter('key')('breaking', '', `Key type changed: ${message}`));
+    }
+
+    compareChoices(before.choices, after.choices, emitter('choice'));
+
+    const implemented = new Set((after.implements ?? []).map(unqualified));
+    const previously = new Set((before.implements ?? []).map(unqualified));
+    previously.forEach((iface) => {
+        if (!implemented.has(iface)) emitter('interface')('breaking', iface, 'Interface instance removed');
+    });
+    implemented.forEach((iface) => {
+        if (!previously.has(iface)) emitter('interface')('compatible', iface, 'Interface instance added');
+    });
+}
+
+// ============================================================================
+// Package Comparison
+// ============================================================================
+
+/**
+ * Check whether `after` is a valid upgrade of `before`.
+ */
+export function checkUpgrade(before: PackageVersion, after: PackageVersion): UpgradeReport {
+    const changes: UpgradeChange[] = [];
+    const record = (change: UpgradeChange) => changes.push(change);
+
+    if (before.pkg.name !== after.pkg.name) {
+        record({
+            severity: 'breaking',
+            subject: 'package',
+            message: `Package names differ (${before.pkg.name ?? 'unnamed'} and ${after.pkg.name ?? 'unnamed'})`,
+        });
+    }
+    if (compareVersions(after.pkg.version ?? '', before.pkg.version ?? '') <= 0) {
+        record({
+            severity: 'breaking',
+            subject: 'package',
+            message: `Version ${after.pkg.version ?? '?'} is not greater than ${before.pkg.version ?? '?'}`,
+        });
+    }
+
+    const nextTemplates = new Map(after.templates.map((t) => [entityName(t), t]));
+    before.templates.forEach((template) => {
+        const current = nextTemplates.get(entityName(template));
+        if (current) {
+            compareTemplates(template, current, record);
+        } else {
+            record({ severity: 'breaking', subject: 'template', entity: entityName(template), message: 'Template removed' });
+        }
+    });
+    after.templates
+        .filter((t) => !before.templates.some((old) => entityName(old) === entityName(t)))
+        .forEach((t) => record({ severity: 'compatible', subject: 'template', entity: entityName(t), message: 'Template added' }));
+
+    // Interface definitions cannot be upgraded at all
+    const nextInterfaces = new Map(after.interfaces.map((i) => [entityName(i), i]));
+    before.interfaces.forEach((iface) => {
+        const entity = entityName(iface);
+        const current = nextInterfaces.get(entity);
+        if (!current) {
+            record({ severity: 'breaking', subject: 'interface', entity, message: 'Interface removed' });
+            return;
+        }
+        const differences: string[] = [];
+        compareChoices(iface.choices, current.choices, (_severity, path, message) => differences.push(`${path}: ${message}`));
+        if (iface.viewType && current.viewType) {
+            compareTypes(iface.viewType, current.viewType, 'view', (_severity, path, message) =>
+                differences.push(`${path}: ${message}`)
+            );
+        }
+        differences.forEach((message) =>
+            record({ severity: 'breaking', subject: 'interface', entity, message: `Interface definition changed: ${message}` })
+        );
+    });
+    if (after.interfaces.length > 0) {
+        record({
+            severity: 'warning',
+            subject: 'package',
+            message: 'The package defines interfaces; keep interfaces in a separate package so it can be upgraded',
+        });
+    }
+
+    const counts: Record<ChangeSeverity, number> = { breaking: 0, warning: 0, compatible: 0 };
+    changes.forEach((change) => counts[change.severity]++);
+    return { changes, counts, compatible: counts.breaking === 0 };
+}
@@ -0,0 +1,200 @@
+/**
+ * Workflows
+ *
+ * Follows multi-transaction business processes through the cached ledger:
+ * - Groups transactions by workflow ID, or by command-ID prefix for
+ *   applications that number the commands of one process
+ * - Orders each group into a timeline with the latency between steps
+ * - Tracks the contracts one step creates and a later step consumes
+ *
+ * Command IDs are only visible to the submitting parties, so command-prefix
+ * groups only contain their transactions.
+ */
+
+import type { ContractId, LedgerOffset, TemplateId, Transaction } from '../types/canton';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WorkflowGrouping = 'workflowId' | 'commandPrefix';
+
+export interface WorkflowSummary {
+    key: string;
+    transactions: Transaction[];
+    startedAt: string;
+    endedAt: string;
+    /** Milliseconds from the first step to the last */
+    duration: number;
+}
+
+/** A contract passed from one step of a workflow to a later one */
+export interface Handoff {
+    contractId: ContractId;
+    templateId: TemplateId;
+    /** Index of the step that created it */
+    from: number;
+    /** Index of the step that consumed or exercised it */
+    to: number;
+}
+
+export interface WorkflowContract {
+    contractId: ContractId;
+    templateId: TemplateId;
+}
+
+export interface WorkflowStep {
+    transaction: Transaction;
+    /** Milliseconds since the previous step; undefined for the first */
+    latency?: number;
+    created: WorkflowContract[];
+    /** Contracts archived or exercised by this step */
+    used: WorkflowContract[];
+    /** Used contracts that an earlier step created */
+    inputs: Handoff[];
+    /** Created contracts that a later step uses */
+    outputs: Handoff[];
+    /** Used contracts that come from outside the workflow */
+    external: WorkflowContract[];
+}
+
+export interface WorkflowTimeline {
+    steps: WorkflowStep[];
+    handoffs: Handoff[];
+    /** Contracts created by the workflow and never used by a later step */
+    results: WorkflowContract[];
+}
+
+/** Separators applications use between a process ID and a step name */
+const COMMAND_SEGMENT_PATTERN = /[-_:./][^-_:./]*$/;
+
+// ============================================================================
+// Grouping
+// ============================================================================
+
+/**
+ * The command ID without its last segment, e.g. `dvp-42` for `dvp-42-settle`.
+ * Undefined for command IDs without a separator.
+ */
+export function commandPrefix(commandId: string): string | undefined {
+    const prefix = commandId.replace(COMMAND_SEGMENT_PATTERN, '');
+    return prefix && prefix !== commandId ? prefix : undefined;
+}
+
+export function workflowKey(transaction: Transaction, grouping: WorkflowGrouping): string | undefined {
+    if (grouping === 'workflowId') {
+        return transaction.workflowId || undefined;
+    }
+    return transaction.commandId ? commandPrefix(transaction.commandId) : undefined;
+}
+
+const lastOffset = (group: WorkflowSummary): LedgerOffset => group.transactions[group.transactions.length - 1].offset;
+
+function summarize(key: string, transactions: Transaction[]): WorkflowSummary {
+    const ordered = [...transactions].sort((a, b) => a.offset - b.offset);
+    const startedAt = ordered[0].effectiveAt;
+    const endedAt = ordered[ordered.length - 1].effectiveAt;
+    return {
+        key,
+        transactions: ordered,
+        startedAt,
+        endedAt,
+        duration: Date.parse(endedAt) - Date.parse(startedAt),
+    };
+}
+
+/**
+ * Group transactions into workflows, most recently active first. Command
+ * prefixes shared by a single transaction are left out, as they are more
+ * likely unrelated IDs than a process.
+ */
+export function groupWorkflows(transactions: Transaction[], grouping: WorkflowGrouping): WorkflowSummary[] {
+    const groups = new Map<string, Transaction[]>();
+    transactions.forEach((tx) => {
+        const key = workflowKey(tx, grouping);
+        if (key) groups.set(key, [...(groups.get(key) ?? []), tx]);
+    });
+
+    return Array.from(groups, ([key, txs]) => summarize(key, txs))
+        .filter((group) => grouping === 'workflowId' || group.transactions.length > 1)
+        .sort((a, b) => lastOffset(b) - lastOffset(a));
+}
+
+/**
+ * The transactions whose command ID starts with `prefix`, as one workflow.
+ */
+export function workflowByPrefix(transactions: Transaction[], prefix: string): WorkflowSummary | undefined {
+    const matching = transactions.filter((tx) => tx.commandId?.startsWith(prefix));
+    return matching.length > 0 ? summarize(prefix, matching) : undefined;
+}
+
+// ============================================================================
+// Timeline
+// ============================================================================
+
+/**
+ * Order a workflow into steps and link the contracts passed between them.
+ * Flat transactions show consuming exercises as archives; exercised events,
+ * when present, also count as uses.
+ */
+export function buildTimeline(workflow: WorkflowSummary): WorkflowTimeline {
+    const createdIn = new Map<ContractId, number>();
+    const handoffs: Handoff[] = [];
+
+    const steps: WorkflowStep[] = workflow.transactions.map((transaction, index) => {
+        const created: WorkflowContract[] = [];
+        const used = new Map<ContractId, WorkflowContract>();
+        transaction.events.forEach((event) => {
+            const contract = { contractId: event.contractId, templateId: event.templateId };
+            if (event.type === 'created') {
+                created.push(contract);
+            } else {
+                used.set(event.contractId, contract);
+            }
+        });
+
+        const inputs: Handoff[] = [];
+        const external: WorkflowContract[] = [];
+        used.forEach((contract) => {
+            const from = createdIn.get(contract.contractId);
+            // Created and used in the same transaction is internal to the step
+            if (created.some((c) => c.contractId === contract.contractId)) return;
+            if (from === undefined) {
+                external.push(contract);
+            } else {
+                const handoff = { ...contract, from, to: index };
+                inputs.push(handoff);
+                handoffs.push(handoff);
+            }
+        });
+        created.forEach((c) => createdIn.set(c.contractId, index));
+
+        const previous = workflow.transactions[index - 1];
+        return {
+            transaction,
+            latency: previous ? Date.parse(transaction.effectiveAt) - Date.parse(previous.effectiveAt) : undefined,
+            created,
+            used: Array.from(used.values()),
+            inputs,
+            outputs: [],
+            external,
+        };
+    });
+
+    handoffs.forEach((handoff) => steps[handoff.from].outputs.push(handoff));
+
+    const usedWithin = new Set(steps.flatMap((step) => step.used.map((c) => c.contractId)));
+    const results = steps.flatMap((step) => step.created.filter((c) => !usedWithin.has(c.contractId)));
+
+    return { steps, handoffs, results };
+}
+
+/**
+ * Format a duration in milliseconds compactly, e.g. `850 ms`, `4.2 s`, `3 m 10 s`.
+ */
+export function formatDuration(ms: number): string {
+    if (ms < 1000) return `${Math.round(ms)} ms`;
+    if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+    if (ms < 3_600_000) return `${Math.floor(ms / 60_000)} m ${Math.round((ms % 60_000) / 1000)} s`;
+    return `${Math.floor(ms / 3_600_000)} h ${Math.round((ms % 3_600_000) / 60_000)} m`;
+}
@@ -14,6 +14,9 @@
 /** Party identifier in Canton format: DisplayName::fingerprint */
 export type PartyId = string;
 
+/** One party, or the union of several parties a query reads as */
+export type PartySet = PartyId | PartyId[];
+
 /** Contract identifier - unique across the ledger */
 export type ContractId = string;
 
@@ -45,6 +48,65 @@ export interface Party {
     displayName?: string;
     isLocal: boolean;
     identityProviderId?: string;
+    /** Participant-local metadata, without the display name */
+    annotations?: Record<string, string>;
+    /** Version of the party details, for concurrent change detection */
+    resourceVersion?: string;
+}
+
+export interface AllocatePartyOptions {
+    displayName?: string;
+    annotations?: Record<string, string>;
+    identityProviderId?: string;
+    /** Required when the participant is connected to several synchronizers */
+    synchronizerId?: string;
+    /** User to grant actAs rights on the new party */
+    userId?: string;
+}
+
+/** Changes to a party's local metadata; an empty value removes an annotation */
+export interface PartyDetailsUpdate {
+    displayName?: string;
+    annotations?: Record<string, string>;
+    /** Fails the update when the party changed since this version was read */
+    resourceVersion?: string;
+}
+
+/** A participant user, the identity ledger rights are granted to */
+export interface LedgerUser {
+    id: string;
+    primaryParty?: PartyId;
+    isDeactivated?: boolean;
+    identityProviderId?: string;
+}
+
+export type UserRight =
+    | { kind: 'CanActAs'; party: PartyId }
+    | { kind: 'CanReadAs'; party: PartyId }
+    | { kind: 'CanExecuteAs'; party: PartyId }
+    | { kind: 'CanReadAsAnyParty' }
+    | { kind: 'CanExecuteAsAnyParty' }
+    | { kind: 'ParticipantAdmin' }
+    | { kind: 'IdentityProviderAdmin' };
+
+/** What the current credentials allow for one party */
+export type PartyAccess = 'act' | 'read' | 'none';
+
+/**
+ * Why the lens sees a contract: a lens party signed it, is an observer on it,
+ * or saw it without being a stakeholder (as a witness, or by divulgence)
+ */
+export type ContractRole = 'signatory' | 'observer' | 'witness';
+
+/** Parties the current credentials may read and act as */
+export interface PartyRights {
+    /** Custom Daml token claims, the user's rights on the participant, or no auth at all */
+    source: 'token' | 'user' | 'unrestricted';
+    userId?: string;
+    actAs: PartyId[];
+    readAs: PartyId[];
+    readAsAnyParty: boolean;
+    admin: boolean;
 }
 
 /** Contract data */
@@ -59,6 +121,18 @@ export interface Contract {
     offset: LedgerOffset;
     contractKey?: unknown;
     createdEventBlob?: string;
+    /** Parties of the query the contract was disclosed to */
+    witnessParties?: PartyId[];
+    /** Views of the interfaces the contract was queried by */
+    interfaceViews?: InterfaceView[];
+}
+
+/** The value of an interface's view method on a contract */
+export interface InterfaceView {
+    interfaceId: TemplateId;
+    viewValue?: Record<string, unknown>;
+    /** Why the participant could not compute the view */
+    error?: string;
 }
 
 /** Archived contract reference */
@@ -67,6 +141,8 @@ export interface ArchivedContract {
     templateId: TemplateId;
     offset: LedgerOffset;
     archivedAt: string;
+    /** The contract as it was while active, when its creation was observed */
+    contract?: Contract;
 }
 
 /** Template metadata */
@@ -76,6 +152,26 @@ export interface Template {
     moduleName: string;
     entityName: string;
     choices: Choice[];
+    /** Create argument schema, when known from package metadata */
+    argType?: DamlType;
+    /** Contract key schema, for templates with a key */
+    keyType?: DamlType;
+    /** Interfaces implemented by this template */
+    implements?: TemplateId[];
+    packageName?: string;
+    packageVersion?: string;
+}
+
+/** Daml interface metadata */
+export interface DamlInterface {
+    interfaceId: TemplateId;
+    packageId: PackageId;
+    moduleName: string;
+    entityName: string;
+    choices: Choice[];
+    viewType?: DamlType;
+    /** Interfaces this interface requires */
+    requires: TemplateId[];
 }
 
 /** Choice on a template */
@@ -97,6 +193,50 @@ export interface Package {
     sourceDescription: string;
 }
 
+/** Decoded Daml-LF package contents */
+export interface DamlPackage {
+    packageId: PackageId;
+    name?: string;
+    version?: string;
+    /** Daml-LF version, e.g. `2.1` */
+    lfVersion?: string;
+    modules: string[];
+    /** Archive payload size in bytes */
+    size?: number;
+    /** Packages referenced from this package's types */
+    dependencies?: PackageId[];
+    /** When LedgerView first saw the package */
+    knownSince?: string;
+    templateIds: TemplateId[];
+    interfaceIds: TemplateId[];
+    /** Set when the archive could not be fetched or decoded */
+    decodeError?: string;
+}
+
+export interface UploadDarOptions {
+    /** Vet the DAR's packages on upload (the participant's default is true) */
+    vetAllPackages?: boolean;
+    /** Required when the participant is connected to several synchronizers */
+    synchronizerId?: string;
+}
+
+/** A package vetted by a participant on a synchronizer */
+export interface VettedPackage {
+    packageId: PackageId;
+    packageName?: string;
+    packageVersion?: string;
+    /** Vetting window; an absent bound is unbounded */
+    validFrom?: string;
+    validUntil?: string;
+}
+
+/** The packages one participant has vetted on one synchronizer */
+export interface VettingState {
+    participantId: string;
+    synchronizerId: string;
+    packages: VettedPackage[];
+}
+
 // ============================================================================
 // Events
 // ============================================================================
@@ -109,6 +249,8 @@ export interface BaseEvent {
     templateId: TemplateId;
     offset: LedgerOffset;
     nodeId: number;
+    /** Requesting parties the event is visible to */
+    witnessParties?: PartyId[];
 }
 
 export interface CreatedEvent extends BaseEvent {
@@ -118,6 +260,12 @@ export interface CreatedEvent extends BaseEvent {
     signatories: PartyId[];
     observers: PartyId[];
     createdEventBlob?: string;
+    /** Set for events matched by an interface filter requesting views */
+    interfaceViews?: Array<{
+        interfaceId: TemplateId;
+        viewStatus?: { code: number; message?: string };
+        viewValue?: Record<string, unknown>;
+    }>;
 }
 
 export interface ExercisedEvent extends BaseEvent {
@@ -152,6 +300,88 @@ export interface TransactionTree extends Transaction {
     eventsById: Record<string, Event>;
 }
 
+// ============================================================================
+// Commands
+// ============================================================================
+
+export type Command =
+    | { CreateCommand: CreateCommand }
+    | { ExerciseCommand: ExerciseCommand }
+    | { ExerciseByKeyCommand: ExerciseByKeyCommand }
+    | { CreateAndExerciseCommand: CreateAndExerciseCommand };
+
+export interface CreateCommand {
+    templateId: TemplateId;
+    createArguments: Record<string, unknown>;
+}
+
+export interface ExerciseCommand {
+    templateId: TemplateId;
+    contractId: ContractId;
+    choice: string;
+    choiceArgument: unknown;
+}
+
+export interface ExerciseByKeyCommand {
+    templateId: TemplateId;
+    contractKey: unknown;
+    choice: string;
+    choiceArgument: unknown;
+}
+
+export interface CreateAndExerciseCommand {
+    templateId: TemplateId;
+    createArguments: Record<string, unknown>;
+    choice: string;
+    choiceArgument: unknown;
+}
+
+export type DeduplicationPeriod =
+    | { DeduplicationDuration: { value: { seconds: number; nanos: number } } }
+    | { DeduplicationOffset: { value: LedgerOffset } }
+    | { Empty: Record<string, never> };
+
+/** A batch of commands submitted atomically */
+export interface CommandSubmission {
+    commands: Command[];
+    commandId: CommandId;
+    actAs: PartyId[];
+    readAs?: PartyId[];
+    userId?: string;
+    workflowId?: WorkflowId;
+    submissionId?: string;
+    deduplicationPeriod?: DeduplicationPeriod;
+}
+
+/** Submission options exposed in the UI */
+export interface CommandOptions {
+    actAs: PartyId[];
+    readAs?: PartyId[];
+    commandId?: CommandId;
+    workflowId?: WorkflowId;
+    /** Deduplication window in seconds; omitted uses the participant default */
+    deduplicationSeconds?: number;
+}
+
+/** Outcome of a submitted command, from the command completion stream */
+export interface CommandCompletion {
+    commandId: CommandId;
+    /** User the command was submitted as */
+    userId: string;
+    /** Acting parties, limited to the parties the completions were read for */
+    actAs: PartyId[];
+    submissionId?: string;
+    /** gRPC status code and message; code 0 means the command succeeded */
+    status: { code: number; message: string };
+    /** The resulting update, for successful commands */
+    updateId?: UpdateId;
+    offset: LedgerOffset;
+    synchronizerId?: string;
+    recordTime?: string;
+    /** Traffic paid for the confirmation request, when reported */
+    paidTrafficCost?: number;
+}
+
 // ============================================================================
 // Filters and Queries
 // ============================================================================
@@ -222,6 +452,26 @@ export interface TransactionQuery {
     limit?: number;
 }
 
+/** Opaque continuation token; pass it back to fetch the next page */
+export type PageToken = string;
+
+export interface PageOptions {
+    /** Maximum items per page, enforced by the server */
+    pageSize?: number;
+    /** Token from the previous page; omit for the first page */
+    pageToken?: PageToken;
+}
+
+export interface Page<T> {
+    items: T[];
+    /** Absent on the last page */
+    nextPageToken?: PageToken;
+    /** ACS snapshot offset, or the upper end of the update window, the page was read at */
+    offset: LedgerOffset;
+    /** More items exist, but the participant cannot page past this one */
+    truncated?: boolean;
+}
+
 // ============================================================================
 // API Responses
 // ============================================================================
@@ -253,15 +503,88 @@ export interface ListPackagesResponse {
     packageIds: PackageId[];
 }
 
+// ============================================================================
+// Streaming
+// ============================================================================
+
+export type StreamStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'closed';
+
+/** Item delivered by the /v2/updates WebSocket */
+export type UpdateStreamItem =
+    | { type: 'transaction'; transaction: Transaction }
+    | { type: 'checkpoint'; offset: LedgerOffset };
+
+/** Server-side stream error (JsCantonError) */
+export interface StreamErrorMessage {
+    code: string;
+    cause: string;
+}
+
 // ============================================================================
 // Connection & Configuration
 // ============================================================================
 
 export interface ConnectionConfig {
     endpoint: string;
+    /** Bearer token sent to the participant; managed by `oauth` when set */
     authToken?: string;
     useTls?: boolean;
     tlsCertPath?: string;
+    oauth?: OAuthConfig;
+}
+
+export type OAuthFlow = 'authorization-code' | 'client-credentials';
+
+/** OAuth2 / OIDC settings for obtaining and refreshing participant tokens */
+export interface OAuthConfig {
+    flow: OAuthFlow;
+    /** Issuer URL; endpoints come from its OpenID configuration */
+    issuer: string;
+    clientId: string;
+    /** Client credentials flow only */
+    clientSecret?: string;
+    audience?: string;
+    scope?: string;
+    /** Overrides for IdPs without OpenID discovery */
+    authorizationEndpoint?: string;
+    tokenEndpoint?: string;
+}
+
+export interface TokenSet {
+    accessToken: string;
+    refreshToken?: string;
+    idToken?: string;
+    /** Expiry of the access token, epoch milliseconds */
+    expiresAt?: number;
+}
+
+/** Ledger rights and metadata decoded from an access token */
+export interface LedgerTokenInfo {
+    /** Scope-based tokens carry rights per user; custom Daml tokens list parties */
+    format: 'user' | 'custom-daml';
+    userId?: string;
+    issuer?: string;
+    audience: string[];
+    scope?: string;
+    participantId?: string;
+    actAs: PartyId[];
+    readAs: PartyId[];
+    admin: boolean;
+    /** Epoch milliseconds */
+    expiresAt?: number;
+    issuedAt?: number;
+}
+
+/** A named, saved connection: participant, auth, Scan and default party */
+export interface ConnectionProfile {
+    id: string;
+    name: string;
+    connection: ConnectionConfig;
+    scanUrl?: string;
+    scanMemberId?: string;
+    /** Party the lens switches to after connecting, when hosted */
+    defaultPartyId?: string;
+    createdAt: string;
 }
 
 export interface ConnectionStatus {
@@ -274,7 +597,7 @@ export interface ConnectionStatus {
 
 export interface PartyLensConfig {
     activeParty: Party | null;
-    viewAsObserver: boolean;
+    visibleRoles: ContractRole[];
     visibleTemplates: TemplateId[];
 }
 
@@ -310,6 +633,17 @@ export interface ContractLifecycle {
     createdEvent: CreatedEvent;
     exercises: ExercisedEvent[];
     archivedEvent?: ArchivedEvent;
+    /** Update that produced each lifecycle event, keyed by offset */
+    updates: Record<LedgerOffset, LifecycleUpdate>;
+    /** The scan for exercises stopped here, short of the archive or ledger end */
+    scannedTo?: LedgerOffset;
+}
+
+export interface LifecycleUpdate {
+    updateId: UpdateId;
+    effectiveAt: string;
+    commandId?: CommandId;
+    workflowId?: WorkflowId;
 }
 
 // ============================================================================
@@ -365,9 +699,11 @@ export interface CSVRow {
 // ============================================================================
 
 export type DamlType =
+    | { tag: 'unit' }
     | { tag: 'text' }
     | { tag: 'int64' }
     | { tag: 'decimal' }
+    | { tag: 'numeric'; scale: number }
     | { tag: 'bool' }
     | { tag: 'party' }
     | { tag: 'date' }
@@ -376,9 +712,12 @@ export type DamlType =
     | { tag: 'list'; elementType: DamlType }
     | { tag: 'optional'; elementType: DamlType }
     | { tag: 'map'; keyType: DamlType; valueType: DamlType }
+    | { tag: 'textMap'; valueType: DamlType }
     | { tag: 'record'; fields: Array<{ name: string; type: DamlType }> }
     | { tag: 'variant'; constructors: Array<{ name: string; type: DamlType }> }
-    | { tag: 'enum'; constructors: string[] };
+    | { tag: 'enum'; constructors: string[] }
+    /** Types that cannot be expressed as a form (type variables, recursion, Any) */
+    | { tag: 'unknown'; name: string };
 
 // ============================================================================
 // Node Health Types
@@ -17,6 +17,8 @@ export default defineConfig({
             '/v2': {
                 target: 'http://localhost:7575',
                 changeOrigin: true,
+                // Streams (/v2/updates, /v2/state/active-contracts) use WebSockets
+                ws: true,
             },
         },
     },